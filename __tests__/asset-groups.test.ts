@@ -0,0 +1,169 @@
+/**
+ * Asset Grouping Tests
+ * Files sharing an asset folder are listed, described and deleted as one
+ * asset, and folders with the same name in different directories are
+ * different assets.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { FileIndex, InvalidCursorError } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createAssetsRoute } from "../src/routes/assets";
+import {
+  deleteAsset,
+  getAsset,
+  getAssetFileRole,
+  listAssets,
+} from "../src/utils/asset-groups";
+import { listTrash } from "../src/utils/trash";
+
+async function createAssets() {
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(new MemoryStorageBackend(), index, [
+    "models",
+    "music",
+  ]);
+  await storage.write("models/sword/sword.glb", "x".repeat(100));
+  await storage.write("models/sword/base.png", "x".repeat(20));
+  await storage.write("models/sword/sword.preview.png", "x".repeat(5));
+  await storage.write("models/sword/metadata.json", "{}");
+  await storage.write("models/axe/axe.gltf", "{}");
+  await storage.write("models/axe/axe.bin", "x".repeat(10));
+  await storage.write("music/theme/theme.mp3", "x".repeat(50));
+  return { index, storage };
+}
+
+describe("asset groups", () => {
+  test("assigns roles to files by name and extension", () => {
+    expect(getAssetFileRole("models/a/a.glb")).toBe("model");
+    expect(getAssetFileRole("models/a/a.bin")).toBe("model");
+    expect(getAssetFileRole("models/a/albedo.PNG")).toBe("texture");
+    expect(getAssetFileRole("models/a/a.preview.jpg")).toBe("thumbnail");
+    expect(getAssetFileRole("models/a/thumbnail.webp")).toBe("thumbnail");
+    expect(getAssetFileRole("models/a/metadata.json")).toBe("metadata");
+    expect(getAssetFileRole("music/a/a.ogg")).toBe("audio");
+    expect(getAssetFileRole("models/a/readme.md")).toBe("other");
+  });
+
+  test("describes an asset with its files, size and last update", async () => {
+    const { index } = await createAssets();
+    const asset = getAsset(index, "models/sword")!;
+
+    expect(asset).toMatchObject({
+      id: "models/sword",
+      type: "model",
+      fileCount: 4,
+      totalSize: 127,
+      thumbnail: "models/sword/sword.preview.png",
+    });
+    expect(asset.files.map((file) => [file.name, file.role])).toEqual([
+      ["base.png", "texture"],
+      ["metadata.json", "metadata"],
+      ["sword.glb", "model"],
+      ["sword.preview.png", "thumbnail"],
+    ]);
+    expect(asset.lastModified).toBe(
+      new Date(
+        Math.max(
+          ...index.assetFiles("models/sword").map((f) => f.lastModified),
+        ),
+      ).toISOString(),
+    );
+    expect(getAsset(index, "models/missing")).toBeNull();
+    expect(getAsset(index, "sword")).toBeNull();
+  });
+
+  test("lists assets by type with cursor pagination", async () => {
+    const { index } = await createAssets();
+
+    expect(
+      listAssets(index, { type: "model", limit: 10 }).assets.map((a) => a.id),
+    ).toEqual(["models/axe", "models/sword"]);
+    expect(
+      listAssets(index, { type: "audio", limit: 10 }).assets,
+    ).toMatchObject([{ id: "music/theme", type: "audio", totalSize: 50 }]);
+
+    const first = listAssets(index, { limit: 2 });
+    expect(first.total).toBe(3);
+    expect(first.assets.map((a) => a.id)).toEqual([
+      "models/axe",
+      "models/sword",
+    ]);
+    const second = listAssets(index, { limit: 2, cursor: first.nextCursor! });
+    expect(second.total).toBe(3);
+    expect(second.assets.map((a) => a.id)).toEqual(["music/theme"]);
+    expect(second.nextCursor).toBeNull();
+
+    // Type filters count and page in the query too
+    const models = listAssets(index, { type: "model", limit: 1 });
+    expect(models.total).toBe(2);
+    expect(
+      listAssets(index, { type: "model", limit: 1, cursor: models.nextCursor! })
+        .assets,
+    ).toMatchObject([{ id: "models/sword", type: "model" }]);
+    expect(listAssets(index, { type: "image", limit: 10 }).total).toBe(0);
+
+    expect(() => listAssets(index, { limit: 2, cursor: "bad" })).toThrow(
+      InvalidCursorError,
+    );
+  });
+
+  test("deletes every file of an asset into the trash", async () => {
+    const { index, storage } = await createAssets();
+    const result = await deleteAsset(storage, index, "models/sword", "tester");
+
+    expect(result.deleted.sort()).toEqual([
+      "models/sword/base.png",
+      "models/sword/metadata.json",
+      "models/sword/sword.glb",
+      "models/sword/sword.preview.png",
+    ]);
+    expect(result.failed).toBe(0);
+    expect(getAsset(index, "models/sword")).toBeNull();
+    expect(getAsset(index, "models/axe")?.fileCount).toBe(2);
+    expect((await listTrash(storage)).length).toBe(4);
+  });
+
+  test("keeps same-named folders in different directories apart", async () => {
+    const { index, storage } = await createAssets();
+    await storage.write("models/combat/combat.glb", "x".repeat(30));
+    await storage.write("music/combat/battle.mp3", "x".repeat(40));
+    // Loose files at the top of a directory are not assets
+    await storage.write("music/loose.mp3", "x");
+    const route = createAssetsRoute(storage, ["models", "music"], index);
+    const request = (method: string, path: string) =>
+      route.handle(
+        new Request(`http://localhost/api/assets${path}`, { method }),
+      );
+
+    expect(
+      listAssets(index, { limit: 10 }).assets.map((asset) => asset.id),
+    ).toEqual([
+      "models/axe",
+      "models/combat",
+      "models/sword",
+      "music/combat",
+      "music/theme",
+    ]);
+    expect(index.get("music/loose.mp3")?.assetId).toBeNull();
+
+    const music = await request("GET", "/music/combat");
+    expect((await music.json()).asset).toMatchObject({
+      id: "music/combat",
+      type: "audio",
+      files: [{ path: "music/combat/battle.mp3" }],
+    });
+
+    expect(await (await request("DELETE", "/models/combat")).json()).toEqual({
+      success: true,
+      deleted: 1,
+      failed: 0,
+    });
+    expect((await listTrash(storage)).map((e) => e.originalPath)).toEqual([
+      "models/combat/combat.glb",
+    ]);
+    expect(getAsset(index, "music/combat")?.fileCount).toBe(1);
+    expect((await request("GET", "/models/combat")).status).toBe(404);
+  });
+});
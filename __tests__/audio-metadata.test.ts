@@ -0,0 +1,237 @@
+/**
+ * Audio Metadata Tests
+ * Files are synthesised in-memory: only the headers the parser reads are
+ * meaningful, the audio payload is silence/zeros
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { bytesSource } from "../src/utils/gltf";
+import {
+  AudioParseError,
+  getAudioMetadata,
+  parseAudio,
+} from "../src/utils/audio-metadata";
+import { u32le } from "./fixtures/audio";
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+function id3Frame(id: string, value: string): Uint8Array {
+  const body = concat(new Uint8Array([3]), text(value));
+  const header = new Uint8Array(10);
+  header.set(text(id));
+  new DataView(header.buffer).setUint32(4, body.byteLength);
+  return concat(header, body);
+}
+
+/**
+ * MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo frames (417 bytes)
+ */
+function mp3(frames: number, xingFrames?: number): Uint8Array {
+  const frame = () => {
+    const data = new Uint8Array(417);
+    data.set([0xff, 0xfb, 0x90, 0x44]);
+    return data;
+  };
+  const first = frame();
+  if (xingFrames !== undefined) {
+    first.set(text("Xing"), 36);
+    new DataView(first.buffer).setUint32(40, 1);
+    new DataView(first.buffer).setUint32(44, xingFrames);
+  }
+
+  const frames3 = concat(
+    id3Frame("TIT2", "Night Market"),
+    id3Frame("TPE1", "Asset Forge"),
+    id3Frame("TBPM", "96"),
+  );
+  const tagHeader = concat(text("ID3"), new Uint8Array([3, 0, 0]));
+  const size = frames3.byteLength;
+  const syncsafe = new Uint8Array([
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f,
+  ]);
+  return concat(
+    tagHeader,
+    syncsafe,
+    frames3,
+    first,
+    ...Array.from({ length: frames - 1 }, frame),
+  );
+}
+
+function wav(seconds: number): Uint8Array {
+  const sampleRate = 22050;
+  const byteRate = sampleRate * 2 * 2;
+  const fmt = new Uint8Array(16);
+  const dv = new DataView(fmt.buffer);
+  dv.setUint16(0, 1, true);
+  dv.setUint16(2, 2, true);
+  dv.setUint32(4, sampleRate, true);
+  dv.setUint32(8, byteRate, true);
+  dv.setUint16(12, 4, true);
+  dv.setUint16(14, 16, true);
+  const title = text("Door Creak\0\0");
+  const info = concat(
+    text("INFO"),
+    text("INAM"),
+    u32le(title.byteLength),
+    title,
+  );
+  const data = new Uint8Array(byteRate * seconds);
+  const body = concat(
+    text("WAVE"),
+    text("fmt "),
+    u32le(16),
+    fmt,
+    text("LIST"),
+    u32le(info.byteLength),
+    info,
+    text("data"),
+    u32le(data.byteLength),
+    data,
+  );
+  return concat(text("RIFF"), u32le(body.byteLength), body);
+}
+
+function oggPage(serial: number, granule: bigint, packet: Uint8Array) {
+  const header = new Uint8Array(28);
+  header.set(text("OggS"));
+  const dv = new DataView(header.buffer);
+  dv.setBigInt64(6, granule, true);
+  dv.setUint32(14, serial, true);
+  header[26] = 1;
+  header[27] = packet.byteLength;
+  return concat(header, packet);
+}
+
+function vorbisComments(prefix: Uint8Array, comments: string[]): Uint8Array {
+  return concat(
+    prefix,
+    u32le(6),
+    text("vendor"),
+    u32le(comments.length),
+    ...comments.flatMap((comment) => [
+      u32le(text(comment).byteLength),
+      text(comment),
+    ]),
+  );
+}
+
+function oggVorbis(samples: number): Uint8Array {
+  const id = new Uint8Array(30);
+  id.set([1, ...text("vorbis")]);
+  const dv = new DataView(id.buffer);
+  id[11] = 2;
+  dv.setUint32(12, 44100, true);
+  dv.setInt32(20, 112000, true);
+  const comments = vorbisComments(concat(new Uint8Array([3]), text("vorbis")), [
+    "TITLE=Footsteps",
+    "TRACKNUMBER=4",
+  ]);
+  return concat(
+    oggPage(7, 0n, id),
+    oggPage(7, 0n, comments),
+    oggPage(7, 1000n, new Uint8Array(200)),
+    oggPage(7, BigInt(samples), new Uint8Array(200)),
+  );
+}
+
+function oggOpus(samples: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  head.set(text("OpusHead"));
+  const dv = new DataView(head.buffer);
+  head[8] = 1;
+  head[9] = 1;
+  dv.setUint16(10, preSkip, true);
+  dv.setUint32(12, 24000, true);
+  return concat(
+    oggPage(3, 0n, head),
+    oggPage(3, 0n, vorbisComments(text("OpusTags"), ["ARTIST=Narrator"])),
+    oggPage(3, BigInt(samples + preSkip), new Uint8Array(100)),
+  );
+}
+
+describe("parseAudio", () => {
+  test("reads CBR and Xing VBR MP3 with ID3v2 tags", async () => {
+    const cbr = await parseAudio(bytesSource(mp3(100)));
+    expect(cbr).toMatchObject({
+      container: "mp3",
+      codec: "mp3",
+      sampleRate: 44100,
+      channels: 2,
+      bitrate: 128000,
+      vbr: false,
+      tags: { title: "Night Market", artist: "Asset Forge", bpm: "96" },
+    });
+    expect(cbr.duration).toBeCloseTo(2.6, 1);
+
+    const vbr = await parseAudio(bytesSource(mp3(10, 500)));
+    expect(vbr.vbr).toBe(true);
+    expect(vbr.duration).toBeCloseTo((500 * 1152) / 44100, 3);
+  });
+
+  test("reads WAV format, length and INFO tags", async () => {
+    expect(await parseAudio(bytesSource(wav(2)))).toEqual({
+      container: "wav",
+      codec: "pcm",
+      duration: 2,
+      sampleRate: 22050,
+      channels: 2,
+      bitrate: 22050 * 32,
+      bitsPerSample: 16,
+      tags: { title: "Door Creak" },
+    });
+  });
+
+  test("reads Ogg Vorbis and Opus durations from the last page", async () => {
+    const vorbis = await parseAudio(bytesSource(oggVorbis(44100 * 3)));
+    expect(vorbis).toMatchObject({
+      container: "ogg",
+      codec: "vorbis",
+      duration: 3,
+      sampleRate: 44100,
+      channels: 2,
+      tags: { title: "Footsteps", track: "4" },
+    });
+
+    const opus = await parseAudio(bytesSource(oggOpus(48000 * 2, 312)));
+    expect(opus).toMatchObject({
+      codec: "opus",
+      duration: 2,
+      sampleRate: 24000,
+      channels: 1,
+      tags: { artist: "Narrator" },
+    });
+  });
+});
+
+describe("getAudioMetadata", () => {
+  test("caches by ETag and reports unreadable files", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("music/calm/loop.wav", wav(1));
+    const first = await getAudioMetadata(storage, "music/calm/loop.wav");
+    expect(first?.metadata.duration).toBe(1);
+    expect(await getAudioMetadata(storage, "music/calm/loop.wav")).toEqual(
+      first!,
+    );
+
+    await storage.write("media/voice/bad.mp3", new Uint8Array([1, 2, 3]));
+    await expect(
+      getAudioMetadata(storage, "media/voice/bad.mp3"),
+    ).rejects.toThrow(AudioParseError);
+    expect(await getAudioMetadata(storage, "media/voice/none.ogg")).toBeNull();
+  });
+});
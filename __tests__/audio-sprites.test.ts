@@ -0,0 +1,199 @@
+/**
+ * Audio Sprite Tests
+ * Members are short 8kHz sine WAVs, so the positions of sounds in the
+ * built files can be checked against the sprite map by their level.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import {
+  SpriteBuildError,
+  createSprite,
+  isSpriteStale,
+  readSpriteDefinition,
+  rebuildSpritesFor,
+} from "../src/utils/audio-sprites";
+import { decodeMp3 } from "../src/utils/mp3-decoder";
+import { u32le } from "./fixtures/audio";
+
+const RATE = 8000;
+
+/**
+ * 16-bit mono WAV of a half-scale 400Hz sine
+ */
+function sineWav(seconds: number): Uint8Array {
+  const length = Math.round(seconds * RATE);
+  const data = new DataView(new ArrayBuffer(length * 2));
+  for (let i = 0; i < length; i++) {
+    const value = 0.5 * Math.sin((2 * Math.PI * 400 * i) / RATE);
+    data.setInt16(i * 2, Math.round(value * 32767), true);
+  }
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, 1, true);
+  fmt.setUint16(2, 1, true);
+  fmt.setUint32(4, RATE, true);
+  fmt.setUint32(8, RATE * 2, true);
+  fmt.setUint16(12, 2, true);
+  fmt.setUint16(14, 16, true);
+  const body = Buffer.concat([
+    Buffer.from("WAVEfmt "),
+    u32le(16),
+    new Uint8Array(fmt.buffer),
+    Buffer.from("data"),
+    u32le(data.byteLength),
+    new Uint8Array(data.buffer),
+  ]);
+  return Buffer.concat([Buffer.from("RIFF"), u32le(body.byteLength), body]);
+}
+
+/**
+ * Peak level between two times in milliseconds
+ */
+function peak(samples: Float32Array, startMs: number, endMs: number): number {
+  let max = 0;
+  const end = Math.round((endMs / 1000) * RATE);
+  for (let i = Math.round((startMs / 1000) * RATE); i < end; i++) {
+    max = Math.max(max, Math.abs(samples[i]));
+  }
+  return max;
+}
+
+async function readJson(storage: MemoryStorageBackend, key: string) {
+  return JSON.parse(new TextDecoder().decode((await storage.read(key))!));
+}
+
+describe("audio sprites", () => {
+  test("builds sprite files whose sounds sit at the mapped offsets", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/sfx/hit.wav", sineWav(0.25));
+    await storage.write("media/sfx/jump.wav", sineWav(0.5));
+
+    const definition = await createSprite(
+      storage,
+      {
+        name: "ui",
+        paths: ["media/sfx/jump.wav", "media/sfx/hit.wav"],
+        gap: 250,
+        formats: ["mp3", "wav"],
+      },
+      null,
+    );
+
+    // 1105 samples of lead-in, then 4000 of jump and 2000 of gap
+    const sprite = { jump: [138, 500], hit: [888, 250] };
+    expect(definition.build!.sprite).toEqual(sprite as any);
+    expect(definition.build!.files).toEqual({
+      map: "media/sprites/ui.json",
+      mp3: "media/sprites/ui.mp3",
+      wav: "media/sprites/ui.wav",
+    });
+
+    const howler = await readJson(storage, "media/sprites/ui.json");
+    expect(howler.sprite).toEqual(sprite);
+    expect(howler.src.map((url: string) => url.split("/").pop())).toEqual([
+      "ui.mp3",
+      "ui.wav",
+    ]);
+
+    const wav = (await storage.read("media/sprites/ui.wav"))!;
+    const pcm = new Int16Array(wav.slice(44).buffer);
+    const wavSamples = Float32Array.from(pcm, (value) => value / 32767);
+
+    const mp3Chunks: Float32Array[] = [];
+    decodeMp3((await storage.read("media/sprites/ui.mp3"))!, (samples) =>
+      mp3Chunks.push(samples.slice()),
+    );
+    const mp3Samples = Float32Array.from(
+      mp3Chunks.flatMap((chunk) => [...chunk]),
+    );
+
+    for (const samples of [wavSamples, mp3Samples]) {
+      for (const [start, duration] of Object.values(sprite)) {
+        expect(
+          peak(samples, start + 20, start + duration - 20),
+        ).toBeGreaterThan(0.4);
+        expect(
+          peak(samples, start + duration + 20, start + duration + 230),
+        ).toBeLessThan(0.05);
+      }
+      expect(peak(samples, 0, 120)).toBeLessThan(0.05);
+    }
+  });
+
+  test("rebuilds when a member file changes", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/sfx/hit.wav", sineWav(0.25));
+    await createSprite(
+      storage,
+      { name: "ui", paths: ["media/sfx/hit.wav"], formats: ["wav"] },
+      null,
+    );
+
+    // Unrelated changes leave the sprite alone
+    await storage.write("media/sfx/other.wav", sineWav(0.1));
+    await rebuildSpritesFor(storage, ["media/sfx/other.wav"]);
+    let definition = (await readSpriteDefinition(storage, "ui"))!;
+    expect(definition.build!.sprite.hit).toEqual([138, 250]);
+
+    // Make sure the new content gets a different ETag
+    await Bun.sleep(5);
+    await storage.write("media/sfx/hit.wav", sineWav(0.75));
+    expect(await isSpriteStale(storage, definition)).toBe(true);
+
+    await rebuildSpritesFor(storage, ["media/sfx/hit.wav"]);
+    definition = (await readSpriteDefinition(storage, "ui"))!;
+    expect(definition.build!.sprite.hit).toEqual([138, 750]);
+    expect(await isSpriteStale(storage, definition)).toBe(false);
+    expect(
+      (await readJson(storage, "media/sprites/ui.json")).sprite.hit,
+    ).toEqual([138, 750]);
+  });
+
+  test("builds folders in natural order and rejects undecodable members", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/sfx/10.wav", sineWav(0.1));
+    await storage.write("media/sfx/2.wav", sineWav(0.2));
+    await storage.write("media/sfx/readme.txt", "not audio");
+
+    const definition = await createSprite(
+      storage,
+      { name: "pack", folder: "media/sfx", gap: 0, formats: ["wav"] },
+      null,
+    );
+    expect(definition.build!.members.map((member) => member.name)).toEqual([
+      "2",
+      "10",
+    ]);
+    expect(definition.build!.sprite).toEqual({
+      "2": [138, 200],
+      "10": [338, 100],
+    });
+
+    // A new file in the folder joins the sprite
+    await storage.write("media/sfx/3.wav", sineWav(0.1));
+    await rebuildSpritesFor(storage, ["media/sfx/3.wav"]);
+    const rebuilt = (await readSpriteDefinition(storage, "pack"))!.build!;
+    expect(rebuilt.members.map((member) => member.name)).toEqual([
+      "2",
+      "3",
+      "10",
+    ]);
+    expect(rebuilt.sprite["10"]).toEqual([438, 100]);
+
+    await storage.write("media/sfx/broken.mp3", new Uint8Array(100));
+    await expect(
+      createSprite(
+        storage,
+        { name: "broken", paths: ["media/sfx/broken.mp3"] },
+        null,
+      ),
+    ).rejects.toThrow(SpriteBuildError);
+    await expect(
+      createSprite(
+        storage,
+        { name: "missing", paths: ["media/sfx/nope.wav"] },
+        null,
+      ),
+    ).rejects.toThrow(SpriteBuildError);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Backup Tests
+ * Snapshots, listing, restores that skip unchanged files, pruning, and the
+ * change hooks that follow a restore through the backups route
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createBackupsRoute } from "../src/routes/backups";
+import { createSprite, readSpriteDefinition } from "../src/utils/audio-sprites";
+import { handleAssetChanges } from "../src/utils/asset-changes";
+import { createBackup, listBackups, restoreBackup } from "../src/utils/backups";
+import { blobKey, hashContent } from "../src/utils/content-store";
+import { getRevisions, writeVersioned } from "../src/utils/version-history";
+import { listTrash } from "../src/utils/trash";
+import { wav } from "./fixtures/audio";
+
+const DIRS = ["models", "media"];
+const text = (value: string) => new TextEncoder().encode(value);
+
+function createBackups() {
+  const storage = new MemoryStorageBackend();
+  const route = createBackupsRoute(storage, DIRS);
+  const request = (path: string, body?: object) =>
+    route.handle(
+      new Request(`http://localhost/api/backups${path}`, {
+        method: body ? "POST" : "GET",
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      }),
+    );
+  return { storage, request };
+}
+
+async function readText(storage: MemoryStorageBackend, key: string) {
+  const data = await storage.read(key);
+  return data ? new TextDecoder().decode(data) : null;
+}
+
+describe("backups", () => {
+  test("snapshots files into the blob store, sharing stored content", async () => {
+    const { storage } = createBackups();
+    // Uploaded through version history, so its blob already exists
+    await writeVersioned(storage, "models/axe.glb", text("axe"), null);
+    // Written straight to the volume, so the backup stores it
+    await storage.write("media/hit.mp3", "hit");
+
+    const backup = await createBackup(storage, DIRS, "manual");
+    expect(backup).toMatchObject({
+      trigger: "manual",
+      directories: DIRS,
+      fileCount: 2,
+      totalSize: 6,
+      storedSize: 3,
+    });
+    expect(await readText(storage, blobKey(hashContent("hit")))).toBe("hit");
+    expect((await storage.list(".cdn/tmp")).map((entry) => entry.key)).toEqual(
+      [],
+    );
+
+    // Nothing new to store the second time
+    const second = await createBackup(storage, DIRS, "scheduled");
+    expect(second.storedSize).toBe(0);
+    expect((await listBackups(storage)).map((b) => b.id)).toEqual([
+      second.id,
+      backup.id,
+    ]);
+  });
+
+  test("restores changed and deleted files and skips unchanged ones", async () => {
+    const { storage } = createBackups();
+    await writeVersioned(storage, "models/axe.glb", text("axe"), null);
+    await writeVersioned(storage, "models/bow.glb", text("bow"), null);
+    await writeVersioned(storage, "media/hit.mp3", text("hit"), null);
+    const backup = await createBackup(storage, DIRS, "manual");
+
+    await writeVersioned(storage, "models/axe.glb", text("broken"), null);
+    await storage.delete("models/bow.glb");
+    await storage.write("models/new.glb", "new");
+
+    const summary = await restoreBackup(storage, backup.id, {
+      prune: true,
+      restoredBy: "alice",
+    });
+    expect(summary).toEqual({
+      restored: 2,
+      unchanged: 1,
+      pruned: 1,
+      changedPaths: ["models/axe.glb", "models/bow.glb", "models/new.glb"],
+    });
+    expect(await readText(storage, "models/axe.glb")).toBe("axe");
+    expect(await readText(storage, "models/bow.glb")).toBe("bow");
+    expect(await storage.stat("models/new.glb")).toBeNull();
+    expect((await listTrash(storage)).map((e) => e.originalPath)).toEqual([
+      "models/new.glb",
+    ]);
+
+    // Restored files get a revision, unchanged files are not rewritten
+    const axe = await getRevisions(storage, "models/axe.glb");
+    expect(axe[axe.length - 1]).toMatchObject({
+      version: 3,
+      uploadedBy: "alice",
+    });
+    expect(await getRevisions(storage, "media/hit.mp3")).toHaveLength(1);
+  });
+
+  test("restoring an unchanged volume writes nothing", async () => {
+    const { storage } = createBackups();
+    await storage.write("models/axe.glb", "axe");
+    const backup = await createBackup(storage, DIRS, "manual");
+
+    expect(
+      await restoreBackup(storage, backup.id, { restoredBy: null }),
+    ).toEqual({ restored: 0, unchanged: 1, pruned: 0, changedPaths: [] });
+    expect(await getRevisions(storage, "models/axe.glb")).toEqual([]);
+  });
+
+  test("creates, lists and restores through the route", async () => {
+    const { storage, request } = createBackups();
+    await storage.write("models/axe.glb", "axe");
+
+    const created = await request("", {});
+    expect(created.status).toBe(200);
+    const { backup, removed } = await created.json();
+    expect(backup.fileCount).toBe(1);
+    expect(removed).toEqual([]);
+
+    const listed = await (await request("")).json();
+    expect(listed.backups).toEqual([backup]);
+
+    await storage.write("models/axe.glb", "oops");
+    const restored = await request(`/${backup.id}/restore`, { prune: false });
+    expect(await restored.json()).toEqual({
+      success: true,
+      restored: 1,
+      unchanged: 0,
+      pruned: 0,
+    });
+    expect(await readText(storage, "models/axe.glb")).toBe("axe");
+
+    for (const id of ["backup-20200101T000000000Z", "latest"]) {
+      const missing = await request(`/${id}/restore`, {});
+      expect(missing.status).toBe(404);
+      expect((await missing.json()).error).toBe("Backup not found");
+    }
+  });
+
+  test("restoring a sprite member rebuilds the sprite", async () => {
+    const { storage, request } = createBackups();
+    await storage.write("media/sfx/hit.wav", wav(1));
+    await storage.write("media/sfx/jump.wav", wav(1));
+    await createSprite(
+      storage,
+      { name: "ui", folder: "media/sfx", formats: ["wav"] },
+      null,
+    );
+    const backup = await createBackup(storage, DIRS, "manual");
+
+    await storage.delete("media/sfx/hit.wav");
+    await handleAssetChanges(null, storage, ["media/sfx/hit.wav"]);
+    const members = async () =>
+      (await readSpriteDefinition(storage, "ui"))!.build!.members.map(
+        (member) => member.path,
+      );
+    expect(await members()).toEqual(["media/sfx/jump.wav"]);
+
+    const response = await request(`/${backup.id}/restore`, {});
+    expect(response.status).toBe(200);
+    expect(await members()).toEqual([
+      "media/sfx/hit.wav",
+      "media/sfx/jump.wav",
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Emote Catalog Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import {
+  buildEmoteCatalog,
+  checkCompatibility,
+  loadReferenceSkeleton,
+} from "../src/utils/emote-catalog";
+
+const emote = (name: string) =>
+  readFileSync(join(import.meta.dir, "../emotes", name));
+
+describe("buildEmoteCatalog", () => {
+  test("lists animated GLBs and follows uploads and deletions", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("emotes/emote-idle.glb", emote("emote-idle.glb"));
+    await storage.write(
+      "emotes/base-environment.glb",
+      emote("base-environment.glb"),
+    );
+
+    const first = await buildEmoteCatalog(storage);
+    expect(first.emotes.map((e) => e.id)).toEqual(["emote-idle"]);
+    expect(first.emotes[0]).toMatchObject({
+      url: "/emotes/emote-idle.glb",
+      loop: true,
+      compatibility: null,
+    });
+    expect(first.emotes[0].duration).toBeGreaterThan(0);
+    expect(first.emotes[0].bones).toContain("mixamorig:Hips");
+
+    await storage.write("emotes/emote-flip.glb", emote("emote-flip.glb"));
+    const second = await buildEmoteCatalog(storage);
+    expect(second.etag).not.toBe(first.etag);
+    expect(second.emotes.find((e) => e.id === "emote-flip")?.loop).toBe(false);
+
+    await storage.delete("emotes/emote-flip.glb");
+    expect((await buildEmoteCatalog(storage)).etag).toBe(first.etag);
+  });
+
+  test("checks bones against a reference skeleton", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("emotes/emote-idle.glb", emote("emote-idle.glb"));
+    await storage.write("models/scene.glb", emote("base-environment.glb"));
+
+    expect(await loadReferenceSkeleton(storage, "models/scene.glb")).toBeNull();
+
+    const reference = await loadReferenceSkeleton(
+      storage,
+      "emotes/emote-idle.glb",
+    );
+    const { emotes } = await buildEmoteCatalog(storage, reference);
+    expect(emotes[0].compatibility?.compatible).toBe(true);
+
+    // Rig namespaces are ignored, unknown bones are reported
+    expect(checkCompatibility(["mixamorig1:Hips", "Tail"], reference!)).toEqual(
+      { compatible: false, matched: 1, missing: ["Tail"] },
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * File Index Tests
+ * The index must follow writes, renames and deletes made through the
+ * indexed backend as well as changes made to storage behind its back.
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileIndex, InvalidCursorError } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { LocalStorageBackend } from "../src/storage/local";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { hashContent } from "../src/utils/content-store";
+import { queryFiles } from "../src/utils/file-helpers";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createIndexed() {
+  const inner = new MemoryStorageBackend();
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(inner, index, ["models", "music"]);
+  return { inner, index, storage };
+}
+
+describe("file index", () => {
+  test("tracks size, type, hash and asset ID of written files", async () => {
+    const { index, storage } = createIndexed();
+    await storage.write("models/sword/sword.glb", "glb");
+    await storage.write(
+      "models/sword/notes.txt",
+      new Blob(["streamed"]).stream(),
+    );
+    await storage.write(".cdn/cache/x", "not indexed");
+
+    expect(index.get("models/sword/sword.glb")).toMatchObject({
+      size: 3,
+      extension: ".glb",
+      hash: hashContent("glb"),
+      assetId: "models/sword",
+    });
+    expect(index.get(".cdn/cache/x")).toBeNull();
+
+    // Streamed content is hashed in the background
+    await storage.whenHashed();
+    expect(index.get("models/sword/notes.txt")?.hash).toBe(
+      hashContent("streamed"),
+    );
+    expect(index.stats("models")).toEqual({ fileCount: 2, totalSize: 11 });
+    expect(index.stats("music")).toEqual({ fileCount: 0, totalSize: 0 });
+  });
+
+  test("follows renames and deletes", async () => {
+    const { index, storage } = createIndexed();
+    await storage.write("models/a/a.glb", "a");
+    await storage.rename("models/a/a.glb", "models/b/b.glb");
+
+    expect(index.get("models/a/a.glb")).toBeNull();
+    expect(index.get("models/b/b.glb")).toMatchObject({
+      assetId: "models/b",
+      hash: hashContent("a"),
+    });
+
+    // Moving in from outside the indexed directories (staged uploads)
+    await storage.write(".cdn/tmp/upload", "music");
+    await storage.rename(".cdn/tmp/upload", "music/track.mp3");
+    expect(index.get("music/track.mp3")?.size).toBe(5);
+
+    // A hash passed along with the rename is recorded without re-reading
+    await storage.write(".cdn/tmp/staged", "staged");
+    await storage.rename(
+      ".cdn/tmp/staged",
+      "models/c/c.glb",
+      hashContent("staged"),
+    );
+    expect(index.get("models/c/c.glb")?.hash).toBe(hashContent("staged"));
+
+    await storage.delete("models/b/b.glb");
+    await storage.delete("models/c/c.glb");
+    expect(index.list("models")).toEqual([]);
+    expect((await storage.list("music")).map((e) => e.key)).toEqual([
+      "music/track.mp3",
+    ]);
+  });
+
+  test("reconcile picks up changes made behind the index", async () => {
+    const { inner, index, storage } = createIndexed();
+    await storage.write("models/a/a.glb", "a");
+    await storage.write("models/b/b.glb", "b");
+
+    await inner.write("models/c/c.glb", "c");
+    await inner.delete("models/a/a.glb");
+    await Bun.sleep(2);
+    await inner.write("models/b/b.glb", "bigger");
+
+    expect(await storage.reconcile()).toEqual({
+      added: 1,
+      updated: 1,
+      removed: 1,
+    });
+    expect(index.list("models").map((file) => file.key)).toEqual([
+      "models/b/b.glb",
+      "models/c/c.glb",
+    ]);
+
+    // The changed file's old hash is dropped and recomputed
+    await storage.whenHashed();
+    expect(index.get("models/b/b.glb")?.hash).toBe(hashContent("bigger"));
+    expect(await storage.reconcile()).toEqual({
+      added: 0,
+      updated: 0,
+      removed: 0,
+    });
+  });
+
+  test("stores audio metadata with the hash", async () => {
+    const { inner, index, storage } = createIndexed();
+    const fixture = (name: string) =>
+      Bun.file(join(import.meta.dir, "fixtures", name)).bytes();
+    await storage.write("music/combat/tone.mp3", await fixture("tone.mp3"));
+    await storage.write("music/combat/broken.mp3", "not audio");
+    await inner.write("music/intro/tone.ogg", await fixture("tone.ogg"));
+    await storage.reconcile();
+
+    expect(index.get("music/combat/tone.mp3")?.audio).toMatchObject({
+      container: "mp3",
+      codec: "mp3",
+    });
+    expect(index.get("music/combat/broken.mp3")?.audio).toBeNull();
+
+    // Files found by reconcile get theirs when they are hashed
+    expect(index.get("music/intro/tone.ogg")?.audio).toBeNull();
+    await storage.whenHashed();
+    expect(index.get("music/intro/tone.ogg")?.audio?.codec).toBe("vorbis");
+
+    // Listings are served from the index
+    const { files } = queryFiles(index, ["music"], {});
+    expect(
+      files.map((file) => [file.path, file.audio?.duration ?? null]),
+    ).toEqual([
+      ["music/combat/broken.mp3", null],
+      ["music/combat/tone.mp3", expect.any(Number)],
+      ["music/intro/tone.ogg", expect.any(Number)],
+    ]);
+
+    // A changed file drops its metadata until it is read again
+    await Bun.sleep(2);
+    await inner.write("music/combat/tone.mp3", "replaced");
+    await storage.refresh("music/combat/tone.mp3");
+    expect(index.get("music/combat/tone.mp3")?.audio).toBeNull();
+  });
+
+  test("watches a local volume for out-of-band changes", async () => {
+    const root = mkdtempSync(join(tmpdir(), "cdn-index-"));
+    tempDirs.push(root);
+    const index = new FileIndex(join(root, "index.sqlite"));
+    const storage = new IndexedStorageBackend(
+      new LocalStorageBackend(root),
+      index,
+      ["models"],
+    );
+    const watchers = await storage.watch(root);
+
+    try {
+      writeFileSync(join(root, "models", "dropped.glb"), "glb");
+      for (let i = 0; i < 40 && !index.get("models/dropped.glb"); i++) {
+        await Bun.sleep(50);
+      }
+      expect(index.get("models/dropped.glb")?.size).toBe(3);
+
+      rmSync(join(root, "models", "dropped.glb"));
+      for (let i = 0; i < 40 && index.get("models/dropped.glb"); i++) {
+        await Bun.sleep(50);
+      }
+      expect(index.get("models/dropped.glb")).toBeNull();
+    } finally {
+      watchers.forEach((watcher) => watcher.close());
+      await storage.whenHashed();
+      index.close();
+    }
+  });
+
+  test("queries with filters, sorting and cursor pagination", async () => {
+    const { index, storage } = createIndexed();
+    await storage.write("models/Sword/sword.glb", "x".repeat(300));
+    await storage.write("models/sword/sword.png", "x".repeat(100));
+    await storage.write("models/axe/axe.glb", "x".repeat(200));
+    await storage.write("music/sword-theme.mp3", "x".repeat(400));
+    await storage.write("music/intro.mp3", "x".repeat(50));
+
+    const keys = (page: { files: { key: string }[] }) =>
+      page.files.map((file) => file.key);
+    const base = { directories: ["models", "music"], limit: 10 };
+
+    expect(
+      keys(index.query({ ...base, name: "*SWORD*", sort: "size" })),
+    ).toEqual([
+      "models/sword/sword.png",
+      "models/Sword/sword.glb",
+      "music/sword-theme.mp3",
+    ]);
+    expect(
+      keys(index.query({ ...base, extensions: [".GLB"], order: "desc" })),
+    ).toEqual(["models/axe/axe.glb", "models/Sword/sword.glb"]);
+    expect(
+      keys(index.query({ ...base, prefix: "models/sword", minSize: 50 })),
+    ).toEqual(["models/sword/sword.png"]);
+    expect(index.query({ ...base, minSize: 100, maxSize: 300 }).total).toBe(3);
+    expect(
+      index.query({ ...base, modifiedSince: Date.now() + 60_000 }).files,
+    ).toEqual([]);
+
+    // Paging by size visits every file once, ties broken by path
+    await storage.write("models/axe/axe.png", "x".repeat(200));
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = index.query({
+        ...base,
+        sort: "size",
+        order: "desc",
+        limit: 2,
+        cursor,
+      });
+      expect(page.total).toBe(6);
+      seen.push(...keys(page));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual([
+      "music/sword-theme.mp3",
+      "models/Sword/sword.glb",
+      "models/axe/axe.png",
+      "models/axe/axe.glb",
+      "models/sword/sword.png",
+      "music/intro.mp3",
+    ]);
+
+    // Cursors only continue the listing they came from
+    const first = index.query({ ...base, sort: "size", limit: 1 });
+    expect(() =>
+      index.query({ ...base, sort: "name", cursor: first.nextCursor! }),
+    ).toThrow(InvalidCursorError);
+    expect(() => index.query({ ...base, cursor: "garbage" })).toThrow(
+      InvalidCursorError,
+    );
+  });
+});
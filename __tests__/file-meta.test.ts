@@ -0,0 +1,304 @@
+/**
+ * File Metadata and Search Tests
+ * Tags and metadata are stored in storage, mirrored into the index and
+ * searchable together with the file's path and its asset's metadata.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { FileIndex } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createUploadRoute } from "../src/routes/upload";
+import { getTypeExtensions } from "../src/utils/asset-groups";
+import {
+  MetadataError,
+  parseMetadataField,
+  readMeta,
+  renameFileMeta,
+  syncMetaIndex,
+  updateMeta,
+} from "../src/utils/file-meta";
+
+async function createLibrary() {
+  const inner = new MemoryStorageBackend();
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(inner, index, ["models", "music"]);
+  await storage.write("models/sword-steel/sword.glb", "glb");
+  await storage.write("models/sword-steel/sword.png", "png");
+  await storage.write("models/axe/axe.glb", "glb");
+  await storage.write("music/npc-gareth/voice_1763075769580.mp3", "mp3");
+  await storage.write("music/npc-gareth/voice_1763075770112.mp3", "mp3");
+  await storage.write("music/ambient/forest.mp3", "mp3");
+  return { inner, index, storage };
+}
+
+const paths = (page: { files: { key: string }[] }) =>
+  page.files.map((file) => file.key);
+
+describe("file metadata", () => {
+  test("updates replace, add and remove tags and merge metadata", async () => {
+    const { index, storage } = await createLibrary();
+    const key = "models/axe/axe.glb";
+
+    await updateMeta(
+      storage,
+      index,
+      "file",
+      key,
+      { tags: ["Weapon", " weapon ", "Melee"], metadata: { tier: 2 } },
+      "tester",
+    );
+    const record = await updateMeta(
+      storage,
+      index,
+      "file",
+      key,
+      {
+        addTags: ["two-handed"],
+        removeTags: ["melee"],
+        metadata: { tier: null, material: "iron" },
+      },
+      null,
+    );
+
+    expect(record.tags).toEqual(["weapon", "two-handed"]);
+    expect(record.metadata).toEqual({ material: "iron" });
+    expect(await readMeta(storage, "file", key)).toMatchObject({
+      tags: ["weapon", "two-handed"],
+      metadata: { material: "iron" },
+    });
+    expect(index.getMeta("file", key)).toEqual({
+      tags: ["weapon", "two-handed"],
+      metadata: { material: "iron" },
+    });
+
+    // Clearing everything removes the record
+    await updateMeta(
+      storage,
+      index,
+      "file",
+      key,
+      { tags: [], metadata: { material: null } },
+      null,
+    );
+    expect(await readMeta(storage, "file", key)).toBeNull();
+    expect(index.getMeta("file", key)).toBeNull();
+  });
+
+  test("rejects malformed tags and metadata", async () => {
+    const { index, storage } = await createLibrary();
+    expect(() => parseMetadataField("[1, 2]")).toThrow(MetadataError);
+    expect(() => parseMetadataField("not json")).toThrow(MetadataError);
+    await expect(
+      updateMeta(
+        storage,
+        index,
+        "file",
+        "models/axe/axe.glb",
+        { metadata: { nested: { a: 1 } as any } },
+        null,
+      ),
+    ).rejects.toThrow(MetadataError);
+    await expect(
+      updateMeta(
+        storage,
+        index,
+        "file",
+        "models/axe/axe.glb",
+        { tags: ["a,b"] },
+        null,
+      ),
+    ).rejects.toThrow(MetadataError);
+  });
+
+  test("searches paths, tags and metadata of files and their assets", async () => {
+    const { index, storage } = await createLibrary();
+    await updateMeta(
+      storage,
+      index,
+      "asset",
+      "music/npc-gareth",
+      { tags: ["npc", "voice"], metadata: { character: "Gareth the Smith" } },
+      null,
+    );
+    await updateMeta(
+      storage,
+      index,
+      "file",
+      "music/npc-gareth/voice_1763075770112.mp3",
+      { metadata: { line: "Welcome to my forge" } },
+      null,
+    );
+    const search = (query: object) => index.search({ limit: 10, ...query });
+
+    // Words may match the path, the file's metadata or the asset's
+    expect(paths(search({ text: "gareth forge" }))).toEqual([
+      "music/npc-gareth/voice_1763075770112.mp3",
+    ]);
+    expect(paths(search({ text: "Smi" }))).toHaveLength(2);
+    expect(
+      paths(search({ text: "sword", ...getTypeExtensions("model") })),
+    ).toEqual(["models/sword-steel/sword.glb"]);
+    expect(search({ text: '"OR* (' }).total).toBe(0);
+
+    // Tags come from the file or its asset
+    const tagged = search({ tags: ["npc", "voice"] });
+    expect(tagged.total).toBe(2);
+    expect(tagged.files[1]).toMatchObject({
+      tags: ["npc", "voice"],
+      metadata: { character: "Gareth the Smith", line: "Welcome to my forge" },
+    });
+    expect(search({ tags: ["npc"], text: "forest" }).total).toBe(0);
+    expect(paths(search(getTypeExtensions("image")))).toEqual([
+      "models/sword-steel/sword.png",
+    ]);
+
+    // Offset cursors walk the whole result
+    const first = search({ limit: 4 });
+    expect(first.total).toBe(6);
+    const second = search({ limit: 4, cursor: first.nextCursor! });
+    expect(paths(second)).toHaveLength(2);
+    expect(second.nextCursor).toBeNull();
+
+    // Deleted files drop out of search; asset metadata updates reach the
+    // remaining files
+    await storage.delete("music/npc-gareth/voice_1763075769580.mp3");
+    await updateMeta(
+      storage,
+      index,
+      "asset",
+      "music/npc-gareth",
+      { metadata: { character: "Old Tom" } },
+      null,
+    );
+    expect(paths(search({ text: "gareth" }))).toEqual([
+      "music/npc-gareth/voice_1763075770112.mp3",
+    ]);
+    expect(paths(search({ text: "tom" }))).toEqual([
+      "music/npc-gareth/voice_1763075770112.mp3",
+    ]);
+  });
+
+  test("follows renames and rebuilds a fresh index from storage", async () => {
+    const { inner, index, storage } = await createLibrary();
+    await updateMeta(
+      storage,
+      index,
+      "file",
+      "models/axe/axe.glb",
+      { tags: ["weapon"] },
+      null,
+    );
+    await updateMeta(
+      storage,
+      index,
+      "asset",
+      "models/sword-steel",
+      { tags: ["weapon"] },
+      null,
+    );
+
+    await storage.rename("models/axe/axe.glb", "models/axe/hatchet.glb");
+    await renameFileMeta(
+      storage,
+      index,
+      "models/axe/axe.glb",
+      "models/axe/hatchet.glb",
+    );
+    expect(paths(index.search({ tags: ["weapon"], limit: 10 }))).toEqual([
+      "models/axe/hatchet.glb",
+      "models/sword-steel/sword.glb",
+      "models/sword-steel/sword.png",
+    ]);
+
+    // A new (e.g. in-memory) index picks the records up from storage
+    const fresh = new FileIndex(":memory:");
+    const reopened = new IndexedStorageBackend(inner, fresh, [
+      "models",
+      "music",
+    ]);
+    await reopened.reconcile();
+    expect(await syncMetaIndex(reopened, fresh)).toBe(2);
+    expect(fresh.search({ tags: ["weapon"], limit: 10 }).total).toBe(3);
+    await reopened.whenHashed();
+    await storage.whenHashed();
+  });
+
+  test("uploads key asset records by directory-scoped asset ID", async () => {
+    const { index, storage } = await createLibrary();
+    await storage.write("music/combat/battle.mp3", "mp3");
+    const route = createUploadRoute(storage, ["models", "music"], index);
+
+    const form = new FormData();
+    form.append("directory", "models");
+    form.append("assetTags", "battle");
+    form.append("files", new Blob(["{}"]), "combat/info.json");
+    const response = await route.handle(
+      new Request("http://localhost/api/upload", {
+        method: "POST",
+        body: form,
+      }),
+    );
+    expect(response.status).toBe(200);
+
+    expect(await readMeta(storage, "asset", "models/combat")).toMatchObject({
+      ref: "models/combat",
+      tags: ["battle"],
+    });
+    expect(await readMeta(storage, "asset", "combat")).toBeNull();
+    // music/combat is a different asset
+    expect(paths(index.search({ tags: ["battle"], limit: 10 }))).toEqual([
+      "models/combat/info.json",
+    ]);
+  });
+
+  test("rejects uploads with oversized form fields", async () => {
+    const { index, storage } = await createLibrary();
+    const route = createUploadRoute(storage, ["models", "music"], index);
+
+    const form = new FormData();
+    form.append("directory", "models");
+    form.append("metadata", JSON.stringify({ notes: "x".repeat(70_000) }));
+    form.append("files", new Blob(["{}"]), "combat/info.json");
+    const response = await route.handle(
+      new Request("http://localhost/api/upload", {
+        method: "POST",
+        body: form,
+      }),
+    );
+    expect(response.status).toBe(400);
+    expect(await storage.stat("models/combat/info.json")).toBeNull();
+  });
+
+  test("moves records of bare asset IDs to the assets they applied to", async () => {
+    const { index, storage } = await createLibrary();
+    await storage.write("models/combat/combat.glb", "glb");
+    await storage.write("music/combat/battle.mp3", "mp3");
+    // Written before asset IDs included the directory
+    await storage.write(
+      ".cdn/meta/assets/combat.json",
+      JSON.stringify({
+        kind: "asset",
+        ref: "combat",
+        tags: ["battle"],
+        metadata: { act: 2 },
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        updatedBy: null,
+      }),
+    );
+
+    expect(await syncMetaIndex(storage, index)).toBe(2);
+    expect(await readMeta(storage, "asset", "combat")).toBeNull();
+    for (const ref of ["models/combat", "music/combat"]) {
+      expect(await readMeta(storage, "asset", ref)).toMatchObject({
+        ref,
+        tags: ["battle"],
+        metadata: { act: 2 },
+      });
+    }
+    expect(paths(index.search({ tags: ["battle"], limit: 10 }))).toEqual([
+      "models/combat/combat.glb",
+      "music/combat/battle.mp3",
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Audio Test Fixtures
+ * Helpers for building small audio files in tests
+ */
+
+export function u32le(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+/**
+ * Silent 8kHz mono 8-bit WAV
+ */
+export function wav(seconds: number): Uint8Array {
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, 1, true);
+  fmt.setUint16(2, 1, true);
+  fmt.setUint32(4, 8000, true);
+  fmt.setUint32(8, 8000, true);
+  fmt.setUint16(12, 1, true);
+  fmt.setUint16(14, 8, true);
+  const data = new Uint8Array(8000 * seconds).fill(128);
+  const body = Buffer.concat([
+    Buffer.from("WAVEfmt "),
+    u32le(16),
+    new Uint8Array(fmt.buffer),
+    Buffer.from("data"),
+    u32le(data.byteLength),
+    data,
+  ]);
+  return Buffer.concat([Buffer.from("RIFF"), u32le(body.byteLength), body]);
+}
@@ -0,0 +1,219 @@
+/**
+ * Generation Metadata Tests
+ * Records are checked, stored per file, mirrored into the index for
+ * listings and search, and files of one run are grouped by the timestamps
+ * in their names, within a folder.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { FileIndex } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { queryFiles } from "../src/utils/file-helpers";
+import { MetadataError } from "../src/utils/file-meta";
+import {
+  extractGenerationTimestamp,
+  generationRunId,
+  parseGenerationField,
+  readGeneration,
+  renameGeneration,
+  syncGenerationIndex,
+  writeGeneration,
+} from "../src/utils/generation-meta";
+
+async function createLibrary() {
+  const inner = new MemoryStorageBackend();
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(inner, index, ["music"]);
+  await storage.write("music/npc-gareth/music_1763075769598.mp3", "mp3");
+  await storage.write("music/npc-gareth/voice_1763075769599.wav", "wav");
+  await storage.write("music/npc-gareth/voice_1763075770112.wav", "wav");
+  await storage.write("music/ambient/forest.mp3", "mp3");
+  return { inner, index, storage };
+}
+
+const paths = (page: { files: { key: string }[] }) =>
+  page.files.map((file) => file.key);
+
+describe("generation metadata", () => {
+  test("reads the timestamp in file names", () => {
+    expect(extractGenerationTimestamp("music/a/music_1763075769598.mp3")).toBe(
+      1763075769598,
+    );
+    expect(extractGenerationTimestamp("1763075770112-take2.wav")).toBe(
+      1763075770112,
+    );
+    // Too few or too many digits are not timestamps
+    expect(extractGenerationTimestamp("track_176307576959.mp3")).toBeNull();
+    expect(extractGenerationTimestamp("track_17630757695981.mp3")).toBeNull();
+    expect(
+      extractGenerationTimestamp("music/1763075769598/forest.mp3"),
+    ).toBeNull();
+  });
+
+  test("groups outputs made moments apart in one folder into a run", async () => {
+    const index = new FileIndex(":memory:");
+    const storage = new IndexedStorageBackend(
+      new MemoryStorageBackend(),
+      index,
+      ["media"],
+    );
+    const run = (key: string) => index.get(key)?.generationRun;
+
+    // Across a second boundary
+    await storage.write("media/npc/voice_1763075769999.wav", "wav");
+    await storage.write("media/npc/music_1763075770000.mp3", "mp3");
+    expect(run("media/npc/music_1763075770000.mp3")).toBe(
+      generationRunId("media/npc", 1763075769999),
+    );
+    expect(run("media/npc/voice_1763075769999.wav")).toBe(
+      run("media/npc/music_1763075770000.mp3"),
+    );
+
+    // The same timestamps in another folder are another run
+    await storage.write("media/shop/voice_1763075769999.wav", "wav");
+    expect(run("media/shop/voice_1763075769999.wav")).toBe(
+      generationRunId("media/shop", 1763075769999),
+    );
+
+    // Runs chain through outputs in between, and split when one goes
+    await storage.write("media/npc/sfx_1763075770200.wav", "wav");
+    await storage.write("media/npc/sfx_1763075770400.wav", "wav");
+    expect(
+      index.runFiles(run("media/npc/sfx_1763075770400.wav")!),
+    ).toHaveLength(4);
+    await storage.delete("media/npc/sfx_1763075770200.wav");
+    expect(run("media/npc/music_1763075770000.mp3")).toBe(
+      generationRunId("media/npc", 1763075769999),
+    );
+    expect(run("media/npc/sfx_1763075770400.wav")).toBe(
+      generationRunId("media/npc", 1763075770400),
+    );
+
+    // An earlier output joins the run and renames it
+    await storage.write("media/npc/voice_1763075769800.wav", "wav");
+    expect(
+      index
+        .runFiles(generationRunId("media/npc", 1763075769800))
+        .map((file) => file.key),
+    ).toEqual([
+      "media/npc/music_1763075770000.mp3",
+      "media/npc/voice_1763075769800.wav",
+      "media/npc/voice_1763075769999.wav",
+    ]);
+  });
+
+  test("rejects malformed generation metadata", () => {
+    const parsed = parseGenerationField(
+      JSON.stringify({
+        "voice.wav": {
+          prompt: "Welcome",
+          seed: 7,
+          parameters: { stability: 0.5 },
+        },
+      }),
+    );
+    expect(parsed.get("voice.wav")).toEqual({
+      prompt: "Welcome",
+      seed: 7,
+      parameters: { stability: 0.5 },
+    });
+
+    expect(() => parseGenerationField("not json")).toThrow(MetadataError);
+    expect(() => parseGenerationField("[]")).toThrow(MetadataError);
+    expect(() => parseGenerationField('{"a.wav": "prompt"}')).toThrow(
+      MetadataError,
+    );
+    expect(() => parseGenerationField('{"a.wav": {"modle": "x"}}')).toThrow(
+      /Unknown generation field/,
+    );
+    expect(() => parseGenerationField('{"a.wav": {"seed": "7"}}')).toThrow(
+      MetadataError,
+    );
+    expect(() =>
+      parseGenerationField('{"a.wav": {"parameters": {"a": null}}}'),
+    ).toThrow(MetadataError);
+  });
+
+  test("lists, searches and groups generated files", async () => {
+    const { index, storage } = await createLibrary();
+    const voice = "music/npc-gareth/voice_1763075769599.wav";
+    await writeGeneration(
+      storage,
+      index,
+      voice,
+      {
+        prompt: "Welcome to the forge, traveller",
+        model: "eleven_multilingual_v2",
+        voiceId: "gruff-smith",
+        parameters: { stability: 0.5 },
+      },
+      "tester",
+    );
+
+    expect(await readGeneration(storage, voice)).toMatchObject({
+      path: voice,
+      model: "eleven_multilingual_v2",
+      recordedBy: "tester",
+    });
+
+    const listing = queryFiles(index, ["music"], {
+      prefix: "music/npc-gareth",
+    });
+    expect(
+      listing.files.map((file) => [file.path, file.generationRun]),
+    ).toEqual([
+      [
+        "music/npc-gareth/music_1763075769598.mp3",
+        generationRunId("music/npc-gareth", 1763075769598),
+      ],
+      [
+        "music/npc-gareth/voice_1763075769599.wav",
+        generationRunId("music/npc-gareth", 1763075769598),
+      ],
+      [
+        "music/npc-gareth/voice_1763075770112.wav",
+        generationRunId("music/npc-gareth", 1763075770112),
+      ],
+    ]);
+    expect(listing.files[1].generation?.prompt).toBe(
+      "Welcome to the forge, traveller",
+    );
+    expect(listing.files[0].generation).toBeUndefined();
+
+    const search = (text: string) => index.search({ text, limit: 10 });
+    expect(paths(search("traveller"))).toEqual([voice]);
+    expect(paths(search("gruff stability"))).toEqual([voice]);
+
+    expect(
+      paths({
+        files: index.runFiles(
+          generationRunId("music/npc-gareth", 1763075769598),
+        ),
+      }),
+    ).toEqual(["music/npc-gareth/music_1763075769598.mp3", voice]);
+  });
+
+  test("follows renames and rebuilds a fresh index from storage", async () => {
+    const { inner, index, storage } = await createLibrary();
+    const from = "music/npc-gareth/voice_1763075770112.wav";
+    const to = "music/npc-gareth/greeting_1763075770112.wav";
+    await writeGeneration(storage, index, from, { prompt: "Hello" }, null);
+
+    await storage.rename(from, to);
+    await renameGeneration(storage, index, from, to);
+    expect(await readGeneration(storage, from)).toBeNull();
+    expect(index.generationPaths()).toEqual([to]);
+    expect(paths(index.search({ text: "hello", limit: 10 }))).toEqual([to]);
+
+    // A new (e.g. in-memory) index picks the records up from storage
+    const fresh = new FileIndex(":memory:");
+    const reopened = new IndexedStorageBackend(inner, fresh, ["music"]);
+    await reopened.reconcile();
+    expect(await syncGenerationIndex(reopened, fresh)).toBe(1);
+    expect(fresh.generations([to]).get(to)?.prompt).toBe("Hello");
+    expect(paths(fresh.search({ text: "hello", limit: 10 }))).toEqual([to]);
+    await reopened.whenHashed();
+    await storage.whenHashed();
+  });
+});
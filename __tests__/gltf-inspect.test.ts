@@ -0,0 +1,91 @@
+/**
+ * GLB Inspection Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { bytesSource, readGltf } from "../src/utils/gltf";
+import { inspectGltf, inspectStoredModel } from "../src/utils/gltf-inspect";
+import { MemoryStorageBackend } from "../src/storage/memory";
+
+// Unit quad (two indexed triangles) instanced by two translated nodes
+const quadGltf = {
+  asset: { version: "2.0", generator: "test" },
+  accessors: [
+    {
+      componentType: 5126,
+      count: 4,
+      type: "VEC3",
+      min: [0, 0, 0],
+      max: [1, 1, 0],
+    },
+    { componentType: 5123, count: 6, type: "SCALAR" },
+  ],
+  meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] }],
+  materials: [{ name: "quad" }],
+  nodes: [
+    { children: [1, 2], scale: [2, 2, 2] },
+    { mesh: 0 },
+    { mesh: 0, translation: [5, 0, 0] },
+  ],
+  scenes: [{ nodes: [0] }],
+};
+
+const inspect = async (json: object) =>
+  inspectGltf(
+    await readGltf(bytesSource(new TextEncoder().encode(JSON.stringify(json)))),
+  );
+
+describe("inspectGltf", () => {
+  test("counts geometry per node instance in world space", async () => {
+    const info = await inspect(quadGltf);
+
+    expect(info.counts).toMatchObject({ nodes: 3, meshes: 1, materials: 1 });
+    expect(info.triangles).toBe(4);
+    expect(info.vertices).toBe(8);
+    expect(info.bounds).toEqual({
+      min: [0, 0, 0],
+      max: [12, 2, 0],
+      size: [12, 2, 0],
+    });
+    expect(info.generator).toBe("test");
+  });
+
+  test("reports bones and animation clips of the shipped emotes", async () => {
+    const data = new Uint8Array(
+      readFileSync(join(import.meta.dir, "../emotes/emote-idle.glb")),
+    );
+    const info = inspectGltf(await readGltf(bytesSource(data)));
+
+    expect(info.container).toBe("glb");
+    expect(info.counts.skins).toBe(1);
+    expect(info.skeleton.bones).toContain("mixamorig:Hips");
+    expect(info.animations).toHaveLength(1);
+    expect(info.animations[0].duration).toBeGreaterThan(0);
+    expect(info.bounds).toBeNull();
+  });
+
+  test("caches results until the file changes", async () => {
+    const storage = new MemoryStorageBackend();
+    const key = "models/quad.gltf";
+    await storage.write(
+      key,
+      new TextEncoder().encode(JSON.stringify(quadGltf)),
+    );
+
+    const first = await inspectStoredModel(storage, key);
+    expect(await inspectStoredModel(storage, key)).toBe(first);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.write(
+      key,
+      new TextEncoder().encode(JSON.stringify({ ...quadGltf, materials: [] })),
+    );
+    const second = await inspectStoredModel(storage, key);
+    expect(second).not.toBe(first);
+    expect(second?.inspection.counts.materials).toBe(0);
+
+    expect(await inspectStoredModel(storage, "models/missing.glb")).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * GLB Optimisation Variant Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Document, NodeIO } from "@gltf-transform/core";
+import { PNG } from "pngjs";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { hashContent } from "../src/utils/content-store";
+import {
+  bytesSource,
+  readBufferView,
+  readGltf,
+  readImageSize,
+} from "../src/utils/gltf";
+import {
+  buildVariant,
+  parseVariantList,
+  queueOptimization,
+  requestedVariants,
+  selectVariant,
+} from "../src/utils/gltf-optimize";
+import { moveToTrash } from "../src/utils/trash";
+import { renameVersioned } from "../src/utils/version-history";
+
+const emote = new Uint8Array(
+  readFileSync(join(import.meta.dir, "../emotes/emote-idle.glb")),
+);
+
+describe("variant selection", () => {
+  test("parses upload opt-in values", () => {
+    expect(parseVariantList("true")).toHaveLength(5);
+    expect(parseVariantList("draco, meshopt,bogus")).toEqual([
+      "meshopt",
+      "draco",
+    ]);
+    expect(parseVariantList(undefined)).toEqual([]);
+    expect(parseVariantList("false")).toEqual([]);
+  });
+
+  test("reads the query parameter before the Accept header", () => {
+    const accept =
+      'model/gltf-binary; variant=draco, model/gltf-binary;variant="meshopt"';
+    expect(
+      requestedVariants(
+        new Request("http://localhost/models/a.glb", {
+          headers: { Accept: accept },
+        }),
+      ),
+    ).toEqual(["draco", "meshopt"]);
+    expect(
+      requestedVariants(
+        new Request("http://localhost/models/a.glb?variant=Lowtex", {
+          headers: { Accept: accept },
+        }),
+      ),
+    ).toEqual(["lowtex"]);
+  });
+});
+
+describe("buildVariant", () => {
+  test("keeps the skeleton of mesh-less emotes", async () => {
+    const doc = await readGltf(
+      bytesSource(await buildVariant(emote, "meshopt")),
+    );
+    expect(doc.json.skins).toHaveLength(1);
+    expect(doc.json.extensionsRequired).toContain("EXT_meshopt_compression");
+  });
+
+  test("downscales large textures", async () => {
+    const png = new PNG({ width: 2048, height: 16 });
+    png.data.forEach((_, i) => (png.data[i] = i % 251));
+    const document = new Document();
+    const buffer = document.createBuffer();
+    const texture = document
+      .createTexture()
+      .setMimeType("image/png")
+      .setImage(new Uint8Array(PNG.sync.write(png)));
+    const position = document
+      .createAccessor()
+      .setType("VEC3")
+      .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+      .setBuffer(buffer);
+    const primitive = document
+      .createPrimitive()
+      .setAttribute("POSITION", position)
+      .setMaterial(document.createMaterial().setBaseColorTexture(texture));
+    const mesh = document.createMesh().addPrimitive(primitive);
+    document.createScene().addChild(document.createNode().setMesh(mesh));
+    const glb = await new NodeIO().writeBinary(document);
+
+    const doc = await readGltf(bytesSource(await buildVariant(glb, "lowtex")));
+    const image = await readBufferView(doc, doc.json.images![0].bufferView!);
+    expect(readImageSize(image!)).toEqual({ width: 1024, height: 8 });
+  });
+});
+
+describe("queueOptimization", () => {
+  test("serves variants only while the original is unchanged", async () => {
+    const storage = new MemoryStorageBackend();
+    const key = "emotes/idle.glb";
+    await storage.write(key, emote);
+
+    const { done } = await queueOptimization(storage, key, hashContent(emote), [
+      "pruned",
+    ]);
+    expect((await done)?.variants.pruned?.status).toBe("ready");
+    expect(await selectVariant(storage, key, ["draco", "pruned"])).toEqual({
+      key: ".cdn/variants/emotes/idle.glb/pruned.glb",
+      variant: "pruned",
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.write(key, emote.slice());
+    expect(await selectVariant(storage, key, ["pruned"])).toBeNull();
+  });
+
+  test("moves variants with renames and drops them on delete", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("emotes/idle.glb", emote);
+    const { done } = await queueOptimization(
+      storage,
+      "emotes/idle.glb",
+      hashContent(emote),
+      ["pruned"],
+    );
+    await done;
+
+    await renameVersioned(storage, "emotes/idle.glb", "emotes/rest.glb", null);
+    expect(await storage.list(".cdn/variants/emotes/idle.glb")).toEqual([]);
+    expect(await selectVariant(storage, "emotes/rest.glb", ["pruned"])).toEqual(
+      {
+        key: ".cdn/variants/emotes/rest.glb/pruned.glb",
+        variant: "pruned",
+      },
+    );
+
+    await moveToTrash(storage, "emotes/rest.glb", null);
+    expect(await storage.list(".cdn/variants")).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * glTF Validator Tests
+ * Builds small GLBs in memory and checks the reported issues
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { bytesSource, readGltf } from "../src/utils/gltf";
+import { validateGltf } from "../src/utils/gltf-validator";
+
+const OPTIONS = { maxTextureSize: 2048, expectSkin: false };
+
+function pad(data: Uint8Array, fill: number): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.byteLength / 4) * 4).fill(fill);
+  padded.set(data);
+  return padded;
+}
+
+function buildGlb(json: object, bin?: Uint8Array): Uint8Array {
+  const jsonChunk = pad(new TextEncoder().encode(JSON.stringify(json)), 0x20);
+  const binChunk = bin ? pad(bin, 0) : null;
+  const length =
+    12 + 8 + jsonChunk.byteLength + (binChunk ? 8 + binChunk.byteLength : 0);
+
+  const out = new Uint8Array(length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, length, true);
+  view.setUint32(12, jsonChunk.byteLength, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  out.set(jsonChunk, 20);
+  if (binChunk) {
+    const offset = 20 + jsonChunk.byteLength;
+    view.setUint32(offset, binChunk.byteLength, true);
+    view.setUint32(offset + 4, 0x004e4942, true);
+    out.set(binChunk, offset + 8);
+  }
+  return out;
+}
+
+// One triangle: 3 VEC3 float positions (36 bytes)
+function triangleJson(overrides: Record<string, unknown> = {}) {
+  return {
+    asset: { version: "2.0" },
+    buffers: [{ byteLength: 36 }],
+    bufferViews: [{ buffer: 0, byteLength: 36 }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: "VEC3" }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    nodes: [{ mesh: 0 }],
+    scenes: [{ nodes: [0] }],
+    ...overrides,
+  };
+}
+
+const codes = async (glb: Uint8Array, options = OPTIONS) =>
+  (await validateGltf(bytesSource(glb), options)).map((i) => i.code);
+
+describe("validateGltf", () => {
+  test("accepts a well-formed GLB", async () => {
+    const glb = buildGlb(triangleJson(), new Uint8Array(36));
+    expect(await codes(glb)).toEqual([]);
+
+    const doc = await readGltf(bytesSource(glb));
+    expect(doc.container).toBe("glb");
+    expect(doc.binChunk?.length).toBe(36);
+  });
+
+  test("accepts the shipped emotes", async () => {
+    const data = new Uint8Array(
+      readFileSync(join(import.meta.dir, "../emotes/emote-idle.glb")),
+    );
+    expect(await codes(data, { ...OPTIONS, expectSkin: true })).toEqual([]);
+  });
+
+  test("rejects broken containers", async () => {
+    const glb = buildGlb(triangleJson(), new Uint8Array(36));
+    expect(await codes(glb.subarray(0, glb.byteLength - 8))).toEqual([
+      "INVALID_CONTAINER",
+    ]);
+    expect(await codes(new TextEncoder().encode("{not json"))).toEqual([
+      "INVALID_CONTAINER",
+    ]);
+  });
+
+  test("reports out-of-bounds buffer views and accessors", async () => {
+    const glb = buildGlb(
+      triangleJson({
+        bufferViews: [{ buffer: 0, byteOffset: 12, byteLength: 36 }],
+        accessors: [
+          { bufferView: 0, componentType: 5126, count: 4, type: "VEC3" },
+        ],
+      }),
+      new Uint8Array(36),
+    );
+    expect(await codes(glb)).toEqual([
+      "BUFFER_VIEW_OUT_OF_BOUNDS",
+      "ACCESSOR_OUT_OF_BOUNDS",
+    ]);
+  });
+
+  test("reports a BIN chunk shorter than its buffer", async () => {
+    const glb = buildGlb(triangleJson(), new Uint8Array(12));
+    expect(await codes(glb)).toContain("BIN_CHUNK_TOO_SHORT");
+  });
+
+  test("checks required extensions", async () => {
+    const glb = buildGlb(
+      triangleJson({
+        extensionsUsed: ["KHR_texture_transform"],
+        extensionsRequired: ["KHR_texture_transform", "VENDOR_magic"],
+      }),
+      new Uint8Array(36),
+    );
+    expect(await codes(glb)).toEqual([
+      "REQUIRED_EXTENSION_NOT_USED",
+      "UNSUPPORTED_REQUIRED_EXTENSION",
+    ]);
+  });
+
+  test("warns about missing skins and oversized textures", async () => {
+    // 1x1 PNG header (IHDR only) claiming 4096x4096
+    const png = new Uint8Array(24);
+    png.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    new DataView(png.buffer).setUint32(16, 4096);
+    new DataView(png.buffer).setUint32(20, 4096);
+    const bin = new Uint8Array(60);
+    bin.set(png, 36);
+
+    const glb = buildGlb(
+      triangleJson({
+        buffers: [{ byteLength: 60 }],
+        bufferViews: [
+          { buffer: 0, byteLength: 36 },
+          { buffer: 0, byteOffset: 36, byteLength: 24 },
+        ],
+        images: [{ bufferView: 1, mimeType: "image/png" }],
+        textures: [{ source: 0 }],
+      }),
+      bin,
+    );
+    const issues = await validateGltf(bytesSource(glb), {
+      ...OPTIONS,
+      expectSkin: true,
+    });
+    expect(issues.map((i) => [i.severity, i.code])).toEqual([
+      ["warning", "TEXTURE_TOO_LARGE"],
+      ["warning", "MISSING_SKIN"],
+    ]);
+  });
+});
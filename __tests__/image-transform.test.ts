@@ -0,0 +1,142 @@
+/**
+ * Image Transformation Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PNG } from "pngjs";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { readImageSize } from "../src/utils/gltf";
+import type { RgbaImage } from "../src/utils/image";
+import {
+  ImageParamError,
+  ImageSourceError,
+  getTransformedImage,
+  parseImageTransform,
+  resizeImage,
+  signImageRequest,
+  verifyImageSignature,
+} from "../src/utils/image-transform";
+
+function solid(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(200) };
+}
+
+function size(image: RgbaImage) {
+  return { width: image.width, height: image.height };
+}
+
+describe("parseImageTransform", () => {
+  test("applies defaults and rejects bad values", () => {
+    expect(parseImageTransform(new URLSearchParams("w=64"), "png")).toEqual({
+      width: 64,
+      height: undefined,
+      fit: "cover",
+      format: "png",
+      quality: 100,
+    });
+    expect(
+      parseImageTransform(new URLSearchParams("format=jpg&q=60"), "png"),
+    ).toMatchObject({ format: "jpeg", quality: 60 });
+    for (const query of ["w=0", "h=1.5", "q=101", "fit=zoom", "format=gif"]) {
+      expect(() =>
+        parseImageTransform(new URLSearchParams(query), "png"),
+      ).toThrow(ImageParamError);
+    }
+  });
+});
+
+describe("resizeImage", () => {
+  test("sizes each fit mode", () => {
+    const image = solid(400, 200);
+    const box = { width: 100, height: 100 };
+    expect(size(resizeImage(image, { ...box, fit: "cover" }))).toEqual(box);
+    expect(size(resizeImage(image, { ...box, fit: "contain" }))).toEqual(box);
+    expect(size(resizeImage(image, { ...box, fit: "fill" }))).toEqual(box);
+    expect(size(resizeImage(image, { ...box, fit: "inside" }))).toEqual({
+      width: 100,
+      height: 50,
+    });
+    expect(size(resizeImage(image, { height: 50, fit: "cover" }))).toEqual({
+      width: 100,
+      height: 50,
+    });
+    // A single dimension never enlarges
+    expect(size(resizeImage(image, { width: 800, fit: "cover" }))).toEqual({
+      width: 400,
+      height: 200,
+    });
+
+    // contain pads with transparency
+    const padded = resizeImage(image, { ...box, fit: "contain" });
+    expect(padded.data[3]).toBe(0);
+    expect(padded.data[(50 * 100 + 50) * 4 + 3]).toBe(200);
+  });
+});
+
+describe("signatures", () => {
+  test("cover the path and parameters in any order", () => {
+    const params = new URLSearchParams("w=256&format=webp");
+    const signature = signImageRequest("media/hero.png", params, "secret");
+    const signed = new URLSearchParams(`format=webp&w=256&s=${signature}`);
+    expect(verifyImageSignature("media/hero.png", signed, "secret")).toBe(true);
+    expect(verifyImageSignature("media/other.png", signed, "secret")).toBe(
+      false,
+    );
+    signed.set("w", "512");
+    expect(verifyImageSignature("media/hero.png", signed, "secret")).toBe(
+      false,
+    );
+  });
+});
+
+describe("getTransformedImage", () => {
+  test("caches outputs by source ETag and parameters", async () => {
+    const storage = new MemoryStorageBackend();
+    const png = new PNG({ width: 64, height: 32 });
+    png.data.fill(128);
+    await storage.write("media/banner.png", PNG.sync.write(png));
+
+    const transform = parseImageTransform(
+      new URLSearchParams("w=16&format=webp"),
+      "png",
+    );
+    const first = await getTransformedImage(
+      storage,
+      "media/banner.png",
+      transform,
+    );
+    expect(first?.contentType).toBe("image/webp");
+    expect(readImageSize((await storage.read(first!.key))!)).toEqual({
+      width: 16,
+      height: 8,
+    });
+    expect(
+      await getTransformedImage(storage, "media/banner.png", transform),
+    ).toEqual(first);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.write("media/banner.png", PNG.sync.write(png));
+    const second = await getTransformedImage(
+      storage,
+      "media/banner.png",
+      transform,
+    );
+    expect(second?.key).not.toBe(first?.key);
+    expect(
+      await getTransformedImage(storage, "media/missing.png", transform),
+    ).toBeNull();
+  });
+
+  test("refuses sources it cannot decode", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/broken.png", "not an image");
+
+    await expect(
+      getTransformedImage(
+        storage,
+        "media/broken.png",
+        parseImageTransform(new URLSearchParams("w=16"), "png"),
+      ),
+    ).rejects.toThrow(ImageSourceError);
+  });
+});
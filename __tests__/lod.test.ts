@@ -0,0 +1,162 @@
+/**
+ * LOD Chain Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Document, NodeIO } from "@gltf-transform/core";
+import { bytesSource, readGltf } from "../src/utils/gltf";
+import { inspectGltf } from "../src/utils/gltf-inspect";
+import {
+  buildVariant,
+  parseVariantList,
+  queueUploadVariants,
+  requestedVariants,
+  selectVariant,
+  variantKey,
+} from "../src/utils/gltf-optimize";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { hashContent } from "../src/utils/content-store";
+import {
+  LOD_VARIANTS,
+  describeLods,
+  lodVariantsFor,
+  parseLodRatios,
+} from "../src/utils/lod";
+
+/**
+ * A rippled height field, so simplification has to trade off detail
+ */
+async function buildTerrain(segments: number): Promise<Uint8Array> {
+  const positions: number[] = [];
+  for (let z = 0; z <= segments; z++) {
+    for (let x = 0; x <= segments; x++) {
+      const height = Math.sin(x / 3) * Math.cos(z / 4) * 2;
+      positions.push(x, height, z);
+    }
+  }
+  const indices: number[] = [];
+  for (let z = 0; z < segments; z++) {
+    for (let x = 0; x < segments; x++) {
+      const a = z * (segments + 1) + x;
+      const b = a + segments + 1;
+      indices.push(a, b, a + 1, a + 1, b, b + 1);
+    }
+  }
+
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const position = document
+    .createAccessor()
+    .setType("VEC3")
+    .setArray(new Float32Array(positions))
+    .setBuffer(buffer);
+  const index = document
+    .createAccessor()
+    .setType("SCALAR")
+    .setArray(new Uint32Array(indices))
+    .setBuffer(buffer);
+  const mesh = document
+    .createMesh()
+    .addPrimitive(
+      document
+        .createPrimitive()
+        .setAttribute("POSITION", position)
+        .setIndices(index),
+    );
+  const node = document.createNode("terrain").setMesh(mesh);
+  document.createScene().addChild(node);
+  return new NodeIO().writeBinary(document);
+}
+
+async function countTriangles(data: Uint8Array): Promise<number> {
+  return inspectGltf(await readGltf(bytesSource(data))).triangles;
+}
+
+describe("LOD configuration", () => {
+  test("parses ratios and picks LOD targets", () => {
+    expect(parseLodRatios("0.25, 0.5,2,abc,0.1")).toEqual([0.5, 0.25, 0.1]);
+    expect(parseLodRatios("")).toEqual([]);
+    expect(lodVariantsFor("models/props/crate.glb")).toEqual(LOD_VARIANTS);
+    expect(lodVariantsFor("emotes/emote-idle.glb")).toEqual([]);
+    expect(lodVariantsFor("models/readme.txt")).toEqual([]);
+    expect(parseVariantList("lod")).toEqual(LOD_VARIANTS);
+    expect(parseVariantList("draco,lod2")).toEqual(["draco", "lod2"]);
+  });
+
+  test("falls back to more detailed levels for ?lod=N", () => {
+    const lods = (query: string) =>
+      requestedVariants(new Request(`http://localhost/models/a.glb${query}`));
+    expect(lods("?lod=3")).toEqual(["lod3", "lod2", "lod1"]);
+    expect(lods("?lod=0")).toEqual([]);
+    expect(lods("?lod=abc")).toEqual([]);
+    expect(lods("?variant=draco&lod=2")).toEqual(["draco"]);
+  });
+});
+
+describe("LOD generation", () => {
+  test("each level has fewer triangles than the last", async () => {
+    const original = await buildTerrain(40);
+    const counts = [await countTriangles(original)];
+    for (const variant of LOD_VARIANTS) {
+      counts.push(await countTriangles(await buildVariant(original, variant)));
+    }
+
+    expect(counts[0]).toBe(3200);
+    for (let i = 1; i < counts.length; i++) {
+      expect(counts[i]).toBeGreaterThan(0);
+      expect(counts[i]).toBeLessThan(counts[i - 1]);
+    }
+  });
+
+  test("lists the LOD set with LOD0 as the original", () => {
+    const lods = describeLods(
+      "models/crate.glb",
+      { triangles: 1000, size: 5000 },
+      {
+        draco: { status: "ready", size: 900 },
+        lod2: { status: "pending" },
+        lod1: { status: "ready", size: 2600, triangles: 500, ratio: 0.5 },
+      },
+    );
+    expect(lods.map((lod) => lod.level)).toEqual([0, 1, 2]);
+    expect(lods[0]).toMatchObject({ ratio: 1, url: "/models/crate.glb" });
+    expect(lods[1]).toMatchObject({
+      triangles: 500,
+      url: "/models/crate.glb?lod=1",
+    });
+    expect(lods[2].status).toBe("pending");
+  });
+
+  test("re-uploading the same content keeps the built LODs", async () => {
+    const storage = new MemoryStorageBackend();
+    const path = "models/terrain.glb";
+    const original = await buildTerrain(20);
+    const hash = hashContent(original);
+    await storage.write(path, original);
+
+    const first = await queueUploadVariants(storage, path, hash, []);
+    expect(first.variants).toEqual(LOD_VARIANTS);
+    await first.done;
+    const lod1 = await storage.stat(variantKey(path, "lod1"));
+
+    // Same bytes again: nothing is queued and the LODs are still served
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.write(path, original.slice());
+    const second = await queueUploadVariants(storage, path, hash, []);
+    expect(second.variants).toEqual(LOD_VARIANTS);
+    expect((await second.done)?.variants.lod1?.status).toBe("ready");
+    expect(await storage.stat(variantKey(path, "lod1"))).toEqual(lod1);
+    expect(await selectVariant(storage, path, ["lod1"])).toEqual({
+      key: variantKey(path, "lod1"),
+      variant: "lod1",
+    });
+
+    // Opting in to another variant only builds that one
+    const third = await queueUploadVariants(storage, path, hash, ["pruned"]);
+    expect(third.variants).toEqual(["pruned", ...LOD_VARIANTS]);
+    expect(Object.keys((await third.done)!.variants).sort()).toEqual(
+      [...LOD_VARIANTS, "pruned"].sort(),
+    );
+    expect(await storage.stat(variantKey(path, "lod1"))).toEqual(lod1);
+  });
+});
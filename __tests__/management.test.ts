@@ -0,0 +1,50 @@
+/**
+ * Management Route Tests
+ * Renames keep files under the upload policy they were checked against
+ */
+
+import { describe, test, expect } from "bun:test";
+import { FileIndex } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createManagementRoute } from "../src/routes/management";
+
+async function rename(oldPath: string, newName: string) {
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(new MemoryStorageBackend(), index, [
+    "models",
+  ]);
+  await storage.write("models/axe/info.json", "{}");
+  const route = createManagementRoute(storage, ["models"], index);
+
+  const response = await route.handle(
+    new Request("http://localhost/api/rename", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ oldPath, newName }),
+    }),
+  );
+  return { response, storage };
+}
+
+describe("rename", () => {
+  test("renames a file within its extension", async () => {
+    const { response, storage } = await rename(
+      "models/axe/info.json",
+      "stats.JSON",
+    );
+    expect(response.status).toBe(200);
+    expect(await storage.stat("models/axe/stats.JSON")).not.toBeNull();
+    expect(await storage.stat("models/axe/info.json")).toBeNull();
+  });
+
+  test("refuses to change the file extension", async () => {
+    const { response, storage } = await rename(
+      "models/axe/info.json",
+      "axe.glb",
+    );
+    expect(response.status).toBe(422);
+    expect(await storage.stat("models/axe/axe.glb")).toBeNull();
+    expect(await storage.stat("models/axe/info.json")).not.toBeNull();
+  });
+});
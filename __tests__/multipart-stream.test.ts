@@ -0,0 +1,111 @@
+/**
+ * Streaming Multipart Parser Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  getMultipartBoundary,
+  MultipartParseError,
+  parseMultipartStream,
+  readFieldText,
+} from "../src/utils/multipart-stream";
+
+// Re-chunk a body into tiny pieces so delimiters straddle chunk edges
+function chunked(data: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.subarray(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+async function encode(form: FormData) {
+  const request = new Request("http://localhost", {
+    method: "POST",
+    body: form,
+  });
+  const boundary = getMultipartBoundary(request.headers.get("content-type"));
+  return {
+    boundary: boundary!,
+    body: new Uint8Array(await request.arrayBuffer()),
+  };
+}
+
+describe("parseMultipartStream", () => {
+  test("yields files and fields in order across chunk boundaries", async () => {
+    const binary = new Uint8Array(50_000).map((_, i) => i % 251);
+    const form = new FormData();
+    form.append("files", new File([binary], "model.glb"));
+    form.append("files", new File(["text\r\n--not-a-boundary"], "a.txt"));
+    form.append("directory", "models/swords");
+    const { boundary, body } = await encode(form);
+
+    const parts = [];
+    for await (const part of parseMultipartStream(chunked(body, 7), boundary)) {
+      parts.push({
+        name: part.name,
+        filename: part.filename,
+        data: new Uint8Array(await new Response(part.body).arrayBuffer()),
+      });
+    }
+
+    expect(parts.map((p) => [p.name, p.filename])).toEqual([
+      ["files", "model.glb"],
+      ["files", "a.txt"],
+      ["directory", null],
+    ]);
+    expect(parts[0].data).toEqual(binary);
+    expect(new TextDecoder().decode(parts[1].data)).toBe(
+      "text\r\n--not-a-boundary",
+    );
+    expect(new TextDecoder().decode(parts[2].data)).toBe("models/swords");
+  });
+
+  test("skips part bodies the consumer does not read", async () => {
+    const form = new FormData();
+    form.append("files", new File(["ignored"], "skip.bin"));
+    form.append("directory", "music");
+    const { boundary, body } = await encode(form);
+
+    const names: string[] = [];
+    for await (const part of parseMultipartStream(chunked(body, 5), boundary)) {
+      names.push(part.name);
+      if (part.name === "directory") {
+        expect(await new Response(part.body).text()).toBe("music");
+      }
+    }
+    expect(names).toEqual(["files", "directory"]);
+  });
+
+  test("rejects truncated bodies", async () => {
+    const form = new FormData();
+    form.append("directory", "models");
+    const { boundary, body } = await encode(form);
+
+    const parse = async () => {
+      for await (const part of parseMultipartStream(
+        chunked(body.subarray(0, body.length - 20), 16),
+        boundary,
+      )) {
+        await new Response(part.body).text();
+      }
+    };
+    await expect(parse()).rejects.toBeInstanceOf(MultipartParseError);
+  });
+});
+
+describe("readFieldText", () => {
+  test("reads values up to the limit and rejects larger ones", async () => {
+    const value = new TextEncoder().encode("x".repeat(100));
+    expect(await readFieldText(chunked(value, 7), 100)).toBe("x".repeat(100));
+    await expect(readFieldText(chunked(value, 7), 99)).rejects.toBeInstanceOf(
+      MultipartParseError,
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Playlist Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import {
+  getPlaylist,
+  listMoods,
+  publishPlaylistEvents,
+  updatePlaylistWeights,
+} from "../src/utils/playlists";
+import { wav } from "./fixtures/audio";
+
+async function musicLibrary(): Promise<MemoryStorageBackend> {
+  const storage = new MemoryStorageBackend();
+  for (const [key, seconds] of [
+    ["music/normal/10.wav", 3],
+    ["music/normal/2.wav", 2],
+    ["music/normal/1.wav", 1],
+    ["music/combat/battle-theme.wav", 4],
+    ["music/draft/sfx/sword-clash-001.wav", 1],
+  ] as const) {
+    await storage.write(key, wav(seconds));
+  }
+  await storage.write("music/normal/cover.png", new Uint8Array([1]));
+  await storage.write("music/normal/broken.mp3", new Uint8Array([1, 2]));
+  return storage;
+}
+
+describe("getPlaylist", () => {
+  test("lists a mood's audio files in natural order", async () => {
+    const storage = await musicLibrary();
+    expect(await listMoods(storage)).toEqual(["combat", "draft", "normal"]);
+
+    const playlist = await getPlaylist(storage, "normal");
+    expect(playlist?.tracks.map((track) => track.name)).toEqual([
+      "1.wav",
+      "2.wav",
+      "10.wav",
+      "broken.mp3",
+    ]);
+    expect(playlist?.tracks[0]).toMatchObject({
+      position: 1,
+      path: "music/normal/1.wav",
+      duration: 1,
+      codec: "pcm",
+      weight: 1,
+    });
+    expect(playlist?.tracks[3]).toMatchObject({ duration: null, codec: null });
+    expect(playlist?.trackCount).toBe(4);
+    expect(playlist?.duration).toBe(6);
+    expect(playlist?.tracks[0].url).toEndWith("/music/normal/1.wav");
+
+    expect(await getPlaylist(storage, "ambient")).toBeNull();
+  });
+
+  test("applies weights and shuffles deterministically by seed", async () => {
+    const storage = await musicLibrary();
+    const before = await getPlaylist(storage, "normal");
+
+    await updatePlaylistWeights(
+      storage,
+      "normal",
+      { "broken.mp3": 0, "10.wav": 5 },
+      null,
+    );
+    const weighted = await getPlaylist(storage, "normal");
+    expect(weighted?.version).not.toBe(before?.version);
+    expect(weighted?.tracks.map((track) => track.name)).toEqual([
+      "1.wav",
+      "2.wav",
+      "10.wav",
+    ]);
+    expect(weighted?.tracks[2].weight).toBe(5);
+
+    const shuffled = await getPlaylist(storage, "normal", "session-42");
+    expect(shuffled?.seed).toBe("session-42");
+    expect(await getPlaylist(storage, "normal", "session-42")).toEqual(
+      shuffled,
+    );
+    expect(shuffled?.tracks.map((track) => track.position)).toEqual([1, 2, 3]);
+    expect(shuffled?.tracks.map((track) => track.name).sort()).toEqual([
+      "1.wav",
+      "10.wav",
+      "2.wav",
+    ]);
+
+    // The heaviest track leads most shuffles
+    let firsts = 0;
+    for (let seed = 0; seed < 200; seed++) {
+      const playlist = await getPlaylist(storage, "normal", String(seed));
+      if (playlist?.tracks[0].name === "10.wav") {
+        firsts++;
+      }
+    }
+    expect(firsts).toBeGreaterThan(120);
+
+    await updatePlaylistWeights(
+      storage,
+      "normal",
+      { "broken.mp3": null },
+      null,
+    );
+    expect((await getPlaylist(storage, "normal"))?.trackCount).toBe(4);
+  });
+});
+
+describe("publishPlaylistEvents", () => {
+  test("broadcasts one event per mood touched by music files", async () => {
+    const storage = await musicLibrary();
+    const messages: { topic: string; data: string }[] = [];
+    const server = {
+      publish: (topic: string, data: string) => messages.push({ topic, data }),
+    };
+
+    await publishPlaylistEvents(server, storage, [
+      "music/normal/1.wav",
+      "music/normal/2.wav",
+      "music/normal/cover.png",
+      "music/combat/battle-theme.wav",
+      "models/sword/sword.glb",
+    ]);
+
+    const events = messages.map((message) => JSON.parse(message.data));
+    expect(messages.every((m) => m.topic === "cdn-uploads")).toBe(true);
+    expect(events.map((event) => event.mood).sort()).toEqual([
+      "combat",
+      "normal",
+    ]);
+    const normal = events.find((event) => event.mood === "normal");
+    expect(normal).toMatchObject({
+      type: "playlist-updated",
+      version: (await getPlaylist(storage, "normal"))!.version,
+      trackCount: 4,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Safe Path Resolver Tests
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  assertWithinRoot,
+  resolveAssetChild,
+  resolveAssetPath,
+  resolveFileName,
+  UnsafePathError,
+} from "../src/utils/safe-path";
+
+const ASSET_DIRS = ["models", "emotes", "music", "media"];
+
+describe("resolveAssetPath", () => {
+  test("normalises paths inside asset directories", () => {
+    expect(resolveAssetPath("models/sword/sword.glb", ASSET_DIRS)).toBe(
+      "models/sword/sword.glb",
+    );
+    expect(resolveAssetPath("music//./theme.mp3", ASSET_DIRS)).toBe(
+      "music/theme.mp3",
+    );
+    expect(
+      resolveAssetPath("models/", ASSET_DIRS, { allowDirectoryRoot: true }),
+    ).toBe("models");
+  });
+
+  test.each([
+    "",
+    "../etc/passwd",
+    "models/../../etc/passwd",
+    "/etc/passwd",
+    "C:/Windows",
+    "models\\..\\secret",
+    "models/a\0.glb",
+    ".cdn/blobs/aa/aa",
+    "backups/backup.zip",
+    "models",
+  ])("rejects %p", (input) => {
+    expect(() => resolveAssetPath(input, ASSET_DIRS)).toThrow(UnsafePathError);
+  });
+});
+
+describe("resolveAssetChild / resolveFileName", () => {
+  test("joins upload file names onto a directory", () => {
+    expect(resolveAssetChild("models/npcs", "goblin.glb", ASSET_DIRS)).toBe(
+      "models/npcs/goblin.glb",
+    );
+    expect(() => resolveAssetChild("models", "../x.glb", ASSET_DIRS)).toThrow(
+      UnsafePathError,
+    );
+    expect(() => resolveAssetChild("../etc", "x.glb", ASSET_DIRS)).toThrow(
+      UnsafePathError,
+    );
+  });
+
+  test("bare file names cannot contain separators", () => {
+    expect(resolveFileName("sword.glb")).toBe("sword.glb");
+    expect(() => resolveFileName("a/b.glb")).toThrow(UnsafePathError);
+    expect(() => resolveFileName("..")).toThrow(UnsafePathError);
+  });
+});
+
+describe("assertWithinRoot", () => {
+  const root = mkdtempSync(join(tmpdir(), "cdn-safe-path-"));
+  const outside = mkdtempSync(join(tmpdir(), "cdn-outside-"));
+  mkdirSync(join(root, "models"));
+  symlinkSync(outside, join(root, "models", "link"));
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  test("accepts existing and not-yet-created paths inside the root", async () => {
+    await assertWithinRoot(root, join(root, "models"));
+    await assertWithinRoot(root, join(root, "models", "new", "file.glb"));
+  });
+
+  test("rejects symlinks that lead outside the root", async () => {
+    await expect(
+      assertWithinRoot(root, join(root, "models", "link", "secret.txt")),
+    ).rejects.toBeInstanceOf(UnsafePathError);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Storage Backend Tests
+ * Runs the same contract against the in-memory and local filesystem backends
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileIndex } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { LocalStorageBackend } from "../src/storage/local";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import type { StorageBackend } from "../src/storage/types";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const backends: Array<[string, () => StorageBackend]> = [
+  ["memory", () => new MemoryStorageBackend()],
+  [
+    "local",
+    () => {
+      const dir = mkdtempSync(join(tmpdir(), "cdn-storage-"));
+      tempDirs.push(dir);
+      return new LocalStorageBackend(dir);
+    },
+  ],
+  [
+    "indexed",
+    () =>
+      new IndexedStorageBackend(
+        new MemoryStorageBackend(),
+        new FileIndex(":memory:"),
+        ["models", "music"],
+      ),
+  ],
+];
+
+for (const [name, createBackend] of backends) {
+  describe(`${name} storage backend`, () => {
+    let storage: StorageBackend;
+
+    beforeEach(() => {
+      storage = createBackend();
+    });
+
+    test("write, stat and read round-trip", async () => {
+      await storage.write("models/sword/sword.json", '{"name":"sword"}');
+
+      const stat = await storage.stat("models/sword/sword.json");
+      expect(stat?.size).toBe(16);
+      expect(stat?.type).toContain("application/json");
+
+      const data = await storage.read("models/sword/sword.json");
+      expect(new TextDecoder().decode(data!)).toBe('{"name":"sword"}');
+    });
+
+    test("missing files stat and read as null", async () => {
+      expect(await storage.stat("models/missing.glb")).toBeNull();
+      expect(await storage.read("models/missing.glb")).toBeNull();
+      expect(await storage.streamRange("models/missing.glb")).toBeNull();
+    });
+
+    test("streamRange returns inclusive byte ranges", async () => {
+      await storage.write("music/track.mp3", new Uint8Array([0, 1, 2, 3, 4]));
+
+      const slice = await storage.streamRange("music/track.mp3", {
+        start: 1,
+        end: 3,
+      });
+      expect(Array.from(new Uint8Array(await slice!.arrayBuffer()))).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    test("list is recursive and scoped to the prefix", async () => {
+      await storage.write("models/a/a.glb", "a");
+      await storage.write("models/b/nested/b.glb", "b");
+      await storage.write("music/c.mp3", "c");
+
+      const keys = (await storage.list("models")).map((e) => e.key).sort();
+      expect(keys).toEqual(["models/a/a.glb", "models/b/nested/b.glb"]);
+      expect(await storage.list("emotes")).toEqual([]);
+    });
+
+    test("rename moves and delete removes", async () => {
+      await storage.write("media/old.png", "png");
+      await storage.rename("media/old.png", "media/portraits/new.png");
+
+      expect(await storage.stat("media/old.png")).toBeNull();
+      expect(await storage.stat("media/portraits/new.png")).not.toBeNull();
+
+      expect(await storage.delete("media/portraits/new.png")).toBe(true);
+      expect(await storage.delete("media/portraits/new.png")).toBe(false);
+    });
+  });
+}
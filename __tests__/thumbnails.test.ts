@@ -0,0 +1,110 @@
+/**
+ * Thumbnail Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { PNG } from "pngjs";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { readImageSize } from "../src/utils/gltf";
+import {
+  ThumbnailSourceError,
+  getThumbnail,
+  renderThumbnail,
+} from "../src/utils/thumbnails";
+
+const environment = new Uint8Array(
+  readFileSync(join(import.meta.dir, "../emotes/base-environment.glb")),
+);
+
+function gradient(width: number, height: number): Uint8Array {
+  const png = new PNG({ width, height });
+  png.data.forEach((_, i) => (png.data[i] = i % 251));
+  return new Uint8Array(PNG.sync.write(png));
+}
+
+async function thumbnailSize(storage: MemoryStorageBackend, key: string) {
+  return readImageSize((await storage.read(key))!);
+}
+
+describe("renderThumbnail", () => {
+  test("fits the longest edge without upscaling", () => {
+    expect(readImageSize(renderThumbnail(gradient(300, 150), 128))).toEqual({
+      width: 128,
+      height: 64,
+    });
+    expect(readImageSize(renderThumbnail(gradient(40, 20), 128))).toEqual({
+      width: 40,
+      height: 20,
+    });
+    expect(() => renderThumbnail(new Uint8Array([1, 2, 3]), 128)).toThrow(
+      ThumbnailSourceError,
+    );
+  });
+});
+
+describe("getThumbnail", () => {
+  test("caches per size and regenerates when the source changes", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/portrait.png", gradient(512, 512));
+
+    const first = await getThumbnail(storage, "media/portrait.png", 128);
+    expect(first?.etag).toMatch(/^W\/"[0-9a-f]{16}-128"$/);
+    expect(await thumbnailSize(storage, first!.key)).toEqual({
+      width: 128,
+      height: 128,
+    });
+    expect(await getThumbnail(storage, "media/portrait.png", 128)).toEqual(
+      first,
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.write("media/portrait.png", gradient(256, 128));
+    const second = await getThumbnail(storage, "media/portrait.png", 128);
+    expect(second?.etag).not.toBe(first?.etag);
+    expect(await storage.stat(first!.key)).toBeNull();
+    expect(await getThumbnail(storage, "media/missing.png", 128)).toBeNull();
+  });
+
+  test("uses a model's sidecar preview, else its embedded texture", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("models/env.glb", environment);
+
+    const embedded = await getThumbnail(storage, "models/env.glb", 64);
+    expect(await thumbnailSize(storage, embedded!.key)).toEqual({
+      width: 64,
+      height: 64,
+    });
+
+    await storage.write("models/env.preview.png", gradient(200, 100));
+    const sidecar = await getThumbnail(storage, "models/env.glb", 64);
+    expect(sidecar?.etag).not.toBe(embedded?.etag);
+    expect(await thumbnailSize(storage, sidecar!.key)).toEqual({
+      width: 64,
+      height: 32,
+    });
+
+    await storage.write(
+      "emotes/idle.glb",
+      readFileSync(join(import.meta.dir, "../emotes/emote-idle.glb")),
+    );
+    await expect(getThumbnail(storage, "emotes/idle.glb", 64)).rejects.toThrow(
+      ThumbnailSourceError,
+    );
+  });
+
+  test("refuses sources too large to decode", async () => {
+    // A PNG whose header claims 10000x10000 pixels
+    const huge = gradient(1, 1);
+    const view = new DataView(huge.buffer);
+    view.setUint32(16, 10_000);
+    view.setUint32(20, 10_000);
+
+    const storage = new MemoryStorageBackend();
+    await storage.write("media/huge.png", huge);
+    const rendering = getThumbnail(storage, "media/huge.png", 128);
+    await expect(rendering).rejects.toThrow(ThumbnailSourceError);
+    await expect(rendering).rejects.toThrow("Source is too large");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Trash Tests
+ * Soft delete, listing, restore (including conflicts and the change hooks
+ * that follow), purging single entries and expiry with an injected clock
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createTrashRoute } from "../src/routes/trash";
+import { createSprite, readSpriteDefinition } from "../src/utils/audio-sprites";
+import { handleAssetChanges } from "../src/utils/asset-changes";
+import {
+  listTrash,
+  moveToTrash,
+  purgeExpiredTrash,
+  TRASH_RETENTION_DAYS,
+} from "../src/utils/trash";
+import { wav } from "./fixtures/audio";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createTrash() {
+  const storage = new MemoryStorageBackend();
+  const route = createTrashRoute(storage);
+  const request = (path: string, body?: object) =>
+    route.handle(
+      new Request(`http://localhost/api/trash${path}`, {
+        method: body ? "POST" : "GET",
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      }),
+    );
+  return { storage, request };
+}
+
+describe("trash", () => {
+  test("soft delete moves files to the trash and lists them", async () => {
+    const { storage, request } = createTrash();
+    await storage.write("models/axe/axe.glb", "axe");
+
+    const entry = await moveToTrash(storage, "models/axe/axe.glb", "alice");
+    expect(entry).toMatchObject({
+      originalPath: "models/axe/axe.glb",
+      size: 3,
+      deletedBy: "alice",
+    });
+    expect(await storage.stat("models/axe/axe.glb")).toBeNull();
+    expect(Date.parse(entry!.expiresAt) - Date.parse(entry!.deletedAt)).toBe(
+      TRASH_RETENTION_DAYS * DAY_MS,
+    );
+
+    // Missing files and system keys are not trashed
+    expect(await moveToTrash(storage, "models/none.glb", null)).toBeNull();
+    expect(await moveToTrash(storage, ".cdn/index.sqlite", null)).toBeNull();
+
+    const response = await request("");
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.retentionDays).toBe(TRASH_RETENTION_DAYS);
+    expect(body.entries).toEqual([entry]);
+  });
+
+  test("restores files to their original paths", async () => {
+    const { storage, request } = createTrash();
+    await storage.write("models/axe/axe.glb", "axe");
+    const entry = await moveToTrash(storage, "models/axe/axe.glb", null);
+
+    const response = await request("/restore", {
+      ids: [entry!.id, "00000000-0000-0000-0000-000000000000"],
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      restored: 1,
+      failed: 1,
+      conflicts: [],
+    });
+    expect(
+      new TextDecoder().decode((await storage.read("models/axe/axe.glb"))!),
+    ).toBe("axe");
+    expect(await listTrash(storage)).toEqual([]);
+  });
+
+  test("refuses to restore over a file created since (409)", async () => {
+    const { storage, request } = createTrash();
+    await storage.write("models/axe/axe.glb", "old");
+    const entry = await moveToTrash(storage, "models/axe/axe.glb", null);
+    await storage.write("models/axe/axe.glb", "new");
+
+    const response = await request("/restore", { ids: [entry!.id] });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      restored: 0,
+      conflicts: ["models/axe/axe.glb"],
+    });
+    expect(
+      new TextDecoder().decode((await storage.read("models/axe/axe.glb"))!),
+    ).toBe("new");
+    expect(await listTrash(storage)).toEqual([entry]);
+  });
+
+  test("restoring a sprite member rebuilds the sprite", async () => {
+    const { storage, request } = createTrash();
+    await storage.write("media/sfx/hit.wav", wav(1));
+    await storage.write("media/sfx/jump.wav", wav(1));
+    await createSprite(
+      storage,
+      { name: "ui", folder: "media/sfx", formats: ["wav"] },
+      null,
+    );
+
+    const entry = await moveToTrash(storage, "media/sfx/hit.wav", null);
+    await handleAssetChanges(null, storage, ["media/sfx/hit.wav"]);
+    const members = async () =>
+      (await readSpriteDefinition(storage, "ui"))!.build!.members.map(
+        (member) => member.path,
+      );
+    expect(await members()).toEqual(["media/sfx/jump.wav"]);
+
+    const response = await request("/restore", { ids: [entry!.id] });
+    expect(response.status).toBe(200);
+    expect(await members()).toEqual([
+      "media/sfx/hit.wav",
+      "media/sfx/jump.wav",
+    ]);
+  });
+
+  test("purges single entries and expired entries", async () => {
+    const { storage, request } = createTrash();
+    await storage.write("models/a.glb", "a");
+    await storage.write("models/b.glb", "b");
+    const a = await moveToTrash(storage, "models/a.glb", null);
+    const b = await moveToTrash(storage, "models/b.glb", null);
+
+    const response = await request("/purge", { ids: [a!.id] });
+    expect(await response.json()).toEqual({ success: true, purged: 1 });
+    expect(await listTrash(storage)).toEqual([b]);
+    expect(
+      (await storage.list(".cdn/trash")).map((entry) => entry.key).sort(),
+    ).toEqual([`.cdn/trash/${b!.id}.bin`, `.cdn/trash/${b!.id}.json`]);
+
+    // Nothing expires before the retention period has passed
+    const expiresAt = Date.parse(b!.expiresAt);
+    expect(await purgeExpiredTrash(storage, expiresAt - 1)).toBe(0);
+    expect(await listTrash(storage)).toHaveLength(1);
+    expect(await purgeExpiredTrash(storage, expiresAt)).toBe(1);
+    expect(await listTrash(storage)).toEqual([]);
+    expect(await storage.list(".cdn/trash")).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Resumable Upload Tests
+ * The tus route end to end: discovery, creation, offset queries, chunks,
+ * completion, termination, resuming with a fresh route after a restart,
+ * oversized chunks, interrupted chunks and concurrent PATCHes to one
+ * session
+ */
+
+import { afterAll, describe, test, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { LocalStorageBackend } from "../src/storage/local";
+import type { StorageBackend } from "../src/storage/types";
+import { createTusRoute } from "../src/routes/tus";
+import { getRevisions } from "../src/utils/version-history";
+
+const CONTENT = JSON.stringify({ name: "axe", description: "x".repeat(40) });
+const encode = (value: string) => Buffer.from(value).toString("base64");
+
+function tusClient(storage: StorageBackend) {
+  const route = createTusRoute(storage, ["models"]);
+  return (
+    method: string,
+    path: string,
+    headers: Record<string, string> = {},
+    body?: BodyInit,
+  ) =>
+    route.handle(
+      new Request(`http://localhost/api/tus${path}`, {
+        method,
+        headers: { "Tus-Resumable": "1.0.0", ...headers },
+        body,
+      }),
+    );
+}
+
+async function createUpload(storage: StorageBackend) {
+  const request = tusClient(storage);
+  const response = await request("POST", "", {
+    "Upload-Length": String(CONTENT.length),
+    "Upload-Metadata": `filename ${encode("axe/info.json")},directory ${encode("models")}`,
+  });
+  expect(response.status).toBe(201);
+  const location = response.headers.get("location")!;
+  return { request, id: location.split("/").pop()! };
+}
+
+function patch(id: string, offset: number, chunk: BodyInit, headers = {}) {
+  return [
+    "PATCH",
+    `/${id}`,
+    {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": String(offset),
+      ...headers,
+    },
+    chunk,
+  ] as const;
+}
+
+async function uploadKeys(storage: StorageBackend, id: string) {
+  return (await storage.list(`.cdn/uploads/${id}`)).map((entry) => entry.key);
+}
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("tus uploads", () => {
+  test("discovery does not require an API key", async () => {
+    const previous = process.env.CDN_API_KEY;
+    process.env.CDN_API_KEY = "secret";
+    try {
+      const request = tusClient(new MemoryStorageBackend());
+      const response = await request("OPTIONS", "");
+      expect(response.status).toBe(204);
+      expect(response.headers.get("tus-version")).toBe("1.0.0");
+      expect(response.headers.get("tus-extension")).toBe(
+        "creation,termination,expiration",
+      );
+    } finally {
+      if (previous === undefined) {
+        delete process.env.CDN_API_KEY;
+      } else {
+        process.env.CDN_API_KEY = previous;
+      }
+    }
+  });
+
+  test("uploads in chunks and resumes after a restart", async () => {
+    const storage = new MemoryStorageBackend();
+    const { request, id } = await createUpload(storage);
+
+    const head = await request("HEAD", `/${id}`);
+    expect(head.status).toBe(200);
+    expect(head.headers.get("upload-offset")).toBe("0");
+    expect(head.headers.get("upload-length")).toBe(String(CONTENT.length));
+
+    const first = await request(...patch(id, 0, CONTENT.slice(0, 20)));
+    expect(first.status).toBe(204);
+    expect(first.headers.get("upload-offset")).toBe("20");
+
+    // A new route on the same storage picks up the persisted session
+    const restarted = tusClient(storage);
+    expect(
+      (await restarted("HEAD", `/${id}`)).headers.get("upload-offset"),
+    ).toBe("20");
+
+    const conflict = await restarted(...patch(id, 0, CONTENT));
+    expect(conflict.status).toBe(409);
+    expect(conflict.headers.get("upload-offset")).toBe("20");
+
+    const last = await restarted(...patch(id, 20, CONTENT.slice(20)));
+    expect(last.status).toBe(204);
+    expect(last.headers.get("upload-offset")).toBe(String(CONTENT.length));
+    expect(last.headers.get("x-upload-path")).toBe("models/axe/info.json");
+    expect(last.headers.get("x-upload-hash")).toMatch(/^[a-f0-9]{64}$/);
+
+    expect(
+      new TextDecoder().decode((await storage.read("models/axe/info.json"))!),
+    ).toBe(CONTENT);
+    expect(await getRevisions(storage, "models/axe/info.json")).toHaveLength(1);
+    expect(await uploadKeys(storage, id)).toEqual([]);
+  });
+
+  test("rejects chunks past Upload-Length before storing them", async () => {
+    const storage = new MemoryStorageBackend();
+    const { request, id } = await createUpload(storage);
+    const oversized = CONTENT + "extra";
+
+    // Declared up front
+    const declared = await request(
+      ...patch(id, 0, oversized, {
+        "Content-Length": String(oversized.length),
+      }),
+    );
+    expect(declared.status).toBe(413);
+
+    // Streamed without a length
+    const streamed = await request(
+      ...patch(id, 0, new Blob([oversized]).stream()),
+    );
+    expect(streamed.status).toBe(413);
+
+    expect(await uploadKeys(storage, id)).toEqual([]);
+    expect((await request("HEAD", `/${id}`)).headers.get("upload-offset")).toBe(
+      "0",
+    );
+  });
+
+  test("keeps the bytes of an interrupted chunk", async () => {
+    const root = mkdtempSync(join(tmpdir(), "cdn-tus-"));
+    tempDirs.push(root);
+    const storage = new LocalStorageBackend(root);
+    const { request, id } = await createUpload(storage);
+
+    // The connection drops after the first 20 bytes
+    const interrupted = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(CONTENT.slice(0, 20)));
+      },
+      pull(controller) {
+        controller.error(new Error("connection reset"));
+      },
+    });
+    const aborted = await request(...patch(id, 0, interrupted));
+    expect(aborted.status).toBe(500);
+
+    const head = await request("HEAD", `/${id}`);
+    expect(head.headers.get("upload-offset")).toBe("20");
+
+    const resumed = await request(...patch(id, 20, CONTENT.slice(20)));
+    expect(resumed.status).toBe(204);
+    expect(
+      new TextDecoder().decode((await storage.read("models/axe/info.json"))!),
+    ).toBe(CONTENT);
+  });
+
+  test("concurrent PATCHes at one offset store a single chunk", async () => {
+    const storage = new MemoryStorageBackend();
+    const { request, id } = await createUpload(storage);
+
+    const responses = await Promise.all(
+      ["aaaaaaaaaa", "bbbbbbbbbb"].map((chunk) =>
+        request(...patch(id, 0, chunk)),
+      ),
+    );
+    expect(responses.map((r) => r.status).sort()).toEqual([204, 409]);
+    expect(await uploadKeys(storage, id)).toHaveLength(1);
+    expect((await request("HEAD", `/${id}`)).headers.get("upload-offset")).toBe(
+      "10",
+    );
+  });
+
+  test("terminates an upload and discards its chunks", async () => {
+    const storage = new MemoryStorageBackend();
+    const { request, id } = await createUpload(storage);
+    await request(...patch(id, 0, "0123456789"));
+    expect(await uploadKeys(storage, id)).toHaveLength(1);
+
+    expect((await request("DELETE", `/${id}`)).status).toBe(204);
+    expect((await request("HEAD", `/${id}`)).status).toBe(404);
+    expect((await request("DELETE", `/${id}`)).status).toBe(404);
+    expect(await storage.list(".cdn/uploads")).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Upload Policy Tests
+ */
+
+import { describe, test, expect } from "bun:test";
+import { checkUploadPolicy, sniffFileKind } from "../src/utils/upload-policy";
+
+const GLB = new Uint8Array([0x67, 0x6c, 0x54, 0x46, 2, 0, 0, 0]);
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe("sniffFileKind", () => {
+  test("detects types from magic bytes", () => {
+    expect(sniffFileKind(GLB, "a.glb")).toBe("glb");
+    expect(sniffFileKind(PNG, "a.png")).toBe("png");
+    expect(sniffFileKind(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), "a")).toBe(
+      "jpeg",
+    );
+    expect(sniffFileKind(text("RIFF\0\0\0\0WAVEfmt "), "a")).toBe("wav");
+    expect(sniffFileKind(text("RIFF\0\0\0\0WEBPVP8 "), "a")).toBe("webp");
+    expect(sniffFileKind(text("OggS\0"), "a")).toBe("ogg");
+    expect(sniffFileKind(text("ID3\x04\0"), "a")).toBe("mp3");
+    expect(sniffFileKind(new Uint8Array([0xff, 0xfb, 0x90, 0x00]), "a")).toBe(
+      "mp3",
+    );
+  });
+
+  test("treats JSON as glTF only with a .gltf name", () => {
+    expect(sniffFileKind(text('  {"asset":{}}'), "scene.gltf")).toBe("gltf");
+    expect(sniffFileKind(text('{"id":1}'), "meta.json")).toBe("json");
+    expect(sniffFileKind(text("hello"), "notes.txt")).toBeNull();
+  });
+});
+
+describe("checkUploadPolicy", () => {
+  test("accepts files matching the directory policy", () => {
+    expect(checkUploadPolicy("models/swords", "a.glb", 100, GLB)).toBeNull();
+    expect(checkUploadPolicy("music", "cover.png", 100, PNG)).toBeNull();
+  });
+
+  test("reports the reason a file is rejected", () => {
+    expect(checkUploadPolicy("emotes", "a.png", 100, PNG)?.code).toBe(
+      "FILE_TYPE_NOT_ALLOWED",
+    );
+    expect(checkUploadPolicy("models", "a.glb", 100, PNG)?.code).toBe(
+      "EXTENSION_MISMATCH",
+    );
+    expect(checkUploadPolicy("media", "a.mp3", 100, text("hi"))?.code).toBe(
+      "UNKNOWN_FILE_TYPE",
+    );
+    expect(
+      checkUploadPolicy("emotes", "a.glb", 101 * 1024 * 1024, GLB)?.code,
+    ).toBe("FILE_TOO_LARGE");
+    expect(
+      checkUploadPolicy("models", "a.glb", 101 * 1024 * 1024, GLB),
+    ).toBeNull();
+  });
+});
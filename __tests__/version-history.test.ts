@@ -0,0 +1,110 @@
+/**
+ * Version History Tests
+ * Listing, downloading and rolling back revisions through the versions
+ * route, and revisions of concurrent writes to one path
+ */
+
+import { describe, test, expect } from "bun:test";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createVersionsRoute } from "../src/routes/versions";
+import { getRevisions, writeVersioned } from "../src/utils/version-history";
+
+const PATH = "music/theme.mp3";
+const encoded = encodeURIComponent(PATH);
+const text = (value: string) => new TextEncoder().encode(value);
+
+async function createHistory() {
+  const storage = new MemoryStorageBackend();
+  const route = createVersionsRoute(storage, ["music"]);
+  await writeVersioned(storage, PATH, text("first"), "alice");
+  await writeVersioned(storage, PATH, text("second"), "bob");
+  const request = (path: string, init?: RequestInit) =>
+    route.handle(new Request(`http://localhost/api/files/${path}`, init));
+  return { storage, request };
+}
+
+describe("version history", () => {
+  test("lists revisions oldest first", async () => {
+    const { request } = await createHistory();
+    const response = await request(`${encoded}/versions`);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.path).toBe(PATH);
+    expect(
+      body.versions.map((r: any) => [r.version, r.uploadedBy, r.action]),
+    ).toEqual([
+      [1, "alice", "upload"],
+      [2, "bob", "upload"],
+    ]);
+
+    const missing = await request(
+      `${encodeURIComponent("music/none.mp3")}/versions`,
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  test("downloads a revision as immutable content", async () => {
+    const { request } = await createHistory();
+    const response = await request(`${encoded}/versions/1`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("first");
+    expect(response.headers.get("cache-control")).toBe(
+      "public, max-age=31536000, immutable",
+    );
+
+    expect((await request(`${encoded}/versions/9`)).status).toBe(404);
+    expect((await request(`${encoded}/versions/latest`)).status).toBe(404);
+  });
+
+  test("rolls back to a revision and records it", async () => {
+    const { storage, request } = await createHistory();
+    const response = await request(`${encoded}/versions/1/rollback`, {
+      method: "POST",
+    });
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.revision).toMatchObject({
+      version: 3,
+      action: "rollback",
+      source: "1",
+    });
+    expect(new TextDecoder().decode((await storage.read(PATH))!)).toBe("first");
+    expect(await getRevisions(storage, PATH)).toHaveLength(3);
+  });
+
+  test("rollback to a missing revision is 404 and changes nothing", async () => {
+    const { storage, request } = await createHistory();
+    const response = await request(`${encoded}/versions/7/rollback`, {
+      method: "POST",
+    });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: "Revision not found",
+    });
+    expect(new TextDecoder().decode((await storage.read(PATH))!)).toBe(
+      "second",
+    );
+    expect(await getRevisions(storage, PATH)).toHaveLength(2);
+  });
+
+  test("concurrent writes to one path keep every revision", async () => {
+    const storage = new MemoryStorageBackend();
+    const revisions = await Promise.all(
+      ["a", "b", "c", "d", "e"].map((value) =>
+        writeVersioned(storage, PATH, text(value), null),
+      ),
+    );
+    expect(revisions.map((r) => r.version).sort()).toEqual([1, 2, 3, 4, 5]);
+
+    const history = await getRevisions(storage, PATH);
+    expect(history.map((r) => r.version)).toEqual([1, 2, 3, 4, 5]);
+    expect(new Set(history.map((r) => r.hash)).size).toBe(5);
+
+    // The current file is the content of the last recorded revision
+    const current = new TextDecoder().decode((await storage.read(PATH))!);
+    expect(history[4].hash).toBe(
+      new Bun.CryptoHasher("sha256").update(current).digest("hex"),
+    );
+  });
+});
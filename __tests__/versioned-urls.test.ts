@@ -0,0 +1,105 @@
+/**
+ * Versioned URL Tests
+ * Uploads return a content-addressed /v/<hash>/<name> path that is cached
+ * for a year as immutable, while mutable asset paths revalidate after a
+ * short max-age.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { join } from "path";
+import type { Context } from "elysia";
+import { FileIndex } from "../src/storage/file-index";
+import { IndexedStorageBackend } from "../src/storage/indexed";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { createContentRoute } from "../src/routes/content";
+import { createUploadRoute } from "../src/routes/upload";
+import { serveFile } from "../src/utils/file-server";
+
+const tone = await Bun.file(
+  join(import.meta.dir, "fixtures", "tone.mp3"),
+).bytes();
+
+function createCdn() {
+  const index = new FileIndex(":memory:");
+  const storage = new IndexedStorageBackend(new MemoryStorageBackend(), index, [
+    "music",
+  ]);
+  const upload = createUploadRoute(storage, ["music"], index);
+  const content = createContentRoute(storage);
+  return { storage, upload, content };
+}
+
+async function uploadTone(upload: ReturnType<typeof createUploadRoute>) {
+  const form = new FormData();
+  form.append("files", new File([tone], "tone.mp3"));
+  form.append("directory", "music");
+  const response = await upload.handle(
+    new Request("http://localhost/api/upload", {
+      method: "POST",
+      body: form,
+      headers: { "User-Agent": "versioned-urls-test" },
+    }),
+  );
+  expect(response.status).toBe(200);
+  return (await response.json()).files[0];
+}
+
+describe("versioned URLs", () => {
+  test("uploads return the content-addressed path", async () => {
+    const { upload } = createCdn();
+    const file = await uploadTone(upload);
+    const hash = new Bun.CryptoHasher("sha256").update(tone).digest("hex");
+    expect(file.hash).toBe(hash);
+    expect(file.versionedPath).toBe(`v/${hash}/tone.mp3`);
+  });
+
+  test("hashed URLs are immutable for a year", async () => {
+    const { upload, content } = createCdn();
+    const file = await uploadTone(upload);
+
+    const response = await content.handle(
+      new Request(`http://localhost/${file.versionedPath}`),
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("cache-control")).toBe(
+      "public, max-age=31536000, immutable",
+    );
+    expect(response.headers.get("etag")).toBe(`"${file.hash}"`);
+    expect(response.headers.get("content-type")).toContain("audio/mpeg");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(tone);
+
+    // Revalidation keeps the immutable header
+    const notModified = await content.handle(
+      new Request(`http://localhost/${file.versionedPath}`, {
+        headers: { "If-None-Match": `"${file.hash}"` },
+      }),
+    );
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get("cache-control")).toBe(
+      "public, max-age=31536000, immutable",
+    );
+
+    const unknown = await content.handle(
+      new Request(`http://localhost/v/${"0".repeat(64)}/tone.mp3`),
+    );
+    expect(unknown.status).toBe(404);
+    const invalid = await content.handle(
+      new Request("http://localhost/v/not-a-hash/tone.mp3"),
+    );
+    expect(invalid.status).toBe(404);
+  });
+
+  test("mutable paths revalidate after a short max-age", async () => {
+    const { storage, upload } = createCdn();
+    const file = await uploadTone(upload);
+
+    const response = await serveFile(storage, file.path, {
+      request: new Request(`http://localhost/${file.path}`),
+      set: { headers: {} },
+    } as unknown as Context);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("cache-control")).toBe(
+      "public, max-age=60, must-revalidate",
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Waveform Tests
+ * tone.mp3 and tone.ogg hold one second of 22.05kHz stereo: a half-scale
+ * 440Hz tone for half a second, then silence. The MP3 has no LAME tag, so
+ * its encoder delay and padding are decoded too (41 frames of 576 samples).
+ * Both are decoded on the waveform worker.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { MemoryStorageBackend } from "../src/storage/memory";
+import { AudioParseError, getAudioMetadata } from "../src/utils/audio-metadata";
+import { decodeMp3 } from "../src/utils/mp3-decoder";
+import { decodeVorbis } from "../src/utils/vorbis-decoder";
+import { computePeaks, getWaveform } from "../src/utils/waveform";
+import { u32le } from "./fixtures/audio";
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(join(import.meta.dir, "fixtures", name)));
+
+/**
+ * 16-bit stereo WAV with the left channel from samples, the right silent
+ */
+function wav(samples: number[], sampleRate = 8000): Uint8Array {
+  const data = new DataView(new ArrayBuffer(samples.length * 4));
+  samples.forEach((value, i) => data.setInt16(i * 4, value, true));
+  const fmt = new DataView(new ArrayBuffer(16));
+  fmt.setUint16(0, 1, true);
+  fmt.setUint16(2, 2, true);
+  fmt.setUint32(4, sampleRate, true);
+  fmt.setUint32(8, sampleRate * 4, true);
+  fmt.setUint16(12, 4, true);
+  fmt.setUint16(14, 16, true);
+  const body = Buffer.concat([
+    Buffer.from("WAVEfmt "),
+    u32le(16),
+    new Uint8Array(fmt.buffer),
+    Buffer.from("data"),
+    u32le(data.byteLength),
+    new Uint8Array(data.buffer),
+  ]);
+  return Buffer.concat([Buffer.from("RIFF"), u32le(body.byteLength), body]);
+}
+
+function decodeAll(decode: typeof decodeMp3, data: Uint8Array): Float32Array {
+  const chunks: Float32Array[] = [];
+  decode(data, (samples) => chunks.push(samples.slice()));
+  return Float32Array.from(chunks.flatMap((chunk) => [...chunk]));
+}
+
+describe("decoders", () => {
+  for (const [name, decode, length] of [
+    ["tone.mp3", decodeMp3, 41 * 576],
+    ["tone.ogg", decodeVorbis, 22050],
+  ] as const) {
+    test(`decodes ${name} to its original length and level`, () => {
+      const samples = decodeAll(decode, fixture(name));
+      expect(samples.length).toBe(length);
+
+      const peak = (start: number, end: number) =>
+        Math.max(...samples.subarray(start, end).map(Math.abs));
+      expect(peak(1000, 10000)).toBeCloseTo(0.5, 1);
+      expect(peak(14000, 22050)).toBeLessThan(0.01);
+    });
+  }
+
+  test("rejects data without audio frames", () => {
+    expect(() => decodeMp3(new Uint8Array(1000), () => {})).toThrow(
+      AudioParseError,
+    );
+    expect(() => decodeVorbis(fixture("tone.mp3"), () => {})).toThrow(
+      AudioParseError,
+    );
+  });
+});
+
+describe("getWaveform", () => {
+  test("computes WAV peaks and merges them to the requested points", async () => {
+    const storage = new MemoryStorageBackend();
+    // 1024 samples: a ramp to full scale, then a negative half-scale block
+    const samples = Array.from({ length: 1024 }, (_, i) =>
+      i < 512 ? Math.floor((i / 511) * 32767) : -16384,
+    );
+    await storage.write("sound_effect/ramp.wav", wav(samples));
+
+    const full = await getWaveform(storage, "sound_effect/ramp.wav", 100);
+    // Stereo is mixed to mono, halving the left channel
+    expect(full?.waveform).toMatchObject({
+      version: 2,
+      channels: 1,
+      sample_rate: 8000,
+      samples_per_pixel: 256,
+      bits: 16,
+      length: 4,
+    });
+    expect(full!.waveform.data).toEqual([
+      0, 8175, 8207, 16383, -8192, -8192, -8192, -8192,
+    ]);
+
+    const merged = await getWaveform(storage, "sound_effect/ramp.wav", 2);
+    expect(merged?.waveform.samples_per_pixel).toBe(512);
+    expect(merged!.waveform.data).toEqual([0, 16383, -8192, -8192]);
+    expect(merged!.etag).not.toBe(full!.etag);
+  });
+
+  test("caches peaks until the file changes", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("music/tone.ogg", fixture("tone.ogg"));
+
+    const first = await getWaveform(storage, "music/tone.ogg", 1000);
+    expect(first?.waveform.length).toBe(Math.ceil(22050 / 256));
+    const cached = await storage.list(".cdn/waveforms/music/tone.ogg");
+    expect(cached).toHaveLength(1);
+    expect(await getWaveform(storage, "music/tone.ogg", 1000)).toEqual(first);
+
+    await Bun.sleep(5);
+    await storage.write("music/tone.ogg", fixture("tone.mp3"));
+    const second = await getWaveform(storage, "music/tone.ogg", 1000);
+    expect(second?.etag).not.toBe(first?.etag);
+    const recached = await storage.list(".cdn/waveforms/music/tone.ogg");
+    expect(recached.map((entry) => entry.key)).not.toEqual(
+      cached.map((entry) => entry.key),
+    );
+    expect(recached).toHaveLength(1);
+
+    expect(await getWaveform(storage, "music/none.ogg", 1000)).toBeNull();
+  });
+
+  test("decodes once for concurrent requests", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("music/tone.mp3", fixture("tone.mp3"));
+    const read = storage.read.bind(storage);
+    let reads = 0;
+    storage.read = (key) => {
+      if (key === "music/tone.mp3") {
+        reads++;
+      }
+      return read(key);
+    };
+
+    const results = await Promise.all(
+      [1000, 1000, 10].map((points) =>
+        getWaveform(storage, "music/tone.mp3", points),
+      ),
+    );
+    expect(reads).toBe(1);
+    expect(results[0]).toEqual(results[1]);
+    expect(results[0]?.waveform.length).toBe(Math.ceil((41 * 576) / 256));
+    expect(results[2]?.waveform.length).toBe(10);
+  });
+
+  test("keeps decoder errors from the worker as AudioParseError", async () => {
+    const storage = new MemoryStorageBackend();
+    await storage.write("music/tone.ogg", fixture("tone.ogg"));
+    const { metadata } = (await getAudioMetadata(storage, "music/tone.ogg"))!;
+    await storage.write("music/tone.ogg", fixture("tone.mp3"));
+
+    const decoding = computePeaks(storage, "music/tone.ogg", 0, metadata);
+    await expect(decoding).rejects.toBeInstanceOf(AudioParseError);
+    await expect(decoding).rejects.toThrow(/Vorbis|Ogg/i);
+  });
+});
@@ -14,9 +14,17 @@ if (!API_KEY) {
 }
 
 async function getAllFiles() {
-  const response = await fetch(`${CDN_URL}/api/files`);
-  const data = await response.json();
-  return data.files;
+  // The listing is paginated; follow nextCursor until the last page
+  const files = [];
+  let cursor: string | null = null;
+  do {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    const response = await fetch(`${CDN_URL}/api/files${query}`);
+    const data = await response.json();
+    files.push(...data.files);
+    cursor = data.nextCursor ?? null;
+  } while (cursor);
+  return files;
 }
 
 async function deleteFile(filePath: string) {
@@ -1,6 +1,8 @@
 // State
-let allFiles = [];
 let filteredFiles = [];
+let totalMatching = 0;
+let nextCursor = null;
+let filterTimer = null;
 let renamingFile = null;
 let selectedFiles = new Set();
 let sortState = {
@@ -116,21 +118,48 @@ function setupEventListeners() {
   });
 }
 
-// Load files from API
-async function loadFiles() {
+// Files per page of the file list
+const PAGE_SIZE = 200;
+
+// Escape glob wildcards so search terms match literally
+function escapeGlob(term) {
+  return term.replace(/[*?[]/g, '[$&]');
+}
+
+// Listing query for the current search, filters and sort
+function buildFileQuery(cursor) {
+  const params = new URLSearchParams({
+    sort: sortState.column,
+    order: sortState.direction,
+    limit: String(PAGE_SIZE)
+  });
+  const searchTerm = document.getElementById('searchInput').value.trim();
+  const dirFilter = document.getElementById('filterDirectory').value;
+  const typeFilter = document.getElementById('filterType').value;
+
+  if (searchTerm) params.set('name', `*${escapeGlob(searchTerm)}*`);
+  if (dirFilter) params.set('prefix', dirFilter);
+  if (typeFilter) params.set('ext', typeFilter);
+  if (cursor) params.set('cursor', cursor);
+  return params;
+}
+
+// Load files from API (filtered, sorted and paginated server-side); with
+// append, the next page is added to the list
+async function loadFiles(append = false) {
   try {
-    console.log('[DEBUG] Loading files from /api/files...');
-    const response = await fetch('/api/files');
+    const params = buildFileQuery(append ? nextCursor : null);
+    console.log('[DEBUG] Loading files from /api/files?' + params);
+    const response = await fetch(`/api/files?${params}`);
     console.log('[DEBUG] Response status:', response.status, response.statusText);
     const data = await response.json();
-    console.log('[DEBUG] Data received:', data);
-    console.log('[DEBUG] Number of files:', data.files ? data.files.length : 0);
-    allFiles = data.files;
-    filteredFiles = [...allFiles];
-    console.log('[DEBUG] allFiles length:', allFiles.length);
-    console.log('[DEBUG] filteredFiles length:', filteredFiles.length);
-    updateStats();
-    sortFiles();
+    if (!response.ok) {
+      throw new Error(data.error || response.statusText);
+    }
+    console.log('[DEBUG] Number of files:', data.files.length, 'of', data.total);
+    filteredFiles = append ? [...filteredFiles, ...data.files] : data.files;
+    totalMatching = data.total;
+    nextCursor = data.nextCursor;
     updateSortIndicators();
     renderFiles();
     console.log('[DEBUG] Files loaded and rendered successfully');
@@ -146,6 +175,7 @@ async function loadDirectories() {
     const response = await fetch('/api/directories');
     const data = await response.json();
     renderDirectoryStats(data.directories);
+    updateStats(data.directories);
   } catch (error) {
     console.error('Error loading directories:', error);
   }
@@ -172,16 +202,22 @@ async function handleFileUpload(files) {
     });
 
     const result = await response.json();
+    const rejected = (result.rejected || [])
+      .map(r => `${r.name}: ${r.message}`)
+      .join(', ');
 
     if (result.success) {
       hideProgress();
       showSuccess(`Successfully uploaded ${result.files.length} file(s)`);
+      if (rejected) {
+        showError(`Rejected by upload policy: ${rejected}`);
+      }
       loadFiles();
       loadDirectories();
       document.getElementById('fileInput').value = '';
     } else {
       hideProgress();
-      showError(`Upload failed: ${result.error}`);
+      showError(`Upload failed: ${rejected || result.error}`);
     }
   } catch (error) {
     hideProgress();
@@ -224,51 +260,8 @@ function handleSort(column) {
     sortState.direction = 'asc';
   }
 
-  // Apply sort and update UI
-  sortFiles();
-  updateSortIndicators();
-  renderFiles();
-}
-
-// Sort files based on current sort state
-function sortFiles() {
-  filteredFiles.sort((a, b) => {
-    let aVal, bVal;
-
-    // Get values based on column type
-    switch (sortState.column) {
-      case 'name':
-        aVal = (a.name || '').toLowerCase();
-        bVal = (b.name || '').toLowerCase();
-        break;
-      case 'path':
-        aVal = (a.path || '').toLowerCase();
-        bVal = (b.path || '').toLowerCase();
-        break;
-      case 'size':
-        aVal = a.size || 0;
-        bVal = b.size || 0;
-        break;
-      case 'modified':
-        aVal = new Date(a.modified || 0).getTime();
-        bVal = new Date(b.modified || 0).getTime();
-        break;
-      default:
-        return 0;
-    }
-
-    // Handle null/undefined values
-    if (aVal === null || aVal === undefined) return 1;
-    if (bVal === null || bVal === undefined) return -1;
-
-    // Compare values
-    let comparison = 0;
-    if (aVal < bVal) comparison = -1;
-    if (aVal > bVal) comparison = 1;
-
-    // Apply direction
-    return sortState.direction === 'asc' ? comparison : -comparison;
-  });
+  // Reload from the first page in the new order
+  loadFiles();
 }
 
 // Update sort indicators in table headers
@@ -289,24 +282,11 @@ function updateSortIndicators() {
   });
 }
 
-// Apply search and filters
+// Apply search and filters (debounced so typing doesn't fire a request
+// per keystroke)
 function applyFilters() {
-  const searchTerm = document.getElementById('searchInput').value.toLowerCase();
-  const dirFilter = document.getElementById('filterDirectory').value;
-  const typeFilter = document.getElementById('filterType').value;
-
-  filteredFiles = allFiles.filter(file => {
-    const matchesSearch = file.name.toLowerCase().includes(searchTerm) ||
-                          file.path.toLowerCase().includes(searchTerm);
-    const matchesDir = !dirFilter || file.path.startsWith(dirFilter);
-    const matchesType = !typeFilter || file.type === typeFilter;
-
-    return matchesSearch && matchesDir && matchesType;
-  });
-
-  // Maintain sort after filtering
-  sortFiles();
-  renderFiles();
+  clearTimeout(filterTimer);
+  filterTimer = setTimeout(() => loadFiles(), 250);
 }
 
 // Get file icon/preview thumbnail
@@ -314,8 +294,14 @@ function getFilePreview(file) {
   const type = file.type.toLowerCase();
   const path = file.path;
 
-  // Image files - show thumbnail
-  if (['.png', '.jpg', '.jpeg', '.gif', '.webp'].includes(type)) {
+  // Images and models - small server-side thumbnail instead of the full file
+  if (['.png', '.jpg', '.jpeg', '.glb'].includes(type)) {
+    return `<img src="/api/thumb/${path}?size=128" alt="${file.name}" class="thumbnail-img" loading="lazy" onerror="this.style.display='none'; this.nextElementSibling.style.display='flex';">
+            <div class="thumbnail-fallback" style="display:none;">${getFileIcon(type)}</div>`;
+  }
+
+  // Other images - show the file itself
+  if (['.gif', '.webp'].includes(type)) {
     return `<img src="/${path}" alt="${file.name}" class="thumbnail-img" loading="lazy" onerror="this.style.display='none'; this.nextElementSibling.style.display='flex';">
             <div class="thumbnail-fallback" style="display:none;">${getFileIcon(type)}</div>`;
   }
@@ -361,6 +347,16 @@ function renderFiles() {
 
   console.log('[DEBUG] Rendering', filteredFiles.length, 'files...');
 
+  const loadMoreRow = nextCursor ? `
+    <tr>
+      <td colspan="7" class="px-6 py-4 text-center">
+        <button onclick="loadFiles(true)" class="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white">
+          Load more (${filteredFiles.length} of ${totalMatching} shown)
+        </button>
+      </td>
+    </tr>
+  ` : '';
+
   fileList.innerHTML = filteredFiles.map(file => {
     const isRenaming = renamingFile && renamingFile.path === file.path;
     const isSelected = selectedFiles.has(file.path);
@@ -437,7 +433,7 @@ function renderFiles() {
       </td>
     </tr>
     `;
-  }).join('');
+  }).join('') + loadMoreRow;
 }
 
 // Render directory statistics
@@ -453,10 +449,10 @@ function renderDirectoryStats(directories) {
   `).join('');
 }
 
-// Update overall stats
-function updateStats() {
-  const totalFiles = allFiles.length;
-  const totalSize = allFiles.reduce((sum, file) => sum + file.size, 0);
+// Update overall stats from the per-directory totals
+function updateStats(directories) {
+  const totalFiles = directories.reduce((sum, dir) => sum + dir.fileCount, 0);
+  const totalSize = directories.reduce((sum, dir) => sum + dir.totalSize, 0);
 
   document.getElementById('totalFiles').textContent = totalFiles;
   document.getElementById('totalSize').textContent = formatBytes(totalSize);
@@ -739,6 +735,9 @@ async function previewAudio(path, name, container) {
     </div>
   `;
 
+  // Peaks come from the server, so the waveform does not wait for decoding
+  setupWaveform(path);
+
   try {
     const response = await fetch(`/${path}`);
     const arrayBuffer = await response.arrayBuffer();
@@ -755,9 +754,6 @@ async function previewAudio(path, name, container) {
       <div>Channels: ${audioBuffer.numberOfChannels}</div>
     `;
 
-    // Setup waveform visualization
-    setupWaveform();
-
     // Setup controls
     const seekBar = document.getElementById('audioSeek');
     seekBar.max = duration;
@@ -780,31 +776,40 @@ async function previewAudio(path, name, container) {
   }
 }
 
-function setupWaveform() {
+async function setupWaveform(path) {
   const canvas = document.getElementById('waveformCanvas');
   const ctx = canvas.getContext('2d');
   canvas.width = canvas.offsetWidth * 2;
   canvas.height = canvas.offsetHeight * 2;
   ctx.scale(2, 2);
 
-  const data = audioBuffer.getChannelData(0);
-  const step = Math.ceil(data.length / canvas.width);
+  const width = canvas.width / 2;
   const amp = canvas.height / 4;
 
   ctx.fillStyle = '#1f2937';
   ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-  ctx.strokeStyle = '#3b82f6';
-  ctx.lineWidth = 1;
-  ctx.beginPath();
-
-  for (let i = 0; i < canvas.width / 2; i++) {
-    const min = Math.min(...data.slice(i * step, (i + 1) * step));
-    const max = Math.max(...data.slice(i * step, (i + 1) * step));
-    ctx.moveTo(i, (1 + min) * amp);
-    ctx.lineTo(i, (1 + max) * amp);
+  try {
+    const response = await fetch(`/api/waveform/${path}?points=${Math.max(1, Math.floor(width))}`);
+    if (!response.ok) return;
+    const waveform = await response.json();
+
+    // One min/max pair per pixel, 16-bit values scaled to -1..1
+    const scale = waveform.length / width;
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 0; i < waveform.length; i++) {
+      const x = i / scale;
+      const min = waveform.data[i * 2] / 32768;
+      const max = waveform.data[i * 2 + 1] / 32768;
+      ctx.moveTo(x, (1 - max) * amp);
+      ctx.lineTo(x, (1 - min) * amp);
+    }
+    ctx.stroke();
+  } catch (error) {
+    console.error('Failed to load waveform:', error);
   }
-  ctx.stroke();
 }
 
 function toggleAudio() {
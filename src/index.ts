@@ -6,9 +6,14 @@
  * - Fast static file serving with Bun.file()
  * - Range request support for audio/video streaming
  * - ETag support for conditional requests (304 responses)
+ * - Immutable content-addressed URLs (/v/<hash>/<name>)
  * - Brotli/Gzip compression for text-based content
  * - Rate limiting to prevent abuse
  * - API key authentication for uploads
+ * - Resumable chunked uploads (tus 1.0)
+ * - SQLite file index for listings, kept in sync with the volume
+ * - Tags, custom metadata and full-text search
+ * - Generation metadata for AI-generated media, grouped by run
  * - Comprehensive security headers
  * - Type-safe file uploads with TypeBox validation
  * - CORS enabled for cross-origin requests
@@ -25,6 +30,7 @@ import { join } from "path";
 
 // Middleware and plugins
 import { errorHandler } from "./middleware/errorHandler";
+import { normalizeRelativePath, resolveAssetPath } from "./utils/safe-path";
 import { gracefulShutdown } from "./plugins/graceful-shutdown";
 // import { compression } from "./middleware/compression"; // TEMPORARILY DISABLED
 import { securityHeaders } from "./middleware/security";
@@ -41,9 +47,39 @@ import { createManagementRoute } from "./routes/management";
 import { createBulkDownloadRoute } from "./routes/bulk-download";
 import { createConfigRoute } from "./routes/config";
 import { createWebSocketRoute } from "./routes/websocket";
+import { createVersionsRoute } from "./routes/versions";
+import { createValidationRoute } from "./routes/validation";
+import { createInspectRoute } from "./routes/inspect";
+import { createEmotesRoute } from "./routes/emotes";
+import { createVariantsRoute } from "./routes/variants";
+import { createThumbnailRoute } from "./routes/thumbnails";
+import { createImageRoute } from "./routes/images";
+import { createAudioRoute } from "./routes/audio";
+import { createWaveformRoute } from "./routes/waveform";
+import { createPlaylistsRoute } from "./routes/playlists";
+import { createSpritesRoute } from "./routes/sprites";
+import { createSearchRoute } from "./routes/search";
+import { createGenerationsRoute } from "./routes/generations";
+import { createTrashRoute } from "./routes/trash";
+import { createBackupsRoute } from "./routes/backups";
+import { createTusRoute } from "./routes/tus";
+import { createContentRoute } from "./routes/content";
 
 // Utilities
 import { serveFile, serveFileHead } from "./utils/file-server";
+import { negotiateVariant } from "./utils/gltf-optimize";
+import { createStorageBackend } from "./storage";
+import { LocalStorageBackend } from "./storage/local";
+import { createFileIndex } from "./storage/file-index";
+import {
+  IndexedStorageBackend,
+  scheduleIndexReconcile,
+} from "./storage/indexed";
+import { syncMetaIndex } from "./utils/file-meta";
+import { syncGenerationIndex } from "./utils/generation-meta";
+import { scheduleTrashPurge } from "./utils/trash";
+import { scheduleBackups } from "./utils/backups";
+import { scheduleUploadSessionCleanup } from "./utils/resumable-uploads";
 
 // Configuration from environment variables
 const ROOT_DIR = process.cwd();
@@ -52,6 +88,7 @@ const DATA_DIR =
   process.env.RAILWAY_VOLUME_MOUNT_PATH || process.env.DATA_DIR || ROOT_DIR;
 const PORT = process.env.PORT || 3005;
 const CORS_ORIGIN = process.env.CORS_ORIGIN || "*";
+const MAX_BODY_SIZE = Number(process.env.MAX_BODY_SIZE) || 1024 * 1024 * 1024;
 
 // Log directory paths for debugging
 console.log(`[Config] ROOT_DIR: ${ROOT_DIR}`);
@@ -61,6 +98,36 @@ console.log(`[Config] Dashboard path: ${join(ROOT_DIR, "dashboard")}`);
 // Asset directories to serve
 const ASSET_DIRS = ["models", "emotes", "music", "media"];
 
+// Storage backend (local volume by default, see STORAGE_BACKEND), with
+// the asset directories tracked in the file index
+const backend = createStorageBackend(DATA_DIR);
+const fileIndex = createFileIndex(DATA_DIR, backend.kind);
+const storage = new IndexedStorageBackend(backend, fileIndex, ASSET_DIRS);
+console.log(`[Config] Storage backend: ${storage.kind}`);
+console.log(`[Config] File index: ${fileIndex.path}`);
+
+// Bring the index up to date before serving listings, then follow changes
+// made to the volume outside the CDN. Tests import the app without a
+// volume of their own, so they skip the scan, hashing and watcher.
+if (process.env.NODE_ENV !== "test") {
+  await storage.reconcile();
+  await syncMetaIndex(storage, fileIndex);
+  await syncGenerationIndex(storage, fileIndex);
+  if (backend instanceof LocalStorageBackend) {
+    await storage.watch(backend.rootDir);
+  }
+  scheduleIndexReconcile(storage);
+}
+
+// Automatically purge trashed files after the retention period
+scheduleTrashPurge(storage);
+
+// Snapshot asset directories on a schedule (ENABLE_BACKUPS=true)
+scheduleBackups(storage, ASSET_DIRS);
+
+// Discard resumable upload sessions that were abandoned
+scheduleUploadSessionCleanup(storage);
+
 // Create Elysia app
 const app = new Elysia()
   // Graceful shutdown handler
@@ -90,7 +157,7 @@ const app = new Elysia()
     cors({
       origin: CORS_ORIGIN,
       credentials: true,
-      methods: ["GET", "POST", "HEAD", "OPTIONS"],
+      methods: ["GET", "POST", "HEAD", "OPTIONS", "PATCH", "DELETE"],
       allowedHeaders: [
         "Content-Type",
         "Authorization",
@@ -98,6 +165,10 @@ const app = new Elysia()
         "Range", // For partial content requests
         "If-None-Match", // For ETag conditional requests
         "If-Modified-Since",
+        "Tus-Resumable", // For resumable (tus) uploads
+        "Upload-Length",
+        "Upload-Offset",
+        "Upload-Metadata",
       ],
       exposeHeaders: [
         "Content-Range", // For range responses
@@ -109,6 +180,14 @@ const app = new Elysia()
         "X-RateLimit-Limit", // Rate limit info
         "X-RateLimit-Remaining",
         "X-RateLimit-Reset",
+        "Location", // Resumable (tus) upload info
+        "Tus-Resumable",
+        "Tus-Version",
+        "Tus-Extension",
+        "Tus-Max-Size",
+        "Upload-Offset",
+        "Upload-Length",
+        "Upload-Expires",
       ],
       maxAge: 86400, // Cache preflight for 24 hours
     }),
@@ -132,12 +211,28 @@ const app = new Elysia()
   // API ROUTES
   // ============================================
   .use(healthRoutes)
-  .use(createAssetsRoute(DATA_DIR, ASSET_DIRS))
-  .use(createUploadRoute(DATA_DIR))
+  .use(createAssetsRoute(storage, ASSET_DIRS, fileIndex))
+  .use(createUploadRoute(storage, ASSET_DIRS, fileIndex))
+  .use(createTusRoute(storage, ASSET_DIRS))
   .use(createAuthStatusRoute())
-  .use(createFilesRoute(DATA_DIR, ASSET_DIRS))
-  .use(createManagementRoute(DATA_DIR, ASSET_DIRS))
-  .use(createBulkDownloadRoute(DATA_DIR))
+  .use(createFilesRoute(storage, ASSET_DIRS, fileIndex))
+  .use(createManagementRoute(storage, ASSET_DIRS, fileIndex))
+  .use(createBulkDownloadRoute(storage, ASSET_DIRS))
+  .use(createVersionsRoute(storage, ASSET_DIRS))
+  .use(createValidationRoute(storage, ASSET_DIRS))
+  .use(createInspectRoute(storage, ASSET_DIRS))
+  .use(createEmotesRoute(storage, ASSET_DIRS))
+  .use(createVariantsRoute(storage, ASSET_DIRS))
+  .use(createThumbnailRoute(storage, ASSET_DIRS))
+  .use(createImageRoute(storage, ASSET_DIRS))
+  .use(createAudioRoute(storage, ASSET_DIRS))
+  .use(createWaveformRoute(storage, ASSET_DIRS))
+  .use(createPlaylistsRoute(storage))
+  .use(createSpritesRoute(storage, ASSET_DIRS))
+  .use(createSearchRoute(fileIndex))
+  .use(createGenerationsRoute(storage, ASSET_DIRS, fileIndex))
+  .use(createTrashRoute(storage))
+  .use(createBackupsRoute(storage, ASSET_DIRS))
   .use(createConfigRoute(DATA_DIR, ASSET_DIRS))
   .use(createWebSocketRoute())
 
@@ -153,46 +248,60 @@ const app = new Elysia()
   // Models directory - 3D GLB files, metadata, textures
   .all("/models/*", async (context) => {
     const relativePath = (context.params as any)["*"] || "";
-    const filePath = join(DATA_DIR, "models", relativePath);
+    const path = resolveAssetPath(`models/${relativePath}`, ASSET_DIRS);
+    // ?variant=meshopt or Accept: model/gltf-binary; variant=meshopt
+    const { key, headers } = await negotiateVariant(
+      storage,
+      path,
+      context.request,
+    );
     if (context.request.method === "HEAD") {
-      return serveFileHead(filePath, context);
+      return serveFileHead(storage, key, context, { headers });
     }
-    return serveFile(filePath, context);
+    return serveFile(storage, key, context, { headers });
   })
 
   // Emotes directory - Animation GLB files
   .all("/emotes/*", async (context) => {
     const relativePath = (context.params as any)["*"] || "";
-    const filePath = join(DATA_DIR, "emotes", relativePath);
-    const options = { contentType: "model/gltf-binary" };
+    const path = resolveAssetPath(`emotes/${relativePath}`, ASSET_DIRS);
+    const { key, headers } = await negotiateVariant(
+      storage,
+      path,
+      context.request,
+    );
+    const options = { contentType: "model/gltf-binary", headers };
     if (context.request.method === "HEAD") {
-      return serveFileHead(filePath, context, options);
+      return serveFileHead(storage, key, context, options);
     }
-    return serveFile(filePath, context, options);
+    return serveFile(storage, key, context, options);
   })
 
   // Music directory - Audio files (MP3, WAV, OGG)
   // Range requests are critical for audio seeking
   .all("/music/*", async (context) => {
     const relativePath = (context.params as any)["*"] || "";
-    const filePath = join(DATA_DIR, "music", relativePath);
+    const key = resolveAssetPath(`music/${relativePath}`, ASSET_DIRS);
     const options = { contentType: "audio/mpeg" };
     if (context.request.method === "HEAD") {
-      return serveFileHead(filePath, context, options);
+      return serveFileHead(storage, key, context, options);
     }
-    return serveFile(filePath, context, options);
+    return serveFile(storage, key, context, options);
   })
 
   // Media directory - AI-generated portraits, banners, audio
   .all("/media/*", async (context) => {
     const relativePath = (context.params as any)["*"] || "";
-    const filePath = join(DATA_DIR, "media", relativePath);
+    const key = resolveAssetPath(`media/${relativePath}`, ASSET_DIRS);
     if (context.request.method === "HEAD") {
-      return serveFileHead(filePath, context);
+      return serveFileHead(storage, key, context);
     }
-    return serveFile(filePath, context);
+    return serveFile(storage, key, context);
   })
 
+  // Versioned files - content-addressed by SHA-256, safe to cache forever
+  .use(createContentRoute(storage))
+
   // Favicon handler (prevent 404 errors in browsers)
   .get("/favicon.ico", () => {
     return new Response(null, { status: 204 });
@@ -315,8 +424,8 @@ const app = new Elysia()
         }
       })
       .get("/*", async ({ params, set }) => {
+        const relativePath = normalizeRelativePath((params as any)["*"] || "");
         try {
-          const relativePath = (params as any)["*"] || "";
           const filePath = join(ROOT_DIR, "dashboard", relativePath);
           const file = Bun.file(filePath);
           if (!(await file.exists())) {
@@ -342,7 +451,7 @@ const app = new Elysia()
     {
       port: Number(PORT),
       hostname: "0.0.0.0", // Bind to all interfaces for Railway/Docker
-      maxRequestBodySize: 100 * 1024 * 1024, // 100MB limit
+      maxRequestBodySize: MAX_BODY_SIZE, // 1GB default, uploads are streamed
       development: process.env.NODE_ENV !== "production",
     },
     ({ hostname, port }) => {
@@ -199,6 +199,31 @@ export function optionalApiKey() {
   });
 }
 
+/**
+ * Identify who is making a request, for audit fields like "uploadedBy"
+ * Returns the dashboard user for session cookies, the service identity for
+ * a valid API key, or null when the caller is anonymous
+ */
+export function getRequestActor(request: Request): string | null {
+  const sessionId = parseSessionCookie(request.headers.get("cookie"));
+  const session = sessionId ? getDashboardSession(sessionId) : null;
+  if (session) {
+    return session.privyUserId;
+  }
+
+  const validApiKey = process.env.CDN_API_KEY;
+  const authHeader = request.headers.get("authorization");
+  const providedKey = authHeader?.startsWith("Bearer ")
+    ? authHeader.substring(7)
+    : request.headers.get("x-api-key");
+
+  if (validApiKey && providedKey === validApiKey) {
+    return "asset-forge-backend";
+  }
+
+  return null;
+}
+
 /**
  * Generate a secure random API key
  * Use this to generate a new API key for CDN_API_KEY environment variable
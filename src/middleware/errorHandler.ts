@@ -1,14 +1,30 @@
 /**
  * Global Error Handler Middleware
- * Handles validation errors, not found, parse errors, and internal server errors
+ * Handles validation errors, unsafe paths, not found, parse errors, and
+ * internal server errors
+ * Registered globally so it applies to every route plugin
  */
 
 import { Elysia } from "elysia";
+import { UnsafePathError } from "../utils/safe-path";
 
 export const errorHandler = new Elysia({ name: "error-handler" }).onError(
+  { as: "global" },
   ({ code, error, set, request }) => {
     const url = new URL(request.url);
 
+    // Handle rejected client paths (traversal, outside asset directories)
+    if (error instanceof UnsafePathError) {
+      set.status = 400;
+      console.warn("[Unsafe Path]", url.pathname, error.message, error.path);
+
+      return {
+        error: "INVALID_PATH",
+        message: error.message,
+        path: error.path,
+      };
+    }
+
     // Handle Elysia validation errors
     if (code === "VALIDATION") {
       set.status = 400;
@@ -1,42 +1,210 @@
 /**
- * Assets Listing Route
- * Returns all files in the asset directories with metadata
+ * Assets Route
+ * Lists files in the asset directories (read from the file index, filtered,
+ * sorted and paginated by query parameters) or the assets they group into,
+ * gets or deletes one asset with all of its files and manages asset-level
+ * tags and metadata
  */
 
-import { Elysia } from "elysia";
-import { join } from "path";
-import { AssetsListResponse } from "../types/models";
-import { getAllFiles, toRelativePaths } from "../utils/file-helpers";
+import { Elysia, t } from "elysia";
+import {
+  AssetGroupListResponse,
+  AssetResponse,
+  AssetsListQuery,
+  AssetsListResponse,
+  BulkDeleteResponse,
+  MetaResponse,
+  MetaUpdateRequestBody
+} from "../types/models";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  queryFiles
+} from "../utils/file-helpers";
+import { deleteAsset, getAsset, listAssets } from "../utils/asset-groups";
+import { handleAssetChanges } from "../utils/asset-changes";
+import { MetadataError, updateMeta } from "../utils/file-meta";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import { InvalidCursorError, type FileIndex } from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
 
-export function createAssetsRoute(rootDir: string, assetDirs: string[]) {
-  return new Elysia({ prefix: "/api", name: "assets" }).get(
-    "/assets",
-    () => {
-      const files: any[] = [];
+/**
+ * Asset IDs are scoped to their directory, e.g. models/sword
+ */
+function assetIdOf(params: { directory: string; name: string }): string {
+  return `${params.directory}/${params.name}`;
+}
+
+export function createAssetsRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+  index: FileIndex
+) {
+  return new Elysia({ prefix: "/api", name: "assets" })
+    // GET /api/assets - List files, or assets with ?type=
+    .get(
+      "/assets",
+      async ({ query, set }) => {
+        try {
+          if (query.type) {
+            return listAssets(index, {
+              type: query.type === "all" ? undefined : query.type,
+              limit: Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+              cursor: query.cursor
+            });
+          }
+          return queryFiles(index, assetDirs, query);
+        } catch (error) {
+          if (
+            error instanceof InvalidCursorError ||
+            error instanceof RangeError
+          ) {
+            set.status = 400;
+            return {
+              files: [],
+              total: 0,
+              nextCursor: null,
+              error: error.message
+            };
+          }
+          throw error;
+        }
+      },
+      {
+        query: AssetsListQuery,
+        response: t.Union([AssetsListResponse, AssetGroupListResponse]),
+        detail: {
+          tags: ["Assets"],
+          summary: "List assets",
+          description: `Returns files in the CDN with metadata (path, size, modified date, type, content hash, asset ID). Filters: prefix (path prefix, e.g. models/sword), ext (comma-separated extensions), minSize/maxSize (bytes), modifiedSince (ISO date or epoch ms), name (case-insensitive glob on the file name, e.g. *sword*). Sorted by sort (name, path, size or modified; default path) in order (asc or desc). Pages hold limit files (default ${DEFAULT_PAGE_SIZE}); pass nextCursor back as cursor for the next page. total counts all matching files. With type (model, audio, image, data or all) the response lists assets instead: files grouped by asset folder (ID {directory}/{name}, e.g. models/sword; loose files at the top of a directory belong to no asset) with their type, file count, total size and last update, sorted by ID and paginated the same way (the file filters do not apply).`
+        }
+      }
+    )
+
+    // GET /api/assets/:directory/:name - One asset with all of its files
+    .get(
+      "/assets/:directory/:name",
+      async ({ params, set }) => {
+        const asset = getAsset(index, assetIdOf(params));
+        if (!asset) {
+          set.status = 404;
+          return { success: false, error: "Asset not found" };
+        }
+        return { success: true, asset };
+      },
+      {
+        response: AssetResponse,
+        detail: {
+          tags: ["Assets"],
+          summary: "Get an asset",
+          description:
+            "All files of the asset (everything under {directory}/{name}/, e.g. models/sword), each with its role (model, texture, thumbnail, metadata, audio or other), plus the asset's type, total size, last update, preview image path and asset-level tags and metadata"
+        }
+      }
+    )
 
-      // Collect files from all asset directories
-      assetDirs.forEach((dir) => {
-        const dirPath = join(rootDir, dir);
+    // Changes below require auth
+    .use(requireApiKey())
+
+    // PATCH /api/assets/:directory/:name/meta - Update asset-level tags and metadata
+    .patch(
+      "/assets/:directory/:name/meta",
+      async ({ params, body, set, request }) => {
+        const id = assetIdOf(params);
+        if (index.assetFiles(id).length === 0) {
+          set.status = 404;
+          return { success: false, error: "Asset not found" };
+        }
+
+        try {
+          const meta = await updateMeta(
+            storage,
+            index,
+            "asset",
+            id,
+            body,
+            getRequestActor(request)
+          );
+          console.log(`[Assets] Updated metadata of asset ${id}`);
+          return { success: true, meta };
+        } catch (error) {
+          if (error instanceof MetadataError) {
+            set.status = 400;
+            return { success: false, error: error.message };
+          }
+          console.error(`[Assets] Failed to update metadata of ${id}:`, error);
+          set.status = 500;
+          return {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to update metadata"
+          };
+        }
+      },
+      {
+        body: MetaUpdateRequestBody,
+        response: MetaResponse,
+        detail: {
+          tags: ["Assets"],
+          summary: "Update asset tags and metadata (Auth Required)",
+          description:
+            "Updates tags and custom key/value metadata that apply to every file of the asset, in the same format as PATCH /api/files/{path}/meta. Search matches files on their own and their asset's tags and metadata. Requires API key authentication.",
+          security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }]
+        }
+      }
+    )
+
+    // DELETE /api/assets/:directory/:name - Delete every file of an asset
+    .delete(
+      "/assets/:directory/:name",
+      async ({ params, set, request, server }) => {
+        const id = assetIdOf(params);
         try {
-          const dirFiles = getAllFiles(dirPath);
-          // Convert to relative paths for API response
-          const relativFiles = toRelativePaths(dirFiles, rootDir);
-          files.push(...relativFiles);
-        } catch (err) {
-          console.error(`Error listing ${dir}:`, err);
-        }
-      });
-
-      return { files };
-    },
-    {
-      response: AssetsListResponse,
-      detail: {
-        tags: ["Assets"],
-        summary: "List all assets",
-        description:
-          "Returns all files in the CDN with metadata (path, size, modified date, type)",
+          const { deleted, failed } = await deleteAsset(
+            storage,
+            index,
+            id,
+            getRequestActor(request)
+          );
+          if (deleted.length === 0 && failed === 0) {
+            set.status = 404;
+            return {
+              success: false,
+              deleted: 0,
+              failed: 0,
+              error: "Asset not found"
+            };
+          }
+
+          console.log(
+            `[Assets] Moved asset ${id} to trash: ${deleted.length} deleted, ${failed} failed`
+          );
+          await handleAssetChanges(server, storage, deleted);
+
+          return { success: true, deleted: deleted.length, failed };
+        } catch (error) {
+          console.error(`[Assets] Failed to delete ${id}:`, error);
+          set.status = 500;
+          return {
+            success: false,
+            deleted: 0,
+            failed: 0,
+            error:
+              error instanceof Error ? error.message : "Unknown delete error"
+          };
+        }
       },
-    }
-  );
+      {
+        response: BulkDeleteResponse,
+        detail: {
+          tags: ["Assets"],
+          summary: "Delete an asset (Auth Required)",
+          description:
+            "Moves every file of the asset (everything under {directory}/{name}/) to the trash, where each can be restored via /api/trash/restore until the retention period expires. Requires API key authentication.",
+          security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }]
+        }
+      }
+    );
 }
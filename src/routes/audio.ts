@@ -0,0 +1,80 @@
+/**
+ * Audio Metadata Route
+ * Duration, format and tags of a track without the client downloading it,
+ * e.g. for scheduling music crossfades
+ */
+
+import { Elysia } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import {
+  AUDIO_EXTENSIONS,
+  AudioParseError,
+  getAudioMetadata,
+  isAudioFile,
+} from "../utils/audio-metadata";
+import { checkETagMatch } from "../utils/range-handler";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createAudioRoute(storage: StorageBackend, assetDirs: string[]) {
+  return new Elysia({ prefix: "/api", name: "audio" }).get(
+    "/audio/*",
+    async ({ params, request, set }) => {
+      const key = resolveAssetPath(params["*"] || "", assetDirs);
+
+      if (!isAudioFile(key)) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: `Only ${AUDIO_EXTENSIONS.join(", ")} files have audio metadata`,
+        };
+      }
+
+      try {
+        const result = await getAudioMetadata(storage, key);
+        if (!result) {
+          set.status = 404;
+          return { success: false, path: key, error: "File not found" };
+        }
+
+        // Metadata only changes when the file does
+        const cacheHeaders = {
+          ETag: result.etag,
+          "Cache-Control": "public, max-age=0, must-revalidate",
+        };
+        if (
+          checkETagMatch(
+            result.etag,
+            request.headers.get("if-none-match") ?? undefined,
+          )
+        ) {
+          return new Response(null, { status: 304, headers: cacheHeaders });
+        }
+        Object.assign(set.headers, cacheHeaders);
+
+        return { success: true, path: key, audio: result.metadata };
+      } catch (error) {
+        if (error instanceof AudioParseError) {
+          set.status = 422;
+          return { success: false, path: key, error: error.message };
+        }
+        console.error("[Audio] Failed to read metadata:", error);
+        set.status = 500;
+        return {
+          success: false,
+          path: key,
+          error:
+            error instanceof Error ? error.message : "Failed to read metadata",
+        };
+      }
+    },
+    {
+      detail: {
+        tags: ["Files"],
+        summary: "Get audio metadata",
+        description:
+          "Returns duration (seconds), sample rate, channels, average bitrate, codec and ID3/Vorbis comment/RIFF INFO tags of an MP3, Ogg (Vorbis/Opus) or WAV file. Parsed from the file headers with range reads and cached by file ETag; supports If-None-Match.",
+      },
+    },
+  );
+}
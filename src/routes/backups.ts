@@ -0,0 +1,153 @@
+/**
+ * Backups Route
+ * Create, list and restore snapshots of all asset directories
+ */
+
+import { Elysia, t } from "elysia";
+import {
+  BackupCreateResponse,
+  BackupListResponse,
+  BackupRestoreRequestBody,
+  BackupRestoreResponse,
+} from "../types/models";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import {
+  applyBackupRetention,
+  createBackup,
+  listBackups,
+  restoreBackup,
+} from "../utils/backups";
+import { handleAssetChanges } from "../utils/asset-changes";
+
+export function createBackupsRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "backups" })
+      // Apply authentication for all backup routes
+      .use(requireApiKey())
+
+      // GET /api/backups - List backups
+      .get(
+        "/backups",
+        async () => ({
+          success: true,
+          backups: await listBackups(storage),
+        }),
+        {
+          response: BackupListResponse,
+          detail: {
+            tags: ["Backups"],
+            summary: "List backups (Auth Required)",
+            description:
+              "Returns all backups, newest first, with file counts and sizes.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // POST /api/backups - Create a backup now
+      .post(
+        "/backups",
+        async ({ set }) => {
+          try {
+            const backup = await createBackup(storage, assetDirs, "manual");
+            const removed = await applyBackupRetention(storage);
+
+            console.log(
+              `[Backups] Created ${backup.id} (${backup.fileCount} files, ${backup.storedSize} bytes stored)`,
+            );
+
+            return {
+              success: true,
+              backup,
+              removed,
+            };
+          } catch (error) {
+            console.error("[Backups] Create error:", error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error ? error.message : "Unknown backup error",
+            };
+          }
+        },
+        {
+          response: BackupCreateResponse,
+          detail: {
+            tags: ["Backups"],
+            summary: "Create a backup (Auth Required)",
+            description:
+              "Snapshots every asset directory into a timestamped manifest under backups/, storing file contents in the content-addressed blob store, then applies the daily/weekly retention rules. Returns the new backup and any backups removed by retention.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // POST /api/backups/:id/restore - Restore a backup
+      .post(
+        "/backups/:id/restore",
+        async ({ params, body, set, request, server }) => {
+          try {
+            const summary = await restoreBackup(storage, params.id, {
+              prune: body?.prune,
+              restoredBy: getRequestActor(request),
+            });
+
+            if (!summary) {
+              set.status = 404;
+              return {
+                success: false,
+                restored: 0,
+                unchanged: 0,
+                pruned: 0,
+                error: "Backup not found",
+              };
+            }
+
+            const { changedPaths, ...counts } = summary;
+
+            // Restored playlist tracks and sprite members are picked up
+            // before responding, as after an upload
+            await handleAssetChanges(server, storage, changedPaths);
+
+            console.log(
+              `[Backups] Restored ${params.id}: ${counts.restored} restored, ${counts.unchanged} unchanged, ${counts.pruned} pruned`,
+            );
+
+            return {
+              success: true,
+              ...counts,
+            };
+          } catch (error) {
+            console.error("[Backups] Restore error:", error);
+            set.status = 500;
+            return {
+              success: false,
+              restored: 0,
+              unchanged: 0,
+              pruned: 0,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Unknown restore error",
+            };
+          }
+        },
+        {
+          body: t.Optional(BackupRestoreRequestBody),
+          response: BackupRestoreResponse,
+          detail: {
+            tags: ["Backups"],
+            summary: "Restore a backup (Auth Required)",
+            description:
+              "Writes every file that changed since the backup back to its path, recording each as a new revision so the restore can be rolled back; unchanged files are skipped. With `prune: true`, files created after the backup are moved to the trash. Sprites and playlists are updated before the response.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
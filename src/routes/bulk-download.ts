@@ -4,13 +4,16 @@
  */
 
 import { Elysia } from "elysia";
-import { join, normalize, basename } from "path";
-import { existsSync } from "fs";
 import JSZip from "jszip";
 import { BulkDownloadRequestBody } from "../types/models";
 import { requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import { resolveAssetPath, UnsafePathError } from "../utils/safe-path";
 
-export function createBulkDownloadRoute(rootDir: string) {
+export function createBulkDownloadRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
   return (
     new Elysia({ prefix: "/api", name: "bulk-download" })
       // Apply authentication
@@ -43,49 +46,30 @@ export function createBulkDownloadRoute(rootDir: string) {
             // Add each file to the ZIP
             for (const filePath of filePaths) {
               try {
-                // Security: Validate path
-                if (
-                  filePath.includes("..") ||
-                  filePath.startsWith("/") ||
-                  filePath.includes("\\")
-                ) {
-                  console.warn(
-                    `[BulkDownload] Skipping invalid path: ${filePath}`
-                  );
-                  filesFailed++;
-                  continue;
-                }
-
-                // Construct absolute path
-                const absolutePath = normalize(join(rootDir, filePath));
-
-                // Ensure path is within rootDir
-                if (!absolutePath.startsWith(rootDir)) {
-                  console.warn(
-                    `[BulkDownload] Skipping path outside root: ${filePath}`
-                  );
-                  filesFailed++;
-                  continue;
-                }
+                const key = resolveAssetPath(filePath, assetDirs);
 
-                // Check if file exists
-                if (!existsSync(absolutePath)) {
+                // Read file from storage (null if it does not exist)
+                const data = await storage.read(key);
+                if (!data) {
                   console.warn(`[BulkDownload] File not found: ${filePath}`);
                   filesFailed++;
                   continue;
                 }
 
-                // Read file using Bun.file()
-                const file = Bun.file(absolutePath);
-                const arrayBuffer = await file.arrayBuffer();
-
                 // Add file to ZIP with relative path
                 // This preserves the directory structure
-                zip.file(filePath, arrayBuffer);
+                zip.file(key, data);
                 filesAdded++;
 
                 console.log(`[BulkDownload] Added: ${filePath}`);
               } catch (err) {
+                if (err instanceof UnsafePathError) {
+                  console.warn(
+                    `[BulkDownload] Skipping invalid path: ${filePath} (${err.message})`
+                  );
+                  filesFailed++;
+                  continue;
+                }
                 console.error(
                   `[BulkDownload] Error adding ${filePath}:`,
                   err
@@ -6,6 +6,11 @@
 import { Elysia } from "elysia";
 import { join } from "path";
 import { ConfigResponse } from "../types/models";
+import { BACKUP_CONFIG, BACKUP_PREFIX } from "../utils/backups";
+import {
+  describeUploadPolicies,
+  maxPolicyFileSize,
+} from "../utils/upload-policy";
 
 export function createConfigRoute(rootDir: string, assetDirs: string[]) {
   return new Elysia({ prefix: "/api", name: "config" }).get(
@@ -15,6 +20,7 @@ export function createConfigRoute(rootDir: string, assetDirs: string[]) {
       const corsOrigin = process.env.CORS_ORIGIN || "*";
       const allowedOrigins =
         corsOrigin === "*" ? ["*"] : corsOrigin.split(",").map((o) => o.trim());
+      const uploadPolicies = describeUploadPolicies();
 
       return {
         success: true,
@@ -25,7 +31,14 @@ export function createConfigRoute(rootDir: string, assetDirs: string[]) {
           },
           cors: {
             allowedOrigins,
-            allowedMethods: ["GET", "POST", "HEAD", "OPTIONS"],
+            allowedMethods: [
+              "GET",
+              "POST",
+              "HEAD",
+              "OPTIONS",
+              "PATCH",
+              "DELETE",
+            ],
             allowedHeaders: [
               "Content-Type",
               "Authorization",
@@ -33,22 +46,39 @@ export function createConfigRoute(rootDir: string, assetDirs: string[]) {
               "Range",
               "If-None-Match",
               "If-Modified-Since",
+              "Tus-Resumable",
+              "Upload-Length",
+              "Upload-Offset",
+              "Upload-Metadata",
             ],
           },
           directories: {
             assets: assetDirs,
             upload: rootDir,
-            backups: join(rootDir, "backups"),
+            backups: join(rootDir, BACKUP_PREFIX),
           },
           security: {
-            maxFileSize: 100, // MB
-            allowedFileTypes: [".glb", ".png", ".jpg", ".jpeg", ".json", ".mp3", ".wav", ".ogg"],
+            maxFileSize: maxPolicyFileSize() / 1024 / 1024, // MB
+            allowedFileTypes: [
+              ...new Set(
+                Object.values(uploadPolicies).flatMap(
+                  (policy) => policy.allowedFileTypes,
+                ),
+              ),
+            ],
+            uploadPolicies,
             enableAuth: !!process.env.CDN_API_KEY,
           },
           features: {
-            enableValidation: false, // Not implemented yet
-            enableBackups: false, // Not implemented yet
-            autoBackupInterval: 24, // Hours (placeholder)
+            enableValidation: Object.values(uploadPolicies).some(
+              (policy) => policy.validation !== "off",
+            ),
+            enableBackups: BACKUP_CONFIG.enabled,
+            autoBackupInterval: BACKUP_CONFIG.intervalHours, // Hours
+            backupRetention: {
+              daily: BACKUP_CONFIG.keepDaily,
+              weekly: BACKUP_CONFIG.keepWeekly,
+            },
           },
           ui: {
             theme: "dark",
@@ -0,0 +1,33 @@
+/**
+ * Versioned Files Route
+ * Serves content-addressed /v/<hash>/<name> URLs. The bytes behind a hash
+ * never change, so responses are cacheable for a year and marked
+ * immutable; the trailing name only determines the Content-Type.
+ */
+
+import { Elysia } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import { blobKey, isContentHash } from "../utils/content-store";
+import { serveFile, serveFileHead } from "../utils/file-server";
+
+export function createContentRoute(storage: StorageBackend) {
+  return new Elysia({ name: "content" }).all("/v/:hash/*", async (context) => {
+    const { hash, "*": name = "" } = context.params as {
+      hash: string;
+      "*": string;
+    };
+    if (!isContentHash(hash)) {
+      context.set.status = 404;
+      return new Response("File not found", { status: 404 });
+    }
+    const options = {
+      immutable: true,
+      etag: `"${hash}"`,
+      contentType: Bun.file(name).type,
+    };
+    if (context.request.method === "HEAD") {
+      return serveFileHead(storage, blobKey(hash), context, options);
+    }
+    return serveFile(storage, blobKey(hash), context, options);
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Emote Catalog Route
+ * Lists every emote in the emotes directory so clients no longer need a
+ * hard-coded list
+ */
+
+import { Elysia, t } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import { GltfParseError } from "../utils/gltf";
+import {
+  DEFAULT_REFERENCE_SKELETON,
+  buildEmoteCatalog,
+  loadReferenceSkeleton,
+} from "../utils/emote-catalog";
+import { checkETagMatch } from "../utils/range-handler";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createEmotesRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return new Elysia({ prefix: "/api", name: "emotes" }).get(
+    "/emotes",
+    async ({ query, request, set }) => {
+      const referencePath = query.reference || DEFAULT_REFERENCE_SKELETON;
+      let reference = null;
+
+      if (referencePath) {
+        const key = resolveAssetPath(referencePath, assetDirs);
+        if (!(await storage.stat(key))) {
+          set.status = 404;
+          return { success: false, error: `Reference ${key} not found` };
+        }
+        try {
+          reference = await loadReferenceSkeleton(storage, key);
+        } catch (error) {
+          if (!(error instanceof GltfParseError)) {
+            throw error;
+          }
+        }
+        if (!reference) {
+          set.status = 422;
+          return {
+            success: false,
+            error: `Reference ${key} is not a skinned glTF model`,
+          };
+        }
+      }
+
+      try {
+        const catalog = await buildEmoteCatalog(storage, reference);
+
+        const cacheHeaders = {
+          ETag: catalog.etag,
+          "Cache-Control": "public, max-age=0, must-revalidate",
+        };
+        if (
+          checkETagMatch(
+            catalog.etag,
+            request.headers.get("if-none-match") ?? undefined,
+          )
+        ) {
+          return new Response(null, { status: 304, headers: cacheHeaders });
+        }
+        Object.assign(set.headers, cacheHeaders);
+
+        return {
+          success: true,
+          count: catalog.emotes.length,
+          reference: reference
+            ? { path: reference.path, bones: reference.bones.length }
+            : null,
+          emotes: catalog.emotes,
+        };
+      } catch (error) {
+        console.error("[Emotes] Failed to build catalog:", error);
+        set.status = 500;
+        return {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to build catalog",
+        };
+      }
+    },
+    {
+      query: t.Object({
+        reference: t.Optional(t.String()),
+      }),
+      detail: {
+        tags: ["Assets"],
+        summary: "List emotes",
+        description:
+          "Returns every animated GLB in the emotes directory with clip names, durations, a loop hint, the bones it animates and (with ?reference=path or EMOTE_REFERENCE_SKELETON) compatibility against a reference skeleton. Rebuilt from the directory on each request with per-file results cached by ETag; supports If-None-Match.",
+      },
+    },
+  );
+}
@@ -1,84 +1,173 @@
 /**
  * Files Management Route
- * List files and delete individual files
+ * List files, delete individual files and manage their tags and metadata
  */
 
 import { Elysia } from "elysia";
-import { join, normalize } from "path";
-import { existsSync, unlinkSync } from "fs";
-import { AssetsListResponse, DeleteResponse } from "../types/models";
-import { getAllFiles, toRelativePaths } from "../utils/file-helpers";
-import { requireApiKey } from "../middleware/auth";
+import {
+  AssetsListResponse,
+  DeleteResponse,
+  FileListQuery,
+  MetaResponse,
+  MetaUpdateRequestBody,
+} from "../types/models";
+import { DEFAULT_PAGE_SIZE, queryFiles } from "../utils/file-helpers";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import { InvalidCursorError, type FileIndex } from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
+import { moveToTrash } from "../utils/trash";
+import { handleAssetChanges } from "../utils/asset-changes";
+import { resolveAssetPath } from "../utils/safe-path";
+import { MetadataError, readMeta, updateMeta } from "../utils/file-meta";
 
-export function createFilesRoute(rootDir: string, assetDirs: string[]) {
+export function createFilesRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+  index: FileIndex,
+) {
   return new Elysia({ prefix: "/api", name: "files" })
-    // GET /api/files - List all files with metadata
+    // GET /api/files - List files with metadata
     .get(
       "/files",
-      () => {
-        const files: any[] = [];
-
-        // Collect files from all asset directories
-        assetDirs.forEach((dir) => {
-          const dirPath = join(rootDir, dir);
-          try {
-            const dirFiles = getAllFiles(dirPath);
-            // Convert to relative paths for API response
-            const relativFiles = toRelativePaths(dirFiles, rootDir);
-            files.push(...relativFiles);
-          } catch (err) {
-            console.error(`[Files] Error listing ${dir}:`, err);
+      async ({ query, set }) => {
+        let page: ReturnType<typeof queryFiles>;
+        try {
+          page = queryFiles(index, assetDirs, query);
+        } catch (error) {
+          if (
+            error instanceof InvalidCursorError ||
+            error instanceof RangeError
+          ) {
+            set.status = 400;
+            return {
+              files: [],
+              total: 0,
+              nextCursor: null,
+              error: error.message,
+            };
           }
-        });
+          throw error;
+        }
 
-        return { files };
+        return page;
       },
       {
+        query: FileListQuery,
         response: AssetsListResponse,
         detail: {
           tags: ["Files"],
-          summary: "List all files",
-          description:
-            "Returns all files in the CDN with metadata (path, size, modified date, type)",
+          summary: "List files",
+          description: `Returns files in the CDN with metadata (path, size, modified date, type, content hash, asset ID) from the file index; audio files also include duration, sample rate, channels, bitrate, codec and tags, read into the index when the file is written. Takes the same filter, sort and pagination parameters as /api/assets (default page size ${DEFAULT_PAGE_SIZE}).`,
         },
       }
     )
 
-    // DELETE /api/delete/:path - Delete a specific file (requires auth)
-    .use(requireApiKey())
-    .delete(
-      "/delete/:path",
+    // GET /api/files/:path/meta - Tags and custom metadata of a file
+    .get(
+      "/files/:path/meta",
       async ({ params, set }) => {
-        try {
-          const filePath = decodeURIComponent((params as any).path);
+        const key = resolveAssetPath(params.path, assetDirs);
+        const meta = await readMeta(storage, "file", key);
+        if (meta) {
+          return { success: true, meta };
+        }
+        if (!(await storage.stat(key))) {
+          set.status = 404;
+          return { success: false, error: "File not found" };
+        }
+        return {
+          success: true,
+          meta: {
+            kind: "file" as const,
+            ref: key,
+            tags: [],
+            metadata: {},
+            updatedAt: null,
+            updatedBy: null,
+          },
+        };
+      },
+      {
+        response: MetaResponse,
+        detail: {
+          tags: ["Files"],
+          summary: "Get file tags and metadata",
+          description:
+            "Returns the tags and custom key/value metadata attached to a file (not including its asset's; see /api/assets/{id}). Path must be URL-encoded and relative to CDN root.",
+        },
+      }
+    )
 
-          // Security: Validate path doesn't escape root directory
-          if (
-            filePath.includes("..") ||
-            filePath.startsWith("/") ||
-            filePath.includes("\\")
-          ) {
-            set.status = 400;
-            return {
-              success: false,
-              error: "Invalid file path",
-            };
-          }
+    // Changes below require auth
+    .use(requireApiKey())
 
-          // Construct absolute path
-          const absolutePath = normalize(join(rootDir, filePath));
+    // PATCH /api/files/:path/meta - Update tags and custom metadata
+    .patch(
+      "/files/:path/meta",
+      async ({ params, body, set, request }) => {
+        const key = resolveAssetPath(params.path, assetDirs);
+        if (!(await storage.stat(key))) {
+          set.status = 404;
+          return { success: false, error: "File not found" };
+        }
 
-          // Ensure the resolved path is still within rootDir
-          if (!absolutePath.startsWith(rootDir)) {
+        try {
+          const meta = await updateMeta(
+            storage,
+            index,
+            "file",
+            key,
+            body,
+            getRequestActor(request),
+          );
+          console.log(`[Files] Updated metadata of ${key}`);
+          return { success: true, meta };
+        } catch (error) {
+          if (error instanceof MetadataError) {
             set.status = 400;
-            return {
-              success: false,
-              error: "Invalid file path - outside root directory",
-            };
+            return { success: false, error: error.message };
           }
+          console.error(`[Files] Failed to update metadata of ${key}:`, error);
+          set.status = 500;
+          return {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to update metadata",
+          };
+        }
+      },
+      {
+        body: MetaUpdateRequestBody,
+        response: MetaResponse,
+        detail: {
+          tags: ["Files"],
+          summary: "Update file tags and metadata (Auth Required)",
+          description:
+            "Updates the tags and custom key/value metadata of a file, used by /api/search. tags replaces the tag list, addTags and removeTags change it; metadata is merged into the existing keys, and null removes a key. Tags are case-insensitive. Values are strings, numbers or booleans. Requires API key authentication.",
+          security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+        },
+      }
+    )
 
-          // Check if file exists
-          if (!existsSync(absolutePath)) {
+    // DELETE /api/delete/:path - Delete a specific file (requires auth)
+    .delete(
+      "/delete/:path",
+      async ({ params, set, request, server }) => {
+        // Throws UnsafePathError (400) for traversal or paths outside the
+        // asset directories
+        const filePath = decodeURIComponent((params as any).path);
+        const key = resolveAssetPath(filePath, assetDirs);
+
+        try {
+          // Move the file to trash (restorable until retention expires)
+          const entry = await moveToTrash(
+            storage,
+            key,
+            getRequestActor(request),
+          );
+          if (!entry) {
             set.status = 404;
             return {
               success: false,
@@ -86,13 +175,14 @@ export function createFilesRoute(rootDir: string, assetDirs: string[]) {
             };
           }
 
-          // Delete the file
-          unlinkSync(absolutePath);
-
-          console.log(`[Files] Deleted file: ${filePath}`);
+          console.log(
+            `[Files] Moved file to trash: ${filePath} (${entry.id})`,
+          );
+          handleAssetChanges(server, storage, [key]);
 
           return {
             success: true,
+            trashId: entry.id,
           };
         } catch (error) {
           console.error("[Files] Delete error:", error);
@@ -110,7 +200,7 @@ export function createFilesRoute(rootDir: string, assetDirs: string[]) {
           tags: ["Files"],
           summary: "Delete a file (Auth Required)",
           description:
-            "Deletes a specific file from the CDN. Requires API key authentication. Path should be relative to CDN root.",
+            "Moves a specific file to the trash, where it can be restored via /api/trash/restore until the retention period expires. Requires API key authentication. Path should be relative to CDN root and inside an asset directory.",
           security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
         },
       }
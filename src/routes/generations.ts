@@ -0,0 +1,76 @@
+/**
+ * Generations Route
+ * Generation metadata of individual files and the outputs of one
+ * generation run (files in one folder with timestamps moments apart)
+ */
+
+import { Elysia } from "elysia";
+import { GenerationResponse, GenerationRunResponse } from "../types/models";
+import type { FileIndex } from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
+import { indexedFileInfo, withGenerations } from "../utils/file-helpers";
+import { readGeneration } from "../utils/generation-meta";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createGenerationsRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+  index: FileIndex,
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "generations" })
+      // GET /api/files/:path/generation - How a file was generated
+      .get(
+        "/files/:path/generation",
+        async ({ params, set }) => {
+          const key = resolveAssetPath(params.path, assetDirs);
+          const generation = await readGeneration(storage, key);
+          if (!generation) {
+            set.status = 404;
+            return {
+              success: false,
+              error: (await storage.stat(key))
+                ? "File has no generation metadata"
+                : "File not found",
+            };
+          }
+          return { success: true, generation };
+        },
+        {
+          response: GenerationResponse,
+          detail: {
+            tags: ["Files"],
+            summary: "Get file generation metadata",
+            description:
+              "Returns the generation record stored for a file at upload: prompt, negative prompt, model, provider, voice ID, source asset, seed and other generator parameters, with when and by whom it was recorded. Path must be URL-encoded and relative to CDN root.",
+          },
+        },
+      )
+
+      // GET /api/generations/:runId - Outputs of one generation run
+      .get(
+        "/generations/:runId",
+        async ({ params, set }) => {
+          const files = index.runFiles(params.runId);
+          if (files.length === 0) {
+            set.status = 404;
+            return { success: false, error: "Generation run not found" };
+          }
+          return {
+            success: true,
+            runId: params.runId,
+            files: withGenerations(index, files.map(indexedFileInfo)),
+          };
+        },
+        {
+          response: GenerationRunResponse,
+          detail: {
+            tags: ["Files"],
+            summary: "Get a generation run",
+            description:
+              "All files of a generation run with their generation records. Outputs made together in one folder (e.g. music_1763075769598.mp3 and voice_1763075769599.wav) have millisecond timestamps in their names at most GENERATION_RUN_WINDOW_MS (default 250) apart from the previous output; listings return the run's ID as generationRun.",
+          },
+        },
+      )
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Image Transformation Route
+ * /img/<path>?w=&h=&fit=&format=&q= serves resized, cropped or converted
+ * copies of images (e.g. WebP portraits sized for mobile clients)
+ */
+
+import { Elysia } from "elysia";
+import { extname } from "path";
+import type { StorageBackend } from "../storage/types";
+import { serveFile, serveFileHead } from "../utils/file-server";
+import {
+  ImageParamError,
+  ImageSourceError,
+  SOURCE_EXTENSIONS,
+  getTransformedImage,
+  isSigningRequired,
+  parseImageTransform,
+  sourceFormatOf,
+  verifyImageSignature,
+} from "../utils/image-transform";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createImageRoute(storage: StorageBackend, assetDirs: string[]) {
+  return new Elysia({ name: "images" }).all(
+    "/img/*",
+    async (context) => {
+      const { params, request, set } = context;
+      const key = resolveAssetPath(params["*"] || "", assetDirs);
+
+      if (!SOURCE_EXTENSIONS.includes(extname(key).toLowerCase())) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: `Only ${SOURCE_EXTENSIONS.join(", ")} images can be transformed`,
+        };
+      }
+
+      const query = new URL(request.url).searchParams;
+      const serve = request.method === "HEAD" ? serveFileHead : serveFile;
+
+      // Without parameters this is just the original
+      if ([...query.keys()].every((name) => name === "s")) {
+        return serve(storage, key, context);
+      }
+
+      if (isSigningRequired() && !verifyImageSignature(key, query)) {
+        set.status = 403;
+        return {
+          success: false,
+          path: key,
+          error: "Missing or invalid signature",
+        };
+      }
+
+      try {
+        const transform = parseImageTransform(query, sourceFormatOf(key));
+        const image = await getTransformedImage(storage, key, transform);
+        if (!image) {
+          set.status = 404;
+          return { success: false, path: key, error: "File not found" };
+        }
+        return serve(storage, image.key, context, {
+          etag: image.etag,
+          contentType: image.contentType,
+        });
+      } catch (error) {
+        if (error instanceof ImageParamError) {
+          set.status = 400;
+          return { success: false, path: key, error: error.message };
+        }
+        if (error instanceof ImageSourceError) {
+          set.status = 422;
+          return { success: false, path: key, error: error.message };
+        }
+        console.error("[Images] Failed to transform image:", error);
+        set.status = 500;
+        return {
+          success: false,
+          path: key,
+          error:
+            error instanceof Error ? error.message : "Image transform failed",
+        };
+      }
+    },
+    {
+      detail: {
+        tags: ["Assets"],
+        summary: "Transform an image",
+        description:
+          "Resizes, crops and converts a PNG, JPEG or WebP asset: w and h (pixels), fit (cover, contain, fill, inside; default cover), format (webp, avif, png, jpeg; default the source's) and q (1-100). Outputs are cached by source ETag and parameters and served with the same ETag, 304 and range handling as the asset routes. When IMAGE_SIGNING_KEY is set, requests with parameters must carry s = base64url HMAC-SHA256 of '<path>?<sorted query without s>'.",
+      },
+    },
+  );
+}
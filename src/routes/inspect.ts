@@ -0,0 +1,110 @@
+/**
+ * GLB Inspection Route
+ * Summarises a model's contents (counts, triangles, bounds, skeleton,
+ * animation clips) without the client downloading the file
+ */
+
+import { createHash } from "crypto";
+import { Elysia } from "elysia";
+import { extname } from "path";
+import type { StorageBackend } from "../storage/types";
+import { GltfParseError } from "../utils/gltf";
+import { inspectStoredModel } from "../utils/gltf-inspect";
+import { getVariantManifest } from "../utils/gltf-optimize";
+import { describeLods } from "../utils/lod";
+import { checkETagMatch } from "../utils/range-handler";
+import { resolveAssetPath } from "../utils/safe-path";
+
+const INSPECTABLE_EXTENSIONS = [".glb", ".gltf"];
+
+export function createInspectRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return new Elysia({ prefix: "/api", name: "inspect" }).get(
+    "/inspect/*",
+    async ({ params, request, set }) => {
+      const key = resolveAssetPath(params["*"] || "", assetDirs);
+
+      if (!INSPECTABLE_EXTENSIONS.includes(extname(key).toLowerCase())) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: "Only .glb and .gltf files can be inspected",
+        };
+      }
+
+      try {
+        const result = await inspectStoredModel(storage, key);
+        if (!result) {
+          set.status = 404;
+          return { success: false, path: key, error: "File not found" };
+        }
+
+        // LOD set recorded by the variant pipeline; pending jobs have no
+        // ETag yet but belong to the current upload
+        const [stat, manifest] = await Promise.all([
+          storage.stat(key),
+          getVariantManifest(storage, key),
+        ]);
+        const lods = describeLods(
+          key,
+          { triangles: result.inspection.triangles, size: stat?.size ?? 0 },
+          manifest && (!manifest.etag || manifest.etag === result.etag)
+            ? manifest.variants
+            : {},
+        );
+
+        // Inspection only changes when the file or its LOD set does
+        const etag =
+          lods.length > 1
+            ? `${result.etag.slice(0, -1)}-${createHash("sha256")
+                .update(JSON.stringify(lods))
+                .digest("hex")
+                .slice(0, 16)}"`
+            : result.etag;
+        const cacheHeaders = {
+          ETag: etag,
+          "Cache-Control": "public, max-age=0, must-revalidate",
+        };
+        if (
+          checkETagMatch(
+            etag,
+            request.headers.get("if-none-match") ?? undefined,
+          )
+        ) {
+          return new Response(null, { status: 304, headers: cacheHeaders });
+        }
+        Object.assign(set.headers, cacheHeaders);
+
+        return {
+          success: true,
+          path: key,
+          inspection: result.inspection,
+          lods,
+        };
+      } catch (error) {
+        if (error instanceof GltfParseError) {
+          set.status = 422;
+          return { success: false, path: key, error: error.message };
+        }
+        console.error("[Inspect] Failed to inspect model:", error);
+        set.status = 500;
+        return {
+          success: false,
+          path: key,
+          error: error instanceof Error ? error.message : "Inspection failed",
+        };
+      }
+    },
+    {
+      detail: {
+        tags: ["Files"],
+        summary: "Inspect a GLB model",
+        description:
+          "Returns node/mesh/material/texture counts, triangle and vertex totals, world-space bounding box, skeleton bone names and animation clips with durations, plus the model's LOD set (LOD0 is the original; request a level with ?lod=N on the static route). Computed server-side from the glTF JSON and cached by file ETag; supports If-None-Match.",
+      },
+    },
+  );
+}
@@ -4,8 +4,7 @@
  */
 
 import { Elysia } from "elysia";
-import { join, normalize, dirname, basename } from "path";
-import { existsSync, unlinkSync, renameSync } from "fs";
+import { join, dirname, extname } from "path";
 import {
   DirectoryStatsResponse,
   RenameRequestBody,
@@ -13,27 +12,34 @@ import {
   BulkDeleteRequestBody,
   BulkDeleteResponse,
 } from "../types/models";
-import { getAllFiles } from "../utils/file-helpers";
-import { requireApiKey } from "../middleware/auth";
-
-export function createManagementRoute(rootDir: string, assetDirs: string[]) {
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { FileIndex } from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
+import { renameVersioned } from "../utils/version-history";
+import { renameFileMeta } from "../utils/file-meta";
+import { renameGeneration } from "../utils/generation-meta";
+import { moveToTrash } from "../utils/trash";
+import { handleAssetChanges } from "../utils/asset-changes";
+import {
+  resolveAssetPath,
+  resolveFileName,
+  UnsafePathError,
+} from "../utils/safe-path";
+
+export function createManagementRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+  index: FileIndex,
+) {
   return (
     new Elysia({ prefix: "/api", name: "management" })
       // GET /api/directories - Get directory statistics (public)
       .get(
         "/directories",
-        () => {
+        async () => {
           const directories = assetDirs.map((dir) => {
-            const dirPath = join(rootDir, dir);
             try {
-              const files = getAllFiles(dirPath);
-              const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-
-              return {
-                name: dir,
-                fileCount: files.length,
-                totalSize,
-              };
+              return { name: dir, ...index.stats(dir) };
             } catch (err) {
               console.error(`[Management] Error reading ${dir}:`, err);
               return {
@@ -63,64 +69,39 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
       // POST /api/rename - Rename a file
       .post(
         "/rename",
-        async ({ body, set }) => {
-          try {
-            const { oldPath, newName } = body;
+        async ({ body, set, request, server }) => {
+          // Validate both paths up front; UnsafePathError maps to 400
+          const { oldPath, newName } = body;
+          const oldKey = resolveAssetPath(oldPath, assetDirs);
+          const newKey = resolveAssetPath(
+            join(dirname(oldKey), resolveFileName(newName)),
+            assetDirs,
+          );
 
-            // Validate new name doesn't contain path separators
-            if (
-              newName.includes("/") ||
-              newName.includes("\\") ||
-              newName.includes("..")
-            ) {
-              set.status = 400;
-              return {
-                success: false,
-                error: "Invalid filename - cannot contain path separators",
-              };
-            }
-
-            // Validate old path
-            if (
-              oldPath.includes("..") ||
-              oldPath.startsWith("/") ||
-              oldPath.includes("\\")
-            ) {
-              set.status = 400;
+          try {
+            // Check if old file exists
+            if (!(await storage.stat(oldKey))) {
+              set.status = 404;
               return {
                 success: false,
-                error: "Invalid file path",
+                error: "File not found",
               };
             }
 
-            // Construct paths
-            const absoluteOldPath = normalize(join(rootDir, oldPath));
-            const directory = dirname(absoluteOldPath);
-            const absoluteNewPath = join(directory, newName);
-
-            // Ensure paths are within rootDir
+            // The content was only checked against the old extension's file
+            // type, so a new extension would bypass the upload policy
             if (
-              !absoluteOldPath.startsWith(rootDir) ||
-              !absoluteNewPath.startsWith(rootDir)
+              extname(newKey).toLowerCase() !== extname(oldKey).toLowerCase()
             ) {
-              set.status = 400;
-              return {
-                success: false,
-                error: "Invalid file path - outside root directory",
-              };
-            }
-
-            // Check if old file exists
-            if (!existsSync(absoluteOldPath)) {
-              set.status = 404;
+              set.status = 422;
               return {
                 success: false,
-                error: "File not found",
+                error: "A rename cannot change the file extension",
               };
             }
 
             // Check if new file already exists
-            if (existsSync(absoluteNewPath)) {
+            if (await storage.stat(newKey)) {
               set.status = 409;
               return {
                 success: false,
@@ -128,12 +109,21 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
               };
             }
 
-            // Rename the file
-            renameSync(absoluteOldPath, absoluteNewPath);
+            // Rename the file, carrying its version history, tags and
+            // metadata along
+            await renameVersioned(
+              storage,
+              oldKey,
+              newKey,
+              getRequestActor(request),
+            );
+            await renameFileMeta(storage, index, oldKey, newKey);
+            await renameGeneration(storage, index, oldKey, newKey);
 
             console.log(
               `[Management] Renamed file: ${oldPath} -> ${newName}`
             );
+            handleAssetChanges(server, storage, [oldKey, newKey]);
 
             return {
               success: true,
@@ -158,7 +148,7 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
             tags: ["Management"],
             summary: "Rename a file (Auth Required)",
             description:
-              "Renames a file in the CDN. New name must not contain path separators. Requires API key authentication.",
+              "Renames a file in the CDN. New name must not contain path separators or change the file extension (422). The file's version history, tags and metadata move with it. Requires API key authentication.",
             security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
           },
         }
@@ -167,50 +157,34 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
       // POST /api/bulk-delete - Delete multiple files
       .post(
         "/bulk-delete",
-        async ({ body, set }) => {
+        async ({ body, set, request, server }) => {
           try {
             const { filePaths } = body;
+            const deletedBy = getRequestActor(request);
+            const deletedKeys: string[] = [];
             let deleted = 0;
             let failed = 0;
 
             for (const filePath of filePaths) {
               try {
-                // Security: Validate path
-                if (
-                  filePath.includes("..") ||
-                  filePath.startsWith("/") ||
-                  filePath.includes("\\")
-                ) {
-                  console.warn(
-                    `[Management] Skipping invalid path: ${filePath}`
-                  );
+                const key = resolveAssetPath(filePath, assetDirs);
+
+                // Move the file to trash (null if it does not exist)
+                if (!(await moveToTrash(storage, key, deletedBy))) {
+                  console.warn(`[Management] File not found: ${filePath}`);
                   failed++;
                   continue;
                 }
-
-                // Construct absolute path
-                const absolutePath = normalize(join(rootDir, filePath));
-
-                // Ensure path is within rootDir
-                if (!absolutePath.startsWith(rootDir)) {
+                deletedKeys.push(key);
+                deleted++;
+              } catch (err) {
+                if (err instanceof UnsafePathError) {
                   console.warn(
-                    `[Management] Skipping path outside root: ${filePath}`
+                    `[Management] Skipping invalid path: ${filePath} (${err.message})`
                   );
                   failed++;
                   continue;
                 }
-
-                // Check if file exists
-                if (!existsSync(absolutePath)) {
-                  console.warn(`[Management] File not found: ${filePath}`);
-                  failed++;
-                  continue;
-                }
-
-                // Delete the file
-                unlinkSync(absolutePath);
-                deleted++;
-              } catch (err) {
                 console.error(`[Management] Error deleting ${filePath}:`, err);
                 failed++;
               }
@@ -219,6 +193,7 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
             console.log(
               `[Management] Bulk delete: ${deleted} deleted, ${failed} failed`
             );
+            handleAssetChanges(server, storage, deletedKeys);
 
             return {
               success: true,
@@ -246,7 +221,7 @@ export function createManagementRoute(rootDir: string, assetDirs: string[]) {
             tags: ["Management"],
             summary: "Bulk delete files (Auth Required)",
             description:
-              "Deletes multiple files from the CDN in a single operation. Requires API key authentication. Returns count of successful and failed deletions.",
+              "Moves multiple files to the trash in a single operation. Requires API key authentication. Returns count of successful and failed deletions.",
             security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
           },
         }
@@ -0,0 +1,216 @@
+/**
+ * Playlist Routes
+ * Ordered music track lists per mood (music/<mood>/), so game servers no
+ * longer list and filter /api/files themselves
+ */
+
+import { Elysia, t } from "elysia";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import { isAudioFile } from "../utils/audio-metadata";
+import {
+  PlaylistListResponse,
+  PlaylistResponse,
+  PlaylistWeightsRequestBody,
+} from "../types/models";
+import {
+  DRAFT_MOOD,
+  MUSIC_DIR,
+  getPlaylist,
+  isValidMood,
+  listMoods,
+  publishPlaylistUpdate,
+  updatePlaylistWeights,
+} from "../utils/playlists";
+
+/**
+ * Whether the caller may see draft music (any caller when no API key is
+ * configured, matching requireApiKey's development mode)
+ */
+function canSeeDrafts(request: Request): boolean {
+  return !process.env.CDN_API_KEY || getRequestActor(request) !== null;
+}
+
+export function createPlaylistsRoute(storage: StorageBackend) {
+  return (
+    new Elysia({ prefix: "/api", name: "playlists" })
+      // GET /api/playlists - All moods with their tracks
+      .get(
+        "/playlists",
+        async ({ query, request, set }) => {
+          const includeDraft = query.includeDraft === "true";
+          if (includeDraft && !canSeeDrafts(request)) {
+            set.status = 401;
+            return {
+              success: false,
+              playlists: [],
+              error: "Authentication required for draft playlists",
+            };
+          }
+
+          try {
+            const moods = (await listMoods(storage)).filter(
+              (mood) => includeDraft || mood !== DRAFT_MOOD,
+            );
+            const playlists = [];
+            for (const mood of moods) {
+              const playlist = await getPlaylist(storage, mood, query.seed);
+              if (playlist) {
+                playlists.push(playlist);
+              }
+            }
+            return { success: true, playlists };
+          } catch (error) {
+            console.error("[Playlists] Failed to list playlists:", error);
+            set.status = 500;
+            return {
+              success: false,
+              playlists: [],
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to list playlists",
+            };
+          }
+        },
+        {
+          query: t.Object({
+            seed: t.Optional(t.String()),
+            includeDraft: t.Optional(t.String()),
+          }),
+          response: PlaylistListResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "List music playlists",
+            description: `One playlist per folder under ${MUSIC_DIR}/ (its mood), each with its audio files in natural order (2.mp3 before 10.mp3), durations, codecs, weights and CDN URLs. Pass ?seed= for a deterministic weighted shuffle (the same seed always gives the same order). The ${DRAFT_MOOD} folder is left out unless ?includeDraft=true is sent with an API key or dashboard session.`,
+          },
+        },
+      )
+
+      // GET /api/playlists/:mood - One mood's tracks
+      .get(
+        "/playlists/:mood",
+        async ({ params, query, request, set }) => {
+          const { mood } = params;
+          if (!isValidMood(mood)) {
+            set.status = 400;
+            return { success: false, error: "Invalid mood name" };
+          }
+          if (mood === DRAFT_MOOD && !canSeeDrafts(request)) {
+            set.status = 401;
+            return {
+              success: false,
+              error: "Authentication required for draft playlists",
+            };
+          }
+
+          try {
+            const playlist = await getPlaylist(storage, mood, query.seed);
+            if (!playlist) {
+              set.status = 404;
+              return { success: false, error: "Playlist not found" };
+            }
+            return { success: true, playlist };
+          } catch (error) {
+            console.error(`[Playlists] Failed to build ${mood}:`, error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to build playlist",
+            };
+          }
+        },
+        {
+          query: t.Object({
+            seed: t.Optional(t.String()),
+          }),
+          response: PlaylistResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "Get a music playlist",
+            description: `Tracks of ${MUSIC_DIR}/<mood>/ in natural order, or shuffled by weight with ?seed=. Each playlist has a version that changes with its tracks, their content and weights; a "playlist-updated" WebSocket event carries the new version. ${DRAFT_MOOD} requires an API key or dashboard session.`,
+          },
+        },
+      )
+
+      // Track weights change playlists, so they require auth
+      .use(requireApiKey())
+
+      // PATCH /api/playlists/:mood - Set track weights
+      .patch(
+        "/playlists/:mood",
+        async ({ params, body, request, set, server }) => {
+          const { mood } = params;
+          if (!isValidMood(mood)) {
+            set.status = 400;
+            return { success: false, error: "Invalid mood name" };
+          }
+
+          try {
+            const current = await getPlaylist(storage, mood);
+            const known = new Set(
+              (await storage.list(`${MUSIC_DIR}/${mood}`))
+                .filter((entry) => isAudioFile(entry.key))
+                .map((entry) =>
+                  entry.key.slice(`${MUSIC_DIR}/${mood}/`.length),
+                ),
+            );
+            const unknown = Object.keys(body.weights).filter(
+              (track) => !known.has(track),
+            );
+            if (!current || unknown.length > 0) {
+              set.status = current ? 400 : 404;
+              return {
+                success: false,
+                error: current
+                  ? `Unknown tracks: ${unknown.join(", ")}`
+                  : "Playlist not found",
+              };
+            }
+
+            await updatePlaylistWeights(
+              storage,
+              mood,
+              body.weights,
+              getRequestActor(request),
+            );
+            console.log(
+              `[Playlists] Updated weights of ${mood}: ${JSON.stringify(body.weights)}`,
+            );
+            if (server) {
+              await publishPlaylistUpdate(server, storage, mood);
+            }
+
+            return {
+              success: true,
+              playlist: (await getPlaylist(storage, mood)) ?? undefined,
+            };
+          } catch (error) {
+            console.error(`[Playlists] Failed to update ${mood}:`, error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to update playlist",
+            };
+          }
+        },
+        {
+          body: PlaylistWeightsRequestBody,
+          response: PlaylistResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "Set playlist track weights (Auth Required)",
+            description:
+              'Sets shuffle weights of tracks in a mood, keyed by path relative to the mood folder (e.g. `{"weights": {"1.mp3": 3, "2.mp3": 0}}`). Weights default to 1; 0 leaves a track out of the playlist and null resets it. Broadcasts a playlist-updated event. Requires API key authentication.',
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
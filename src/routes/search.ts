@@ -0,0 +1,76 @@
+/**
+ * Search Route
+ * Full-text search over file paths, tags, custom metadata and generation
+ * records, so assets can be found by what they are rather than by their
+ * file names
+ */
+
+import { Elysia } from "elysia";
+import { AssetsListResponse, SearchQuery } from "../types/models";
+import { InvalidCursorError, type FileIndex } from "../storage/file-index";
+import { getTypeExtensions } from "../utils/asset-groups";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  indexedFileInfo,
+  withGenerations,
+} from "../utils/file-helpers";
+import { MetadataError, parseTagList } from "../utils/file-meta";
+
+export function createSearchRoute(index: FileIndex) {
+  return new Elysia({ prefix: "/api", name: "search" }).get(
+    "/search",
+    async ({ query, set }) => {
+      try {
+        const page = index.search({
+          text: query.q,
+          tags: query.tag ? parseTagList(query.tag) : undefined,
+          ...(query.type && getTypeExtensions(query.type)),
+          limit: Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+          cursor: query.cursor,
+        });
+        return {
+          ...page,
+          files: withGenerations(
+            index,
+            page.files.map((file) => ({
+              ...indexedFileInfo(file),
+              tags: file.tags,
+              metadata: file.metadata,
+            })),
+          ),
+        };
+      } catch (error) {
+        if (
+          error instanceof InvalidCursorError ||
+          error instanceof MetadataError
+        ) {
+          set.status = 400;
+          return {
+            files: [],
+            total: 0,
+            nextCursor: null,
+            error: error.message,
+          };
+        }
+        console.error("[Search] Search failed:", error);
+        set.status = 500;
+        return {
+          files: [],
+          total: 0,
+          nextCursor: null,
+          error: error instanceof Error ? error.message : "Search failed",
+        };
+      }
+    },
+    {
+      query: SearchQuery,
+      response: AssetsListResponse,
+      detail: {
+        tags: ["Assets"],
+        summary: "Search files",
+        description: `Finds files by q, words matched as prefixes against the path, the tags and metadata keys and values of the file and its asset and the file's generation record (prompt, model, voice and other settings; all words must match; best matches first), tag (comma-separated tags the file or its asset must all have) and type (model, audio, image or data). Results carry the combined tags and metadata of the file and its asset, and the generation record if there is one, and are paginated like /api/assets (default page size ${DEFAULT_PAGE_SIZE}).`,
+      },
+    },
+  );
+}
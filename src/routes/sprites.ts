@@ -0,0 +1,274 @@
+/**
+ * Audio Sprite Routes
+ * Builds SFX sprite sheets (one audio file plus a Howler.js sprite map) from
+ * a list of files or a whole folder, so clients load one file per pack
+ */
+
+import { Elysia } from "elysia";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import {
+  SpriteCreateRequestBody,
+  SpriteListResponse,
+  SpriteResponse,
+} from "../types/models";
+import { getCdnBaseUrl } from "../utils/asset-events";
+import { isAudioFile } from "../utils/audio-metadata";
+import {
+  DEFAULT_SPRITE_GAP_MS,
+  MAX_SPRITE_GAP_MS,
+  SPRITE_DIR,
+  SpriteBuildError,
+  createSprite,
+  deleteSprite,
+  ensureSpriteBuilt,
+  isSpriteStale,
+  isValidSpriteName,
+  listSpriteDefinitions,
+  readSpriteDefinition,
+  type SpriteDefinition,
+} from "../utils/audio-sprites";
+import { resolveAssetPath } from "../utils/safe-path";
+
+/**
+ * API view of a sprite: its definition, CDN URLs of the built files and
+ * whether they are out of date
+ */
+function toSpriteInfo(definition: SpriteDefinition, stale: boolean) {
+  const cdnBaseUrl = getCdnBaseUrl();
+  const urls: Record<string, string> = {};
+  for (const [format, key] of Object.entries(definition.build?.files ?? {})) {
+    urls[format] = `${cdnBaseUrl}/${key}`;
+  }
+  return { ...definition, stale, urls };
+}
+
+export function createSpritesRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "sprites" })
+      // GET /api/sprites - All sprite definitions
+      .get(
+        "/sprites",
+        async ({ set }) => {
+          try {
+            const sprites = [];
+            for (const definition of await listSpriteDefinitions(storage)) {
+              sprites.push(
+                toSpriteInfo(
+                  definition,
+                  await isSpriteStale(storage, definition),
+                ),
+              );
+            }
+            return { success: true, sprites };
+          } catch (error) {
+            console.error("[Sprites] Failed to list sprites:", error);
+            set.status = 500;
+            return {
+              success: false,
+              sprites: [],
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to list sprites",
+            };
+          }
+        },
+        {
+          response: SpriteListResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "List audio sprites",
+            description: `Sprite definitions with their members, Howler sprite maps and the CDN URLs of the built files under ${SPRITE_DIR}/. stale is true when a member changed and the sprite has not been rebuilt yet.`,
+          },
+        },
+      )
+
+      // GET /api/sprites/:name - One sprite, rebuilt first if stale
+      .get(
+        "/sprites/:name",
+        async ({ params, set }) => {
+          const { name } = params;
+          if (!isValidSpriteName(name)) {
+            set.status = 400;
+            return { success: false, error: "Invalid sprite name" };
+          }
+
+          try {
+            const definition = await readSpriteDefinition(storage, name);
+            if (!definition) {
+              set.status = 404;
+              return { success: false, error: "Sprite not found" };
+            }
+
+            try {
+              const built = await ensureSpriteBuilt(storage, definition);
+              return { success: true, sprite: toSpriteInfo(built, false) };
+            } catch (error) {
+              if (error instanceof SpriteBuildError) {
+                set.status = 422;
+                return {
+                  success: false,
+                  sprite: toSpriteInfo(definition, true),
+                  error: error.message,
+                };
+              }
+              throw error;
+            }
+          } catch (error) {
+            console.error(`[Sprites] Failed to get ${name}:`, error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error ? error.message : "Failed to get sprite",
+            };
+          }
+        },
+        {
+          response: SpriteResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "Get an audio sprite",
+            description:
+              "A sprite's definition, Howler sprite map and file URLs. If a member changed since the last build the sprite is rebuilt first; 422 means a member is missing or cannot be decoded (the last build stays in place).",
+          },
+        },
+      )
+
+      // Building and deleting sprites writes to the CDN, so it requires auth
+      .use(requireApiKey())
+
+      // POST /api/sprites - Create or replace a sprite and build it
+      .post(
+        "/sprites",
+        async ({ body, request, set }) => {
+          if (!isValidSpriteName(body.name)) {
+            set.status = 400;
+            return {
+              success: false,
+              error:
+                "Invalid sprite name (letters, digits, - and _ only, starting with a letter or digit)",
+            };
+          }
+          if (!body.paths === !body.folder) {
+            set.status = 400;
+            return {
+              success: false,
+              error: "Provide either paths or folder",
+            };
+          }
+          if (body.gap !== undefined && body.gap > MAX_SPRITE_GAP_MS) {
+            set.status = 400;
+            return {
+              success: false,
+              error: `gap must be at most ${MAX_SPRITE_GAP_MS}ms`,
+            };
+          }
+
+          // Throws UnsafePathError (400) for paths outside the asset
+          // directories
+          const folder = body.folder
+            ? resolveAssetPath(body.folder, assetDirs, {
+                allowDirectoryRoot: true,
+              })
+            : undefined;
+          const paths = body.paths?.map((path) =>
+            resolveAssetPath(path, assetDirs),
+          );
+          const invalid = (paths ?? []).filter(
+            (path) => !isAudioFile(path) || path.startsWith(`${SPRITE_DIR}/`),
+          );
+          if (invalid.length > 0) {
+            set.status = 400;
+            return {
+              success: false,
+              error: `Not usable as sprite members: ${invalid.join(", ")}`,
+            };
+          }
+
+          try {
+            const definition = await createSprite(
+              storage,
+              {
+                name: body.name,
+                paths,
+                folder,
+                gap: body.gap,
+                formats: body.formats,
+              },
+              getRequestActor(request),
+            );
+            return { success: true, sprite: toSpriteInfo(definition, false) };
+          } catch (error) {
+            if (error instanceof SpriteBuildError) {
+              set.status = 422;
+              return { success: false, error: error.message };
+            }
+            console.error(`[Sprites] Failed to build ${body.name}:`, error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to build sprite",
+            };
+          }
+        },
+        {
+          body: SpriteCreateRequestBody,
+          response: SpriteResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "Create an audio sprite (Auth Required)",
+            description: `Concatenates sound effects into one sprite with gap ms of silence after each (default ${DEFAULT_SPRITE_GAP_MS}, max ${MAX_SPRITE_GAP_MS}) and writes ${SPRITE_DIR}/<name>.<format> (mp3 by default; ogg and wav on request) plus ${SPRITE_DIR}/<name>.json, a Howler.js config with src and sprite. Members are either paths, in that order, or every audio file in folder in natural order. Sprites are rebuilt when a member changes. Posting an existing name replaces it. Requires API key authentication.`,
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // DELETE /api/sprites/:name - Delete a sprite and its built files
+      .delete(
+        "/sprites/:name",
+        async ({ params, set }) => {
+          const { name } = params;
+          if (!isValidSpriteName(name)) {
+            set.status = 400;
+            return { success: false, error: "Invalid sprite name" };
+          }
+
+          try {
+            if (!(await deleteSprite(storage, name))) {
+              set.status = 404;
+              return { success: false, error: "Sprite not found" };
+            }
+            console.log(`[Sprites] Deleted ${name}`);
+            return { success: true };
+          } catch (error) {
+            console.error(`[Sprites] Failed to delete ${name}:`, error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to delete sprite",
+            };
+          }
+        },
+        {
+          response: SpriteResponse,
+          detail: {
+            tags: ["Assets"],
+            summary: "Delete an audio sprite (Auth Required)",
+            description: `Deletes a sprite definition and its files under ${SPRITE_DIR}/. Member files are not touched. Requires API key authentication.`,
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
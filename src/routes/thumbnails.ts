@@ -0,0 +1,90 @@
+/**
+ * Thumbnail Route
+ * Small previews of images and models for list views, so clients no longer
+ * download full-size textures and portraits to show an icon
+ */
+
+import { Elysia, t } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import { serveFile } from "../utils/file-server";
+import { GltfParseError } from "../utils/gltf";
+import {
+  DEFAULT_THUMBNAIL_SIZE,
+  THUMBNAIL_SIZES,
+  ThumbnailSourceError,
+  getThumbnail,
+  isThumbnailable,
+} from "../utils/thumbnails";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createThumbnailRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return new Elysia({ prefix: "/api", name: "thumbnails" }).get(
+    "/thumb/*",
+    async (context) => {
+      const { params, query, set } = context;
+      const key = resolveAssetPath(params["*"] || "", assetDirs);
+
+      if (!isThumbnailable(key)) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: "Thumbnails are available for .png, .jpg and .glb files",
+        };
+      }
+
+      const size = query.size ? Number(query.size) : DEFAULT_THUMBNAIL_SIZE;
+      if (!THUMBNAIL_SIZES.includes(size)) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: `Unsupported size; expected one of: ${THUMBNAIL_SIZES.join(", ")}`,
+        };
+      }
+
+      try {
+        const thumbnail = await getThumbnail(storage, key, size);
+        if (!thumbnail) {
+          set.status = 404;
+          return { success: false, path: key, error: "File not found" };
+        }
+        return serveFile(storage, thumbnail.key, context, {
+          etag: thumbnail.etag,
+          contentType: "image/png",
+        });
+      } catch (error) {
+        if (
+          error instanceof ThumbnailSourceError ||
+          error instanceof GltfParseError
+        ) {
+          set.status = 422;
+          return { success: false, path: key, error: error.message };
+        }
+        console.error("[Thumbnails] Failed to generate thumbnail:", error);
+        set.status = 500;
+        return {
+          success: false,
+          path: key,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Thumbnail generation failed",
+        };
+      }
+    },
+    {
+      query: t.Object({
+        size: t.Optional(t.String()),
+      }),
+      detail: {
+        tags: ["Assets"],
+        summary: "Get a thumbnail",
+        description: `PNG preview of a PNG/JPEG image or a GLB model (its <name>.preview.png/.jpg sidecar, else its base colour or largest embedded texture), at most ?size= pixels on the longest edge (${THUMBNAIL_SIZES.join(", ")}; default ${DEFAULT_THUMBNAIL_SIZE}). Generated on first request and cached until the source changes; served with the same ETag and Cache-Control semantics as the asset routes.`,
+      },
+    },
+  );
+}
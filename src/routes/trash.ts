@@ -0,0 +1,183 @@
+/**
+ * Trash Route
+ * List, restore and purge soft-deleted files
+ */
+
+import { Elysia } from "elysia";
+import {
+  TrashListResponse,
+  TrashPurgeRequestBody,
+  TrashPurgeResponse,
+  TrashRestoreRequestBody,
+  TrashRestoreResponse,
+} from "../types/models";
+import { requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import {
+  listTrash,
+  purgeExpiredTrash,
+  purgeTrashEntry,
+  restoreFromTrash,
+  TRASH_RETENTION_DAYS,
+} from "../utils/trash";
+import { handleAssetChanges } from "../utils/asset-changes";
+
+export function createTrashRoute(storage: StorageBackend) {
+  return (
+    new Elysia({ prefix: "/api", name: "trash" })
+      // Apply authentication for all trash routes
+      .use(requireApiKey())
+
+      // GET /api/trash - List trashed files
+      .get(
+        "/trash",
+        async () => ({
+          success: true,
+          retentionDays: TRASH_RETENTION_DAYS,
+          entries: await listTrash(storage),
+        }),
+        {
+          response: TrashListResponse,
+          detail: {
+            tags: ["Trash"],
+            summary: "List trashed files (Auth Required)",
+            description:
+              "Returns all soft-deleted files with original path, deletion time, who deleted them and when they will be purged.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // POST /api/trash/restore - Restore trashed files to their original paths
+      .post(
+        "/trash/restore",
+        async ({ body, set, server }) => {
+          try {
+            const restoredKeys: string[] = [];
+            let restored = 0;
+            let failed = 0;
+            const conflicts: string[] = [];
+
+            for (const id of body.ids) {
+              const result = await restoreFromTrash(storage, id);
+              if (result.status === "restored") {
+                console.log(
+                  `[Trash] Restored ${result.entry.originalPath} (${id})`,
+                );
+                restoredKeys.push(result.entry.originalPath);
+                restored++;
+              } else if (result.status === "conflict") {
+                console.warn(
+                  `[Trash] Cannot restore ${id}: ${result.entry.originalPath} already exists`,
+                );
+                conflicts.push(result.entry.originalPath);
+                failed++;
+              } else {
+                console.warn(`[Trash] Entry not found: ${id}`);
+                failed++;
+              }
+            }
+
+            // Restored playlist tracks and sprite members are picked up
+            // before responding, as after an upload
+            await handleAssetChanges(server, storage, restoredKeys);
+
+            if (restored === 0 && conflicts.length > 0) {
+              set.status = 409;
+              return {
+                success: false,
+                restored,
+                failed,
+                conflicts,
+                error: "Original paths are already in use",
+              };
+            }
+
+            return {
+              success: true,
+              restored,
+              failed,
+              conflicts,
+            };
+          } catch (error) {
+            console.error("[Trash] Restore error:", error);
+            set.status = 500;
+            return {
+              success: false,
+              restored: 0,
+              failed: 0,
+              conflicts: [],
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Unknown restore error",
+            };
+          }
+        },
+        {
+          body: TrashRestoreRequestBody,
+          response: TrashRestoreResponse,
+          detail: {
+            tags: ["Trash"],
+            summary: "Restore trashed files (Auth Required)",
+            description:
+              "Moves trashed files back to their original paths. Files whose original path has been reused are reported as conflicts and left in the trash; if nothing could be restored because of conflicts the response is 409.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // POST /api/trash/purge - Permanently delete trashed files
+      .post(
+        "/trash/purge",
+        async ({ body, set }) => {
+          try {
+            let purged = 0;
+
+            if (body.ids) {
+              for (const id of body.ids) {
+                if (await purgeTrashEntry(storage, id)) {
+                  purged++;
+                }
+              }
+            } else if (body.all) {
+              for (const entry of await listTrash(storage)) {
+                if (await purgeTrashEntry(storage, entry.id)) {
+                  purged++;
+                }
+              }
+            } else {
+              purged = await purgeExpiredTrash(storage);
+            }
+
+            console.log(`[Trash] Purged ${purged} file(s)`);
+
+            return {
+              success: true,
+              purged,
+            };
+          } catch (error) {
+            console.error("[Trash] Purge error:", error);
+            set.status = 500;
+            return {
+              success: false,
+              purged: 0,
+              error:
+                error instanceof Error ? error.message : "Unknown purge error",
+            };
+          }
+        },
+        {
+          body: TrashPurgeRequestBody,
+          response: TrashPurgeResponse,
+          detail: {
+            tags: ["Trash"],
+            summary: "Purge trashed files (Auth Required)",
+            description:
+              "Permanently deletes trashed files. Pass `ids` to purge specific entries or `all: true` to empty the trash; with neither, only entries past the retention period are purged.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
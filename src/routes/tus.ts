@@ -0,0 +1,390 @@
+/**
+ * Resumable Upload Route (tus 1.0)
+ * Implements the tus core protocol plus the creation, termination and
+ * expiration extensions so off-the-shelf clients (tus-js-client, Uppy)
+ * can upload large GLBs and music tracks over flaky connections.
+ *
+ * Each PATCH body is still subject to maxRequestBodySize (MAX_BODY_SIZE),
+ * so clients should use a chunk size below that.
+ */
+
+import { Elysia } from "elysia";
+import { basename, extname } from "path";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import { versionedPath } from "../utils/content-store";
+import type { FileRevision } from "../utils/version-history";
+import {
+  FILE_KIND_EXTENSIONS,
+  getUploadPolicy,
+  UploadPolicyError,
+} from "../utils/upload-policy";
+import {
+  normalizeRelativePath,
+  resolveAssetPath,
+  UnsafePathError,
+} from "../utils/safe-path";
+import { publishAssetUploadEvents } from "../utils/asset-events";
+import { handleAssetChanges } from "../utils/asset-changes";
+import {
+  appendUploadChunk,
+  createUploadSession,
+  finalizeUploadSession,
+  getUploadSession,
+  isSessionExpired,
+  parseUploadMetadata,
+  terminateUploadSession,
+  TUS_CONFIG,
+  withUploadSessionLock,
+  type UploadSession,
+} from "../utils/resumable-uploads";
+
+const TUS_VERSION = "1.0.0";
+
+const TUS_HEADERS = {
+  "Tus-Resumable": TUS_VERSION,
+};
+
+function tusResponse(
+  status: number,
+  headers: Record<string, string> = {},
+  body: string | null = null,
+): Response {
+  return new Response(body, {
+    status,
+    headers: { ...TUS_HEADERS, ...headers },
+  });
+}
+
+/**
+ * Look up a session, mapping unknown/expired sessions to tus error responses
+ */
+async function loadSession(
+  storage: StorageBackend,
+  id: string,
+): Promise<UploadSession | Response> {
+  const session = await getUploadSession(storage, id);
+  if (!session) {
+    return tusResponse(404, {}, "Upload not found");
+  }
+  if (isSessionExpired(session)) {
+    return tusResponse(410, {}, "Upload expired");
+  }
+  return session;
+}
+
+export function createTusRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "tus" })
+      // OPTIONS /api/tus - Advertise server capabilities
+      .options(
+        "/tus",
+        () =>
+          tusResponse(204, {
+            "Tus-Version": TUS_VERSION,
+            "Tus-Extension": "creation,termination,expiration",
+            "Tus-Max-Size": String(TUS_CONFIG.maxSize),
+          }),
+        {
+          detail: {
+            tags: ["Upload"],
+            summary: "Resumable upload capabilities",
+            description:
+              "tus 1.0 discovery. Returns the supported version, extensions and maximum upload size as headers.",
+          },
+        },
+      )
+
+      // Everything but discovery requires auth
+      .use(requireApiKey())
+
+      // Reject clients speaking another tus version
+      .onBeforeHandle(({ request }) => {
+        const clientVersion = request.headers.get("tus-resumable");
+        if (clientVersion !== TUS_VERSION) {
+          return tusResponse(412, { "Tus-Version": TUS_VERSION });
+        }
+      })
+
+      // POST /api/tus - Create an upload session (creation extension)
+      .post(
+        "/tus",
+        async ({ request }) => {
+          if (request.headers.get("upload-defer-length")) {
+            return tusResponse(400, {}, "Upload-Defer-Length not supported");
+          }
+
+          const length = parseInt(
+            request.headers.get("upload-length") || "",
+            10,
+          );
+          if (isNaN(length) || length < 0) {
+            return tusResponse(400, {}, "Missing or invalid Upload-Length");
+          }
+          if (length > TUS_CONFIG.maxSize) {
+            return tusResponse(413, {}, "Upload exceeds Tus-Max-Size");
+          }
+
+          const metadata = parseUploadMetadata(
+            request.headers.get("upload-metadata"),
+          );
+          let filename: string;
+          let directory: string;
+          try {
+            directory = resolveAssetPath(
+              metadata.directory || "models",
+              assetDirs,
+              { allowDirectoryRoot: true },
+            );
+            filename = normalizeRelativePath(
+              metadata.filename || metadata.name || "",
+            );
+          } catch (error) {
+            // Answer in tus form (with Tus-Resumable) instead of the
+            // generic error handler response
+            if (error instanceof UnsafePathError) {
+              return tusResponse(
+                400,
+                {},
+                `Upload-Metadata must include a valid filename and directory: ${error.message}`,
+              );
+            }
+            throw error;
+          }
+
+          // Fail fast on sizes and extensions the directory never accepts;
+          // the contents are checked once the upload completes
+          const policy = getUploadPolicy(directory);
+          if (policy && length > policy.maxFileSizeMB * 1024 * 1024) {
+            return tusResponse(
+              413,
+              {},
+              `Upload exceeds the ${policy.maxFileSizeMB}MB limit for ${directory}`,
+            );
+          }
+          const ext = extname(filename).toLowerCase();
+          if (
+            policy &&
+            !policy.allowedKinds.some((kind) =>
+              FILE_KIND_EXTENSIONS[kind].includes(ext),
+            )
+          ) {
+            return tusResponse(
+              415,
+              {},
+              `${ext || "Extensionless"} files are not allowed in ${directory}`,
+            );
+          }
+
+          const session = await createUploadSession(storage, {
+            length,
+            directory,
+            filename,
+            metadata,
+            uploadedBy: getRequestActor(request),
+          });
+
+          console.log(
+            `[Tus] Created upload ${session.id} for ${session.targetPath} (${length} bytes)`,
+          );
+
+          return tusResponse(201, {
+            Location: `/api/tus/${session.id}`,
+            "Upload-Offset": "0",
+            "Upload-Expires": new Date(session.expiresAt).toUTCString(),
+          });
+        },
+        {
+          parse: "none",
+          detail: {
+            tags: ["Upload"],
+            summary: "Create a resumable upload (Auth Required)",
+            description:
+              "tus 1.0 creation. Send Tus-Resumable: 1.0.0, Upload-Length and Upload-Metadata with base64 `filename` and optional `directory` (default: models). Returns the upload URL in the Location header.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // HEAD /api/tus/:id - Query the current offset
+      .head(
+        "/tus/:id",
+        async ({ params }) => {
+          const session = await loadSession(storage, params.id);
+          if (session instanceof Response) {
+            return session;
+          }
+
+          return tusResponse(200, {
+            "Upload-Offset": String(session.offset),
+            "Upload-Length": String(session.length),
+            "Upload-Expires": new Date(session.expiresAt).toUTCString(),
+            "Cache-Control": "no-store",
+          });
+        },
+        {
+          detail: {
+            tags: ["Upload"],
+            summary: "Get resumable upload offset (Auth Required)",
+            description:
+              "tus 1.0 offset query. Returns Upload-Offset so interrupted clients know where to resume.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // PATCH /api/tus/:id - Append a chunk at the current offset
+      .patch(
+        "/tus/:id",
+        async ({ params, request, server }) =>
+          // One request per session at a time; the offset check below
+          // sees every chunk stored before it
+          withUploadSessionLock(params.id, async () => {
+            const session = await loadSession(storage, params.id);
+            if (session instanceof Response) {
+              return session;
+            }
+
+            if (
+              request.headers.get("content-type") !==
+              "application/offset+octet-stream"
+            ) {
+              return tusResponse(415, {}, "Invalid Content-Type");
+            }
+
+            const offset = parseInt(
+              request.headers.get("upload-offset") || "",
+              10,
+            );
+            if (offset !== session.offset) {
+              return tusResponse(409, {
+                "Upload-Offset": String(session.offset),
+              });
+            }
+
+            const contentLength = request.headers.get("content-length");
+            if (contentLength !== null && !/^\d+$/.test(contentLength)) {
+              return tusResponse(400, {}, "Invalid Content-Length");
+            }
+
+            if (session.completedAt || !request.body) {
+              return tusResponse(204, {
+                "Upload-Offset": String(session.offset),
+              });
+            }
+
+            try {
+              await appendUploadChunk(
+                storage,
+                session,
+                request.body,
+                contentLength === null ? null : parseInt(contentLength, 10),
+              );
+            } catch (error) {
+              if (error instanceof RangeError) {
+                return tusResponse(413, {}, error.message);
+              }
+              console.error(`[Tus] Chunk failed for ${session.id}:`, error);
+              return tusResponse(500, {}, "Failed to store chunk");
+            }
+
+            const headers: Record<string, string> = {
+              "Upload-Offset": String(session.offset),
+              "Upload-Expires": new Date(session.expiresAt).toUTCString(),
+            };
+
+            // Last chunk received - assemble and publish the file
+            if (session.offset === session.length) {
+              let revision: FileRevision;
+              try {
+                revision = await finalizeUploadSession(storage, session);
+              } catch (error) {
+                if (error instanceof UploadPolicyError) {
+                  console.warn(
+                    `[Tus] Rejected upload ${session.id}: ${error.message}`,
+                  );
+                  return tusResponse(415, {}, error.message);
+                }
+                throw error;
+              }
+              const name = basename(session.targetPath);
+
+              console.log(
+                `[Tus] Completed upload ${session.id}: ${session.targetPath} (${revision.size} bytes)`,
+              );
+
+              headers["X-Upload-Path"] = session.targetPath;
+              headers["X-Upload-Hash"] = revision.hash;
+
+              if (server) {
+                try {
+                  publishAssetUploadEvents(
+                    server,
+                    session.directory,
+                    [
+                      {
+                        name: session.filename,
+                        size: revision.size,
+                        path: session.targetPath,
+                        hash: revision.hash,
+                        versionedPath: versionedPath(revision.hash, name),
+                      },
+                    ],
+                    session.uploadedBy,
+                  );
+                } catch (error) {
+                  console.error(
+                    "[WebSocket] Error broadcasting upload event:",
+                    error instanceof Error ? error.message : String(error),
+                  );
+                }
+              }
+              await handleAssetChanges(server, storage, [
+                session.targetPath,
+              ]);
+            }
+
+            return tusResponse(204, headers);
+          }),
+        {
+          parse: "none",
+          detail: {
+            tags: ["Upload"],
+            summary: "Upload a chunk (Auth Required)",
+            description:
+              "tus 1.0 PATCH with Content-Type: application/offset+octet-stream and Upload-Offset matching the current offset. The chunk is streamed to storage; the file is committed when the final byte arrives.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+
+      // DELETE /api/tus/:id - Abort an upload (termination extension)
+      .delete(
+        "/tus/:id",
+        async ({ params }) =>
+          withUploadSessionLock(params.id, async () => {
+            const session = await getUploadSession(storage, params.id);
+            if (!session) {
+              return tusResponse(404, {}, "Upload not found");
+            }
+
+            await terminateUploadSession(storage, session);
+            console.log(`[Tus] Terminated upload ${session.id}`);
+
+            return tusResponse(204);
+          }),
+        {
+          detail: {
+            tags: ["Upload"],
+            summary: "Abort a resumable upload (Auth Required)",
+            description:
+              "tus 1.0 termination. Discards all received chunks.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
@@ -1,19 +1,102 @@
 /**
  * File Upload Route
- * Handles multipart form data uploads with TypeBox validation
+ * Streams multipart form data uploads to staging files under .cdn/tmp,
+ * hashing them on the way, then renames each file into place so
+ * half-written uploads are never served
+ * Optional form fields attach tags and metadata to the files or their assets
+ * and generation metadata (prompt, model, voice) to individual files
  * Protected by API key authentication and strict rate limiting
  * Broadcasts upload events via WebSocket to connected API servers
  */
 
 import { Elysia } from "elysia";
-import { join, dirname } from "path";
-import { existsSync, mkdirSync } from "fs";
-import { UploadRequestBody, UploadResponse } from "../types/models";
-import { requireApiKey } from "../middleware/auth";
+import { basename } from "path";
+import { UploadResponse } from "../types/models";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
 import { uploadRateLimit } from "../middleware/rateLimit";
-import { extractAssetId } from "../utils/webhook";
+import {
+  stageContent,
+  versionedPath,
+  type StagedContent,
+} from "../utils/content-store";
+import { commitVersioned } from "../utils/version-history";
+import {
+  checkStagedUpload,
+  maxPolicyFileSize,
+  type UploadViolation,
+} from "../utils/upload-policy";
+import {
+  validateStagedUpload,
+  type ValidationReport,
+} from "../utils/gltf-validator";
+import {
+  parseVariantList,
+  queueUploadVariants,
+  type GlbVariant,
+} from "../utils/gltf-optimize";
+import {
+  getMultipartBoundary,
+  MultipartParseError,
+  parseMultipartStream,
+  readFieldText,
+} from "../utils/multipart-stream";
+import {
+  publishAssetUploadEvents,
+  type PublishedFile,
+} from "../utils/asset-events";
+import { handleAssetChanges } from "../utils/asset-changes";
+import {
+  MetadataError,
+  parseMetadataField,
+  parseTagList,
+  updateMeta,
+  type MetaUpdate,
+} from "../utils/file-meta";
+import {
+  parseGenerationField,
+  writeGeneration,
+  type GenerationMetadata,
+} from "../utils/generation-meta";
+import { extractScopedAssetId } from "../utils/webhook";
+import {
+  normalizeRelativePath,
+  resolveAssetChild,
+  resolveAssetPath,
+  UnsafePathError,
+} from "../utils/safe-path";
+import type { FileIndex } from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
 
-export function createUploadRoute(rootDir: string) {
+interface StagedUpload extends StagedContent {
+  name: string;
+}
+
+// Form fields with tags (comma-separated) and metadata (a JSON object) for
+// the uploaded files and for the assets they belong to
+const META_FIELDS = ["tags", "metadata", "assetTags", "assetMetadata"];
+
+/**
+ * Tags and metadata form fields as an update that adds to what is already
+ * stored (null if neither was sent)
+ */
+function parseMetaFields(
+  tags: string | undefined,
+  metadata: string | undefined,
+): MetaUpdate | null {
+  if (!tags?.trim() && !metadata?.trim()) {
+    return null;
+  }
+  return {
+    addTags: tags ? parseTagList(tags) : undefined,
+    metadata: metadata?.trim() ? parseMetadataField(metadata) : undefined,
+  };
+}
+
+export function createUploadRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+  index: FileIndex,
+) {
   return (
     new Elysia({ prefix: "/api", name: "upload" })
       // Apply authentication (requires CDN_API_KEY env var)
@@ -22,51 +105,224 @@ export function createUploadRoute(rootDir: string) {
       .use(uploadRateLimit)
       .post(
         "/upload",
-        async ({ body, set }) => {
+        async ({ set, request }) => {
+          const boundary = getMultipartBoundary(
+            request.headers.get("content-type"),
+          );
+          if (!boundary || !request.body) {
+            set.status = 400;
+            return {
+              success: false,
+              error: "Expected a multipart/form-data body",
+            };
+          }
+
+          console.log("[Upload] Request received");
+
+          const staged: StagedUpload[] = [];
+          const rejected: UploadViolation[] = [];
+          let directory: string | undefined;
+          let optimize: string | undefined;
+          let generationField: string | undefined;
+          const metaFields: Record<string, string> = {};
+
           try {
-            // Debug logging for troubleshooting
-            console.log("[Upload] Request received");
-            console.log("[Upload] Body keys:", Object.keys(body));
-            console.log("[Upload] Files present:", !!body.files);
-            console.log("[Upload] Directory:", body.directory || "models");
-
-            const { files, directory } = body;
-            const targetDir = directory || "models";
-            const uploadedFiles: {
-              name: string;
-              size: number;
-              path: string;
-            }[] = [];
-
-            // Handle array of files
-            const fileArray = Array.isArray(files) ? files : [files];
-            console.log("[Upload] Processing", fileArray.length, "file(s)");
-
-            for (const file of fileArray) {
-              if (file instanceof File) {
-                const targetPath = join(rootDir, targetDir, file.name);
-
-                // Ensure parent directory exists (create if needed)
-                const targetDirPath = dirname(targetPath);
-                if (!existsSync(targetDirPath)) {
-                  mkdirSync(targetDirPath, { recursive: true });
-                  console.log(`[Upload] Created directory: ${targetDirPath}`);
+            // Stage every file part as it arrives; the directory field may
+            // come after the files, so nothing is committed until the whole
+            // body has been read
+            for await (const part of parseMultipartStream(
+              request.body,
+              boundary,
+            )) {
+              if (part.name === "files" && part.filename) {
+                // Reject traversal in file names before staging anything
+                normalizeRelativePath(part.filename);
+
+                // The target directory (and so its size limit) is not known
+                // yet, so cap at the largest limit of any policy
+                let content: StagedContent;
+                try {
+                  content = await stageContent(
+                    storage,
+                    part.body,
+                    maxPolicyFileSize(),
+                  );
+                } catch (error) {
+                  if (!(error instanceof RangeError)) {
+                    throw error;
+                  }
+                  rejected.push({
+                    name: part.filename,
+                    code: "FILE_TOO_LARGE",
+                    message: `File exceeds the ${maxPolicyFileSize() / 1024 / 1024}MB upload limit`,
+                  });
+                  continue;
                 }
+                staged.push({ name: part.filename, ...content });
+                console.log(
+                  `[Upload] Staged file: ${part.filename} (${content.size} bytes)`,
+                );
+              } else if (part.name === "directory") {
+                directory = (await readFieldText(part.body)).trim();
+              } else if (part.name === "optimize") {
+                optimize = await readFieldText(part.body);
+              } else if (part.name === "generation") {
+                generationField = await readFieldText(part.body);
+              } else if (META_FIELDS.includes(part.name)) {
+                metaFields[part.name] = await readFieldText(part.body);
+              }
+            }
 
-                // Write file using Bun's native file API
-                const buffer = await file.arrayBuffer();
-                await Bun.write(targetPath, buffer);
+            if (staged.length === 0 && rejected.length === 0) {
+              set.status = 400;
+              return { success: false, error: "No files in upload" };
+            }
 
-                uploadedFiles.push({
-                  name: file.name,
-                  size: file.size,
-                  path: join(targetDir, file.name),
-                });
+            // Check tags and metadata before committing anything
+            const fileMeta = parseMetaFields(
+              metaFields.tags,
+              metaFields.metadata,
+            );
+            const assetMeta = parseMetaFields(
+              metaFields.assetTags,
+              metaFields.assetMetadata,
+            );
+            const generations = generationField?.trim()
+              ? parseGenerationField(generationField)
+              : new Map<string, GenerationMetadata>();
+            for (const name of generations.keys()) {
+              if (
+                !staged.some((file) => file.name === name) &&
+                !rejected.some((file) => file.name === name)
+              ) {
+                throw new MetadataError(
+                  `generation names a file that is not in the upload: ${name}`,
+                );
+              }
+            }
 
-                console.log(
-                  `[Upload] Saved file: ${file.name} (${file.size} bytes) to ${targetDir}`,
+            const targetDir = resolveAssetPath(
+              directory || "models",
+              assetDirs,
+              { allowDirectoryRoot: true },
+            );
+            const uploadedFiles: PublishedFile[] = [];
+            const validations: Array<ValidationReport | undefined> = [];
+            const optimizations: Array<GlbVariant[] | undefined> = [];
+            const optIn = parseVariantList(optimize);
+            const uploadedBy = getRequestActor(request);
+
+            console.log("[Upload] Directory:", targetDir);
+            console.log("[Upload] Processing", staged.length, "file(s)");
+
+            while (staged.length > 0) {
+              const file = staged.shift()!;
+              const targetKey = resolveAssetChild(
+                targetDir,
+                file.name,
+                assetDirs,
+              );
+
+              // Enforce the target directory's type and size policy, then
+              // validate the structure of glTF models
+              let violation = await checkStagedUpload(
+                storage,
+                targetDir,
+                file.name,
+                file,
+              );
+              let report: ValidationReport | null = null;
+              if (!violation) {
+                ({ report, violation } = await validateStagedUpload(
+                  storage,
+                  targetDir,
+                  file.name,
+                  file,
+                ));
+              }
+              if (violation) {
+                console.warn(
+                  `[Upload] Rejected ${file.name}: ${violation.message}`,
+                );
+                rejected.push(violation);
+                await storage.delete(file.tempKey);
+                continue;
+              }
+
+              // Rename the staged file into place, keeping the previous
+              // bytes as a revision and an immutable copy addressed by
+              // content hash
+              await commitVersioned(storage, targetKey, file, uploadedBy);
+              if (fileMeta) {
+                await updateMeta(
+                  storage,
+                  index,
+                  "file",
+                  targetKey,
+                  fileMeta,
+                  uploadedBy,
                 );
               }
+              const generation = generations.get(file.name);
+              if (generation) {
+                await writeGeneration(
+                  storage,
+                  index,
+                  targetKey,
+                  generation,
+                  uploadedBy,
+                );
+              }
+
+              uploadedFiles.push({
+                name: file.name,
+                size: file.size,
+                path: targetKey,
+                hash: file.hash,
+                versionedPath: versionedPath(file.hash, basename(file.name)),
+              });
+              validations.push(report ?? undefined);
+
+              // Opt-in derived variants and model LODs are built in the
+              // background, unless this content already has them
+              const { variants } = await queueUploadVariants(
+                storage,
+                targetKey,
+                file.hash,
+                optIn,
+              );
+              optimizations.push(variants.length > 0 ? variants : undefined);
+
+              console.log(
+                `[Upload] Saved file: ${file.name} (${file.size} bytes) to ${targetDir}`,
+              );
+            }
+
+            if (uploadedFiles.length === 0) {
+              set.status = 422;
+              return {
+                success: false,
+                error: "No files were accepted by the upload policy",
+                rejected,
+              };
+            }
+
+            if (assetMeta) {
+              const assetIds = new Set(
+                uploadedFiles.map((file) => extractScopedAssetId(file.path)),
+              );
+              for (const assetId of assetIds) {
+                if (assetId) {
+                  await updateMeta(
+                    storage,
+                    index,
+                    "asset",
+                    assetId,
+                    assetMeta,
+                    uploadedBy,
+                  );
+                }
+              }
             }
 
             // Store uploaded files in context for webhook
@@ -75,32 +331,51 @@ export function createUploadRoute(rootDir: string) {
 
             return {
               success: true,
-              files: uploadedFiles,
+              files: uploadedFiles.map((file, i) => ({
+                ...file,
+                ...(validations[i] && { validation: validations[i] }),
+                ...(optimizations[i] && { variants: optimizations[i] }),
+              })),
+              ...(rejected.length > 0 && { rejected }),
             };
           } catch (error) {
+            // Path errors are answered with 400 by the global error handler
+            if (error instanceof UnsafePathError) {
+              throw error;
+            }
             console.error("[Upload] Error:", error);
-            set.status = 500;
+            set.status =
+              error instanceof MultipartParseError ||
+              error instanceof MetadataError
+                ? 400
+                : 500;
             return {
               success: false,
               error:
                 error instanceof Error ? error.message : "Unknown upload error",
             };
+          } finally {
+            // Drop staged files that were never committed
+            for (const file of staged) {
+              await storage.delete(file.tempKey).catch(() => false);
+            }
           }
         },
         {
-          body: UploadRequestBody,
+          // Read the body as a stream instead of buffering it
+          parse: "none",
           response: UploadResponse,
           detail: {
             tags: ["Upload"],
             summary: "Upload files to CDN (Auth Required)",
             description:
-              "Upload one or more files to the CDN. Requires API key authentication via Authorization header or X-API-Key header. Rate limited to 10 uploads per hour. Supports GLB models, images, JSON metadata, audio files. Maximum file size: 100MB per file.",
+              "Upload one or more files to the CDN as multipart/form-data (fields: files, directory). Optional fields tags (comma-separated) and metadata (JSON object of string, number or boolean values) are added to every uploaded file; assetTags and assetMetadata to the assets they belong to (see /api/search). The optional generation field is a JSON object mapping uploaded file names to how each was generated (prompt, negativePrompt, model, provider, voiceId, sourceAsset, seed and other settings in parameters); records are listed with the files, searchable and grouped into runs by the timestamp in the file names (see /api/generations/{runId}). Requires API key authentication via Authorization header or X-API-Key header. Rate limited to 10 uploads per hour. Each asset directory has an upload policy (see /api/config): file types are detected from their contents and must match the extension, and per-directory size limits apply (models: 200MB, others: 100MB). Files that break the policy are listed in `rejected` while the rest are saved; if nothing is accepted the response is 422. GLB/glTF files are structurally validated (chunk layout, buffer/accessor bounds, required extensions, texture sizes, skins for emotes); the report is stored and returned per file as `validation`, and directories in reject mode refuse files with errors (VALIDATION_FAILED). Files are streamed to a staging area and renamed into place once complete, so partial uploads are never served. Each file is also stored by SHA-256 hash and returned with an immutable versioned path (v/<hash>/<name>).",
             security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
           },
         },
       )
       // Broadcast upload events via WebSocket after response sent (non-blocking)
-      .onAfterResponse(async ({ set, path, server }) => {
+      .onAfterResponse(async ({ set, path, server, request }) => {
         // Only broadcast for successful uploads
         if (path !== "/api/upload" || set.status !== 200) {
           return;
@@ -111,7 +386,6 @@ export function createUploadRoute(rootDir: string) {
           console.warn(
             "[WebSocket] Server not available for publishing events",
           );
-          return;
         }
 
         try {
@@ -123,63 +397,23 @@ export function createUploadRoute(rootDir: string) {
             return;
           }
 
-          const uploadedFiles = JSON.parse(String(uploadedFilesHeader));
-
-          // Group files by asset ID
-          const assetGroups = new Map<
-            string,
-            Array<{ name: string; size: number; path: string }>
-          >();
-
-          for (const file of uploadedFiles) {
-            const assetId = extractAssetId(file.path);
-            if (!assetId) {
-              console.warn(
-                `[WebSocket] Could not extract asset ID from path: ${file.path}`,
-              );
-              continue;
-            }
-
-            if (!assetGroups.has(assetId)) {
-              assetGroups.set(assetId, []);
-            }
-            assetGroups.get(assetId)!.push(file);
-          }
-
-          // Broadcast event for each asset group
-          const cdnBaseUrl =
-            process.env.CDN_URL ||
-            (() => {
-              if (process.env.NODE_ENV === "production") {
-                throw new Error(
-                  "CDN_URL must be set in production environment",
-                );
-              }
-              return `http://0.0.0.0:${process.env.PORT || 3005}`;
-            })();
-
-          for (const [assetId, files] of assetGroups.entries()) {
-            const event = {
-              type: "asset-upload",
-              assetId,
-              directory: uploadDirectory,
-              files: files.map((file) => ({
-                name: file.name,
-                size: file.size,
-                relativePath: file.path,
-                cdnUrl: `${cdnBaseUrl}/${file.path}`,
-              })),
-              uploadedAt: new Date().toISOString(),
-              uploadedBy: null, // TODO: Extract from auth if available
-            };
+          const uploadedFiles: PublishedFile[] = JSON.parse(
+            String(uploadedFilesHeader),
+          );
 
-            console.log(
-              `[WebSocket] Broadcasting upload event for asset ${assetId} (${files.length} files)`,
+          if (server) {
+            publishAssetUploadEvents(
+              server,
+              String(uploadDirectory),
+              uploadedFiles,
+              getRequestActor(request),
             );
-
-            // Publish to cdn-uploads topic - all connected API servers will receive this
-            server.publish("cdn-uploads", JSON.stringify(event));
           }
+          await handleAssetChanges(
+            server,
+            storage,
+            uploadedFiles.map((file) => file.path),
+          );
         } catch (error) {
           // Log but don't throw - event broadcast failures shouldn't affect upload
           console.error(
@@ -0,0 +1,69 @@
+/**
+ * Model Validation Route
+ * Returns the stored glTF validation report for a model, validating it on
+ * first request if it predates the validator
+ */
+
+import { Elysia } from "elysia";
+import { basename } from "path";
+import { ValidationResponse } from "../types/models";
+import type { StorageBackend } from "../storage/types";
+import { hashBlob } from "../utils/content-store";
+import { getRevisions } from "../utils/version-history";
+import {
+  getValidationReport,
+  validateStoredModel,
+} from "../utils/gltf-validator";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createValidationRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return new Elysia({ prefix: "/api", name: "validation" }).get(
+    "/files/:path/validation",
+    async ({ params, set }) => {
+      const key = resolveAssetPath(params.path, assetDirs);
+      const [stat, blob] = await Promise.all([
+        storage.stat(key),
+        storage.streamRange(key),
+      ]);
+      if (!stat || !blob) {
+        set.status = 404;
+        return { success: false, path: key, error: "File not found" };
+      }
+
+      // Reports are keyed by content hash, so use the current revision
+      const revisions = await getRevisions(storage, key);
+      const hash =
+        revisions[revisions.length - 1]?.hash ?? (await hashBlob(blob));
+
+      const validation =
+        (await getValidationReport(storage, key, hash)) ??
+        (await validateStoredModel(storage, key, key, basename(key), {
+          hash,
+          size: stat.size,
+        }));
+
+      if (!validation) {
+        set.status = 404;
+        return {
+          success: false,
+          path: key,
+          error: "Validation does not apply to this file",
+        };
+      }
+
+      return { success: true, path: key, validation };
+    },
+    {
+      response: ValidationResponse,
+      detail: {
+        tags: ["Files"],
+        summary: "Get glTF validation report",
+        description:
+          "Returns the structural validation report (errors and warnings) for a .glb/.gltf file in a directory with a validation policy. Path must be URL-encoded and relative to CDN root.",
+      },
+    },
+  );
+}
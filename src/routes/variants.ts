@@ -0,0 +1,134 @@
+/**
+ * GLB Variants Route
+ * Status of the derived (optimised) variants of a model, and on-demand
+ * generation for files that were uploaded without opting in
+ */
+
+import { Elysia, t } from "elysia";
+import { VariantsRequestBody, VariantsResponse } from "../types/models";
+import { requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import { hashBlob } from "../utils/content-store";
+import { getRevisions } from "../utils/version-history";
+import { generateETag } from "../utils/range-handler";
+import {
+  GLB_VARIANTS,
+  getVariantManifest,
+  parseVariantList,
+  queueOptimization,
+} from "../utils/gltf-optimize";
+import { LOD_VARIANTS } from "../utils/lod";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createVariantsRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "variants" })
+      // GET /api/files/:path/variants - Variant status
+      .get(
+        "/files/:path/variants",
+        async ({ params, set }) => {
+          const key = resolveAssetPath(params.path, assetDirs);
+          const [stat, manifest] = await Promise.all([
+            storage.stat(key),
+            getVariantManifest(storage, key),
+          ]);
+          if (!stat) {
+            set.status = 404;
+            return { success: false, path: key, error: "File not found" };
+          }
+
+          return {
+            success: true,
+            path: key,
+            hash: manifest?.hash,
+            // Pending jobs have no ETag yet but belong to the current upload
+            current: manifest
+              ? !manifest.etag ||
+                manifest.etag === generateETag(stat.size, stat.lastModified)
+              : false,
+            variants: manifest?.variants ?? {},
+          };
+        },
+        {
+          response: VariantsResponse,
+          detail: {
+            tags: ["Files"],
+            summary: "Get GLB variant status",
+            description:
+              "Lists the derived variants of a .glb file (pending, ready or failed) and whether they were built from its current content. Path must be URL-encoded and relative to CDN root.",
+          },
+        },
+      )
+
+      // Apply authentication for all following routes
+      .use(requireApiKey())
+
+      // POST /api/files/:path/variants - Build variants of an existing file
+      .post(
+        "/files/:path/variants",
+        async ({ params, body, set }) => {
+          const key = resolveAssetPath(params.path, assetDirs);
+          if (!/\.glb$/i.test(key)) {
+            set.status = 400;
+            return {
+              success: false,
+              path: key,
+              error: "Only .glb files have variants",
+            };
+          }
+
+          const blob = await storage.streamRange(key);
+          if (!blob) {
+            set.status = 404;
+            return { success: false, path: key, error: "File not found" };
+          }
+
+          const variants = body?.variants
+            ? parseVariantList(body.variants.join(","))
+            : [...GLB_VARIANTS];
+          if (variants.length === 0) {
+            set.status = 400;
+            return {
+              success: false,
+              path: key,
+              error: `Unknown variants; expected any of: ${[...GLB_VARIANTS, ...LOD_VARIANTS, "lod"].join(", ")}`,
+            };
+          }
+
+          const revisions = await getRevisions(storage, key);
+          const hash =
+            revisions[revisions.length - 1]?.hash ?? (await hashBlob(blob));
+          await queueOptimization(storage, key, hash, variants);
+          console.log(`[Optimize] Queued ${variants.join(", ")} for ${key}`);
+
+          set.status = 202;
+          return {
+            success: true,
+            path: key,
+            hash,
+            current: true,
+            variants: Object.fromEntries(
+              variants.map((variant) => [
+                variant,
+                { status: "pending" as const },
+              ]),
+            ),
+          };
+        },
+        {
+          body: t.Optional(VariantsRequestBody),
+          response: VariantsResponse,
+          detail: {
+            tags: ["Files"],
+            summary: "Generate GLB variants (Auth Required)",
+            description:
+              'Queues generation of derived variants (pruned, quantized, meshopt, draco, lowtex; all by default, or "lod" for the LOD chain) for an existing .glb file. Poll GET /api/files/{path}/variants for progress. Requires API key authentication.',
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Version History Route
+ * List, download and roll back to previous revisions of a file
+ * Rollbacks broadcast the same WebSocket event as uploads
+ */
+
+import { Elysia } from "elysia";
+import { basename } from "path";
+import { FileVersionsResponse, RollbackResponse } from "../types/models";
+import { getRequestActor, requireApiKey } from "../middleware/auth";
+import type { StorageBackend } from "../storage/types";
+import {
+  getRevision,
+  getRevisions,
+  rollbackToRevision,
+} from "../utils/version-history";
+import { blobKey, versionedPath } from "../utils/content-store";
+import { serveFile } from "../utils/file-server";
+import { publishAssetUploadEvents } from "../utils/asset-events";
+import { handleAssetChanges } from "../utils/asset-changes";
+import { resolveAssetPath } from "../utils/safe-path";
+
+export function createVersionsRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return (
+    new Elysia({ prefix: "/api", name: "versions" })
+      // GET /api/files/:path/versions - List revisions of a file
+      .get(
+        "/files/:path/versions",
+        async ({ params, set }) => {
+          const key = resolveAssetPath(params.path, assetDirs);
+          const versions = await getRevisions(storage, key);
+          if (versions.length === 0 && !(await storage.stat(key))) {
+            set.status = 404;
+            return {
+              success: false,
+              path: key,
+              versions: [],
+              error: "File not found",
+            };
+          }
+
+          return {
+            success: true,
+            path: key,
+            versions,
+          };
+        },
+        {
+          response: FileVersionsResponse,
+          detail: {
+            tags: ["Versions"],
+            summary: "List file revisions",
+            description:
+              "Returns every recorded revision of a file (oldest first) with timestamp, uploader and content hash. Path must be URL-encoded and relative to CDN root. Files that were never overwritten have no revisions yet.",
+          },
+        },
+      )
+
+      // GET /api/files/:path/versions/:version - Download a specific revision
+      .get(
+        "/files/:path/versions/:version",
+        async (context) => {
+          const { params, set } = context;
+          const key = resolveAssetPath(params.path, assetDirs);
+          const version = parseInt(params.version, 10);
+          const revision = !isNaN(version)
+            ? await getRevision(storage, key, version)
+            : null;
+
+          if (!revision) {
+            set.status = 404;
+            return new Response("Revision not found", { status: 404 });
+          }
+
+          // Revisions are content-addressed, so they never change
+          return serveFile(storage, blobKey(revision.hash), context, {
+            immutable: true,
+            etag: `"${revision.hash}"`,
+            contentType: Bun.file(key).type,
+          });
+        },
+        {
+          detail: {
+            tags: ["Versions"],
+            summary: "Download a file revision",
+            description:
+              "Returns the bytes of a specific revision with range and ETag support.",
+          },
+        },
+      )
+
+      // Apply authentication for all following routes
+      .use(requireApiKey())
+
+      // POST /api/files/:path/versions/:version/rollback - Restore a revision
+      .post(
+        "/files/:path/versions/:version/rollback",
+        async ({ params, set, request, server }) => {
+          const key = resolveAssetPath(params.path, assetDirs);
+
+          try {
+            const uploadedBy = getRequestActor(request);
+            const revision = await rollbackToRevision(
+              storage,
+              key,
+              parseInt(params.version, 10),
+              uploadedBy,
+            );
+
+            if (!revision) {
+              set.status = 404;
+              return {
+                success: false,
+                error: "Revision not found",
+              };
+            }
+
+            console.log(
+              `[Versions] Rolled back ${key} to v${revision.source} (now v${revision.version})`,
+            );
+
+            // Notify connected servers exactly like an upload
+            if (server) {
+              try {
+                publishAssetUploadEvents(
+                  server,
+                  key.split("/")[0],
+                  [
+                    {
+                      name: basename(key),
+                      size: revision.size,
+                      path: key,
+                      hash: revision.hash,
+                      versionedPath: versionedPath(
+                        revision.hash,
+                        basename(key),
+                      ),
+                    },
+                  ],
+                  uploadedBy,
+                );
+              } catch (error) {
+                console.error(
+                  "[WebSocket] Error broadcasting rollback event:",
+                  error instanceof Error ? error.message : String(error),
+                );
+              }
+            }
+            handleAssetChanges(server, storage, [key]);
+
+            return {
+              success: true,
+              revision,
+            };
+          } catch (error) {
+            console.error("[Versions] Rollback error:", error);
+            set.status = 500;
+            return {
+              success: false,
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Unknown rollback error",
+            };
+          }
+        },
+        {
+          response: RollbackResponse,
+          detail: {
+            tags: ["Versions"],
+            summary: "Roll back to a revision (Auth Required)",
+            description:
+              "Atomically restores a previous revision as the current file content and records the rollback as a new revision. Broadcasts an asset-upload WebSocket event. Requires API key authentication.",
+            security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
+          },
+        },
+      )
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Waveform Route
+ * Peaks for drawing audio waveforms, so the dashboard and audio editor no
+ * longer download and decode whole tracks in the browser
+ */
+
+import { Elysia, t } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import {
+  AUDIO_EXTENSIONS,
+  AudioParseError,
+  isAudioFile,
+} from "../utils/audio-metadata";
+import { checkETagMatch } from "../utils/range-handler";
+import { resolveAssetPath } from "../utils/safe-path";
+import {
+  DEFAULT_WAVEFORM_POINTS,
+  MAX_WAVEFORM_POINTS,
+  getWaveform,
+} from "../utils/waveform";
+
+export function createWaveformRoute(
+  storage: StorageBackend,
+  assetDirs: string[],
+) {
+  return new Elysia({ prefix: "/api", name: "waveform" }).get(
+    "/waveform/*",
+    async ({ params, query, request, set }) => {
+      const key = resolveAssetPath(params["*"] || "", assetDirs);
+
+      if (!isAudioFile(key)) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: `Only ${AUDIO_EXTENSIONS.join(", ")} files have waveforms`,
+        };
+      }
+
+      const points = query.points
+        ? Number(query.points)
+        : DEFAULT_WAVEFORM_POINTS;
+      if (
+        !Number.isInteger(points) ||
+        points < 1 ||
+        points > MAX_WAVEFORM_POINTS
+      ) {
+        set.status = 400;
+        return {
+          success: false,
+          path: key,
+          error: `points must be an integer from 1 to ${MAX_WAVEFORM_POINTS}`,
+        };
+      }
+
+      try {
+        const result = await getWaveform(storage, key, points);
+        if (!result) {
+          set.status = 404;
+          return { success: false, path: key, error: "File not found" };
+        }
+
+        const cacheHeaders = {
+          ETag: result.etag,
+          "Cache-Control": "public, max-age=0, must-revalidate",
+        };
+        if (
+          checkETagMatch(
+            result.etag,
+            request.headers.get("if-none-match") ?? undefined,
+          )
+        ) {
+          return new Response(null, { status: 304, headers: cacheHeaders });
+        }
+        Object.assign(set.headers, cacheHeaders);
+
+        return result.waveform;
+      } catch (error) {
+        if (error instanceof AudioParseError) {
+          set.status = 422;
+          return { success: false, path: key, error: error.message };
+        }
+        console.error("[Waveforms] Failed to compute waveform:", error);
+        set.status = 500;
+        return {
+          success: false,
+          path: key,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Waveform generation failed",
+        };
+      }
+    },
+    {
+      query: t.Object({
+        points: t.Optional(t.String()),
+      }),
+      detail: {
+        tags: ["Files"],
+        summary: "Get an audio waveform",
+        description: `Min/max peaks of an MP3, Ogg Vorbis or WAV file (channels mixed to mono) in the audiowaveform JSON format, with at most ?points= min/max pairs (default ${DEFAULT_WAVEFORM_POINTS}, max ${MAX_WAVEFORM_POINTS}). Peaks are decoded on the server on first request and cached until the file changes; supports If-None-Match. Opus is not supported.`,
+      },
+    },
+  );
+}
@@ -0,0 +1,1117 @@
+/**
+ * File Metadata Index
+ * SQLite table of every file in the asset directories (size, mtime, type,
+ * content hash, owning asset ID, generation run), so listings are queries
+ * instead of walks over the whole volume. Kept current by
+ * IndexedStorageBackend.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname, extname, join } from "path";
+import { extractScopedAssetId } from "../utils/webhook";
+import {
+  extractGenerationTimestamp,
+  generationRunId,
+  generationSearchText,
+  GENERATION_RUN_WINDOW_MS,
+  type GenerationRecord,
+} from "../utils/generation-meta";
+import { AUDIO_EXTENSIONS, type AudioMetadata } from "../utils/audio-metadata";
+import { SYSTEM_PREFIX } from "./keys";
+import type { StorageBackend, StorageEntry } from "./types";
+
+// Database file (defaults to .cdn/index.sqlite for the local backend and
+// an in-memory database, rebuilt at startup, for the others)
+const INDEX_DB_PATH = process.env.INDEX_DB_PATH;
+
+// Schema changes in order (SQL, or a function for data that needs code to
+// compute); user_version counts the ones applied
+const MIGRATIONS: (string | ((db: Database) => void))[] = [
+  `CREATE TABLE files (
+     key TEXT PRIMARY KEY,
+     directory TEXT NOT NULL,
+     name TEXT NOT NULL,
+     extension TEXT NOT NULL,
+     size INTEGER NOT NULL,
+     modified INTEGER NOT NULL,
+     mime TEXT NOT NULL,
+     hash TEXT,
+     asset_id TEXT
+   );
+   CREATE INDEX files_directory ON files (directory);
+   CREATE INDEX files_asset_id ON files (asset_id);
+   CREATE INDEX files_unhashed ON files (key) WHERE hash IS NULL;`,
+  `CREATE INDEX files_name ON files (name COLLATE NOCASE, key);
+   CREATE INDEX files_size ON files (size, key);
+   CREATE INDEX files_modified ON files (modified, key);`,
+  `CREATE TABLE meta (
+     kind TEXT NOT NULL,
+     ref TEXT NOT NULL,
+     tags TEXT NOT NULL,
+     metadata TEXT NOT NULL,
+     PRIMARY KEY (kind, ref)
+   );
+   CREATE TABLE search_docs (id INTEGER PRIMARY KEY, key TEXT NOT NULL UNIQUE);
+   CREATE VIRTUAL TABLE search USING fts5(path, tags, metadata);
+   INSERT INTO search_docs (key) SELECT key FROM files;
+   INSERT INTO search (rowid, path, tags, metadata)
+     SELECT id, key, '', '' FROM search_docs;`,
+  // Runs are filled in by the run grouping migration below
+  `CREATE TABLE generations (key TEXT PRIMARY KEY, record TEXT NOT NULL);
+   ALTER TABLE files ADD COLUMN run_id TEXT;
+   CREATE INDEX files_run_id ON files (run_id);`,
+  // Audio metadata is read along with the hash, so existing audio files
+  // are queued for hashing again to fill it in
+  `ALTER TABLE files ADD COLUMN audio TEXT;
+   UPDATE files SET hash = NULL
+     WHERE lower(extension) IN (${AUDIO_EXTENSIONS.map((ext) => `'${ext}'`).join(", ")});`,
+  // Asset IDs are scoped to their directory (models/combat and
+  // music/combat are different assets), and loose files in a directory
+  // belong to none
+  (db) => {
+    const setAssetId = db.query("UPDATE files SET asset_id = ? WHERE key = ?");
+    for (const { key } of db.query("SELECT key FROM files").all() as {
+      key: string;
+    }[]) {
+      setAssetId.run(extractScopedAssetId(key), key);
+    }
+  },
+  // Generation runs are outputs made moments apart in one folder, rather
+  // than names sharing a timestamp prefix (which split runs at second
+  // boundaries and joined unrelated folders)
+  (db) => {
+    db.exec(`ALTER TABLE files ADD COLUMN folder TEXT;
+      ALTER TABLE files ADD COLUMN stamp INTEGER;
+      CREATE INDEX files_stamp ON files (folder, stamp) WHERE stamp IS NOT NULL;
+      UPDATE files SET run_id = NULL;`);
+    const setStamp = db.query(
+      "UPDATE files SET folder = ?, stamp = ? WHERE key = ?",
+    );
+    for (const { key } of db.query("SELECT key FROM files").all() as {
+      key: string;
+    }[]) {
+      setStamp.run(dirname(key), extractGenerationTimestamp(key), key);
+    }
+    assignRuns(
+      db,
+      db
+        .query(
+          `SELECT key, folder, stamp FROM files WHERE stamp IS NOT NULL
+           ORDER BY folder, stamp, key`,
+        )
+        .all() as StampRow[],
+    );
+  },
+];
+
+export interface IndexedFile extends StorageEntry {
+  /**
+   * Extension including the dot, as in the key (e.g. ".glb")
+   */
+  extension: string;
+  /**
+   * Hex SHA-256 of the content (null until it has been hashed)
+   */
+  hash: string | null;
+  assetId: string | null;
+  /**
+   * Generation run, from the timestamps in the names of the file and the
+   * files next to it
+   */
+  generationRun: string | null;
+  /**
+   * Duration, codec, tags etc. of audio files, read when the file is
+   * hashed (null for other files and audio that could not be parsed)
+   */
+  audio: AudioMetadata | null;
+}
+
+export const FILE_SORT_FIELDS = ["name", "path", "size", "modified"] as const;
+
+export type FileSortField = (typeof FILE_SORT_FIELDS)[number];
+
+// Column expression per sort field (keys break ties, so order is total)
+const SORT_COLUMNS: Record<FileSortField, string> = {
+  name: "name COLLATE NOCASE",
+  path: "key",
+  size: "size",
+  modified: "modified",
+};
+
+export interface FileQuery {
+  /**
+   * Directories to search
+   */
+  directories: readonly string[];
+  /**
+   * Only files under this directory, e.g. "models/sword"
+   */
+  prefix?: string;
+  /**
+   * Extensions with or without the dot, matched case-insensitively
+   */
+  extensions?: string[];
+  minSize?: number;
+  maxSize?: number;
+  /**
+   * Milliseconds since epoch
+   */
+  modifiedSince?: number;
+  /**
+   * Case-insensitive glob on the file name (* and ?)
+   */
+  name?: string;
+  sort?: FileSortField;
+  order?: "asc" | "desc";
+  limit: number;
+  /**
+   * nextCursor of the previous page
+   */
+  cursor?: string;
+}
+
+export interface FilePage {
+  files: IndexedFile[];
+  /**
+   * Files matching the filters across all pages
+   */
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * A cursor that is malformed or was issued for a different sort order
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+type CursorPosition = [FileSortField, "asc" | "desc", string | number, string];
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(position) &&
+      position.length === 4 &&
+      FILE_SORT_FIELDS.includes(position[0]) &&
+      (position[1] === "asc" || position[1] === "desc") &&
+      typeof position[3] === "string"
+    ) {
+      return position as CursorPosition;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Files sharing an asset ID, aggregated
+ */
+export interface AssetSummary {
+  id: string;
+  fileCount: number;
+  totalSize: number;
+  /**
+   * Latest mtime of the asset's files (ms)
+   */
+  lastModified: number;
+  /**
+   * Distinct lower-cased extensions of the asset's files
+   */
+  extensions: string[];
+}
+
+export interface AssetQuery {
+  /**
+   * Only assets with at least one file of these extensions (with the dot)
+   */
+  extensions?: string[];
+  /**
+   * Only assets without any file of these extensions (with the dot)
+   */
+  excludeExtensions?: string[];
+  /**
+   * Only assets whose ID sorts after this one (the last ID of the
+   * previous page)
+   */
+  after?: string;
+  limit: number;
+}
+
+/**
+ * Tags and metadata are attached to a file (by key) or an asset (by ID)
+ */
+export type MetaKind = "file" | "asset";
+
+export type MetadataValue = string | number | boolean;
+
+export interface FileMeta {
+  tags: string[];
+  metadata: Record<string, MetadataValue>;
+}
+
+export interface SearchQuery {
+  /**
+   * Words matched as prefixes against paths, tags and metadata keys and
+   * values; all must match
+   */
+  text?: string;
+  /**
+   * Tags the file or its asset must all have
+   */
+  tags?: string[];
+  extensions?: string[];
+  excludeExtensions?: string[];
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * A search result with the tags and metadata of the file and its asset
+ * combined (file values win)
+ */
+export interface SearchHit extends IndexedFile, FileMeta {}
+
+export interface SearchPage {
+  files: SearchHit[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface IndexSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+interface FileRow {
+  key: string;
+  name: string;
+  extension: string;
+  size: number;
+  modified: number;
+  mime: string;
+  hash: string | null;
+  asset_id: string | null;
+  run_id: string | null;
+  audio: string | null;
+}
+
+interface StampRow {
+  key: string;
+  folder: string;
+  stamp: number;
+}
+
+interface AssetRow extends Omit<AssetSummary, "extensions"> {
+  extensions: string | null;
+}
+
+interface MetaRow {
+  tags: string;
+  metadata: string;
+}
+
+interface SearchRow extends FileRow {
+  file_tags: string | null;
+  file_metadata: string | null;
+  asset_tags: string | null;
+  asset_metadata: string | null;
+  generation: string | null;
+}
+
+// Row value per sort field, as stored in cursors
+const SORT_VALUES: Record<FileSortField, (row: FileRow) => string | number> = {
+  name: (row) => row.name,
+  path: (row) => row.key,
+  size: (row) => row.size,
+  modified: (row) => row.modified,
+};
+
+/**
+ * Set the run of timestamped files given in timestamp order per folder:
+ * a file more than GENERATION_RUN_WINDOW_MS after the previous one in its
+ * folder starts a new run
+ */
+function assignRuns(db: Database, rows: StampRow[]): void {
+  const setRunId = db.query("UPDATE files SET run_id = ? WHERE key = ?");
+  let runId = "";
+  let previous: StampRow | null = null;
+  for (const row of rows) {
+    if (
+      !previous ||
+      row.folder !== previous.folder ||
+      row.stamp - previous.stamp > GENERATION_RUN_WINDOW_MS
+    ) {
+      runId = generationRunId(row.folder, row.stamp);
+    }
+    setRunId.run(runId, row.key);
+    previous = row;
+  }
+}
+
+function toIndexedFile(row: FileRow): IndexedFile {
+  return {
+    key: row.key,
+    size: row.size,
+    lastModified: row.modified,
+    type: row.mime,
+    extension: row.extension,
+    hash: row.hash,
+    assetId: row.asset_id,
+    generationRun: row.run_id,
+    audio: row.audio ? (JSON.parse(row.audio) as AudioMetadata) : null,
+  };
+}
+
+/**
+ * Tags and metadata of a file and its asset combined (file values win)
+ */
+function combineMeta(
+  fileTags: string | null,
+  fileMetadata: string | null,
+  assetTags: string | null,
+  assetMetadata: string | null,
+): FileMeta {
+  const tags = new Set<string>([
+    ...JSON.parse(assetTags ?? "[]"),
+    ...JSON.parse(fileTags ?? "[]"),
+  ]);
+  return {
+    tags: [...tags],
+    metadata: {
+      ...JSON.parse(assetMetadata ?? "{}"),
+      ...JSON.parse(fileMetadata ?? "{}"),
+    },
+  };
+}
+
+/**
+ * FTS match expression for free text: each word is a quoted prefix term,
+ * so user input can't inject query syntax (null if there are no words)
+ */
+function toMatchExpression(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter((word) => /[\p{L}\p{N}]/u.test(word))
+    .map((word) => `"${word}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+function encodeSearchCursor(offset: number): string {
+  return Buffer.from(JSON.stringify(["search", offset])).toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string): number {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(position) &&
+      position[0] === "search" &&
+      Number.isInteger(position[1]) &&
+      position[1] > 0
+    ) {
+      return position[1];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Key range [from, to) covering everything under a directory prefix
+ * ("0" is the character after "/")
+ */
+function prefixRange(prefix: string): [string, string] {
+  const dir = prefix.replace(/\/+$/, "");
+  return [`${dir}/`, `${dir}0`];
+}
+
+export class FileIndex {
+  private db: Database;
+
+  constructor(readonly path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA synchronous = NORMAL");
+    this.migrate();
+  }
+
+  /**
+   * Apply the migrations the database has not seen yet
+   */
+  private migrate(): void {
+    const { user_version } = this.db.query("PRAGMA user_version").get() as {
+      user_version: number;
+    };
+    for (let version = user_version; version < MIGRATIONS.length; version++) {
+      this.db.transaction(() => {
+        const migration = MIGRATIONS[version];
+        if (typeof migration === "string") {
+          this.db.exec(migration);
+        } else {
+          migration(this.db);
+        }
+        this.db.exec(`PRAGMA user_version = ${version + 1}`);
+      })();
+    }
+  }
+
+  get(key: string): IndexedFile | null {
+    const row = this.db
+      .query("SELECT * FROM files WHERE key = ?")
+      .get(key) as FileRow | null;
+    return row ? toIndexedFile(row) : null;
+  }
+
+  /**
+   * All files under a directory prefix, sorted by key
+   */
+  list(prefix: string): IndexedFile[] {
+    const rows = this.db
+      .query("SELECT * FROM files WHERE key >= ? AND key < ? ORDER BY key")
+      .all(...prefixRange(prefix)) as FileRow[];
+    return rows.map(toIndexedFile);
+  }
+
+  /**
+   * One page of the files matching a query, in a stable order. Pages are
+   * keyed on the last row seen, so files added or removed between requests
+   * never shift later pages.
+   */
+  query(query: FileQuery): FilePage {
+    const sort = query.sort ?? "path";
+    const order = query.order ?? "asc";
+    const column = SORT_COLUMNS[sort];
+
+    const conditions = [
+      `directory IN (${query.directories.map(() => "?").join(", ")})`,
+    ];
+    const params: (string | number)[] = [...query.directories];
+    if (query.prefix) {
+      conditions.push("key >= ? AND key < ?");
+      params.push(...prefixRange(query.prefix.replace(/^\/+/, "")));
+    }
+    if (query.extensions && query.extensions.length > 0) {
+      conditions.push(
+        `lower(extension) IN (${query.extensions.map(() => "?").join(", ")})`,
+      );
+      params.push(
+        ...query.extensions.map(
+          (ext) => `.${ext.replace(/^\./, "").toLowerCase()}`,
+        ),
+      );
+    }
+    if (query.minSize !== undefined) {
+      conditions.push("size >= ?");
+      params.push(query.minSize);
+    }
+    if (query.maxSize !== undefined) {
+      conditions.push("size <= ?");
+      params.push(query.maxSize);
+    }
+    if (query.modifiedSince !== undefined) {
+      conditions.push("modified >= ?");
+      params.push(query.modifiedSince);
+    }
+    if (query.name) {
+      conditions.push("lower(name) GLOB ?");
+      params.push(query.name.toLowerCase());
+    }
+
+    const where = conditions.join(" AND ");
+    const { total } = this.db
+      .query(`SELECT COUNT(*) AS total FROM files WHERE ${where}`)
+      .get(...params) as { total: number };
+
+    const pageConditions = [where];
+    const pageParams = [...params];
+    if (query.cursor) {
+      const [cursorSort, cursorOrder, value, key] = decodeCursor(query.cursor);
+      if (cursorSort !== sort || cursorOrder !== order) {
+        throw new InvalidCursorError("Cursor was issued for a different sort");
+      }
+      const op = order === "asc" ? ">" : "<";
+      pageConditions.push(
+        `(${column} ${op} ? OR (${column} = ? AND key ${op} ?))`,
+      );
+      pageParams.push(value, value, key);
+    }
+
+    const direction = order === "asc" ? "ASC" : "DESC";
+    const rows = this.db
+      .query(
+        `SELECT * FROM files WHERE ${pageConditions.join(" AND ")}
+         ORDER BY ${column} ${direction}, key ${direction} LIMIT ?`,
+      )
+      .all(...pageParams, query.limit + 1) as FileRow[];
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      files: page.map(toIndexedFile),
+      total,
+      nextCursor:
+        rows.length > query.limit
+          ? encodeCursor([sort, order, SORT_VALUES[sort](last), last.key])
+          : null,
+    };
+  }
+
+  /**
+   * All files belonging to an asset, sorted by key
+   */
+  assetFiles(assetId: string): IndexedFile[] {
+    const rows = this.db
+      .query("SELECT * FROM files WHERE asset_id = ? ORDER BY key")
+      .all(assetId) as FileRow[];
+    return rows.map(toIndexedFile);
+  }
+
+  /**
+   * IDs of the assets whose folder has this name, in any directory
+   */
+  assetIdsNamed(name: string): string[] {
+    const rows = this.db
+      .query(
+        `SELECT DISTINCT asset_id AS id FROM files
+         WHERE asset_id IS NOT NULL AND substr(asset_id, instr(asset_id, '/') + 1) = ?
+         ORDER BY asset_id`,
+      )
+      .all(name) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * All files of a generation run, sorted by key
+   */
+  runFiles(runId: string): IndexedFile[] {
+    const rows = this.db
+      .query("SELECT * FROM files WHERE run_id = ? ORDER BY key")
+      .all(runId) as FileRow[];
+    return rows.map(toIndexedFile);
+  }
+
+  /**
+   * One page of the assets matching a query, sorted by ID, with the
+   * number of matching assets
+   */
+  assets(query: AssetQuery): { assets: AssetSummary[]; total: number } {
+    const having: string[] = [];
+    const params: string[] = [];
+    if (query.extensions && query.extensions.length > 0) {
+      having.push(
+        `SUM(lower(extension) IN (${query.extensions.map(() => "?").join(", ")})) > 0`,
+      );
+      params.push(...query.extensions);
+    }
+    if (query.excludeExtensions && query.excludeExtensions.length > 0) {
+      having.push(
+        `SUM(lower(extension) IN (${query.excludeExtensions.map(() => "?").join(", ")})) = 0`,
+      );
+      params.push(...query.excludeExtensions);
+    }
+    const groupBy = `GROUP BY asset_id${having.length > 0 ? ` HAVING ${having.join(" AND ")}` : ""}`;
+
+    const { total } = this.db
+      .query(
+        `SELECT COUNT(*) AS total FROM (
+           SELECT 1 FROM files WHERE asset_id IS NOT NULL ${groupBy}
+         )`,
+      )
+      .get(...params) as { total: number };
+
+    const after = query.after === undefined ? [] : [query.after];
+    const rows = this.db
+      .query(
+        `SELECT asset_id AS id, COUNT(*) AS fileCount, SUM(size) AS totalSize,
+           MAX(modified) AS lastModified,
+           group_concat(DISTINCT lower(extension)) AS extensions
+         FROM files
+         WHERE asset_id IS NOT NULL${after.length > 0 ? " AND asset_id > ?" : ""}
+         ${groupBy} ORDER BY asset_id LIMIT ?`,
+      )
+      .all(...after, ...params, query.limit) as AssetRow[];
+    return {
+      assets: rows.map((row) => ({
+        ...row,
+        extensions: (row.extensions ?? "").split(",").filter(Boolean),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * File count and total bytes under a directory prefix
+   */
+  stats(prefix: string): { fileCount: number; totalSize: number } {
+    return this.db
+      .query(
+        "SELECT COUNT(*) AS fileCount, COALESCE(SUM(size), 0) AS totalSize FROM files WHERE key >= ? AND key < ?",
+      )
+      .get(...prefixRange(prefix)) as { fileCount: number; totalSize: number };
+  }
+
+  /**
+   * Insert or update a file. Audio metadata is stored along with the
+   * hash; without a hash, the stored hash and audio metadata are kept if
+   * size and mtime are unchanged and cleared otherwise.
+   */
+  upsert(
+    entry: StorageEntry,
+    hash: string | null = null,
+    audio: AudioMetadata | null = null,
+  ): void {
+    const added = !this.db
+      .query("SELECT 1 FROM files WHERE key = ?")
+      .get(entry.key);
+    const folder = dirname(entry.key);
+    const stamp = extractGenerationTimestamp(entry.key);
+    this.db
+      .query(
+        `INSERT INTO files (key, directory, name, extension, size, modified, mime, hash, asset_id, folder, stamp, audio)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET
+           size = excluded.size,
+           modified = excluded.modified,
+           mime = excluded.mime,
+           hash = COALESCE(
+             excluded.hash,
+             CASE WHEN files.size = excluded.size AND files.modified = excluded.modified
+               THEN files.hash END
+           ),
+           audio = CASE
+             WHEN excluded.hash IS NOT NULL THEN excluded.audio
+             WHEN files.size = excluded.size AND files.modified = excluded.modified
+               THEN files.audio
+           END`,
+      )
+      .run(
+        entry.key,
+        entry.key.split("/")[0],
+        entry.key.split("/").pop()!,
+        extname(entry.key),
+        entry.size,
+        entry.lastModified,
+        entry.type,
+        hash,
+        extractScopedAssetId(entry.key),
+        folder,
+        stamp,
+        hash && audio ? JSON.stringify(audio) : null,
+      );
+
+    // Paths never change on update, so only new files join a run
+    if (added && stamp !== null) {
+      this.regroupRuns(folder, stamp);
+    }
+
+    // Paths and metadata never change on update, so only new files need
+    // a search document
+    if (
+      !this.db.query("SELECT 1 FROM search_docs WHERE key = ?").get(entry.key)
+    ) {
+      this.refreshSearch(entry.key);
+    }
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.db
+      .query("DELETE FROM files WHERE key = ? RETURNING folder, stamp")
+      .get(key) as { folder: string; stamp: number | null } | null;
+    if (deleted) {
+      this.refreshSearch(key);
+      if (deleted.stamp !== null) {
+        // Removing a file can split its run
+        this.regroupRuns(deleted.folder, deleted.stamp);
+      }
+    }
+    return deleted !== null;
+  }
+
+  /**
+   * Reassign the runs of the files around a timestamp in a folder after a
+   * file there was added or removed. Only the chain of files within
+   * GENERATION_RUN_WINDOW_MS of each other that reaches the timestamp can
+   * change.
+   */
+  private regroupRuns(folder: string, stamp: number): void {
+    const window = GENERATION_RUN_WINDOW_MS;
+    const earliest = this.db.query(
+      "SELECT MIN(stamp) AS stamp FROM files WHERE folder = ? AND stamp >= ? AND stamp < ?",
+    );
+    const latest = this.db.query(
+      "SELECT MAX(stamp) AS stamp FROM files WHERE folder = ? AND stamp > ? AND stamp <= ?",
+    );
+
+    let first = stamp;
+    while (true) {
+      const { stamp: before } = earliest.get(folder, first - window, first) as {
+        stamp: number | null;
+      };
+      if (before === null) {
+        break;
+      }
+      first = before;
+    }
+    let last = stamp;
+    while (true) {
+      const { stamp: after } = latest.get(folder, last, last + window) as {
+        stamp: number | null;
+      };
+      if (after === null) {
+        break;
+      }
+      last = after;
+    }
+
+    assignRuns(
+      this.db,
+      this.db
+        .query(
+          `SELECT key, folder, stamp FROM files
+           WHERE folder = ? AND stamp BETWEEN ? AND ? ORDER BY stamp, key`,
+        )
+        .all(folder, first, last) as StampRow[],
+    );
+  }
+
+  /**
+   * Tags and metadata stored for a file or asset (not combined)
+   */
+  getMeta(kind: MetaKind, ref: string): FileMeta | null {
+    const row = this.db
+      .query("SELECT tags, metadata FROM meta WHERE kind = ? AND ref = ?")
+      .get(kind, ref) as MetaRow | null;
+    return row
+      ? { tags: JSON.parse(row.tags), metadata: JSON.parse(row.metadata) }
+      : null;
+  }
+
+  /**
+   * Store (or with null, remove) the tags and metadata of a file or asset
+   * and update the search documents they appear in
+   */
+  setMeta(kind: MetaKind, ref: string, meta: FileMeta | null): void {
+    this.db.transaction(() => {
+      if (meta) {
+        this.db
+          .query(
+            `INSERT INTO meta (kind, ref, tags, metadata) VALUES (?, ?, ?, ?)
+             ON CONFLICT (kind, ref) DO UPDATE SET
+               tags = excluded.tags, metadata = excluded.metadata`,
+          )
+          .run(
+            kind,
+            ref,
+            JSON.stringify(meta.tags),
+            JSON.stringify(meta.metadata),
+          );
+      } else {
+        this.db
+          .query("DELETE FROM meta WHERE kind = ? AND ref = ?")
+          .run(kind, ref);
+      }
+
+      const keys =
+        kind === "file" ? [ref] : this.assetFiles(ref).map((file) => file.key);
+      for (const key of keys) {
+        this.refreshSearch(key);
+      }
+    })();
+  }
+
+  /**
+   * Every stored meta record, for reconciling with storage
+   */
+  allMeta(): { kind: MetaKind; ref: string }[] {
+    return this.db.query("SELECT kind, ref FROM meta").all() as {
+      kind: MetaKind;
+      ref: string;
+    }[];
+  }
+
+  /**
+   * Store (or with null, remove) the generation record of a file and
+   * update its search document
+   */
+  setGeneration(key: string, record: GenerationRecord | null): void {
+    this.db.transaction(() => {
+      if (record) {
+        this.db
+          .query(
+            `INSERT INTO generations (key, record) VALUES (?, ?)
+             ON CONFLICT (key) DO UPDATE SET record = excluded.record`,
+          )
+          .run(key, JSON.stringify(record));
+      } else {
+        this.db.query("DELETE FROM generations WHERE key = ?").run(key);
+      }
+      this.refreshSearch(key);
+    })();
+  }
+
+  /**
+   * Generation records of the given files, by key (files without one are
+   * left out)
+   */
+  generations(keys: string[]): Map<string, GenerationRecord> {
+    const records = new Map<string, GenerationRecord>();
+    const lookup = this.db.query(
+      "SELECT record FROM generations WHERE key = ?",
+    );
+    for (const key of keys) {
+      const row = lookup.get(key) as { record: string } | null;
+      if (row) {
+        records.set(key, JSON.parse(row.record));
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Every file with a generation record, for reconciling with storage
+   */
+  generationPaths(): string[] {
+    const rows = this.db.query("SELECT key FROM generations").all() as {
+      key: string;
+    }[];
+    return rows.map((row) => row.key);
+  }
+
+  /**
+   * Rewrite a file's search document from its path, the current tags and
+   * metadata of the file and its asset and its generation record (dropped
+   * if the file is gone)
+   */
+  private refreshSearch(key: string): void {
+    const doc = this.db
+      .query("SELECT id FROM search_docs WHERE key = ?")
+      .get(key) as { id: number } | null;
+    if (doc) {
+      this.db.query("DELETE FROM search WHERE rowid = ?").run(doc.id);
+    }
+
+    const file = this.db
+      .query(
+        `SELECT fm.tags AS file_tags, fm.metadata AS file_metadata,
+           am.tags AS asset_tags, am.metadata AS asset_metadata,
+           g.record AS generation
+         FROM files
+         LEFT JOIN meta fm ON fm.kind = 'file' AND fm.ref = files.key
+         LEFT JOIN meta am ON am.kind = 'asset' AND am.ref = files.asset_id
+         LEFT JOIN generations g ON g.key = files.key
+         WHERE files.key = ?`,
+      )
+      .get(key) as SearchRow | null;
+    if (!file) {
+      this.db.query("DELETE FROM search_docs WHERE key = ?").run(key);
+      return;
+    }
+
+    const id =
+      doc?.id ??
+      Number(
+        this.db.query("INSERT INTO search_docs (key) VALUES (?)").run(key)
+          .lastInsertRowid,
+      );
+    const meta = combineMeta(
+      file.file_tags,
+      file.file_metadata,
+      file.asset_tags,
+      file.asset_metadata,
+    );
+    this.db
+      .query(
+        "INSERT INTO search (rowid, path, tags, metadata) VALUES (?, ?, ?, ?)",
+      )
+      .run(
+        id,
+        key,
+        meta.tags.join(" "),
+        [
+          ...Object.entries(meta.metadata).map(
+            ([name, value]) => `${name} ${value}`,
+          ),
+          file.generation
+            ? generationSearchText(JSON.parse(file.generation))
+            : "",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      );
+  }
+
+  /**
+   * Full-text search over paths, tags and metadata, best matches first
+   * (by path without text). Pages are offsets into the ranking.
+   */
+  search(query: SearchQuery): SearchPage {
+    const offset = query.cursor ? decodeSearchCursor(query.cursor) : 0;
+    const match = query.text ? toMatchExpression(query.text) : null;
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (match) {
+      conditions.push("search MATCH ?");
+      params.push(match);
+    }
+    for (const tag of query.tags ?? []) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM meta m, json_each(m.tags) tag
+           WHERE ((m.kind = 'file' AND m.ref = files.key)
+             OR (m.kind = 'asset' AND m.ref = files.asset_id))
+             AND tag.value = ?)`,
+      );
+      params.push(tag);
+    }
+    for (const [list, op] of [
+      [query.extensions, "IN"],
+      [query.excludeExtensions, "NOT IN"],
+    ] as const) {
+      if (list && list.length > 0) {
+        conditions.push(
+          `lower(files.extension) ${op} (${list.map(() => "?").join(", ")})`,
+        );
+        params.push(...list.map((ext) => ext.toLowerCase()));
+      }
+    }
+
+    const from = match
+      ? `search JOIN search_docs d ON d.id = search.rowid
+         JOIN files ON files.key = d.key`
+      : "files";
+    const where = conditions.length > 0 ? conditions.join(" AND ") : "1";
+    const { total } = this.db
+      .query(`SELECT COUNT(*) AS total FROM ${from} WHERE ${where}`)
+      .get(...params) as { total: number };
+
+    const rows = this.db
+      .query(
+        `SELECT files.*, fm.tags AS file_tags, fm.metadata AS file_metadata,
+           am.tags AS asset_tags, am.metadata AS asset_metadata
+         FROM ${from}
+         LEFT JOIN meta fm ON fm.kind = 'file' AND fm.ref = files.key
+         LEFT JOIN meta am ON am.kind = 'asset' AND am.ref = files.asset_id
+         WHERE ${where}
+         ORDER BY ${match ? "bm25(search), " : ""}files.key
+         LIMIT ? OFFSET ?`,
+      )
+      .all(...params, query.limit, offset) as SearchRow[];
+
+    return {
+      files: rows.map((row) => ({
+        ...toIndexedFile(row),
+        ...combineMeta(
+          row.file_tags,
+          row.file_metadata,
+          row.asset_tags,
+          row.asset_metadata,
+        ),
+      })),
+      total,
+      nextCursor:
+        offset + rows.length < total
+          ? encodeSearchCursor(offset + rows.length)
+          : null,
+    };
+  }
+
+  /**
+   * Make the files under a prefix match a fresh listing of storage
+   */
+  sync(prefix: string, entries: StorageEntry[]): IndexSyncResult {
+    const result: IndexSyncResult = { added: 0, updated: 0, removed: 0 };
+    this.db.transaction(() => {
+      const existing = new Map(
+        this.list(prefix).map((file) => [file.key, file]),
+      );
+      for (const entry of entries) {
+        const current = existing.get(entry.key);
+        existing.delete(entry.key);
+        if (!current) {
+          result.added++;
+        } else if (
+          current.size === entry.size &&
+          current.lastModified === entry.lastModified
+        ) {
+          continue;
+        } else {
+          result.updated++;
+        }
+        this.upsert(entry);
+      }
+      for (const key of existing.keys()) {
+        this.delete(key);
+        result.removed++;
+      }
+    })();
+    return result;
+  }
+
+  /**
+   * Files whose content has not been hashed yet
+   */
+  unhashed(limit: number): IndexedFile[] {
+    const rows = this.db
+      .query("SELECT * FROM files WHERE hash IS NULL ORDER BY key LIMIT ?")
+      .all(limit) as FileRow[];
+    return rows.map(toIndexedFile);
+  }
+
+  /**
+   * Record a file's hash (and audio metadata) if it still has the size and
+   * mtime it was read at
+   */
+  setHash(
+    key: string,
+    hash: string,
+    size: number,
+    modified: number,
+    audio: AudioMetadata | null = null,
+  ): boolean {
+    return (
+      this.db
+        .query(
+          "UPDATE files SET hash = ?, audio = ? WHERE key = ? AND size = ? AND modified = ?",
+        )
+        .run(hash, audio && JSON.stringify(audio), key, size, modified)
+        .changes > 0
+    );
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Open the index database for a storage backend (see INDEX_DB_PATH)
+ * Test runs keep it in memory so they leave nothing in the data directory.
+ */
+export function createFileIndex(
+  dataDir: string,
+  kind: StorageBackend["kind"],
+): FileIndex {
+  const path =
+    INDEX_DB_PATH ||
+    (kind === "local" && process.env.NODE_ENV !== "test"
+      ? join(dataDir, SYSTEM_PREFIX, "index.sqlite")
+      : ":memory:");
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  return new FileIndex(path);
+}
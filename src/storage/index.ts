@@ -0,0 +1,42 @@
+/**
+ * Storage Backend Factory
+ * Selects the storage backend from environment variables:
+ * - STORAGE_BACKEND=local (default): files under DATA_DIR
+ * - STORAGE_BACKEND=s3: S3-compatible bucket (S3_BUCKET, S3_ENDPOINT, ...)
+ * - STORAGE_BACKEND=memory: non-persistent, for tests
+ */
+
+import { LocalStorageBackend } from "./local";
+import { MemoryStorageBackend } from "./memory";
+import { S3StorageBackend } from "./s3";
+import type { StorageBackend } from "./types";
+
+export function createStorageBackend(dataDir: string): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND || "local";
+
+  switch (backend) {
+    case "local":
+      return new LocalStorageBackend(dataDir);
+
+    case "memory":
+      return new MemoryStorageBackend();
+
+    case "s3": {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error("S3_BUCKET must be set when STORAGE_BACKEND=s3");
+      }
+      return new S3StorageBackend({
+        bucket,
+        endpoint: process.env.S3_ENDPOINT,
+        region: process.env.S3_REGION,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        prefix: process.env.S3_PREFIX,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
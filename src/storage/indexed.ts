@@ -0,0 +1,309 @@
+/**
+ * Indexed Storage Backend
+ * Wraps another backend and keeps the file index current: writes, deletes
+ * and renames in the asset directories update it as they happen, listings
+ * there are served from it, and a filesystem watcher plus a periodic
+ * reconcile pick up changes made to the volume out of band. Audio
+ * metadata is read whenever a file's hash is recorded, so listings never
+ * touch the files themselves.
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { mkdir } from "fs/promises";
+import { join } from "path";
+import {
+  AudioParseError,
+  isAudioFile,
+  parseAudio,
+  type AudioMetadata,
+} from "../utils/audio-metadata";
+import { hashBlob, hashContent } from "../utils/content-store";
+import { storageSource } from "../utils/gltf";
+import type { FileIndex, IndexSyncResult } from "./file-index";
+import type {
+  ByteRange,
+  StorageBackend,
+  StorageEntry,
+  StorageStat,
+  StorageWriteData,
+} from "./types";
+
+// Minutes between full reconciles with storage (0 disables them)
+const INDEX_RECONCILE_MINUTES = Number(
+  process.env.INDEX_RECONCILE_MINUTES ?? 15,
+);
+
+// Watcher events are collected for this long before the index is updated
+const WATCH_DEBOUNCE_MS = 250;
+
+export class IndexedStorageBackend implements StorageBackend {
+  readonly kind: StorageBackend["kind"];
+
+  private hashJob: Promise<void> | null = null;
+  private hashAgain = false;
+
+  constructor(
+    private inner: StorageBackend,
+    readonly index: FileIndex,
+    private indexedDirs: readonly string[],
+  ) {
+    this.kind = inner.kind;
+  }
+
+  /**
+   * Whether a key or prefix lies inside an indexed directory
+   */
+  private isIndexed(key: string): boolean {
+    return this.indexedDirs.includes(key.split("/")[0]);
+  }
+
+  stat(key: string): Promise<StorageStat | null> {
+    return this.inner.stat(key);
+  }
+
+  read(key: string): Promise<Uint8Array | null> {
+    return this.inner.read(key);
+  }
+
+  streamRange(key: string, range?: ByteRange): Promise<Blob | null> {
+    return this.inner.streamRange(key, range);
+  }
+
+  async list(prefix: string): Promise<StorageEntry[]> {
+    return this.isIndexed(prefix)
+      ? this.index.list(prefix)
+      : this.inner.list(prefix);
+  }
+
+  async write(key: string, data: StorageWriteData): Promise<void> {
+    await this.inner.write(key, data);
+    if (this.isIndexed(key)) {
+      // Hash in-memory content right away; streams are hashed later
+      const hash =
+        data instanceof Uint8Array ||
+        data instanceof ArrayBuffer ||
+        typeof data === "string"
+          ? hashContent(data)
+          : null;
+      await this.refresh(key, hash);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = await this.inner.delete(key);
+    if (this.isIndexed(key)) {
+      this.index.delete(key);
+    }
+    return deleted;
+  }
+
+  async rename(fromKey: string, toKey: string, hash?: string): Promise<void> {
+    await this.inner.rename(fromKey, toKey);
+    let knownHash = hash ?? null;
+    if (this.isIndexed(fromKey)) {
+      knownHash ??= this.index.get(fromKey)?.hash ?? null;
+      this.index.delete(fromKey);
+    }
+    if (this.isIndexed(toKey)) {
+      await this.refresh(toKey, knownHash);
+    }
+  }
+
+  /**
+   * Re-read a file, or everything under a directory, from storage into
+   * the index (a missing key is removed along with anything below it)
+   */
+  async refresh(key: string, hash: string | null = null): Promise<void> {
+    const stat = await this.inner.stat(key);
+    if (stat) {
+      const audio = hash ? await this.readAudio(key, stat.size) : null;
+      this.index.upsert({ key, ...stat }, hash, audio);
+    } else {
+      this.index.delete(key);
+      this.index.sync(key, await this.inner.list(key));
+    }
+    this.scheduleHashing();
+  }
+
+  /**
+   * Rebuild the index from a full listing of every indexed directory
+   */
+  async reconcile(): Promise<IndexSyncResult> {
+    const started = Date.now();
+    const total: IndexSyncResult = { added: 0, updated: 0, removed: 0 };
+    for (const dir of this.indexedDirs) {
+      const result = this.index.sync(dir, await this.inner.list(dir));
+      total.added += result.added;
+      total.updated += result.updated;
+      total.removed += result.removed;
+    }
+    if (total.added + total.updated + total.removed > 0) {
+      console.log(
+        `[Index] Reconciled: ${total.added} added, ${total.updated} updated, ${total.removed} removed (${Date.now() - started}ms)`,
+      );
+    }
+    this.scheduleHashing();
+    return total;
+  }
+
+  /**
+   * Watch the indexed directories under a local root for changes made
+   * outside the CDN. Events only name paths, so each one is re-read;
+   * anything the watcher misses is caught by the periodic reconcile.
+   */
+  async watch(rootDir: string): Promise<FSWatcher[]> {
+    const pending = new Set<string>();
+    let timer: Timer | null = null;
+
+    const flush = async () => {
+      timer = null;
+      const keys = [...pending];
+      pending.clear();
+      for (const key of keys) {
+        try {
+          await this.refresh(key);
+        } catch (error) {
+          console.error(`[Index] Failed to refresh ${key}:`, error);
+        }
+      }
+    };
+
+    const watchers: FSWatcher[] = [];
+    for (const dir of this.indexedDirs) {
+      await mkdir(join(rootDir, dir), { recursive: true });
+      const watcher = watch(
+        join(rootDir, dir),
+        { recursive: true },
+        (_event, filename) => {
+          if (!filename) {
+            return;
+          }
+          pending.add(`${dir}/${filename.split("\\").join("/")}`);
+          timer ??= setTimeout(flush, WATCH_DEBOUNCE_MS);
+        },
+      );
+      watcher.on("error", (error) =>
+        console.error(`[Index] Watcher error for ${dir}:`, error),
+      );
+      watchers.push(watcher);
+    }
+    return watchers;
+  }
+
+  /**
+   * Hash files the index has no hash for, one at a time in the background
+   */
+  private scheduleHashing(): void {
+    if (this.hashJob) {
+      this.hashAgain = true;
+      return;
+    }
+    this.hashJob = this.hashPending()
+      .catch((error) => console.error("[Index] Hashing failed:", error))
+      .finally(() => {
+        this.hashJob = null;
+        if (this.hashAgain) {
+          this.hashAgain = false;
+          this.scheduleHashing();
+        }
+      });
+  }
+
+  private async hashPending(): Promise<void> {
+    // Files that vanished or failed to read are skipped until the next run
+    const skipped = new Set<string>();
+    while (true) {
+      const batch = this.index
+        .unhashed(skipped.size + 100)
+        .filter((file) => !skipped.has(file.key));
+      if (batch.length === 0) {
+        return;
+      }
+      for (const file of batch) {
+        try {
+          const blob = await this.inner.streamRange(file.key);
+          if (!blob) {
+            skipped.add(file.key);
+            continue;
+          }
+          const hash = await hashBlob(blob);
+          const audio = await this.readAudio(file.key, file.size);
+          if (
+            !this.index.setHash(
+              file.key,
+              hash,
+              file.size,
+              file.lastModified,
+              audio,
+            )
+          ) {
+            // Changed while hashing; the refresh that saw the change
+            // queued another run
+            skipped.add(file.key);
+          }
+        } catch (error) {
+          // A file deleted before it was hashed is dropped by its refresh
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.error(`[Index] Failed to hash ${file.key}:`, error);
+          }
+          skipped.add(file.key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Duration, codec and tags of an audio file from its headers (null for
+   * other files and audio that cannot be parsed)
+   */
+  private async readAudio(
+    key: string,
+    size: number,
+  ): Promise<AudioMetadata | null> {
+    if (!isAudioFile(key)) {
+      return null;
+    }
+    try {
+      return await parseAudio(storageSource(this.inner, key, size));
+    } catch (error) {
+      if (!(error instanceof AudioParseError)) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Resolves once no files are waiting to be hashed
+   */
+  async whenHashed(): Promise<void> {
+    while (this.hashJob) {
+      await this.hashJob;
+    }
+  }
+}
+
+/**
+ * Periodically reconcile the index with storage
+ */
+export function scheduleIndexReconcile(
+  storage: IndexedStorageBackend,
+): Timer | null {
+  if (!(INDEX_RECONCILE_MINUTES > 0)) {
+    return null;
+  }
+  const timer = setInterval(
+    async () => {
+      try {
+        await storage.reconcile();
+      } catch (error) {
+        console.error("[Index] Scheduled reconcile failed:", error);
+      }
+    },
+    INDEX_RECONCILE_MINUTES * 60 * 1000,
+  );
+
+  // Don't keep the process alive just for reconciling
+  timer.unref();
+  return timer;
+}
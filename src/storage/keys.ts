@@ -0,0 +1,14 @@
+/**
+ * Storage Key Helpers
+ * CDN-internal data (content blobs, history, caches) lives under a hidden
+ * prefix next to the asset directories and is never served directly
+ */
+
+export const SYSTEM_PREFIX = ".cdn";
+
+/**
+ * Build a key under the system prefix, e.g. systemKey("blobs", "ab", hash)
+ */
+export function systemKey(...parts: string[]): string {
+  return [SYSTEM_PREFIX, ...parts].join("/");
+}
@@ -0,0 +1,139 @@
+/**
+ * Local Filesystem Storage Backend
+ * Stores files under a root directory (Railway volume or DATA_DIR)
+ */
+
+import { join, dirname, relative, sep } from "path";
+import { mkdir, readdir, rename, stat, unlink } from "fs/promises";
+import { assertWithinRoot } from "../utils/safe-path";
+import type {
+  ByteRange,
+  StorageBackend,
+  StorageEntry,
+  StorageStat,
+  StorageWriteData,
+} from "./types";
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly kind = "local" as const;
+
+  constructor(readonly rootDir: string) {}
+
+  /**
+   * Map a key to a filesystem path, refusing symlinks that lead outside
+   * the root directory
+   */
+  private async resolve(key: string): Promise<string> {
+    const filePath = join(this.rootDir, key);
+    await assertWithinRoot(this.rootDir, filePath);
+    return filePath;
+  }
+
+  async stat(key: string): Promise<StorageStat | null> {
+    const filePath = await this.resolve(key);
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        return null;
+      }
+      return {
+        size: stats.size,
+        lastModified: Math.floor(stats.mtimeMs),
+        type: Bun.file(filePath).type,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async read(key: string): Promise<Uint8Array | null> {
+    if (!(await this.stat(key))) {
+      return null;
+    }
+    const file = Bun.file(await this.resolve(key));
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  async streamRange(key: string, range?: ByteRange): Promise<Blob | null> {
+    if (!(await this.stat(key))) {
+      return null;
+    }
+    const file = Bun.file(await this.resolve(key));
+    return range ? file.slice(range.start, range.end + 1) : file;
+  }
+
+  async list(prefix: string): Promise<StorageEntry[]> {
+    const dirPath = await this.resolve(prefix);
+    const entries: StorageEntry[] = [];
+
+    let names: string[];
+    try {
+      names = await readdir(dirPath, { recursive: true });
+    } catch {
+      // Missing directory lists as empty
+      return entries;
+    }
+
+    for (const name of names) {
+      const filePath = join(dirPath, name);
+      try {
+        await assertWithinRoot(this.rootDir, filePath);
+        const stats = await stat(filePath);
+        if (!stats.isFile()) {
+          continue;
+        }
+        entries.push({
+          key: relative(this.rootDir, filePath).split(sep).join("/"),
+          size: stats.size,
+          lastModified: Math.floor(stats.mtimeMs),
+          type: Bun.file(filePath).type,
+        });
+      } catch (err) {
+        console.error(`[Storage] Error reading ${filePath}:`, err);
+      }
+    }
+
+    return entries;
+  }
+
+  async write(key: string, data: StorageWriteData): Promise<void> {
+    const filePath = await this.resolve(key);
+
+    if (data instanceof ReadableStream) {
+      // Pipe chunks through a FileSink without buffering the whole file
+      await mkdir(dirname(filePath), { recursive: true });
+      const writer = Bun.file(filePath).writer();
+      try {
+        for await (const chunk of data) {
+          writer.write(chunk);
+          await writer.flush();
+        }
+      } finally {
+        await writer.end();
+      }
+      return;
+    }
+
+    // Bun.write creates missing parent directories
+    await Bun.write(filePath, data);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await unlink(await this.resolve(key));
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async rename(fromKey: string, toKey: string): Promise<void> {
+    const fromPath = await this.resolve(fromKey);
+    const toPath = await this.resolve(toKey);
+    await mkdir(dirname(toPath), { recursive: true });
+    await rename(fromPath, toPath);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * In-Memory Storage Backend
+ * Non-persistent backend for tests and local experiments
+ */
+
+import type {
+  ByteRange,
+  StorageBackend,
+  StorageEntry,
+  StorageStat,
+  StorageWriteData,
+} from "./types";
+
+interface MemoryFile {
+  data: Uint8Array;
+  lastModified: number;
+  type: string;
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = "memory" as const;
+
+  private files = new Map<string, MemoryFile>();
+
+  async stat(key: string): Promise<StorageStat | null> {
+    const file = this.files.get(key);
+    if (!file) {
+      return null;
+    }
+    return {
+      size: file.data.byteLength,
+      lastModified: file.lastModified,
+      type: file.type,
+    };
+  }
+
+  async read(key: string): Promise<Uint8Array | null> {
+    const file = this.files.get(key);
+    return file ? file.data.slice() : null;
+  }
+
+  async streamRange(key: string, range?: ByteRange): Promise<Blob | null> {
+    const file = this.files.get(key);
+    if (!file) {
+      return null;
+    }
+    const data = range
+      ? file.data.subarray(range.start, range.end + 1)
+      : file.data;
+    return new Blob([data], { type: file.type });
+  }
+
+  async list(prefix: string): Promise<StorageEntry[]> {
+    const dirPrefix = prefix.endsWith("/") || !prefix ? prefix : `${prefix}/`;
+    const entries: StorageEntry[] = [];
+
+    for (const [key, file] of this.files.entries()) {
+      if (key.startsWith(dirPrefix)) {
+        entries.push({
+          key,
+          size: file.data.byteLength,
+          lastModified: file.lastModified,
+          type: file.type,
+        });
+      }
+    }
+
+    return entries;
+  }
+
+  async write(key: string, data: StorageWriteData): Promise<void> {
+    const bytes =
+      data instanceof ReadableStream || data instanceof Blob
+        ? new Uint8Array(await new Response(data).arrayBuffer())
+        : typeof data === "string"
+          ? new TextEncoder().encode(data)
+          : new Uint8Array(data);
+
+    this.files.set(key, {
+      data: bytes.slice(),
+      lastModified: Date.now(),
+      // Bun infers the MIME type from the extension without touching disk
+      type: Bun.file(key).type,
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.files.delete(key);
+  }
+
+  async rename(fromKey: string, toKey: string): Promise<void> {
+    const file = this.files.get(fromKey);
+    if (!file) {
+      throw new Error(`File not found: ${fromKey}`);
+    }
+    this.files.delete(fromKey);
+    this.files.set(toKey, { ...file, type: Bun.file(toKey).type });
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * S3-Compatible Storage Backend
+ * Uses Bun's native S3 client; works with AWS S3, Cloudflare R2 and MinIO
+ */
+
+import { S3Client } from "bun";
+import type {
+  ByteRange,
+  StorageBackend,
+  StorageEntry,
+  StorageStat,
+  StorageWriteData,
+} from "./types";
+
+export interface S3StorageConfig {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /**
+   * Optional key prefix so several environments can share a bucket
+   */
+  prefix?: string;
+}
+
+export class S3StorageBackend implements StorageBackend {
+  readonly kind = "s3" as const;
+
+  private client: S3Client;
+  private prefix: string;
+
+  constructor(config: S3StorageConfig) {
+    this.client = new S3Client({
+      bucket: config.bucket,
+      endpoint: config.endpoint,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+    this.prefix = config.prefix ? config.prefix.replace(/\/+$/, "") + "/" : "";
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix + key;
+  }
+
+  async stat(key: string): Promise<StorageStat | null> {
+    const file = this.client.file(this.objectKey(key));
+    if (!(await file.exists())) {
+      return null;
+    }
+    const stats = await file.stat();
+    return {
+      size: stats.size,
+      lastModified: stats.lastModified.getTime(),
+      type: Bun.file(key).type,
+    };
+  }
+
+  async read(key: string): Promise<Uint8Array | null> {
+    const file = this.client.file(this.objectKey(key));
+    if (!(await file.exists())) {
+      return null;
+    }
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  async streamRange(key: string, range?: ByteRange): Promise<Blob | null> {
+    const file = this.client.file(this.objectKey(key), {
+      type: Bun.file(key).type,
+    });
+    if (!(await file.exists())) {
+      return null;
+    }
+    return range ? file.slice(range.start, range.end + 1) : file;
+  }
+
+  async list(prefix: string): Promise<StorageEntry[]> {
+    const dirPrefix = prefix.endsWith("/") || !prefix ? prefix : `${prefix}/`;
+    const entries: StorageEntry[] = [];
+    let continuationToken: string | undefined;
+
+    // S3 returns at most 1000 keys per page
+    do {
+      const page = await this.client.list({
+        prefix: this.objectKey(dirPrefix),
+        continuationToken,
+      });
+
+      for (const object of page.contents ?? []) {
+        const key = object.key.slice(this.prefix.length);
+        entries.push({
+          key,
+          size: object.size ?? 0,
+          lastModified: object.lastModified
+            ? new Date(object.lastModified).getTime()
+            : 0,
+          type: Bun.file(key).type,
+        });
+      }
+
+      continuationToken = page.isTruncated
+        ? page.nextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return entries;
+  }
+
+  async write(key: string, data: StorageWriteData): Promise<void> {
+    if (data instanceof ReadableStream) {
+      // Multipart upload, one part at a time
+      const writer = this.client
+        .file(this.objectKey(key), { type: Bun.file(key).type })
+        .writer();
+      for await (const chunk of data) {
+        writer.write(chunk);
+      }
+      await writer.end();
+      return;
+    }
+
+    await this.client.write(this.objectKey(key), data, {
+      type: Bun.file(key).type,
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const file = this.client.file(this.objectKey(key));
+    if (!(await file.exists())) {
+      return false;
+    }
+    await file.delete();
+    return true;
+  }
+
+  async rename(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename - copy then delete the source
+    const source = this.client.file(this.objectKey(fromKey));
+    await this.client.write(this.objectKey(toKey), source, {
+      type: Bun.file(toKey).type,
+    });
+    await source.delete();
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Storage Backend Types
+ * Abstraction over where asset bytes live (local volume, memory, S3)
+ * All keys are forward-slash paths relative to the storage root, e.g. "models/sword/sword.glb"
+ */
+
+export interface StorageStat {
+  size: number;
+  /**
+   * Last modification time in milliseconds since epoch
+   */
+  lastModified: number;
+  /**
+   * MIME type inferred from the key's extension (may be empty)
+   */
+  type: string;
+}
+
+export interface StorageEntry extends StorageStat {
+  key: string;
+}
+
+/**
+ * Inclusive byte range, matching RangeResult from range-handler
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Data accepted by write(); ReadableStreams are piped to storage chunk by
+ * chunk so large files are never buffered in memory
+ */
+export type StorageWriteData =
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | string
+  | ReadableStream<Uint8Array>;
+
+export interface StorageBackend {
+  /**
+   * Backend identifier for logging and diagnostics
+   */
+  readonly kind: "local" | "memory" | "s3";
+
+  /**
+   * Get size, mtime and type of a file (null if missing or not a file)
+   */
+  stat(key: string): Promise<StorageStat | null>;
+
+  /**
+   * Read the whole file into memory (null if missing)
+   */
+  read(key: string): Promise<Uint8Array | null>;
+
+  /**
+   * Get a lazily-read Blob for the file or a byte range of it (null if missing)
+   * The returned Blob can be passed straight to a Response body
+   */
+  streamRange(key: string, range?: ByteRange): Promise<Blob | null>;
+
+  /**
+   * Recursively list all files under a prefix
+   */
+  list(prefix: string): Promise<StorageEntry[]>;
+
+  /**
+   * Write a file, creating parent directories as needed
+   */
+  write(key: string, data: StorageWriteData): Promise<void>;
+
+  /**
+   * Delete a file (returns false if it did not exist)
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Move a file to a new key, overwriting the destination
+   * `hash` is the content hash when the caller already knows it (staged
+   * uploads), so an index does not have to read the file again.
+   */
+  rename(fromKey: string, toKey: string, hash?: string): Promise<void>;
+}
@@ -12,6 +12,126 @@ export const HealthResponse = t.Object({
   cdn: t.Optional(t.String()),
 });
 
+// Audio metadata parsed from MP3/Ogg/WAV headers
+export const AudioMetadata = t.Object({
+  container: t.Union([t.Literal("mp3"), t.Literal("ogg"), t.Literal("wav")]),
+  codec: t.String(),
+  duration: t.Number(),
+  sampleRate: t.Number(),
+  channels: t.Number(),
+  bitrate: t.Number(),
+  vbr: t.Optional(t.Boolean()),
+  bitsPerSample: t.Optional(t.Number()),
+  tags: t.Record(t.String(), t.String()),
+});
+
+// Music playlists
+export const PlaylistTrack = t.Object({
+  position: t.Number(),
+  path: t.String(),
+  name: t.String(),
+  url: t.String(),
+  duration: t.Nullable(t.Number()),
+  codec: t.Nullable(t.String()),
+  weight: t.Number(),
+});
+
+export const Playlist = t.Object({
+  mood: t.String(),
+  version: t.String(),
+  seed: t.Nullable(t.String()),
+  trackCount: t.Number(),
+  duration: t.Number(),
+  tracks: t.Array(PlaylistTrack),
+});
+
+export const PlaylistListResponse = t.Object({
+  success: t.Boolean(),
+  playlists: t.Array(Playlist),
+  error: t.Optional(t.String()),
+});
+
+export const PlaylistResponse = t.Object({
+  success: t.Boolean(),
+  playlist: t.Optional(Playlist),
+  error: t.Optional(t.String()),
+});
+
+export const PlaylistWeightsRequestBody = t.Object({
+  weights: t.Record(t.String(), t.Nullable(t.Number({ minimum: 0 }))),
+});
+
+// Audio sprites
+export const SpriteFormat = t.Union([
+  t.Literal("mp3"),
+  t.Literal("ogg"),
+  t.Literal("wav"),
+]);
+
+export const SpriteInfo = t.Object({
+  name: t.String(),
+  paths: t.Optional(t.Array(t.String())),
+  folder: t.Optional(t.String()),
+  gap: t.Number(),
+  formats: t.Array(SpriteFormat),
+  createdAt: t.String(),
+  createdBy: t.Nullable(t.String()),
+  stale: t.Boolean(),
+  urls: t.Record(t.String(), t.String()),
+  build: t.Optional(
+    t.Object({
+      fingerprint: t.String(),
+      builtAt: t.String(),
+      sampleRate: t.Number(),
+      duration: t.Number(),
+      files: t.Record(t.String(), t.String()),
+      sprite: t.Record(t.String(), t.Tuple([t.Number(), t.Number()])),
+      members: t.Array(t.Object({ path: t.String(), name: t.String() })),
+    })
+  ),
+});
+
+export const SpriteListResponse = t.Object({
+  success: t.Boolean(),
+  sprites: t.Array(SpriteInfo),
+  error: t.Optional(t.String()),
+});
+
+export const SpriteResponse = t.Object({
+  success: t.Boolean(),
+  sprite: t.Optional(SpriteInfo),
+  error: t.Optional(t.String()),
+});
+
+export const SpriteCreateRequestBody = t.Object({
+  name: t.String(),
+  paths: t.Optional(t.Array(t.String(), { minItems: 1 })),
+  folder: t.Optional(t.String()),
+  gap: t.Optional(t.Number({ minimum: 0 })),
+  formats: t.Optional(t.Array(SpriteFormat, { minItems: 1 })),
+});
+
+// Custom key/value metadata on files and assets
+export const MetadataObject = t.Record(
+  t.String(),
+  t.Union([t.String(), t.Number(), t.Boolean()])
+);
+
+// How a generated file was made (stored per file at upload)
+export const GenerationRecord = t.Object({
+  path: t.String(),
+  prompt: t.Optional(t.String()),
+  negativePrompt: t.Optional(t.String()),
+  model: t.Optional(t.String()),
+  provider: t.Optional(t.String()),
+  voiceId: t.Optional(t.String()),
+  sourceAsset: t.Optional(t.String()),
+  seed: t.Optional(t.Number()),
+  parameters: t.Optional(MetadataObject),
+  recordedAt: t.String(),
+  recordedBy: t.Nullable(t.String()),
+});
+
 // File Metadata
 export const FileMetadata = t.Object({
   path: t.String(),
@@ -19,21 +139,222 @@ export const FileMetadata = t.Object({
   size: t.Number(),
   modified: t.String(),
   type: t.String(),
+  hash: t.Optional(t.Nullable(t.String())),
+  assetId: t.Optional(t.Nullable(t.String())),
+  audio: t.Optional(AudioMetadata),
+  tags: t.Optional(t.Array(t.String())),
+  metadata: t.Optional(MetadataObject),
+  generationRun: t.Optional(t.Nullable(t.String())),
+  generation: t.Optional(GenerationRecord),
+});
+
+// File listing filters, sorting and cursor pagination
+export const FileListQuery = t.Object({
+  prefix: t.Optional(t.String()),
+  ext: t.Optional(t.String()),
+  minSize: t.Optional(t.Numeric({ minimum: 0 })),
+  maxSize: t.Optional(t.Numeric({ minimum: 0 })),
+  modifiedSince: t.Optional(t.String()),
+  name: t.Optional(t.String()),
+  sort: t.Optional(
+    t.Union([
+      t.Literal("name"),
+      t.Literal("path"),
+      t.Literal("size"),
+      t.Literal("modified"),
+    ])
+  ),
+  order: t.Optional(t.Union([t.Literal("asc"), t.Literal("desc")])),
+  limit: t.Optional(t.Numeric({ minimum: 1 })),
+  cursor: t.Optional(t.String()),
 });
 
 // Assets List Response
 export const AssetsListResponse = t.Object({
   files: t.Array(FileMetadata),
+  total: t.Number(),
+  nextCursor: t.Nullable(t.String()),
+  error: t.Optional(t.String()),
 });
 
-// Upload Request Body
-export const UploadRequestBody = t.Object({
-  files: t.Files({
-    maxSize: "100m",
-    // No type validation - API key authentication provides security
-    // Elysia's file type validation can be overly strict and inconsistent
-  }),
-  directory: t.Optional(t.String()),
+// Asset listing: the file listing parameters plus type, which lists
+// assets (files grouped by asset ID) instead of files
+export const AssetsListQuery = t.Object({
+  ...FileListQuery.properties,
+  type: t.Optional(
+    t.Union([
+      t.Literal("all"),
+      t.Literal("model"),
+      t.Literal("audio"),
+      t.Literal("image"),
+      t.Literal("data"),
+    ])
+  ),
+});
+
+export const AssetInfo = t.Object({
+  id: t.String(),
+  type: t.String(),
+  fileCount: t.Number(),
+  totalSize: t.Number(),
+  lastModified: t.String(),
+});
+
+export const AssetGroupListResponse = t.Object({
+  assets: t.Array(AssetInfo),
+  total: t.Number(),
+  nextCursor: t.Nullable(t.String()),
+  error: t.Optional(t.String()),
+});
+
+export const AssetFile = t.Object({
+  ...FileMetadata.properties,
+  role: t.Union([
+    t.Literal("model"),
+    t.Literal("texture"),
+    t.Literal("thumbnail"),
+    t.Literal("metadata"),
+    t.Literal("audio"),
+    t.Literal("other"),
+  ]),
+});
+
+export const AssetResponse = t.Object({
+  success: t.Boolean(),
+  asset: t.Optional(
+    t.Object({
+      ...AssetInfo.properties,
+      thumbnail: t.Nullable(t.String()),
+      tags: t.Array(t.String()),
+      metadata: MetadataObject,
+      files: t.Array(AssetFile),
+    })
+  ),
+  error: t.Optional(t.String()),
+});
+
+// Tags and metadata update (PATCH /api/files/:path/meta and
+// /api/assets/:directory/:name/meta)
+export const MetaUpdateRequestBody = t.Object({
+  tags: t.Optional(t.Array(t.String())),
+  addTags: t.Optional(t.Array(t.String())),
+  removeTags: t.Optional(t.Array(t.String())),
+  metadata: t.Optional(
+    t.Record(
+      t.String(),
+      t.Union([t.String(), t.Number(), t.Boolean(), t.Null()])
+    )
+  ),
+});
+
+export const MetaResponse = t.Object({
+  success: t.Boolean(),
+  meta: t.Optional(
+    t.Object({
+      kind: t.Union([t.Literal("file"), t.Literal("asset")]),
+      ref: t.String(),
+      tags: t.Array(t.String()),
+      metadata: MetadataObject,
+      updatedAt: t.Nullable(t.String()),
+      updatedBy: t.Nullable(t.String()),
+    })
+  ),
+  error: t.Optional(t.String()),
+});
+
+// Search
+export const SearchQuery = t.Object({
+  q: t.Optional(t.String()),
+  tag: t.Optional(t.String()),
+  type: t.Optional(
+    t.Union([
+      t.Literal("model"),
+      t.Literal("audio"),
+      t.Literal("image"),
+      t.Literal("data"),
+    ])
+  ),
+  limit: t.Optional(t.Numeric({ minimum: 1 })),
+  cursor: t.Optional(t.String()),
+});
+
+// Generation metadata and runs
+export const GenerationResponse = t.Object({
+  success: t.Boolean(),
+  generation: t.Optional(GenerationRecord),
+  error: t.Optional(t.String()),
+});
+
+export const GenerationRunResponse = t.Object({
+  success: t.Boolean(),
+  runId: t.Optional(t.String()),
+  files: t.Optional(t.Array(FileMetadata)),
+  error: t.Optional(t.String()),
+});
+
+// glTF validation issue and report
+export const ValidationIssue = t.Object({
+  severity: t.Union([t.Literal("error"), t.Literal("warning")]),
+  code: t.String(),
+  message: t.String(),
+  pointer: t.Optional(t.String()),
+});
+
+export const ValidationReport = t.Object({
+  valid: t.Boolean(),
+  mode: t.Union([t.Literal("reject"), t.Literal("warn")]),
+  hash: t.String(),
+  validatedAt: t.String(),
+  errors: t.Array(ValidationIssue),
+  warnings: t.Array(ValidationIssue),
+});
+
+export const ValidationResponse = t.Object({
+  success: t.Boolean(),
+  path: t.String(),
+  validation: t.Optional(ValidationReport),
+  error: t.Optional(t.String()),
+});
+
+// Derived GLB variants (optimisation pipeline)
+export const VariantInfo = t.Object({
+  status: t.Union([
+    t.Literal("pending"),
+    t.Literal("ready"),
+    t.Literal("failed"),
+  ]),
+  size: t.Optional(t.Number()),
+  triangles: t.Optional(t.Number()),
+  ratio: t.Optional(t.Number()),
+  createdAt: t.Optional(t.String()),
+  error: t.Optional(t.String()),
+});
+
+export const VariantsResponse = t.Object({
+  success: t.Boolean(),
+  path: t.String(),
+  hash: t.Optional(t.String()),
+  current: t.Optional(t.Boolean()),
+  variants: t.Optional(t.Record(t.String(), VariantInfo)),
+  error: t.Optional(t.String()),
+});
+
+export const VariantsRequestBody = t.Object({
+  variants: t.Optional(t.Array(t.String())),
+});
+
+// Per-file upload policy violation
+export const UploadViolation = t.Object({
+  name: t.String(),
+  code: t.Union([
+    t.Literal("FILE_TOO_LARGE"),
+    t.Literal("UNKNOWN_FILE_TYPE"),
+    t.Literal("EXTENSION_MISMATCH"),
+    t.Literal("FILE_TYPE_NOT_ALLOWED"),
+    t.Literal("VALIDATION_FAILED"),
+  ]),
+  message: t.String(),
+  validation: t.Optional(ValidationReport),
 });
 
 // Upload Response
@@ -45,9 +366,43 @@ export const UploadResponse = t.Object({
         name: t.String(),
         size: t.Number(),
         path: t.String(),
+        hash: t.String(),
+        versionedPath: t.String(),
+        validation: t.Optional(ValidationReport),
+        variants: t.Optional(t.Array(t.String())),
       })
     )
   ),
+  rejected: t.Optional(t.Array(UploadViolation)),
+  error: t.Optional(t.String()),
+});
+
+// File Revision (version history entry)
+export const FileRevision = t.Object({
+  version: t.Number(),
+  hash: t.String(),
+  size: t.Number(),
+  createdAt: t.String(),
+  uploadedBy: t.Nullable(t.String()),
+  action: t.Union([
+    t.Literal("initial"),
+    t.Literal("upload"),
+    t.Literal("rename"),
+    t.Literal("rollback"),
+  ]),
+  source: t.Optional(t.String()),
+});
+
+export const FileVersionsResponse = t.Object({
+  success: t.Boolean(),
+  path: t.String(),
+  versions: t.Array(FileRevision),
+  error: t.Optional(t.String()),
+});
+
+export const RollbackResponse = t.Object({
+  success: t.Boolean(),
+  revision: t.Optional(FileRevision),
   error: t.Optional(t.String()),
 });
 
@@ -78,6 +433,7 @@ export const DirectoryStatsResponse = t.Object({
 // Delete Response
 export const DeleteResponse = t.Object({
   success: t.Boolean(),
+  trashId: t.Optional(t.String()),
   error: t.Optional(t.String()),
 });
 
@@ -105,6 +461,80 @@ export const BulkDeleteResponse = t.Object({
   error: t.Optional(t.String()),
 });
 
+// Trash Entry & Requests
+export const TrashEntry = t.Object({
+  id: t.String(),
+  originalPath: t.String(),
+  size: t.Number(),
+  deletedAt: t.String(),
+  deletedBy: t.Nullable(t.String()),
+  expiresAt: t.String(),
+});
+
+export const TrashListResponse = t.Object({
+  success: t.Boolean(),
+  retentionDays: t.Number(),
+  entries: t.Array(TrashEntry),
+});
+
+export const TrashRestoreRequestBody = t.Object({
+  ids: t.Array(t.String()),
+});
+
+export const TrashRestoreResponse = t.Object({
+  success: t.Boolean(),
+  restored: t.Number(),
+  failed: t.Number(),
+  conflicts: t.Array(t.String()),
+  error: t.Optional(t.String()),
+});
+
+export const TrashPurgeRequestBody = t.Object({
+  ids: t.Optional(t.Array(t.String())),
+  all: t.Optional(t.Boolean()),
+});
+
+export const TrashPurgeResponse = t.Object({
+  success: t.Boolean(),
+  purged: t.Number(),
+  error: t.Optional(t.String()),
+});
+
+// Backups
+export const BackupInfo = t.Object({
+  id: t.String(),
+  createdAt: t.String(),
+  trigger: t.Union([t.Literal("manual"), t.Literal("scheduled")]),
+  directories: t.Array(t.String()),
+  fileCount: t.Number(),
+  totalSize: t.Number(),
+  storedSize: t.Number(),
+});
+
+export const BackupListResponse = t.Object({
+  success: t.Boolean(),
+  backups: t.Array(BackupInfo),
+});
+
+export const BackupCreateResponse = t.Object({
+  success: t.Boolean(),
+  backup: t.Optional(BackupInfo),
+  removed: t.Optional(t.Array(t.String())),
+  error: t.Optional(t.String()),
+});
+
+export const BackupRestoreRequestBody = t.Object({
+  prune: t.Optional(t.Boolean()),
+});
+
+export const BackupRestoreResponse = t.Object({
+  success: t.Boolean(),
+  restored: t.Number(),
+  unchanged: t.Number(),
+  pruned: t.Number(),
+  error: t.Optional(t.String()),
+});
+
 // Bulk Download Request
 export const BulkDownloadRequestBody = t.Object({
   filePaths: t.Array(t.String()),
@@ -128,9 +558,20 @@ export const DirectoriesConfig = t.Object({
   backups: t.String(),
 });
 
+export const UploadPolicyConfig = t.Object({
+  allowedFileTypes: t.Array(t.String()),
+  maxFileSize: t.Number(), // MB
+  validation: t.Union([
+    t.Literal("reject"),
+    t.Literal("warn"),
+    t.Literal("off"),
+  ]),
+});
+
 export const SecurityConfig = t.Object({
   maxFileSize: t.Number(),
   allowedFileTypes: t.Array(t.String()),
+  uploadPolicies: t.Record(t.String(), UploadPolicyConfig),
   enableAuth: t.Boolean(),
 });
 
@@ -138,6 +579,10 @@ export const FeaturesConfig = t.Object({
   enableValidation: t.Boolean(),
   enableBackups: t.Boolean(),
   autoBackupInterval: t.Number(),
+  backupRetention: t.Object({
+    daily: t.Number(),
+    weekly: t.Number(),
+  }),
 });
 
 export const UIConfig = t.Object({
@@ -0,0 +1,25 @@
+/**
+ * Asset Change Hooks
+ * Work that follows any change to asset files (uploads, deletes, renames,
+ * restores and rollbacks): playlist events and audio sprite rebuilds
+ */
+
+import type { StorageBackend } from "../storage/types";
+import type { EventPublisher } from "./asset-events";
+import { rebuildSpritesFor } from "./audio-sprites";
+import { publishPlaylistEvents } from "./playlists";
+
+/**
+ * Run change hooks for the given storage keys (events need a server)
+ * Failures are logged, never thrown, so callers can fire and forget.
+ */
+export async function handleAssetChanges(
+  server: EventPublisher | null | undefined,
+  storage: StorageBackend,
+  keys: string[],
+): Promise<void> {
+  await Promise.all([
+    server ? publishPlaylistEvents(server, storage, keys) : undefined,
+    rebuildSpritesFor(storage, keys),
+  ]);
+}
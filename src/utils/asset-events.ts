@@ -0,0 +1,91 @@
+/**
+ * Asset Event Broadcasting
+ * Publishes asset change events to the "cdn-uploads" WebSocket topic
+ * so connected game/API servers can reload affected assets
+ */
+
+import { extractAssetId } from "./webhook";
+
+/**
+ * Minimal view of the Bun server used for pub/sub
+ */
+export interface EventPublisher {
+  publish(topic: string, data: string): unknown;
+}
+
+export interface PublishedFile {
+  name: string;
+  size: number;
+  path: string;
+  hash: string;
+  versionedPath: string;
+}
+
+/**
+ * Resolve the public base URL used in event payloads
+ */
+export function getCdnBaseUrl(): string {
+  if (process.env.CDN_URL) {
+    return process.env.CDN_URL;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("CDN_URL must be set in production environment");
+  }
+  return `http://0.0.0.0:${process.env.PORT || 3005}`;
+}
+
+/**
+ * Broadcast one "asset-upload" event per asset ID for the given files
+ */
+export function publishAssetUploadEvents(
+  server: EventPublisher,
+  directory: string,
+  files: PublishedFile[],
+  uploadedBy: string | null,
+): void {
+  // Group files by asset ID
+  const assetGroups = new Map<string, PublishedFile[]>();
+
+  for (const file of files) {
+    const assetId = extractAssetId(file.path);
+    if (!assetId) {
+      console.warn(
+        `[WebSocket] Could not extract asset ID from path: ${file.path}`,
+      );
+      continue;
+    }
+
+    if (!assetGroups.has(assetId)) {
+      assetGroups.set(assetId, []);
+    }
+    assetGroups.get(assetId)!.push(file);
+  }
+
+  // Broadcast event for each asset group
+  const cdnBaseUrl = getCdnBaseUrl();
+
+  for (const [assetId, groupFiles] of assetGroups.entries()) {
+    const event = {
+      type: "asset-upload",
+      assetId,
+      directory,
+      files: groupFiles.map((file) => ({
+        name: file.name,
+        size: file.size,
+        relativePath: file.path,
+        cdnUrl: `${cdnBaseUrl}/${file.path}`,
+        hash: file.hash,
+        versionedCdnUrl: `${cdnBaseUrl}/${file.versionedPath}`,
+      })),
+      uploadedAt: new Date().toISOString(),
+      uploadedBy,
+    };
+
+    console.log(
+      `[WebSocket] Broadcasting upload event for asset ${assetId} (${groupFiles.length} files)`,
+    );
+
+    // Publish to cdn-uploads topic - all connected API servers will receive this
+    server.publish("cdn-uploads", JSON.stringify(event));
+  }
+}
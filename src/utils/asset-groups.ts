@@ -0,0 +1,259 @@
+/**
+ * Asset Grouping
+ * Files sharing an asset ID (a folder directly under an asset directory,
+ * e.g. models/sword, see extractScopedAssetId) form one logical asset: a
+ * model with its textures, metadata JSON and preview images. Built on the
+ * file index.
+ */
+
+import { basename, extname } from "path";
+import {
+  InvalidCursorError,
+  type AssetQuery,
+  type AssetSummary,
+  type FileIndex,
+  type FileMeta,
+} from "../storage/file-index";
+import type { StorageBackend } from "../storage/types";
+import { AUDIO_EXTENSIONS } from "./audio-metadata";
+import { indexedFileInfo, type FileInfo } from "./file-helpers";
+import { PREVIEW_SUFFIXES } from "./thumbnails";
+import { moveToTrash } from "./trash";
+
+export const ASSET_TYPES = ["model", "audio", "image", "data"] as const;
+
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+export type AssetFileRole =
+  "model" | "texture" | "thumbnail" | "metadata" | "audio" | "other";
+
+const MODEL_EXTENSIONS = [".glb", ".gltf", ".bin", ".vrm"];
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp", ".ktx2"];
+
+// Image names used as an asset's preview besides <name>.preview.png sidecars
+const THUMBNAIL_NAMES = ["thumbnail", "thumb", "preview", "icon"];
+
+export interface AssetFile extends FileInfo {
+  role: AssetFileRole;
+}
+
+export interface AssetInfo {
+  id: string;
+  type: AssetType;
+  fileCount: number;
+  totalSize: number;
+  /**
+   * ISO time of the most recent change to any of the asset's files
+   */
+  lastModified: string;
+}
+
+export interface AssetDetail extends AssetInfo, FileMeta {
+  /**
+   * Path of the asset's preview image, if it has one
+   */
+  thumbnail: string | null;
+  files: AssetFile[];
+}
+
+/**
+ * What a file is for within its asset, from its name and extension
+ */
+export function getAssetFileRole(path: string): AssetFileRole {
+  const name = basename(path).toLowerCase();
+  const ext = extname(name);
+  if (MODEL_EXTENSIONS.includes(ext)) {
+    return "model";
+  }
+  if (IMAGE_EXTENSIONS.includes(ext)) {
+    const isPreview =
+      PREVIEW_SUFFIXES.some((suffix) => name.endsWith(suffix)) ||
+      THUMBNAIL_NAMES.includes(name.slice(0, -ext.length));
+    return isPreview ? "thumbnail" : "texture";
+  }
+  if (ext === ".json") {
+    return "metadata";
+  }
+  if (AUDIO_EXTENSIONS.includes(ext)) {
+    return "audio";
+  }
+  return "other";
+}
+
+/**
+ * An asset's type from the extensions of its files: anything with a model
+ * is a model, then audio, then images; the rest is data
+ */
+export function getAssetType(extensions: string[]): AssetType {
+  if (extensions.some((ext) => MODEL_EXTENSIONS.includes(ext))) {
+    return "model";
+  }
+  if (extensions.some((ext) => AUDIO_EXTENSIONS.includes(ext))) {
+    return "audio";
+  }
+  if (extensions.some((ext) => IMAGE_EXTENSIONS.includes(ext))) {
+    return "image";
+  }
+  return "data";
+}
+
+/**
+ * Extension filter for files of one type (data is everything that is not
+ * a model, audio or image)
+ */
+export function getTypeExtensions(type: AssetType): {
+  extensions?: string[];
+  excludeExtensions?: string[];
+} {
+  switch (type) {
+    case "model":
+      return { extensions: MODEL_EXTENSIONS };
+    case "audio":
+      return { extensions: AUDIO_EXTENSIONS };
+    case "image":
+      return { extensions: IMAGE_EXTENSIONS };
+    case "data":
+      return {
+        excludeExtensions: [
+          ...MODEL_EXTENSIONS,
+          ...AUDIO_EXTENSIONS,
+          ...IMAGE_EXTENSIONS,
+        ],
+      };
+  }
+}
+
+/**
+ * Extension filter for assets of one type, following the precedence of
+ * getAssetType (an audio asset has audio but no model, and so on)
+ */
+function getAssetTypeQuery(
+  type: AssetType,
+): Pick<AssetQuery, "extensions" | "excludeExtensions"> {
+  switch (type) {
+    case "model":
+      return { extensions: MODEL_EXTENSIONS };
+    case "audio":
+      return {
+        extensions: AUDIO_EXTENSIONS,
+        excludeExtensions: MODEL_EXTENSIONS,
+      };
+    case "image":
+      return {
+        extensions: IMAGE_EXTENSIONS,
+        excludeExtensions: [...MODEL_EXTENSIONS, ...AUDIO_EXTENSIONS],
+      };
+    case "data":
+      return getTypeExtensions("data");
+  }
+}
+
+function toAssetInfo(summary: AssetSummary): AssetInfo {
+  return {
+    id: summary.id,
+    type: getAssetType(summary.extensions),
+    fileCount: summary.fileCount,
+    totalSize: summary.totalSize,
+    lastModified: new Date(summary.lastModified).toISOString(),
+  };
+}
+
+function encodeAssetCursor(id: string): string {
+  return Buffer.from(JSON.stringify(["asset", id])).toString("base64url");
+}
+
+function decodeAssetCursor(cursor: string): string {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(position) &&
+      position[0] === "asset" &&
+      typeof position[1] === "string"
+    ) {
+      return position[1];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * One page of assets, sorted by ID and optionally of one type
+ */
+export function listAssets(
+  index: FileIndex,
+  options: { type?: AssetType; limit: number; cursor?: string },
+): { assets: AssetInfo[]; total: number; nextCursor: string | null } {
+  const { assets, total } = index.assets({
+    ...(options.type && getAssetTypeQuery(options.type)),
+    after: options.cursor ? decodeAssetCursor(options.cursor) : undefined,
+    // One extra row tells whether there is another page
+    limit: options.limit + 1,
+  });
+  const page = assets.slice(0, options.limit).map(toAssetInfo);
+
+  return {
+    assets: page,
+    total,
+    nextCursor:
+      assets.length > options.limit
+        ? encodeAssetCursor(page[page.length - 1].id)
+        : null,
+  };
+}
+
+/**
+ * An asset with its files and their roles (null if no file has the ID)
+ */
+export function getAsset(index: FileIndex, id: string): AssetDetail | null {
+  const files = index.assetFiles(id);
+  if (files.length === 0) {
+    return null;
+  }
+
+  const assetFiles = files.map((file) => ({
+    ...indexedFileInfo(file),
+    role: getAssetFileRole(file.key),
+  }));
+  return {
+    ...toAssetInfo({
+      id,
+      fileCount: files.length,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      lastModified: Math.max(...files.map((file) => file.lastModified)),
+      extensions: files.map((file) => file.extension.toLowerCase()),
+    }),
+    thumbnail:
+      assetFiles.find((file) => file.role === "thumbnail")?.path ?? null,
+    ...(index.getMeta("asset", id) ?? { tags: [], metadata: {} }),
+    files: assetFiles,
+  };
+}
+
+/**
+ * Move every file of an asset to the trash. Returns the keys moved and
+ * the number that could not be (already gone or failed).
+ */
+export async function deleteAsset(
+  storage: StorageBackend,
+  index: FileIndex,
+  id: string,
+  deletedBy: string | null,
+): Promise<{ deleted: string[]; failed: number }> {
+  const deleted: string[] = [];
+  let failed = 0;
+  for (const file of index.assetFiles(id)) {
+    try {
+      if (await moveToTrash(storage, file.key, deletedBy)) {
+        deleted.push(file.key);
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`[Assets] Failed to delete ${file.key}:`, error);
+      failed++;
+    }
+  }
+  return { deleted, failed };
+}
@@ -0,0 +1,104 @@
+/**
+ * Audio Decoding
+ * Decodes WAV, MP3 and Ogg Vorbis files in storage to mono PCM for
+ * server-side processing (waveforms, sprites). WAV data is streamed with
+ * range reads; compressed files are read whole and decoded in TypeScript.
+ */
+
+import type { StorageBackend } from "../storage/types";
+import {
+  AudioParseError,
+  readWavLayout,
+  type AudioMetadata,
+} from "./audio-metadata";
+import { storageSource } from "./gltf";
+import { decodeMp3 } from "./mp3-decoder";
+import { decodeVorbis } from "./vorbis-decoder";
+
+// Sample bytes read per storage request when scanning WAV data
+const WAV_CHUNK_BYTES = 256 * 1024;
+
+/**
+ * Stream WAV sample data, mixing channels to mono
+ */
+async function decodeWav(
+  storage: StorageBackend,
+  path: string,
+  size: number,
+  onSamples: (samples: Float32Array) => void,
+): Promise<void> {
+  const source = storageSource(storage, path, size);
+  const wav = await readWavLayout(source);
+  const { formatTag, bitsPerSample, channels } = wav;
+  const bytes = bitsPerSample / 8;
+  const float = formatTag === 3 && (bytes === 4 || bytes === 8);
+  if (
+    channels === 0 ||
+    wav.blockAlign !== bytes * channels ||
+    !(float || (formatTag === 1 && bytes >= 1 && bytes <= 4))
+  ) {
+    throw new AudioParseError(
+      "Only PCM (8-32 bit) and float WAV files can be decoded",
+    );
+  }
+
+  const chunkSize =
+    Math.floor(WAV_CHUNK_BYTES / wav.blockAlign) * wav.blockAlign;
+  const end =
+    wav.dataOffset + Math.floor(wav.dataSize / wav.blockAlign) * wav.blockAlign;
+  for (let offset = wav.dataOffset; offset < end; offset += chunkSize) {
+    const chunk = await source.read(offset, Math.min(end, offset + chunkSize));
+    const dv = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    const frames = Math.floor(chunk.byteLength / wav.blockAlign);
+    const mono = new Float32Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let ch = 0; ch < channels; ch++) {
+        const at = frame * wav.blockAlign + ch * bytes;
+        if (float) {
+          sum +=
+            bytes === 4 ? dv.getFloat32(at, true) : dv.getFloat64(at, true);
+        } else if (bytes === 1) {
+          sum += (dv.getUint8(at) - 128) / 128;
+        } else if (bytes === 2) {
+          sum += dv.getInt16(at, true) / 32768;
+        } else if (bytes === 3) {
+          const value = dv.getUint16(at, true) | (dv.getInt8(at + 2) << 16);
+          sum += value / 8388608;
+        } else {
+          sum += dv.getInt32(at, true) / 2147483648;
+        }
+      }
+      mono[frame] = sum / channels;
+    }
+    onSamples(mono);
+  }
+}
+
+/**
+ * Decode an audio file to mono PCM (-1..1) at its own sample rate, passing
+ * it to onSamples in chunks (which may reuse their buffers)
+ * Throws AudioParseError for codecs without a decoder (Opus, ADPCM, ...)
+ */
+export async function decodeAudio(
+  storage: StorageBackend,
+  path: string,
+  size: number,
+  metadata: AudioMetadata,
+  onSamples: (samples: Float32Array) => void,
+): Promise<void> {
+  if (metadata.container === "wav") {
+    await decodeWav(storage, path, size, onSamples);
+  } else if (metadata.codec === "mp3" || metadata.codec === "vorbis") {
+    const data = await storage.read(path);
+    if (!data) {
+      throw new AudioParseError("File disappeared while reading");
+    }
+    const decode = metadata.codec === "mp3" ? decodeMp3 : decodeVorbis;
+    decode(data, onSamples);
+  } else {
+    throw new AudioParseError(
+      `Decoding ${metadata.codec} audio is not supported`,
+    );
+  }
+}
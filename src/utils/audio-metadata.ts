@@ -0,0 +1,855 @@
+/**
+ * Audio Metadata
+ * Duration, sample rate, channels, bitrate, codec and tags of MP3, Ogg
+ * (Vorbis/Opus) and WAV files, parsed from their headers with range reads
+ * so tracks are never downloaded whole. Results are cached by file ETag.
+ */
+
+import { extname } from "path";
+import type { StorageBackend } from "../storage/types";
+import { storageSource, type ByteSource } from "./gltf";
+import { generateETag } from "./range-handler";
+
+export const AUDIO_EXTENSIONS = [".mp3", ".ogg", ".opus", ".wav"];
+
+export interface AudioMetadata {
+  container: "mp3" | "ogg" | "wav";
+  codec: string;
+  /**
+   * Seconds
+   */
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  /**
+   * Average bits per second
+   */
+  bitrate: number;
+  /**
+   * Whether the bitrate varies between frames (MP3 with a Xing/VBRI header)
+   */
+  vbr?: boolean;
+  bitsPerSample?: number;
+  /**
+   * ID3, Vorbis comment or RIFF INFO tags with common names (title,
+   * artist, album, genre, year, track, comment, bpm, ...)
+   */
+  tags: Record<string, string>;
+}
+
+export class AudioParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioParseError";
+  }
+}
+
+export function isAudioFile(path: string): boolean {
+  return AUDIO_EXTENSIONS.includes(extname(path).toLowerCase());
+}
+
+// How far into a file to look for the first MP3 frame or Ogg headers
+const HEAD_BYTES = 256 * 1024;
+
+// Tail scanned for the last Ogg page
+const TAIL_BYTES = 64 * 1024;
+
+function ascii(data: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...data.subarray(start, start + length));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function round(value: number, digits = 3): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+// ============================================
+// MP3 (MPEG audio + ID3)
+// ============================================
+
+// kbps by [version][layer] where version 1 = MPEG-1, 2 = MPEG-2/2.5
+const BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const SAMPLE_RATES = [44100, 48000, 32000];
+
+interface MpegFrame {
+  mpeg1: boolean;
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  length: number;
+}
+
+/**
+ * Decode a 4-byte MPEG audio frame header (null if it is not one)
+ */
+export function parseMpegFrameHeader(
+  data: Uint8Array,
+  offset: number,
+): MpegFrame | null {
+  if (offset + 4 > data.byteLength) {
+    return null;
+  }
+  const [b0, b1, b2, b3] = data.subarray(offset, offset + 4);
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) {
+    return null;
+  }
+  const versionBits = (b1 >> 3) & 3; // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  const layerBits = (b1 >> 1) & 3; // 3 = Layer I, 2 = II, 1 = III
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  if (
+    versionBits === 1 ||
+    layerBits === 0 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15 ||
+    rateIndex === 3
+  ) {
+    return null;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[`${mpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+  const sampleRate =
+    SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 1;
+  const samplesPerFrame =
+    layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const length =
+    layer === 1
+      ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return {
+    mpeg1,
+    layer,
+    bitrate,
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    length,
+  };
+}
+
+const ID3_FRAMES: Record<string, string> = {
+  TIT2: "title",
+  TPE1: "artist",
+  TPE2: "albumArtist",
+  TALB: "album",
+  TCON: "genre",
+  TYER: "year",
+  TDRC: "year",
+  TRCK: "track",
+  TPOS: "disc",
+  TBPM: "bpm",
+  TKEY: "key",
+  TCOM: "composer",
+  TCOP: "copyright",
+  COMM: "comment",
+  // ID3v2.2 three-letter frames
+  TT2: "title",
+  TP1: "artist",
+  TP2: "albumArtist",
+  TAL: "album",
+  TCO: "genre",
+  TYE: "year",
+  TRK: "track",
+  TBP: "bpm",
+  COM: "comment",
+};
+
+function decodeId3Text(data: Uint8Array): string {
+  const encoding = data[0];
+  const body = data.subarray(1);
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    // UTF-16 with BOM (1) or big-endian without (2)
+    let littleEndian = false;
+    let start = 0;
+    if (encoding === 1 && body.byteLength >= 2) {
+      littleEndian = body[0] === 0xff && body[1] === 0xfe;
+      start = 2;
+    }
+    const units: number[] = [];
+    const dv = view(body);
+    for (let i = start; i + 1 < body.byteLength; i += 2) {
+      units.push(dv.getUint16(i, littleEndian));
+    }
+    text = String.fromCharCode(...units);
+  } else {
+    text =
+      encoding === 3
+        ? new TextDecoder("utf-8").decode(body)
+        : Buffer.from(body).toString("latin1");
+  }
+  // Later strings in UTF-16 frames carry their own byte order marks
+  return text.replace(/\uFEFF/g, "").replace(/\0+$/, "");
+}
+
+function syncsafe(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] << 21) |
+    (data[offset + 1] << 14) |
+    (data[offset + 2] << 7) |
+    data[offset + 3]
+  );
+}
+
+/**
+ * Total size of an ID3v2 tag at the start of data (0 if there is none)
+ */
+export function id3v2Size(data: Uint8Array): number {
+  if (data.byteLength < 10 || ascii(data, 0, 3) !== "ID3") {
+    return 0;
+  }
+  const footer = data[5] & 0x10 ? 10 : 0;
+  return 10 + syncsafe(data, 6) + footer;
+}
+
+function parseId3v2(tag: Uint8Array): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const major = tag[3];
+  const flags = tag[5];
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  const end = Math.min(tag.byteLength, 10 + syncsafe(tag, 6));
+
+  let offset = 10;
+  if (flags & 0x40 && major >= 3) {
+    // Extended header (v2.4 size includes itself, v2.3 does not)
+    offset +=
+      major === 4 ? syncsafe(tag, offset) : view(tag).getUint32(offset) + 4;
+  }
+
+  while (offset + headerLength <= end) {
+    const id = ascii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      break; // padding
+    }
+    const size =
+      major === 2
+        ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+        : major === 4
+          ? syncsafe(tag, offset + 4)
+          : view(tag).getUint32(offset + 4);
+    const body = tag.subarray(
+      offset + headerLength,
+      offset + headerLength + size,
+    );
+    offset += headerLength + size;
+    if (body.byteLength < size || size === 0) {
+      continue;
+    }
+
+    if (id === "TXXX" || id === "TXX") {
+      // User text: encoding, description\0value
+      const [description, value] = decodeId3Text(body).split("\0");
+      if (description && value) {
+        tags[description.toLowerCase()] = value;
+      }
+    } else if (id === "COMM" || id === "COM") {
+      // Comment: encoding, 3-byte language, description\0text
+      const text = decodeId3Text(
+        new Uint8Array([body[0], ...body.subarray(4)]),
+      );
+      const value = text.slice(text.indexOf("\0") + 1);
+      if (value) {
+        tags.comment ??= value;
+      }
+    } else if (ID3_FRAMES[id]) {
+      const value = decodeId3Text(body).split("\0")[0].trim();
+      if (value) {
+        tags[ID3_FRAMES[id]] = value;
+      }
+    }
+  }
+
+  // "(17)" or "(17)Rock" genre references keep their text form only
+  if (tags.genre) {
+    tags.genre = tags.genre.replace(/^\(\d+\)/, "") || tags.genre;
+  }
+  return tags;
+}
+
+function parseId3v1(data: Uint8Array): Record<string, string> {
+  const field = (start: number, length: number) =>
+    Buffer.from(data.subarray(start, start + length))
+      .toString("latin1")
+      .replace(/\0.*$/, "")
+      .trim();
+  const tags: Record<string, string> = {};
+  const values: Array<[string, string]> = [
+    ["title", field(3, 30)],
+    ["artist", field(33, 30)],
+    ["album", field(63, 30)],
+    ["year", field(93, 4)],
+    ["comment", field(97, 30)],
+  ];
+  for (const [name, value] of values) {
+    if (value) {
+      tags[name] = value;
+    }
+  }
+  // ID3v1.1 stores the track number in the last comment byte
+  if (data[125] === 0 && data[126] !== 0) {
+    tags.track = String(data[126]);
+  }
+  return tags;
+}
+
+async function parseMp3(source: ByteSource): Promise<AudioMetadata> {
+  let head = await source.read(0, Math.min(source.size, HEAD_BYTES));
+  const tagSize = id3v2Size(head);
+  if (tagSize > head.byteLength) {
+    // Large tags (embedded artwork): read the tag, then the frames after it
+    head = await source.read(0, Math.min(source.size, tagSize + HEAD_BYTES));
+  }
+  const tags = tagSize > 0 ? parseId3v2(head.subarray(0, tagSize)) : {};
+
+  // First frame header that is followed by another valid header
+  let frameOffset = -1;
+  let frame: MpegFrame | null = null;
+  for (let i = tagSize; i + 4 <= head.byteLength; i++) {
+    const candidate = parseMpegFrameHeader(head, i);
+    if (!candidate) {
+      continue;
+    }
+    const next = i + candidate.length;
+    if (next + 4 > head.byteLength || parseMpegFrameHeader(head, next)) {
+      frameOffset = i;
+      frame = candidate;
+      break;
+    }
+  }
+  if (!frame) {
+    throw new AudioParseError("No MPEG audio frames found");
+  }
+
+  let audioEnd = source.size;
+  if (source.size >= 128) {
+    const tail = await source.read(source.size - 128, source.size);
+    if (ascii(tail, 0, 3) === "TAG") {
+      audioEnd -= 128;
+      for (const [name, value] of Object.entries(parseId3v1(tail))) {
+        tags[name] ??= value;
+      }
+    }
+  }
+  const audioBytes = audioEnd - frameOffset;
+
+  // Xing/Info (LAME) or VBRI header in the first frame gives exact counts
+  let frames: number | null = null;
+  let vbrBytes: number | null = null;
+  let vbr = false;
+  const sideInfo = frame.mpeg1
+    ? frame.channels === 1
+      ? 17
+      : 32
+    : frame.channels === 1
+      ? 9
+      : 17;
+  const xing = frameOffset + 4 + sideInfo;
+  const dv = view(head);
+  if (xing + 16 <= head.byteLength) {
+    const id = ascii(head, xing, 4);
+    if (id === "Xing" || id === "Info") {
+      const flags = dv.getUint32(xing + 4);
+      let field = xing + 8;
+      if (flags & 1) {
+        frames = dv.getUint32(field);
+        field += 4;
+      }
+      if (flags & 2) {
+        vbrBytes = dv.getUint32(field);
+      }
+      vbr = id === "Xing";
+    }
+  }
+  const vbri = frameOffset + 36;
+  if (frames === null && vbri + 18 <= head.byteLength) {
+    if (ascii(head, vbri, 4) === "VBRI") {
+      vbrBytes = dv.getUint32(vbri + 10);
+      frames = dv.getUint32(vbri + 14);
+      vbr = true;
+    }
+  }
+
+  const duration =
+    frames !== null
+      ? (frames * frame.samplesPerFrame) / frame.sampleRate
+      : (audioBytes * 8) / frame.bitrate;
+  const bitrate =
+    vbr && duration > 0
+      ? Math.round(((vbrBytes ?? audioBytes) * 8) / duration)
+      : frame.bitrate;
+
+  return {
+    container: "mp3",
+    codec: frame.layer === 3 ? "mp3" : `mp${frame.layer}`,
+    duration: round(duration),
+    sampleRate: frame.sampleRate,
+    channels: frame.channels,
+    bitrate,
+    vbr,
+    tags,
+  };
+}
+
+// ============================================
+// Ogg (Vorbis / Opus)
+// ============================================
+
+interface OggPage {
+  granule: bigint;
+  serial: number;
+  /**
+   * Packet segments of the page, with whether the last one continues on
+   * the next page
+   */
+  segments: Uint8Array[];
+  continues: boolean;
+  length: number;
+}
+
+function parseOggPage(data: Uint8Array, offset: number): OggPage | null {
+  if (offset + 27 > data.byteLength || ascii(data, offset, 4) !== "OggS") {
+    return null;
+  }
+  const dv = view(data);
+  const count = data[offset + 26];
+  const headerLength = 27 + count;
+  if (offset + headerLength > data.byteLength) {
+    return null;
+  }
+
+  const segments: Uint8Array[] = [];
+  let body = offset + headerLength;
+  let packetStart = body;
+  let lacing = 0;
+  for (let i = 0; i < count; i++) {
+    lacing = data[offset + 27 + i];
+    body += lacing;
+    if (lacing < 255) {
+      segments.push(data.subarray(packetStart, body));
+      packetStart = body;
+    }
+  }
+  const continues = count > 0 && lacing === 255;
+  if (continues) {
+    segments.push(data.subarray(packetStart, body));
+  }
+  if (body > data.byteLength) {
+    return null;
+  }
+
+  return {
+    granule: dv.getBigInt64(offset + 6, true),
+    serial: dv.getUint32(offset + 14, true),
+    segments,
+    continues,
+    length: body - offset,
+  };
+}
+
+const VORBIS_TAGS: Record<string, string> = {
+  date: "year",
+  tracknumber: "track",
+  discnumber: "disc",
+  albumartist: "albumArtist",
+  description: "comment",
+};
+
+function parseVorbisComments(
+  packet: Uint8Array,
+  offset: number,
+): Record<string, string> {
+  const dv = view(packet);
+  const tags: Record<string, string> = {};
+  const decoder = new TextDecoder("utf-8");
+  if (offset + 4 > packet.byteLength) {
+    return tags;
+  }
+  offset += 4 + dv.getUint32(offset, true); // vendor string
+  if (offset + 4 > packet.byteLength) {
+    return tags;
+  }
+  const count = dv.getUint32(offset, true);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= packet.byteLength; i++) {
+    const length = dv.getUint32(offset, true);
+    const comment = decoder.decode(
+      packet.subarray(offset + 4, offset + 4 + length),
+    );
+    offset += 4 + length;
+    const split = comment.indexOf("=");
+    if (split > 0) {
+      const name = comment.slice(0, split).toLowerCase();
+      tags[VORBIS_TAGS[name] ?? name] ??= comment.slice(split + 1);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Packets of the first logical stream in Ogg data, with the stream serial
+ * and the granule position of the page each packet ends on
+ */
+export function* oggPackets(
+  data: Uint8Array,
+): Generator<{ packet: Uint8Array; serial: number; granule: bigint }> {
+  let pending: Uint8Array[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+  for (;;) {
+    const page = parseOggPage(data, offset);
+    if (!page) {
+      return;
+    }
+    offset += page.length;
+    serial ??= page.serial;
+    if (page.serial !== serial) {
+      continue;
+    }
+    for (let i = 0; i < page.segments.length; i++) {
+      pending.push(page.segments[i]);
+      if (i < page.segments.length - 1 || !page.continues) {
+        const packet = new Uint8Array(
+          pending.reduce((sum, part) => sum + part.byteLength, 0),
+        );
+        let at = 0;
+        for (const part of pending) {
+          packet.set(part, at);
+          at += part.byteLength;
+        }
+        yield { packet, serial, granule: page.granule };
+        pending = [];
+      }
+    }
+  }
+}
+
+/**
+ * Granule position of the last page of a stream found in data (usually
+ * the file's tail), or null if there is none
+ */
+export function lastOggGranule(
+  data: Uint8Array,
+  serial: number,
+): bigint | null {
+  const dv = view(data);
+  for (let i = data.byteLength - 27; i >= 0; i--) {
+    if (data[i] !== 0x4f || ascii(data, i, 4) !== "OggS") {
+      continue;
+    }
+    const granule = dv.getBigInt64(i + 6, true);
+    if (dv.getUint32(i + 14, true) === serial && granule >= 0n) {
+      return granule;
+    }
+  }
+  return null;
+}
+
+async function parseOgg(source: ByteSource): Promise<AudioMetadata> {
+  const head = await source.read(0, Math.min(source.size, HEAD_BYTES));
+
+  // The first two packets are the identification and comment headers
+  const packets: Uint8Array[] = [];
+  let serial: number | null = null;
+  for (const entry of oggPackets(head)) {
+    packets.push(entry.packet);
+    serial = entry.serial;
+    if (packets.length === 2) {
+      break;
+    }
+  }
+
+  const [identification, comments] = packets;
+  if (!identification || serial === null) {
+    throw new AudioParseError("No Ogg pages found");
+  }
+  const dv = view(identification);
+
+  let codec: string;
+  let sampleRate: number;
+  let channels: number;
+  let granuleRate: number;
+  let preSkip = 0;
+  let nominalBitrate = 0;
+  let tags: Record<string, string> = {};
+  if (
+    identification.byteLength >= 30 &&
+    identification[0] === 1 &&
+    ascii(identification, 1, 6) === "vorbis"
+  ) {
+    codec = "vorbis";
+    channels = identification[11];
+    sampleRate = dv.getUint32(12, true);
+    granuleRate = sampleRate;
+    nominalBitrate = Math.max(0, dv.getInt32(20, true));
+    if (comments?.[0] === 3 && ascii(comments, 1, 6) === "vorbis") {
+      tags = parseVorbisComments(comments, 7);
+    }
+  } else if (
+    identification.byteLength >= 19 &&
+    ascii(identification, 0, 8) === "OpusHead"
+  ) {
+    codec = "opus";
+    channels = identification[9];
+    preSkip = dv.getUint16(10, true);
+    sampleRate = dv.getUint32(12, true) || 48000;
+    // Opus granule positions always count 48 kHz samples
+    granuleRate = 48000;
+    if (comments && ascii(comments, 0, 8) === "OpusTags") {
+      tags = parseVorbisComments(comments, 8);
+    }
+  } else {
+    throw new AudioParseError("Unsupported Ogg codec");
+  }
+
+  // The last page of the stream holds the total sample count
+  const tailStart = Math.max(0, source.size - TAIL_BYTES);
+  const granule = lastOggGranule(
+    await source.read(tailStart, source.size),
+    serial,
+  );
+  if (granule === null) {
+    throw new AudioParseError("No final Ogg page found");
+  }
+
+  const duration = Math.max(0, Number(granule) - preSkip) / granuleRate;
+  return {
+    container: "ogg",
+    codec,
+    duration: round(duration),
+    sampleRate,
+    channels,
+    bitrate:
+      duration > 0 ? Math.round((source.size * 8) / duration) : nominalBitrate,
+    tags,
+  };
+}
+
+// ============================================
+// WAV (RIFF)
+// ============================================
+
+const WAV_CODECS: Record<number, string> = {
+  1: "pcm",
+  3: "pcm_float",
+  6: "alaw",
+  7: "mulaw",
+  0x11: "adpcm_ima",
+  0x55: "mp3",
+};
+
+const RIFF_INFO: Record<string, string> = {
+  INAM: "title",
+  IART: "artist",
+  IPRD: "album",
+  IGNR: "genre",
+  ICRD: "year",
+  ICMT: "comment",
+  ITRK: "track",
+  IPRT: "track",
+  ICOP: "copyright",
+  ISFT: "software",
+};
+
+function parseRiffInfo(list: Uint8Array): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const dv = view(list);
+  let offset = 4; // "INFO"
+  while (offset + 8 <= list.byteLength) {
+    const id = ascii(list, offset, 4);
+    const size = dv.getUint32(offset + 4, true);
+    const value = new TextDecoder("utf-8")
+      .decode(list.subarray(offset + 8, offset + 8 + size))
+      .replace(/\0+$/, "")
+      .trim();
+    if (RIFF_INFO[id] && value) {
+      tags[RIFF_INFO[id]] ??= value;
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return tags;
+}
+
+export interface WavLayout {
+  /**
+   * WAVE format tag (1 = PCM, 3 = IEEE float), resolved for extensible files
+   */
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataSize: number;
+  tags: Record<string, string>;
+}
+
+/**
+ * Locate the format and sample data of a RIFF/WAVE file
+ */
+export async function readWavLayout(source: ByteSource): Promise<WavLayout> {
+  const header = await source.read(0, Math.min(source.size, 12));
+  if (
+    header.byteLength < 12 ||
+    ascii(header, 0, 4) !== "RIFF" ||
+    ascii(header, 8, 4) !== "WAVE"
+  ) {
+    throw new AudioParseError("Not a RIFF/WAVE file");
+  }
+
+  let format: Uint8Array | null = null;
+  let dataOffset = 0;
+  let dataSize: number | null = null;
+  let tags: Record<string, string> = {};
+
+  // Walk chunk headers; only fmt and LIST bodies are read
+  let offset = 12;
+  while (offset + 8 <= source.size) {
+    const chunk = await source.read(offset, offset + 8);
+    const id = ascii(chunk, 0, 4);
+    const size = view(chunk).getUint32(4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = await source.read(body, Math.min(source.size, body + size));
+    } else if (id === "data") {
+      // Streamed recordings may leave the size unset
+      dataOffset = body;
+      dataSize = Math.min(size, source.size - body);
+    } else if (id === "LIST" && size <= 64 * 1024) {
+      const list = await source.read(body, Math.min(source.size, body + size));
+      if (ascii(list, 0, 4) === "INFO") {
+        tags = parseRiffInfo(list);
+      }
+    }
+    offset = body + size + (size & 1);
+  }
+
+  if (!format || format.byteLength < 16 || dataSize === null) {
+    throw new AudioParseError("WAV file has no fmt or data chunk");
+  }
+  const dv = view(format);
+  let formatTag = dv.getUint16(0, true);
+  if (formatTag === 0xfffe && format.byteLength >= 26) {
+    // WAVE_FORMAT_EXTENSIBLE: the real format leads the sub-format GUID
+    formatTag = dv.getUint16(24, true);
+  }
+  return {
+    formatTag,
+    channels: dv.getUint16(2, true),
+    sampleRate: dv.getUint32(4, true),
+    byteRate: dv.getUint32(8, true),
+    blockAlign: dv.getUint16(12, true),
+    bitsPerSample: dv.getUint16(14, true),
+    dataOffset,
+    dataSize,
+    tags,
+  };
+}
+
+async function parseWav(source: ByteSource): Promise<AudioMetadata> {
+  const wav = await readWavLayout(source);
+  return {
+    container: "wav",
+    codec: WAV_CODECS[wav.formatTag] ?? `wav_0x${wav.formatTag.toString(16)}`,
+    duration: round(wav.byteRate > 0 ? wav.dataSize / wav.byteRate : 0),
+    sampleRate: wav.sampleRate,
+    channels: wav.channels,
+    bitrate: wav.byteRate * 8,
+    bitsPerSample: wav.bitsPerSample,
+    tags: wav.tags,
+  };
+}
+
+/**
+ * Parse audio metadata, choosing the parser by the file's magic bytes
+ * Throws AudioParseError for unsupported or corrupt files
+ */
+export async function parseAudio(source: ByteSource): Promise<AudioMetadata> {
+  const magic = await source.read(0, Math.min(source.size, 12));
+  if (magic.byteLength >= 4 && ascii(magic, 0, 4) === "OggS") {
+    return parseOgg(source);
+  }
+  if (magic.byteLength >= 12 && ascii(magic, 0, 4) === "RIFF") {
+    return parseWav(source);
+  }
+  if (
+    magic.byteLength >= 3 &&
+    (ascii(magic, 0, 3) === "ID3" ||
+      (magic[0] === 0xff && (magic[1] & 0xe0) === 0xe0))
+  ) {
+    return parseMp3(source);
+  }
+  throw new AudioParseError("Unrecognised audio format");
+}
+
+// Parsed metadata keyed by storage key, valid while the ETag matches;
+// failures are cached too so broken files are not re-read on every listing
+const MAX_CACHE_ENTRIES = 2000;
+const metadataCache = new Map<
+  string,
+  { etag: string; metadata: AudioMetadata | null; error?: string }
+>();
+
+/**
+ * Read the metadata of an audio file in storage, reusing the cached result
+ * while the file's ETag is unchanged. Returns null if the file does not
+ * exist. Throws AudioParseError for files that cannot be parsed.
+ */
+export async function getAudioMetadata(
+  storage: StorageBackend,
+  key: string,
+): Promise<{ etag: string; metadata: AudioMetadata } | null> {
+  const stat = await storage.stat(key);
+  if (!stat) {
+    return null;
+  }
+  const etag = generateETag(stat.size, stat.lastModified);
+
+  let entry = metadataCache.get(key);
+  if (entry?.etag === etag) {
+    // Refresh the entry's position for LRU eviction
+    metadataCache.delete(key);
+  } else {
+    try {
+      entry = {
+        etag,
+        metadata: await parseAudio(storageSource(storage, key, stat.size)),
+      };
+    } catch (error) {
+      if (!(error instanceof AudioParseError)) {
+        throw error;
+      }
+      entry = { etag, metadata: null, error: error.message };
+    }
+  }
+
+  metadataCache.set(key, entry);
+  if (metadataCache.size > MAX_CACHE_ENTRIES) {
+    metadataCache.delete(metadataCache.keys().next().value!);
+  }
+
+  if (!entry.metadata) {
+    throw new AudioParseError(entry.error ?? "Unreadable audio file");
+  }
+  return { etag, metadata: entry.metadata };
+}
@@ -0,0 +1,519 @@
+/**
+ * Audio Sprites
+ * Concatenates many short sound effects into one file with silence between
+ * them, plus a Howler.js sprite map, so clients load a single file. Sprite
+ * definitions live under .cdn/sprites/; the built files are written to
+ * media/sprites/<name>.<format> and rebuilt when a member file changes.
+ */
+
+import { createHash } from "crypto";
+import { basename, extname } from "path";
+import { createMp3Encoder, createOggEncoder } from "wasm-media-encoders";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { getCdnBaseUrl } from "./asset-events";
+import { decodeAudio } from "./audio-decode";
+import {
+  AudioParseError,
+  getAudioMetadata,
+  isAudioFile,
+} from "./audio-metadata";
+import { generateETag } from "./range-handler";
+
+export const SPRITE_DIR = "media/sprites";
+export const SPRITE_FORMATS = ["mp3", "ogg", "wav"] as const;
+export const DEFAULT_SPRITE_GAP_MS = 250;
+export const MAX_SPRITE_GAP_MS = 5000;
+
+export type SpriteFormat = (typeof SPRITE_FORMATS)[number];
+
+const SPRITE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Sample rates the MP3 encoder accepts; others are resampled to 44.1kHz
+const MP3_SAMPLE_RATES = [
+  8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000,
+];
+
+// Samples of encoder (576) and decoder (529) delay before MP3 audio starts;
+// the other formats get the same lead-in so one sprite map fits them all
+const MP3_DELAY = 1105;
+
+/**
+ * A member could not be read or decoded, or the definition is invalid
+ */
+export class SpriteBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpriteBuildError";
+  }
+}
+
+export interface SpriteDefinition {
+  name: string;
+  /**
+   * Explicit member files, in sprite order
+   */
+  paths?: string[];
+  /**
+   * Or every audio file in this folder, in natural order
+   */
+  folder?: string;
+  /**
+   * Silence after each sound, in milliseconds
+   */
+  gap: number;
+  formats: SpriteFormat[];
+  createdAt: string;
+  createdBy: string | null;
+  build?: SpriteBuild;
+}
+
+export interface SpriteBuild {
+  /**
+   * Hash of the members' ETags and the settings the build was made with
+   */
+  fingerprint: string;
+  builtAt: string;
+  sampleRate: number;
+  /**
+   * Seconds
+   */
+  duration: number;
+  /**
+   * Built file per format, plus the Howler map
+   */
+  files: Partial<Record<SpriteFormat, string>> & { map: string };
+  /**
+   * Howler sprite map: name -> [offset ms, duration ms]
+   */
+  sprite: Record<string, [number, number]>;
+  members: { path: string; name: string }[];
+}
+
+export function isValidSpriteName(name: string): boolean {
+  return SPRITE_NAME_PATTERN.test(name);
+}
+
+function definitionKey(name: string): string {
+  return systemKey("sprites", `${name}.json`);
+}
+
+export async function readSpriteDefinition(
+  storage: StorageBackend,
+  name: string,
+): Promise<SpriteDefinition | null> {
+  const data = await storage.read(definitionKey(name));
+  return data ? JSON.parse(new TextDecoder().decode(data)) : null;
+}
+
+async function writeSpriteDefinition(
+  storage: StorageBackend,
+  definition: SpriteDefinition,
+): Promise<void> {
+  await storage.write(
+    definitionKey(definition.name),
+    JSON.stringify(definition, null, 2),
+  );
+}
+
+export async function listSpriteDefinitions(
+  storage: StorageBackend,
+): Promise<SpriteDefinition[]> {
+  const definitions: SpriteDefinition[] = [];
+  for (const entry of await storage.list(systemKey("sprites"))) {
+    const name = basename(entry.key, ".json");
+    const definition = await readSpriteDefinition(storage, name);
+    if (definition) {
+      definitions.push(definition);
+    }
+  }
+  return definitions.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Current member files of a sprite with their ETags
+ */
+async function resolveMembers(
+  storage: StorageBackend,
+  definition: SpriteDefinition,
+): Promise<{ path: string; size: number; etag: string }[]> {
+  if (definition.folder) {
+    const prefix = `${definition.folder}/`;
+    return (await storage.list(definition.folder))
+      .filter(
+        (entry) =>
+          entry.key.startsWith(prefix) &&
+          !entry.key.startsWith(`${SPRITE_DIR}/`) &&
+          isAudioFile(entry.key),
+      )
+      .sort((a, b) =>
+        a.key.localeCompare(b.key, "en", {
+          numeric: true,
+          sensitivity: "base",
+        }),
+      )
+      .map((entry) => ({
+        path: entry.key,
+        size: entry.size,
+        etag: generateETag(entry.size, entry.lastModified),
+      }));
+  }
+
+  const members = [];
+  for (const path of definition.paths ?? []) {
+    const stat = await storage.stat(path);
+    if (!stat) {
+      throw new SpriteBuildError(`Sprite member not found: ${path}`);
+    }
+    members.push({
+      path,
+      size: stat.size,
+      etag: generateETag(stat.size, stat.lastModified),
+    });
+  }
+  return members;
+}
+
+function fingerprintOf(
+  definition: SpriteDefinition,
+  members: { path: string; etag: string }[],
+): string {
+  const hash = createHash("sha256").update(
+    JSON.stringify([definition.gap, definition.formats]),
+  );
+  for (const member of members) {
+    hash.update(`\n${member.path}\0${member.etag}`);
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Whether a sprite's built files no longer match its members
+ */
+export async function isSpriteStale(
+  storage: StorageBackend,
+  definition: SpriteDefinition,
+): Promise<boolean> {
+  try {
+    const members = await resolveMembers(storage, definition);
+    return definition.build?.fingerprint !== fingerprintOf(definition, members);
+  } catch (error) {
+    if (error instanceof SpriteBuildError) {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Linear resampling (sprites are short effects, so this is adequate)
+ */
+function resample(samples: Float32Array, from: number, to: number) {
+  if (from === to) {
+    return samples;
+  }
+  const out = new Float32Array(Math.round((samples.length * to) / from));
+  const step = from / to;
+  for (let i = 0; i < out.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)] ?? 0;
+    out[i] =
+      (samples[index] ?? 0) * (1 - (position - index)) +
+      next * (position - index);
+  }
+  return out;
+}
+
+async function decodeMember(
+  storage: StorageBackend,
+  member: { path: string; size: number },
+): Promise<{ samples: Float32Array; sampleRate: number }> {
+  try {
+    const audio = await getAudioMetadata(storage, member.path);
+    if (!audio) {
+      throw new SpriteBuildError(`Sprite member not found: ${member.path}`);
+    }
+    const chunks: Float32Array[] = [];
+    await decodeAudio(storage, member.path, member.size, audio.metadata, (s) =>
+      chunks.push(s.slice()),
+    );
+    const samples = new Float32Array(
+      chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return { samples, sampleRate: audio.metadata.sampleRate };
+  } catch (error) {
+    if (error instanceof AudioParseError) {
+      throw new SpriteBuildError(`${member.path}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const out = new Uint8Array(44 + samples.length * 2);
+  const dv = new DataView(out.buffer);
+  out.set(new TextEncoder().encode("RIFF"), 0);
+  dv.setUint32(4, 36 + samples.length * 2, true);
+  out.set(new TextEncoder().encode("WAVEfmt "), 8);
+  dv.setUint32(16, 16, true);
+  dv.setUint16(20, 1, true);
+  dv.setUint16(22, 1, true);
+  dv.setUint32(24, sampleRate, true);
+  dv.setUint32(28, sampleRate * 2, true);
+  dv.setUint16(32, 2, true);
+  dv.setUint16(34, 16, true);
+  out.set(new TextEncoder().encode("data"), 36);
+  dv.setUint32(40, samples.length * 2, true);
+  samples.forEach((value, i) => {
+    const clamped = Math.max(-1, Math.min(1, value));
+    dv.setInt16(44 + i * 2, Math.round(clamped * 32767), true);
+  });
+  return out;
+}
+
+function runEncoder(
+  encoder: {
+    encode(samples: readonly Float32Array[]): Uint8Array;
+    finalize(): Uint8Array;
+  },
+  samples: Float32Array,
+): Uint8Array {
+  // Output buffers are reused between calls, so copy them
+  const body = encoder.encode([samples]).slice();
+  const tail = encoder.finalize().slice();
+  const out = new Uint8Array(body.length + tail.length);
+  out.set(body);
+  out.set(tail, body.length);
+  return out;
+}
+
+async function encodeSprite(
+  format: SpriteFormat,
+  samples: Float32Array,
+  sampleRate: number,
+): Promise<Uint8Array> {
+  if (format === "mp3") {
+    // The encoder adds its own lead-in
+    const encoder = await createMp3Encoder();
+    encoder.configure({ sampleRate, channels: 1, bitrate: 128 });
+    return runEncoder(encoder, samples);
+  }
+
+  const leadIn = new Float32Array(MP3_DELAY + samples.length);
+  leadIn.set(samples, MP3_DELAY);
+  if (format === "wav") {
+    return encodeWav(leadIn, sampleRate);
+  }
+  const encoder = await createOggEncoder();
+  encoder.configure({ sampleRate, channels: 1, vbrQuality: 5 });
+  return runEncoder(encoder, leadIn);
+}
+
+/**
+ * Sprite names from file names, made unique with a numeric suffix
+ */
+function spriteNames(paths: string[]): string[] {
+  const seen = new Map<string, number>();
+  return paths.map((path) => {
+    const name = basename(path, extname(path));
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name}-${count}` : name;
+  });
+}
+
+/**
+ * Decode, concatenate and encode a sprite's members and write the sprite
+ * files and Howler map. Saves and returns the definition with its build.
+ */
+export async function buildSprite(
+  storage: StorageBackend,
+  definition: SpriteDefinition,
+): Promise<SpriteDefinition> {
+  const started = Date.now();
+  const members = await resolveMembers(storage, definition);
+  if (members.length === 0) {
+    throw new SpriteBuildError("Sprite has no audio files");
+  }
+
+  const decoded = [];
+  for (const member of members) {
+    decoded.push(await decodeMember(storage, member));
+  }
+  const highest = Math.max(...decoded.map((d) => d.sampleRate));
+  const sampleRate = MP3_SAMPLE_RATES.includes(highest) ? highest : 44100;
+  const gapSamples = Math.round((definition.gap / 1000) * sampleRate);
+
+  const parts = decoded.map((d) =>
+    resample(d.samples, d.sampleRate, sampleRate),
+  );
+  const total = parts.reduce((sum, part) => sum + part.length + gapSamples, 0);
+  const samples = new Float32Array(total);
+  const names = spriteNames(members.map((member) => member.path));
+  const sprite: Record<string, [number, number]> = {};
+  let offset = 0;
+  parts.forEach((part, i) => {
+    samples.set(part, offset);
+    sprite[names[i]] = [
+      Math.round(((offset + MP3_DELAY) / sampleRate) * 1000),
+      Math.round((part.length / sampleRate) * 1000),
+    ];
+    offset += part.length + gapSamples;
+  });
+
+  const cdnBaseUrl = getCdnBaseUrl();
+  const files: SpriteBuild["files"] = {
+    map: `${SPRITE_DIR}/${definition.name}.json`,
+  };
+  for (const format of definition.formats) {
+    const key = `${SPRITE_DIR}/${definition.name}.${format}`;
+    await storage.write(key, await encodeSprite(format, samples, sampleRate));
+    files[format] = key;
+  }
+  const howler = {
+    src: definition.formats.map((format) => `${cdnBaseUrl}/${files[format]}`),
+    sprite,
+  };
+  await storage.write(files.map, JSON.stringify(howler, null, 2));
+
+  const built: SpriteDefinition = {
+    ...definition,
+    build: {
+      fingerprint: fingerprintOf(definition, members),
+      builtAt: new Date().toISOString(),
+      sampleRate,
+      duration: Math.round(((MP3_DELAY + total) / sampleRate) * 1000) / 1000,
+      files,
+      sprite,
+      members: members.map((member, i) => ({
+        path: member.path,
+        name: names[i],
+      })),
+    },
+  };
+  await writeSpriteDefinition(storage, built);
+  console.log(
+    `[Sprites] Built ${definition.name}: ${members.length} sounds, ${definition.formats.join("/")} (${Date.now() - started}ms)`,
+  );
+  return built;
+}
+
+// Sprites being built, so concurrent triggers share the work
+const inFlight = new Map<string, Promise<SpriteDefinition>>();
+
+/**
+ * Rebuild a sprite if its members changed since the last build
+ */
+export async function ensureSpriteBuilt(
+  storage: StorageBackend,
+  definition: SpriteDefinition,
+): Promise<SpriteDefinition> {
+  let job = inFlight.get(definition.name);
+  if (!job) {
+    job = (async () => {
+      if (!(await isSpriteStale(storage, definition))) {
+        return definition;
+      }
+      return buildSprite(storage, definition);
+    })().finally(() => inFlight.delete(definition.name));
+    inFlight.set(definition.name, job);
+  }
+  return job;
+}
+
+/**
+ * Save a new or replaced sprite definition and build it
+ */
+export async function createSprite(
+  storage: StorageBackend,
+  options: {
+    name: string;
+    paths?: string[];
+    folder?: string;
+    gap?: number;
+    formats?: SpriteFormat[];
+  },
+  createdBy: string | null,
+): Promise<SpriteDefinition> {
+  const definition: SpriteDefinition = {
+    name: options.name,
+    ...(options.folder ? { folder: options.folder } : { paths: options.paths }),
+    gap: options.gap ?? DEFAULT_SPRITE_GAP_MS,
+    formats: [...new Set<SpriteFormat>(options.formats ?? ["mp3"])],
+    createdAt: new Date().toISOString(),
+    createdBy,
+  };
+  const previous = await readSpriteDefinition(storage, options.name);
+  const built = await buildSprite(storage, definition);
+
+  // Drop files of formats the replaced definition had but this one lacks
+  const kept = new Set(Object.values(built.build!.files));
+  for (const key of Object.values(previous?.build?.files ?? {})) {
+    if (!kept.has(key)) {
+      await storage.delete(key);
+    }
+  }
+  return built;
+}
+
+/**
+ * Delete a sprite's definition and built files (false if it did not exist)
+ */
+export async function deleteSprite(
+  storage: StorageBackend,
+  name: string,
+): Promise<boolean> {
+  const definition = await readSpriteDefinition(storage, name);
+  if (!definition) {
+    return false;
+  }
+  for (const key of Object.values(definition.build?.files ?? {})) {
+    await storage.delete(key);
+  }
+  await storage.delete(definitionKey(name));
+  return true;
+}
+
+/**
+ * Rebuild sprites that contain any of the given keys (or whose folder does)
+ * Failures are logged, never thrown, so callers can fire and forget.
+ */
+export async function rebuildSpritesFor(
+  storage: StorageBackend,
+  keys: string[],
+): Promise<void> {
+  const changed = keys.filter(
+    (key) => isAudioFile(key) && !key.startsWith(`${SPRITE_DIR}/`),
+  );
+  if (changed.length === 0) {
+    return;
+  }
+  try {
+    for (const definition of await listSpriteDefinitions(storage)) {
+      const affected = changed.some((key) =>
+        definition.folder
+          ? key.startsWith(`${definition.folder}/`)
+          : definition.paths?.includes(key),
+      );
+      if (!affected) {
+        continue;
+      }
+      try {
+        await ensureSpriteBuilt(storage, definition);
+      } catch (error) {
+        console.error(
+          `[Sprites] Failed to rebuild ${definition.name}:`,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Sprites] Failed to check sprites:", error);
+  }
+}
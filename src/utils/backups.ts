@@ -0,0 +1,404 @@
+/**
+ * Backup Utilities
+ * Snapshots every asset directory into a timestamped manifest under
+ * backups/, with daily/weekly retention and non-destructive restore.
+ * File bytes live in the content-addressed blob store, so a snapshot is
+ * taken and restored one streamed file at a time and unchanged files are
+ * shared between backups.
+ */
+
+import type { StorageBackend } from "../storage/types";
+import { getAllFiles } from "./file-helpers";
+import { commitVersioned } from "./version-history";
+import { moveToTrash } from "./trash";
+import { resolveAssetPath, UnsafePathError } from "./safe-path";
+import { blobKey, hashBlob, stageContent } from "./content-store";
+
+/**
+ * Backup settings (reported by /api/config)
+ */
+export const BACKUP_CONFIG = {
+  enabled: process.env.ENABLE_BACKUPS === "true",
+  intervalHours: parseFloat(process.env.BACKUP_INTERVAL_HOURS || "24"),
+  keepDaily: parseInt(process.env.BACKUP_KEEP_DAILY || "7", 10),
+  keepWeekly: parseInt(process.env.BACKUP_KEEP_WEEKLY || "4", 10),
+};
+
+export const BACKUP_PREFIX = "backups";
+
+const BACKUP_ID_PATTERN = /^backup-\d{8}T\d{9}Z$/;
+
+export interface BackupInfo {
+  id: string;
+  createdAt: string;
+  trigger: "manual" | "scheduled";
+  directories: string[];
+  fileCount: number;
+  totalSize: number;
+  /**
+   * Bytes of content this backup added to the blob store (content that was
+   * already stored by an upload or an earlier backup is not counted)
+   */
+  storedSize: number;
+}
+
+interface SnapshotEntry {
+  path: string;
+  hash: string;
+  size: number;
+  modified: string;
+}
+
+export interface RestoreSummary {
+  restored: number;
+  unchanged: number;
+  pruned: number;
+  /**
+   * Paths that were rewritten or trashed, for the asset change hooks
+   */
+  changedPaths: string[];
+}
+
+function infoKey(id: string): string {
+  return `${BACKUP_PREFIX}/${id}.json`;
+}
+
+function snapshotKey(id: string): string {
+  return `${BACKUP_PREFIX}/${id}.files.json`;
+}
+
+/**
+ * Backup IDs embed their creation time, e.g. "backup-20260101T120000000Z"
+ */
+function createBackupId(date: Date): string {
+  return `backup-${date.toISOString().replace(/[-:.]/g, "")}`;
+}
+
+export function isBackupId(id: string): boolean {
+  return BACKUP_ID_PATTERN.test(id);
+}
+
+async function readJson<T>(
+  storage: StorageBackend,
+  key: string,
+): Promise<T | null> {
+  const data = await storage.read(key);
+  return data ? (JSON.parse(new TextDecoder().decode(data)) as T) : null;
+}
+
+/**
+ * Make sure a file's current bytes are in the blob store
+ * Returns the stored hash and how many bytes had to be written
+ */
+async function snapshotFile(
+  storage: StorageBackend,
+  path: string,
+): Promise<{ hash: string; size: number; stored: number } | null> {
+  const blob = await storage.streamRange(path);
+  if (!blob) {
+    return null;
+  }
+
+  // Most files were stored when they were uploaded
+  const hash = await hashBlob(blob);
+  if (await storage.stat(blobKey(hash))) {
+    return { hash, size: blob.size, stored: 0 };
+  }
+
+  // Copy through a temp key and keep whatever hash was actually copied,
+  // in case the file changed since it was hashed
+  const source = await storage.streamRange(path);
+  if (!source) {
+    return null;
+  }
+  const staged = await stageContent(storage, source.stream());
+  if (await storage.stat(blobKey(staged.hash))) {
+    await storage.delete(staged.tempKey);
+    return { hash: staged.hash, size: staged.size, stored: 0 };
+  }
+  await storage.rename(staged.tempKey, blobKey(staged.hash));
+  return { hash: staged.hash, size: staged.size, stored: staged.size };
+}
+
+/**
+ * Check whether a path still holds the content recorded in a snapshot
+ */
+async function matchesSnapshot(
+  storage: StorageBackend,
+  key: string,
+  entry: SnapshotEntry,
+): Promise<boolean> {
+  const stat = await storage.stat(key);
+  if (!stat || stat.size !== entry.size) {
+    return false;
+  }
+  const blob = await storage.streamRange(key);
+  return blob !== null && (await hashBlob(blob)) === entry.hash;
+}
+
+/**
+ * Snapshot all asset directories into a new backup
+ */
+export async function createBackup(
+  storage: StorageBackend,
+  assetDirs: string[],
+  trigger: BackupInfo["trigger"],
+): Promise<BackupInfo> {
+  const createdAt = new Date();
+  const id = createBackupId(createdAt);
+  const files: SnapshotEntry[] = [];
+  let totalSize = 0;
+  let storedSize = 0;
+
+  for (const dir of assetDirs) {
+    for (const file of await getAllFiles(storage, dir)) {
+      const snapshot = await snapshotFile(storage, file.path);
+      if (!snapshot) {
+        continue;
+      }
+      files.push({
+        path: file.path,
+        hash: snapshot.hash,
+        size: snapshot.size,
+        modified: file.modified,
+      });
+      totalSize += snapshot.size;
+      storedSize += snapshot.stored;
+    }
+  }
+
+  await storage.write(snapshotKey(id), JSON.stringify(files));
+
+  const info: BackupInfo = {
+    id,
+    createdAt: createdAt.toISOString(),
+    trigger,
+    directories: assetDirs,
+    fileCount: files.length,
+    totalSize,
+    storedSize,
+  };
+  await storage.write(infoKey(id), JSON.stringify(info, null, 2));
+
+  return info;
+}
+
+/**
+ * List all backups, newest first
+ */
+export async function listBackups(
+  storage: StorageBackend,
+): Promise<BackupInfo[]> {
+  const backups: BackupInfo[] = [];
+
+  for (const entry of await storage.list(BACKUP_PREFIX)) {
+    const id = entry.key.slice(BACKUP_PREFIX.length + 1, -".json".length);
+    if (entry.key !== infoKey(id) || !isBackupId(id)) {
+      continue;
+    }
+    const info = await readJson<BackupInfo>(storage, entry.key);
+    if (info) {
+      backups.push(info);
+    }
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Restore every file from a backup
+ * Files whose content has not changed since the backup are left alone;
+ * the others are written as new revisions so the restore itself can be
+ * rolled back. With prune, files created after the backup are trashed.
+ */
+export async function restoreBackup(
+  storage: StorageBackend,
+  id: string,
+  options: { prune?: boolean; restoredBy: string | null },
+): Promise<RestoreSummary | null> {
+  if (!isBackupId(id)) {
+    return null;
+  }
+
+  const info = await readJson<BackupInfo>(storage, infoKey(id));
+  const files = await readJson<SnapshotEntry[]>(storage, snapshotKey(id));
+  if (!info || !files) {
+    return null;
+  }
+
+  const archivedPaths = new Set<string>();
+  const changedPaths: string[] = [];
+  let restored = 0;
+  let unchanged = 0;
+  let pruned = 0;
+
+  for (const entry of files) {
+    // Skip anything outside the backed-up asset directories
+    let key: string;
+    try {
+      key = resolveAssetPath(entry.path, info.directories);
+    } catch (error) {
+      if (error instanceof UnsafePathError) {
+        console.warn(`[Backups] Skipping unsafe entry: ${entry.path}`);
+        continue;
+      }
+      throw error;
+    }
+    archivedPaths.add(key);
+
+    if (await matchesSnapshot(storage, key, entry)) {
+      unchanged++;
+      continue;
+    }
+
+    const blob = await storage.streamRange(blobKey(entry.hash));
+    if (!blob) {
+      throw new Error(`Blob for ${entry.path} in ${id} is missing`);
+    }
+    const staged = await stageContent(storage, blob.stream());
+    await commitVersioned(storage, key, staged, options.restoredBy);
+    changedPaths.push(key);
+    restored++;
+  }
+
+  if (options.prune) {
+    for (const dir of info.directories) {
+      for (const file of await getAllFiles(storage, dir)) {
+        if (
+          !archivedPaths.has(file.path) &&
+          (await moveToTrash(storage, file.path, options.restoredBy))
+        ) {
+          changedPaths.push(file.path);
+          pruned++;
+        }
+      }
+    }
+  }
+
+  return { restored, unchanged, pruned, changedPaths };
+}
+
+/**
+ * ISO-8601 week key like "2026-W03"
+ */
+function isoWeek(date: Date): string {
+  const d = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Pick which backups survive retention: the newest backup of each of the
+ * last `keepDaily` days and of each of the last `keepWeekly` weeks
+ */
+export function selectBackupsToKeep(
+  backups: BackupInfo[],
+  keepDaily: number,
+  keepWeekly: number,
+): Set<string> {
+  const keep = new Set<string>();
+  const newestFirst = [...backups].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+
+  const buckets: Array<[number, (date: Date) => string]> = [
+    [keepDaily, (date) => date.toISOString().slice(0, 10)],
+    [keepWeekly, isoWeek],
+  ];
+
+  for (const [limit, bucketOf] of buckets) {
+    const seen = new Set<string>();
+    for (const backup of newestFirst) {
+      const bucket = bucketOf(new Date(backup.createdAt));
+      if (seen.has(bucket)) {
+        continue;
+      }
+      if (seen.size >= limit) {
+        break;
+      }
+      seen.add(bucket);
+      keep.add(backup.id);
+    }
+  }
+
+  return keep;
+}
+
+/**
+ * Delete backups that fall outside the retention rules
+ * Returns the IDs of deleted backups
+ */
+export async function applyBackupRetention(
+  storage: StorageBackend,
+): Promise<string[]> {
+  const backups = await listBackups(storage);
+  const keep = selectBackupsToKeep(
+    backups,
+    BACKUP_CONFIG.keepDaily,
+    BACKUP_CONFIG.keepWeekly,
+  );
+  const removed: string[] = [];
+
+  for (const backup of backups) {
+    if (!keep.has(backup.id)) {
+      // Blobs stay in the content store, where uploads and version
+      // history may still reference them
+      await storage.delete(snapshotKey(backup.id));
+      await storage.delete(infoKey(backup.id));
+      removed.push(backup.id);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Run a backup every BACKUP_INTERVAL_HOURS when ENABLE_BACKUPS=true
+ */
+export function scheduleBackups(
+  storage: StorageBackend,
+  assetDirs: string[],
+): Timer | null {
+  if (!BACKUP_CONFIG.enabled) {
+    console.log("[Backups] Scheduled backups disabled (ENABLE_BACKUPS!=true)");
+    return null;
+  }
+
+  let running = false;
+  const timer = setInterval(
+    async () => {
+      // Skip this tick if the previous backup is still running
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const info = await createBackup(storage, assetDirs, "scheduled");
+        console.log(
+          `[Backups] Created ${info.id} (${info.fileCount} files, ${info.storedSize} bytes stored)`,
+        );
+        const removed = await applyBackupRetention(storage);
+        if (removed.length > 0) {
+          console.log(`[Backups] Removed ${removed.length} expired backup(s)`);
+        }
+      } catch (error) {
+        console.error("[Backups] Scheduled backup failed:", error);
+      } finally {
+        running = false;
+      }
+    },
+    BACKUP_CONFIG.intervalHours * 60 * 60 * 1000,
+  );
+
+  // Don't keep the process alive just for backups
+  timer.unref();
+  console.log(
+    `[Backups] Scheduled every ${BACKUP_CONFIG.intervalHours}h (keep ${BACKUP_CONFIG.keepDaily} daily, ${BACKUP_CONFIG.keepWeekly} weekly)`,
+  );
+  return timer;
+}
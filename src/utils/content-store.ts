@@ -0,0 +1,154 @@
+/**
+ * Content-Addressed Blob Store
+ * Every uploaded file is also stored under its SHA-256 hash so it can be
+ * served from a truly immutable /v/<hash>/<name> URL
+ */
+
+import type { StorageBackend, StorageWriteData } from "../storage/types";
+import { systemKey } from "../storage/keys";
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Compute the hex SHA-256 digest of file contents
+ */
+export function hashContent(data: Uint8Array | ArrayBuffer | string): string {
+  return new Bun.CryptoHasher("sha256").update(data).digest("hex");
+}
+
+export interface HashingStream {
+  stream: ReadableStream<Uint8Array>;
+  /**
+   * Hex SHA-256 of everything that passed through (call after the stream ends)
+   */
+  digest(): string;
+  /**
+   * Number of bytes that passed through so far
+   */
+  bytes(): number;
+}
+
+/**
+ * Wrap a stream so its SHA-256 and size are computed while it is consumed
+ */
+export function createHashingStream(
+  source: ReadableStream<Uint8Array>,
+): HashingStream {
+  const hasher = new Bun.CryptoHasher("sha256");
+  let size = 0;
+
+  const stream = source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hasher.update(chunk);
+        size += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  return {
+    stream,
+    digest: () => hasher.digest("hex"),
+    bytes: () => size,
+  };
+}
+
+/**
+ * Hash a blob chunk by chunk without reading it fully into memory
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  const reader = blob.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return hasher.digest("hex");
+}
+
+export interface StagedContent {
+  /**
+   * Temporary storage key holding the bytes until they are committed
+   */
+  tempKey: string;
+  hash: string;
+  size: number;
+}
+
+/**
+ * Stream content into a temporary key under .cdn/tmp while hashing it
+ * Nothing is visible at a public path until the caller renames the temp
+ * key into place. Throws RangeError (and removes the partial temp file)
+ * if the content exceeds maxBytes.
+ */
+export async function stageContent(
+  storage: StorageBackend,
+  source: ReadableStream<Uint8Array>,
+  maxBytes = Infinity,
+): Promise<StagedContent> {
+  const tempKey = systemKey("tmp", crypto.randomUUID());
+  let received = 0;
+  const hashing = createHashingStream(
+    source.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          received += chunk.byteLength;
+          if (received > maxBytes) {
+            controller.error(
+              new RangeError(`Content exceeds ${maxBytes} bytes`),
+            );
+            return;
+          }
+          controller.enqueue(chunk);
+        },
+      }),
+    ),
+  );
+
+  try {
+    await storage.write(tempKey, hashing.stream);
+  } catch (error) {
+    await storage.delete(tempKey).catch(() => false);
+    throw error;
+  }
+
+  return { tempKey, hash: hashing.digest(), size: hashing.bytes() };
+}
+
+/**
+ * Check that a string looks like a SHA-256 hex digest
+ */
+export function isContentHash(hash: string): boolean {
+  return HASH_PATTERN.test(hash);
+}
+
+/**
+ * Storage key for a blob (sharded by the first two hex characters)
+ */
+export function blobKey(hash: string): string {
+  return systemKey("blobs", hash.slice(0, 2), hash);
+}
+
+/**
+ * Store content under its hash (no-op if the blob already exists)
+ */
+export async function storeBlob(
+  storage: StorageBackend,
+  hash: string,
+  data: StorageWriteData,
+): Promise<void> {
+  const key = blobKey(hash);
+  if (await storage.stat(key)) {
+    return;
+  }
+  await storage.write(key, data);
+}
+
+/**
+ * Relative URL path for a versioned file, e.g. "v/<hash>/sword.glb"
+ */
+export function versionedPath(hash: string, name: string): string {
+  return `v/${hash}/${encodeURIComponent(name)}`;
+}
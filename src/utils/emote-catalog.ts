@@ -0,0 +1,257 @@
+/**
+ * Emote Catalog
+ * Builds the list of emotes from the GLBs in the emotes directory, with
+ * clip durations, a loop hint, the bones each emote animates and an
+ * optional compatibility check against a reference skeleton. Entries are
+ * cached per file ETag and the directory is listed on every build, so
+ * uploads and deletions show up immediately.
+ */
+
+import { createHash } from "crypto";
+import type { StorageBackend } from "../storage/types";
+import { generateETag } from "./range-handler";
+import {
+  readAccessorElement,
+  readGltf,
+  storageSource,
+  type GltfDocument,
+} from "./gltf";
+import { inspectGltf, inspectStoredModel } from "./gltf-inspect";
+
+export const EMOTES_DIR = "emotes";
+
+// Skeleton the catalog checks emotes against when no ?reference is given
+export const DEFAULT_REFERENCE_SKELETON =
+  process.env.EMOTE_REFERENCE_SKELETON || "";
+
+// Largest rotation (degrees) between the first and last keyframes of a
+// bone for the clip to still count as looping; mocap loops are rarely exact
+const LOOP_MAX_ANGLE = 10;
+
+export interface EmoteClip {
+  name: string;
+  duration: number;
+  channels: number;
+  /**
+   * True when every animated rotation ends where it started
+   */
+  loop: boolean;
+}
+
+export interface EmoteCompatibility {
+  compatible: boolean;
+  matched: number;
+  /**
+   * Animated bones the reference skeleton does not have
+   */
+  missing: string[];
+}
+
+export interface EmoteEntry {
+  id: string;
+  path: string;
+  url: string;
+  size: number;
+  modified: string;
+  duration: number;
+  loop: boolean;
+  clips: EmoteClip[];
+  bones: string[];
+  compatibility: EmoteCompatibility | null;
+}
+
+export interface ReferenceSkeleton {
+  path: string;
+  etag: string;
+  bones: string[];
+}
+
+// Catalog entries keyed by storage key, valid while the ETag matches
+const entryCache = new Map<
+  string,
+  { etag: string; entry: Omit<EmoteEntry, "compatibility"> }
+>();
+
+/**
+ * Compare bone names without rig namespaces ("mixamorig:Hips" and
+ * "mixamorig1:Hips" are the same bone)
+ */
+export function normalizeBoneName(name: string): string {
+  return name.slice(name.lastIndexOf(":") + 1).toLowerCase();
+}
+
+/**
+ * Whether each clip returns to its starting pose (rotation channels only,
+ * so root motion does not prevent a walk or run from looping)
+ */
+async function detectLoops(doc: GltfDocument): Promise<boolean[]> {
+  const loops: boolean[] = [];
+  for (const animation of doc.json.animations ?? []) {
+    let loop = true;
+    for (const channel of animation.channels ?? []) {
+      const sampler = animation.samplers?.[channel.sampler];
+      const output = sampler ? doc.json.accessors?.[sampler.output] : undefined;
+      if (!sampler || !output || channel.target?.path !== "rotation") {
+        continue;
+      }
+
+      // Cubic spline outputs store in-tangent, value, out-tangent per key
+      const cubic = sampler.interpolation === "CUBICSPLINE";
+      const keys = cubic ? output.count / 3 : output.count;
+      const element = (key: number) => (cubic ? key * 3 + 1 : key);
+      const [first, last] = await Promise.all([
+        readAccessorElement(doc, sampler.output, element(0)),
+        readAccessorElement(doc, sampler.output, element(keys - 1)),
+      ]);
+      if (!first || !last) {
+        loop = false;
+        break;
+      }
+
+      const dot = first.reduce((sum, v, i) => sum + v * last[i], 0);
+      const angle = (2 * Math.acos(Math.min(1, Math.abs(dot))) * 180) / Math.PI;
+      if (angle > LOOP_MAX_ANGLE) {
+        loop = false;
+        break;
+      }
+    }
+    loops.push(loop);
+  }
+  return loops;
+}
+
+async function describeEmote(
+  storage: StorageBackend,
+  key: string,
+  size: number,
+  lastModified: number,
+): Promise<Omit<EmoteEntry, "compatibility">> {
+  const doc = await readGltf(storageSource(storage, key, size));
+  const inspection = inspectGltf(doc);
+  const loops = await detectLoops(doc);
+
+  const clips = inspection.animations.map((clip, i) => ({
+    name: clip.name,
+    duration: clip.duration,
+    channels: clip.channels,
+    loop: loops[i],
+  }));
+  const bones = [
+    ...new Set(inspection.animations.flatMap((clip) => clip.targets)),
+  ];
+  const relativePath = key.slice(EMOTES_DIR.length + 1);
+
+  return {
+    id: relativePath.replace(/\.glb$/i, ""),
+    path: key,
+    url: `/${key}`,
+    size,
+    modified: new Date(lastModified).toISOString(),
+    duration: Math.max(0, ...clips.map((clip) => clip.duration)),
+    loop: clips.length > 0 && clips.every((clip) => clip.loop),
+    clips,
+    bones,
+  };
+}
+
+/**
+ * Load the bone names of a reference model's skin
+ * Returns null if the file is missing or has no skeleton
+ */
+export async function loadReferenceSkeleton(
+  storage: StorageBackend,
+  key: string,
+): Promise<ReferenceSkeleton | null> {
+  const result = await inspectStoredModel(storage, key);
+  if (!result || result.inspection.skeleton.bones.length === 0) {
+    return null;
+  }
+  return {
+    path: key,
+    etag: result.etag,
+    bones: result.inspection.skeleton.bones,
+  };
+}
+
+export function checkCompatibility(
+  bones: string[],
+  reference: ReferenceSkeleton,
+): EmoteCompatibility {
+  const known = new Set(reference.bones.map(normalizeBoneName));
+  const missing = bones.filter((bone) => !known.has(normalizeBoneName(bone)));
+  return {
+    compatible: missing.length === 0,
+    matched: bones.length - missing.length,
+    missing,
+  };
+}
+
+/**
+ * Build the catalog of every animated GLB under the emotes directory
+ * The returned etag changes whenever an emote or the reference changes
+ */
+export async function buildEmoteCatalog(
+  storage: StorageBackend,
+  reference: ReferenceSkeleton | null = null,
+): Promise<{ etag: string; emotes: EmoteEntry[] }> {
+  const files = (await storage.list(EMOTES_DIR))
+    .filter((file) => file.key.toLowerCase().endsWith(".glb"))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const emotes: EmoteEntry[] = [];
+  const fingerprint = createHash("sha256").update(
+    reference ? `${reference.path}\0${reference.etag}\0` : "",
+  );
+
+  for (const file of files) {
+    const etag = generateETag(file.size, file.lastModified);
+    let cached = entryCache.get(file.key);
+
+    if (cached?.etag !== etag) {
+      try {
+        cached = {
+          etag,
+          entry: await describeEmote(
+            storage,
+            file.key,
+            file.size,
+            file.lastModified,
+          ),
+        };
+        entryCache.set(file.key, cached);
+      } catch (error) {
+        console.warn(
+          `[Emotes] Skipping ${file.key}:`,
+          error instanceof Error ? error.message : error,
+        );
+        entryCache.delete(file.key);
+        continue;
+      }
+    }
+    fingerprint.update(`${file.key}\0${etag}\0`);
+
+    // Static meshes (e.g. base-environment.glb) are not emotes
+    if (cached.entry.clips.length === 0) {
+      continue;
+    }
+    emotes.push({
+      ...cached.entry,
+      compatibility: reference
+        ? checkCompatibility(cached.entry.bones, reference)
+        : null,
+    });
+  }
+
+  // Forget files that were deleted or renamed
+  const present = new Set(files.map((file) => file.key));
+  for (const key of entryCache.keys()) {
+    if (!present.has(key)) {
+      entryCache.delete(key);
+    }
+  }
+
+  return {
+    etag: `"${fingerprint.digest("hex").slice(0, 32)}"`,
+    emotes,
+  };
+}
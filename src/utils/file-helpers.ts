@@ -3,8 +3,19 @@
  * Recursive file listing and path manipulation
  */
 
-import { join, extname, relative } from "path";
-import { readdirSync, statSync } from "fs";
+import { basename, extname } from "path";
+import type {
+  FileIndex,
+  MetadataValue,
+  FileSortField,
+  IndexedFile,
+} from "../storage/file-index";
+import type { StorageBackend, StorageEntry } from "../storage/types";
+import type { AudioMetadata } from "./audio-metadata";
+import type { GenerationRecord } from "./generation-meta";
+
+export const DEFAULT_PAGE_SIZE = 500;
+export const MAX_PAGE_SIZE = 5000;
 
 export interface FileInfo {
   path: string;
@@ -12,45 +23,133 @@ export interface FileInfo {
   size: number;
   modified: string;
   type: string;
+  hash?: string | null;
+  assetId?: string | null;
+  audio?: AudioMetadata;
+  tags?: string[];
+  metadata?: Record<string, MetadataValue>;
+  generationRun?: string | null;
+  generation?: GenerationRecord;
+}
+
+function toFileInfo(entry: StorageEntry): FileInfo {
+  return {
+    path: entry.key,
+    name: basename(entry.key),
+    size: entry.size,
+    modified: new Date(entry.lastModified).toISOString(),
+    type: extname(entry.key),
+  };
+}
+
+/**
+ * Listing entry for a file from the index, with its hash, asset ID,
+ * generation run and audio metadata
+ */
+export function indexedFileInfo(file: IndexedFile): FileInfo {
+  return {
+    ...toFileInfo(file),
+    hash: file.hash,
+    assetId: file.assetId,
+    generationRun: file.generationRun,
+    ...(file.audio && { audio: file.audio }),
+  };
+}
+
+/**
+ * Attach the generation records of listed files that have one
+ */
+export function withGenerations(
+  index: FileIndex,
+  files: FileInfo[],
+): FileInfo[] {
+  const records = index.generations(files.map((file) => file.path));
+  for (const file of files) {
+    const record = records.get(file.path);
+    if (record) {
+      file.generation = record;
+    }
+  }
+  return files;
 }
 
 /**
  * Recursively get all files in a directory with metadata
+ * Paths are returned relative to the storage root
  */
-export function getAllFiles(dir: string, fileList: FileInfo[] = []): FileInfo[] {
+export async function getAllFiles(
+  storage: StorageBackend,
+  dir: string,
+): Promise<FileInfo[]> {
   try {
-    const files = readdirSync(dir);
-    files.forEach((file) => {
-      const filePath = join(dir, file);
-      try {
-        const stat = statSync(filePath);
-        if (stat.isDirectory()) {
-          getAllFiles(filePath, fileList);
-        } else {
-          fileList.push({
-            path: filePath,
-            name: file,
-            size: stat.size,
-            modified: stat.mtime.toISOString(),
-            type: extname(file),
-          });
-        }
-      } catch (err) {
-        console.error(`Error reading ${filePath}:`, err);
-      }
-    });
+    const entries = await storage.list(dir);
+    return entries.map(toFileInfo);
   } catch (err) {
     console.error(`Error reading directory ${dir}:`, err);
+    return [];
   }
-  return fileList;
 }
 
 /**
- * Convert absolute paths to relative paths for API responses
+ * Query parameters of the file listing routes (see FileListQuery)
  */
-export function toRelativePaths(files: FileInfo[], rootDir: string): FileInfo[] {
-  return files.map((file) => ({
-    ...file,
-    path: relative(rootDir, file.path),
-  }));
+export interface FileListOptions {
+  prefix?: string;
+  /**
+   * Comma-separated extensions, e.g. "glb,.png"
+   */
+  ext?: string;
+  minSize?: number;
+  maxSize?: number;
+  /**
+   * ISO date or milliseconds since epoch
+   */
+  modifiedSince?: string;
+  name?: string;
+  sort?: FileSortField;
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * One page of indexed files in the asset directories matching listing
+ * parameters. Throws RangeError for an unparseable modifiedSince and
+ * InvalidCursorError for a bad cursor.
+ */
+export function queryFiles(
+  index: FileIndex,
+  assetDirs: string[],
+  options: FileListOptions,
+): { files: FileInfo[]; total: number; nextCursor: string | null } {
+  let modifiedSince: number | undefined;
+  if (options.modifiedSince) {
+    modifiedSince = /^\d+$/.test(options.modifiedSince)
+      ? Number(options.modifiedSince)
+      : Date.parse(options.modifiedSince);
+    if (Number.isNaN(modifiedSince)) {
+      throw new RangeError("modifiedSince must be an ISO date or epoch ms");
+    }
+  }
+
+  const page = index.query({
+    directories: assetDirs,
+    prefix: options.prefix,
+    extensions: options.ext
+      ?.split(",")
+      .map((ext) => ext.trim())
+      .filter(Boolean),
+    minSize: options.minSize,
+    maxSize: options.maxSize,
+    modifiedSince,
+    name: options.name,
+    sort: options.sort,
+    order: options.order,
+    limit: Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    cursor: options.cursor,
+  });
+  return {
+    ...page,
+    files: withGenerations(index, page.files.map(indexedFileInfo)),
+  };
 }
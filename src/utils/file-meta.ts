@@ -0,0 +1,311 @@
+/**
+ * File and Asset Metadata
+ * Tags and key/value metadata attached to files (by path) or assets (by
+ * directory-scoped asset ID, e.g. models/sword). Records live under
+ * .cdn/meta so they survive index rebuilds and are mirrored into the file
+ * index for search. Like version history they are keyed by path, so a
+ * file restored from the trash keeps them.
+ */
+
+import type {
+  FileIndex,
+  FileMeta,
+  MetaKind,
+  MetadataValue,
+} from "../storage/file-index";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+
+export const MAX_TAGS = 50;
+export const MAX_TAG_LENGTH = 64;
+export const MAX_METADATA_KEYS = 50;
+export const MAX_METADATA_KEY_LENGTH = 64;
+export const MAX_METADATA_VALUE_LENGTH = 1024;
+
+const META_PREFIX = systemKey("meta");
+
+export interface MetaRecord extends FileMeta {
+  kind: MetaKind;
+  /**
+   * File path or asset ID
+   */
+  ref: string;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+/**
+ * Changes to a record: tags replaces the tag list (before addTags and
+ * removeTags apply), metadata is merged and null values remove keys
+ */
+export interface MetaUpdate {
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  metadata?: Record<string, MetadataValue | null>;
+}
+
+/**
+ * Tags or metadata that are malformed or over the limits
+ */
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MetadataError";
+  }
+}
+
+function metaKey(kind: MetaKind, ref: string): string {
+  return systemKey("meta", kind === "file" ? "files" : "assets", `${ref}.json`);
+}
+
+/**
+ * Trim, lower-case and de-duplicate tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = new Set<string>();
+  for (const raw of tags) {
+    const tag = raw.trim().toLowerCase();
+    if (!tag) {
+      continue;
+    }
+    if (tag.length > MAX_TAG_LENGTH || /[,\p{Cc}]/u.test(tag)) {
+      throw new MetadataError(
+        `Invalid tag "${tag}" (at most ${MAX_TAG_LENGTH} characters, no commas)`,
+      );
+    }
+    normalized.add(tag);
+  }
+  if (normalized.size > MAX_TAGS) {
+    throw new MetadataError(`At most ${MAX_TAGS} tags are allowed`);
+  }
+  return [...normalized];
+}
+
+/**
+ * Tags from a comma-separated form field or query parameter
+ */
+export function parseTagList(value: string): string[] {
+  return normalizeTags(value.split(","));
+}
+
+/**
+ * Check a metadata object: string keys with string, number or boolean
+ * values (null removes a key when updating)
+ */
+export function parseMetadata(
+  value: unknown,
+): Record<string, MetadataValue | null> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new MetadataError("Metadata must be a JSON object");
+  }
+  const metadata: Record<string, MetadataValue | null> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!key.trim() || key.length > MAX_METADATA_KEY_LENGTH) {
+      throw new MetadataError(
+        `Invalid metadata key "${key}" (1-${MAX_METADATA_KEY_LENGTH} characters)`,
+      );
+    }
+    if (
+      entry !== null &&
+      typeof entry !== "boolean" &&
+      !(typeof entry === "number" && Number.isFinite(entry)) &&
+      !(typeof entry === "string" && entry.length <= MAX_METADATA_VALUE_LENGTH)
+    ) {
+      throw new MetadataError(
+        `Invalid value for metadata key "${key}" (string up to ${MAX_METADATA_VALUE_LENGTH} characters, number or boolean)`,
+      );
+    }
+    metadata[key] = entry;
+  }
+  return metadata;
+}
+
+/**
+ * Metadata from a JSON form field
+ */
+export function parseMetadataField(
+  text: string,
+): Record<string, MetadataValue | null> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new MetadataError("Metadata must be a JSON object");
+  }
+  return parseMetadata(value);
+}
+
+export async function readMeta(
+  storage: StorageBackend,
+  kind: MetaKind,
+  ref: string,
+): Promise<MetaRecord | null> {
+  const data = await storage.read(metaKey(kind, ref));
+  if (!data) {
+    return null;
+  }
+  return JSON.parse(new TextDecoder().decode(data)) as MetaRecord;
+}
+
+/**
+ * Apply an update to the tags and metadata of a file or asset. A record
+ * left without tags or metadata is removed.
+ */
+export async function updateMeta(
+  storage: StorageBackend,
+  index: FileIndex,
+  kind: MetaKind,
+  ref: string,
+  update: MetaUpdate,
+  updatedBy: string | null,
+): Promise<MetaRecord> {
+  const current = await readMeta(storage, kind, ref);
+
+  const tags = new Set(
+    update.tags ? normalizeTags(update.tags) : (current?.tags ?? []),
+  );
+  for (const tag of normalizeTags(update.addTags ?? [])) {
+    tags.add(tag);
+  }
+  for (const tag of normalizeTags(update.removeTags ?? [])) {
+    tags.delete(tag);
+  }
+
+  const metadata: Record<string, MetadataValue> = { ...current?.metadata };
+  for (const [key, value] of Object.entries(
+    parseMetadata(update.metadata ?? {}),
+  )) {
+    if (value === null) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  if (tags.size > MAX_TAGS) {
+    throw new MetadataError(`At most ${MAX_TAGS} tags are allowed`);
+  }
+  if (Object.keys(metadata).length > MAX_METADATA_KEYS) {
+    throw new MetadataError(
+      `At most ${MAX_METADATA_KEYS} metadata keys are allowed`,
+    );
+  }
+
+  const record: MetaRecord = {
+    kind,
+    ref,
+    tags: [...tags],
+    metadata,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+  if (record.tags.length === 0 && Object.keys(metadata).length === 0) {
+    await storage.delete(metaKey(kind, ref));
+    index.setMeta(kind, ref, null);
+  } else {
+    await storage.write(metaKey(kind, ref), JSON.stringify(record, null, 2));
+    index.setMeta(kind, ref, { tags: record.tags, metadata });
+  }
+  return record;
+}
+
+/**
+ * Move a file's tags and metadata along with a rename
+ */
+export async function renameFileMeta(
+  storage: StorageBackend,
+  index: FileIndex,
+  fromPath: string,
+  toPath: string,
+): Promise<void> {
+  const record = await readMeta(storage, "file", fromPath);
+  if (!record) {
+    return;
+  }
+  record.ref = toPath;
+  await storage.write(metaKey("file", toPath), JSON.stringify(record, null, 2));
+  await storage.delete(metaKey("file", fromPath));
+  index.setMeta("file", fromPath, null);
+  index.setMeta("file", toPath, {
+    tags: record.tags,
+    metadata: record.metadata,
+  });
+}
+
+/**
+ * Move an asset record stored under a bare folder name (before asset IDs
+ * included the directory) to every asset with that folder name, which is
+ * what it applied to. Returns the records written; a record no current
+ * asset matches is left in place.
+ */
+async function migrateBareAssetMeta(
+  storage: StorageBackend,
+  index: FileIndex,
+  record: MetaRecord,
+): Promise<MetaRecord[]> {
+  const refs = index.assetIdsNamed(record.ref);
+  if (refs.length === 0) {
+    console.warn(
+      `[Meta] No asset named "${record.ref}" to move its tags and metadata to`,
+    );
+    return [];
+  }
+
+  const migrated: MetaRecord[] = [];
+  for (const ref of refs) {
+    // A record already kept under the scoped ID is newer
+    const existing = await readMeta(storage, "asset", ref);
+    if (existing) {
+      continue;
+    }
+    const scoped = { ...record, ref };
+    await storage.write(metaKey("asset", ref), JSON.stringify(scoped, null, 2));
+    migrated.push(scoped);
+  }
+  await storage.delete(metaKey("asset", record.ref));
+  console.log(
+    `[Meta] Moved tags and metadata of asset "${record.ref}" to ${refs.join(", ")}`,
+  );
+  return migrated;
+}
+
+/**
+ * Load every stored record into the index and drop index entries without
+ * one (the index may be new or out of date at startup)
+ */
+export async function syncMetaIndex(
+  storage: StorageBackend,
+  index: FileIndex,
+): Promise<number> {
+  const stored = new Set<string>();
+  for (const entry of await storage.list(META_PREFIX)) {
+    if (!entry.key.endsWith(".json")) {
+      continue;
+    }
+    try {
+      const data = await storage.read(entry.key);
+      if (!data) {
+        continue;
+      }
+      const record = JSON.parse(new TextDecoder().decode(data)) as MetaRecord;
+      const records =
+        record.kind === "asset" && !record.ref.includes("/")
+          ? await migrateBareAssetMeta(storage, index, record)
+          : [record];
+      for (const { kind, ref, tags, metadata } of records) {
+        index.setMeta(kind, ref, { tags, metadata });
+        stored.add(`${kind}:${ref}`);
+      }
+    } catch (error) {
+      console.error(`[Meta] Failed to load ${entry.key}:`, error);
+    }
+  }
+
+  for (const { kind, ref } of index.allMeta()) {
+    if (!stored.has(`${kind}:${ref}`)) {
+      index.setMeta(kind, ref, null);
+    }
+  }
+  return stored.size;
+}
@@ -4,6 +4,8 @@
  */
 
 import type { Context } from "elysia";
+import type { StorageBackend } from "../storage/types";
+import { normalizeRelativePath } from "./safe-path";
 import {
   parseRangeHeader,
   generateContentRangeHeader,
@@ -12,19 +14,39 @@ import {
   type RangeResult,
 } from "./range-handler";
 
+/**
+ * Default max-age for mutable asset paths, which can be overwritten by uploads
+ */
+const MUTABLE_MAX_AGE = parseInt(process.env.CACHE_MAX_AGE || "60", 10);
+
+/**
+ * Max-age for content-addressed paths, which never change
+ */
+export const IMMUTABLE_MAX_AGE = 31536000; // 1 year
+
 export interface ServeFileOptions {
   /**
-   * Cache-Control max-age in seconds (default: 31536000 = 1 year)
+   * Cache-Control max-age in seconds
+   * (default: CACHE_MAX_AGE or 60, or 1 year when immutable)
    */
   maxAge?: number;
   /**
-   * Whether to mark as immutable (default: true)
+   * Whether to mark as immutable (default: false)
+   * Only content-addressed paths should set this
    */
   immutable?: boolean;
   /**
    * Custom Content-Type override
    */
   contentType?: string;
+  /**
+   * Custom ETag override (e.g. a strong content hash)
+   */
+  etag?: string;
+  /**
+   * Extra response headers (e.g. Vary for negotiated variants)
+   */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -32,29 +54,33 @@ export interface ServeFileOptions {
  * Automatically handles:
  * - Range requests for video/audio streaming
  * - ETag generation and If-None-Match conditional requests
- * - Immutable cache headers for CDN optimization
+ * - Short revalidating cache headers (immutable for versioned paths)
  * - Proper 206 Partial Content responses
  * - 304 Not Modified responses
  */
 export async function serveFile(
-  filePath: string,
+  storage: StorageBackend,
+  key: string,
   context: Context,
   options: ServeFileOptions = {},
 ): Promise<Response> {
   const { set, request } = context;
-  const file = Bun.file(filePath);
+  // Keys reaching this point must already be resolved storage keys;
+  // anything that could escape the storage root is rejected (400)
+  key = normalizeRelativePath(key);
+  const stat = await storage.stat(key);
 
   // Check if file exists
-  if (!(await file.exists())) {
+  if (!stat) {
     set.status = 404;
     return new Response("File not found", { status: 404 });
   }
 
-  const fileSize = file.size;
-  const lastModified = file.lastModified;
+  const fileSize = stat.size;
+  const lastModified = stat.lastModified;
 
   // Generate ETag
-  const etag = generateETag(fileSize, lastModified);
+  const etag = options.etag ?? generateETag(fileSize, lastModified);
 
   // Check If-None-Match for conditional requests
   const ifNoneMatch = request.headers.get("if-none-match");
@@ -63,6 +89,7 @@ export async function serveFile(
     return new Response(null, {
       status: 304,
       headers: {
+        ...options.headers,
         ETag: etag,
         "Cache-Control": buildCacheControl(options),
       },
@@ -85,10 +112,11 @@ export async function serveFile(
 
   // Determine content type
   const contentType =
-    options.contentType || file.type || "application/octet-stream";
+    options.contentType || stat.type || "application/octet-stream";
 
   // Build response headers
   const headers: Record<string, string> = {
+    ...options.headers,
     "Content-Type": contentType,
     "Content-Length": range.contentLength.toString(),
     "Accept-Ranges": "bytes",
@@ -102,9 +130,9 @@ export async function serveFile(
     headers["Content-Range"] = generateContentRangeHeader(range);
   }
 
-  // For range requests, use Bun.file().slice()
+  // For range requests, stream only the requested slice
   if (range.isPartial) {
-    const slice = file.slice(range.start, range.end + 1);
+    const slice = await storage.streamRange(key, range);
     return new Response(slice, {
       status: 206, // Partial Content
       headers,
@@ -112,6 +140,7 @@ export async function serveFile(
   }
 
   // Return full file
+  const file = await storage.streamRange(key);
   return new Response(file, {
     status: 200,
     headers,
@@ -122,13 +151,17 @@ export async function serveFile(
  * Build Cache-Control header value
  */
 function buildCacheControl(options: ServeFileOptions): string {
-  const maxAge = options.maxAge ?? 31536000; // Default 1 year
-  const immutable = options.immutable ?? true;
+  const immutable = options.immutable ?? false;
+  const maxAge =
+    options.maxAge ?? (immutable ? IMMUTABLE_MAX_AGE : MUTABLE_MAX_AGE);
 
   const parts = ["public", `max-age=${maxAge}`];
 
   if (immutable) {
     parts.push("immutable");
+  } else {
+    // Mutable paths must be revalidated (cheap 304 via ETag) once stale
+    parts.push("must-revalidate");
   }
 
   return parts.join(", ");
@@ -138,24 +171,27 @@ function buildCacheControl(options: ServeFileOptions): string {
  * Serve file for HEAD requests (no body)
  */
 export async function serveFileHead(
-  filePath: string,
+  storage: StorageBackend,
+  key: string,
   context: Context,
   options: ServeFileOptions = {},
 ): Promise<Response> {
   const { set, request } = context;
-  const file = Bun.file(filePath);
+  // Same key check as serveFile
+  key = normalizeRelativePath(key);
+  const stat = await storage.stat(key);
 
   // Check if file exists
-  if (!(await file.exists())) {
+  if (!stat) {
     set.status = 404;
     return new Response(null, { status: 404 });
   }
 
-  const fileSize = file.size;
-  const lastModified = file.lastModified;
+  const fileSize = stat.size;
+  const lastModified = stat.lastModified;
 
   // Generate ETag
-  const etag = generateETag(fileSize, lastModified);
+  const etag = options.etag ?? generateETag(fileSize, lastModified);
 
   // Check If-None-Match
   const ifNoneMatch = request.headers.get("if-none-match");
@@ -163,6 +199,7 @@ export async function serveFileHead(
     return new Response(null, {
       status: 304,
       headers: {
+        ...options.headers,
         ETag: etag,
         "Cache-Control": buildCacheControl(options),
       },
@@ -171,12 +208,13 @@ export async function serveFileHead(
 
   // Determine content type
   const contentType =
-    options.contentType || file.type || "application/octet-stream";
+    options.contentType || stat.type || "application/octet-stream";
 
   // Return headers only
   return new Response(null, {
     status: 200,
     headers: {
+      ...options.headers,
       "Content-Type": contentType,
       "Content-Length": fileSize.toString(),
       "Accept-Ranges": "bytes",
@@ -0,0 +1,257 @@
+/**
+ * Generation Metadata
+ * Structured records of how generated media was made (prompt, model,
+ * voice, source asset), linked to the file by path under .cdn/generations
+ * and mirrored into the file index for listings and search. Outputs of
+ * one generation run are grouped by the timestamps in their file names:
+ * files in one folder made moments apart (e.g. music_1763075769598.mp3
+ * and voice_1763075769599.wav) belong to the same run.
+ */
+
+import { createHash } from "crypto";
+import { basename } from "path";
+import type { FileIndex, MetadataValue } from "../storage/file-index";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { MetadataError, parseMetadata } from "./file-meta";
+
+// Outputs in one folder whose timestamps are at most this far apart from
+// the previous output belong to the same run
+export const GENERATION_RUN_WINDOW_MS = Number(
+  process.env.GENERATION_RUN_WINDOW_MS ?? 250,
+);
+
+export const MAX_PROMPT_LENGTH = 8192;
+const MAX_FIELD_LENGTH = 256;
+
+const GENERATIONS_PREFIX = systemKey("generations");
+
+// A 13-digit millisecond timestamp not run into other digits
+const TIMESTAMP_PATTERN = /(?:^|\D)(\d{13})(?!\d)/;
+
+export interface GenerationMetadata {
+  prompt?: string;
+  negativePrompt?: string;
+  /**
+   * Generator model, e.g. "eleven_multilingual_v2"
+   */
+  model?: string;
+  provider?: string;
+  voiceId?: string;
+  /**
+   * Asset ID or path the output was generated for
+   */
+  sourceAsset?: string;
+  seed?: number;
+  /**
+   * Other generator settings
+   */
+  parameters?: Record<string, MetadataValue>;
+}
+
+export interface GenerationRecord extends GenerationMetadata {
+  path: string;
+  recordedAt: string;
+  recordedBy: string | null;
+}
+
+const TEXT_FIELDS = [
+  "prompt",
+  "negativePrompt",
+  "model",
+  "provider",
+  "voiceId",
+  "sourceAsset",
+] as const;
+
+const PROMPT_FIELDS = ["prompt", "negativePrompt"];
+
+function generationKey(path: string): string {
+  return systemKey("generations", `${path}.json`);
+}
+
+/**
+ * The millisecond timestamp in a file's name (null for names without one)
+ */
+export function extractGenerationTimestamp(path: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(basename(path));
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * ID of the run starting at a timestamp in a folder: the timestamp and a
+ * short hash of the folder, so runs in different folders never share one
+ */
+export function generationRunId(folder: string, start: number): string {
+  const folderHash = createHash("sha256").update(folder).digest("hex");
+  return `${start}-${folderHash.slice(0, 8)}`;
+}
+
+/**
+ * Check a generation metadata object (unknown fields are rejected so typos
+ * don't silently drop data; extra settings go in parameters)
+ */
+export function parseGenerationMetadata(value: unknown): GenerationMetadata {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new MetadataError("Generation metadata must be a JSON object");
+  }
+
+  const generation: GenerationMetadata = {};
+  for (const [field, entry] of Object.entries(value)) {
+    if ((TEXT_FIELDS as readonly string[]).includes(field)) {
+      const limit = PROMPT_FIELDS.includes(field)
+        ? MAX_PROMPT_LENGTH
+        : MAX_FIELD_LENGTH;
+      if (typeof entry !== "string" || entry.length > limit) {
+        throw new MetadataError(
+          `Generation ${field} must be a string of at most ${limit} characters`,
+        );
+      }
+      generation[field as (typeof TEXT_FIELDS)[number]] = entry;
+    } else if (field === "seed") {
+      if (typeof entry !== "number" || !Number.isFinite(entry)) {
+        throw new MetadataError("Generation seed must be a number");
+      }
+      generation.seed = entry;
+    } else if (field === "parameters") {
+      const parameters = parseMetadata(entry);
+      if (Object.values(parameters).includes(null)) {
+        throw new MetadataError("Generation parameters cannot be null");
+      }
+      generation.parameters = parameters as Record<string, MetadataValue>;
+    } else {
+      throw new MetadataError(
+        `Unknown generation field "${field}" (use parameters for generator settings)`,
+      );
+    }
+  }
+  return generation;
+}
+
+/**
+ * Generation metadata from the upload form field: a JSON object mapping
+ * uploaded file names to their metadata
+ */
+export function parseGenerationField(
+  text: string,
+): Map<string, GenerationMetadata> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new MetadataError("generation must be a JSON object");
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new MetadataError(
+      "generation must be a JSON object keyed by file name",
+    );
+  }
+  return new Map(
+    Object.entries(value).map(([name, entry]) => [
+      name,
+      parseGenerationMetadata(entry),
+    ]),
+  );
+}
+
+/**
+ * Searchable text of a record: its text fields and parameters
+ */
+export function generationSearchText(generation: GenerationMetadata): string {
+  return [
+    ...TEXT_FIELDS.map((field) => generation[field]),
+    ...Object.entries(generation.parameters ?? {}).map(
+      ([name, value]) => `${name} ${value}`,
+    ),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export async function readGeneration(
+  storage: StorageBackend,
+  path: string,
+): Promise<GenerationRecord | null> {
+  const data = await storage.read(generationKey(path));
+  if (!data) {
+    return null;
+  }
+  return JSON.parse(new TextDecoder().decode(data)) as GenerationRecord;
+}
+
+/**
+ * Store the generation metadata of a file, replacing any earlier record
+ */
+export async function writeGeneration(
+  storage: StorageBackend,
+  index: FileIndex,
+  path: string,
+  generation: GenerationMetadata,
+  recordedBy: string | null,
+): Promise<GenerationRecord> {
+  const record: GenerationRecord = {
+    path,
+    ...generation,
+    recordedAt: new Date().toISOString(),
+    recordedBy,
+  };
+  await storage.write(generationKey(path), JSON.stringify(record, null, 2));
+  index.setGeneration(path, record);
+  return record;
+}
+
+/**
+ * Move a file's generation record along with a rename
+ */
+export async function renameGeneration(
+  storage: StorageBackend,
+  index: FileIndex,
+  fromPath: string,
+  toPath: string,
+): Promise<void> {
+  const record = await readGeneration(storage, fromPath);
+  if (!record) {
+    return;
+  }
+  record.path = toPath;
+  await storage.write(generationKey(toPath), JSON.stringify(record, null, 2));
+  await storage.delete(generationKey(fromPath));
+  index.setGeneration(fromPath, null);
+  index.setGeneration(toPath, record);
+}
+
+/**
+ * Load every stored record into the index and drop index entries without
+ * one (the index may be new or out of date at startup)
+ */
+export async function syncGenerationIndex(
+  storage: StorageBackend,
+  index: FileIndex,
+): Promise<number> {
+  const stored = new Set<string>();
+  for (const entry of await storage.list(GENERATIONS_PREFIX)) {
+    if (!entry.key.endsWith(".json")) {
+      continue;
+    }
+    try {
+      const data = await storage.read(entry.key);
+      if (!data) {
+        continue;
+      }
+      const record = JSON.parse(
+        new TextDecoder().decode(data),
+      ) as GenerationRecord;
+      index.setGeneration(record.path, record);
+      stored.add(record.path);
+    } catch (error) {
+      console.error(`[Generation] Failed to load ${entry.key}:`, error);
+    }
+  }
+
+  for (const path of index.generationPaths()) {
+    if (!stored.has(path)) {
+      index.setGeneration(path, null);
+    }
+  }
+  return stored.size;
+}
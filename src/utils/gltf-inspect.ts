@@ -0,0 +1,313 @@
+/**
+ * GLB Inspection
+ * Summarises what a model contains (counts, triangles, bounds, skeleton,
+ * animation clips) from the glTF JSON alone, so tools can query models
+ * without downloading them. Results are cached per file ETag.
+ */
+
+import type { StorageBackend } from "../storage/types";
+import { generateETag } from "./range-handler";
+import {
+  readGltf,
+  storageSource,
+  type GltfDocument,
+  type GltfJson,
+  type GltfNode,
+} from "./gltf";
+
+export interface AnimationClipInfo {
+  name: string;
+  /**
+   * Clip length in seconds (largest keyframe time of any sampler)
+   */
+  duration: number;
+  channels: number;
+  /**
+   * Names of the nodes (bones) the clip animates
+   */
+  targets: string[];
+}
+
+export interface GltfInspection {
+  container: "glb" | "gltf";
+  generator: string | null;
+  counts: {
+    nodes: number;
+    meshes: number;
+    primitives: number;
+    materials: number;
+    textures: number;
+    images: number;
+    skins: number;
+    animations: number;
+  };
+  triangles: number;
+  vertices: number;
+  /**
+   * World-space axis-aligned bounds of the default scene
+   */
+  bounds: { min: number[]; max: number[]; size: number[] } | null;
+  skeleton: { bones: string[] };
+  animations: AnimationClipInfo[];
+  extensionsUsed: string[];
+}
+
+type Mat4 = number[];
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+// Column-major 4x4 multiply (a * b)
+function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+// Local transform of a node from its matrix or TRS properties
+function localMatrix(node: GltfNode): Mat4 {
+  if (node.matrix?.length === 16) {
+    return node.matrix;
+  }
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+
+  return [
+    (1 - 2 * (y * y + z * z)) * sx,
+    2 * (x * y + z * w) * sx,
+    2 * (x * z - y * w) * sx,
+    0,
+    2 * (x * y - z * w) * sy,
+    (1 - 2 * (x * x + z * z)) * sy,
+    2 * (y * z + x * w) * sy,
+    0,
+    2 * (x * z + y * w) * sz,
+    2 * (y * z - x * w) * sz,
+    (1 - 2 * (x * x + y * y)) * sz,
+    0,
+    tx,
+    ty,
+    tz,
+    1,
+  ];
+}
+
+function transformPoint(m: Mat4, [x, y, z]: number[]): number[] {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+/**
+ * Root nodes of the default scene (or every parentless node when the
+ * file has no scenes)
+ */
+function sceneRoots(json: GltfJson): number[] {
+  const scene = json.scenes?.[json.scene ?? 0];
+  if (scene) {
+    return scene.nodes ?? [];
+  }
+  const children = new Set((json.nodes ?? []).flatMap((n) => n.children ?? []));
+  return (json.nodes ?? []).map((_, i) => i).filter((i) => !children.has(i));
+}
+
+function primitiveTriangles(indexCount: number, mode = 4): number {
+  switch (mode) {
+    case 4: // TRIANGLES
+      return Math.floor(indexCount / 3);
+    case 5: // TRIANGLE_STRIP
+    case 6: // TRIANGLE_FAN
+      return Math.max(0, indexCount - 2);
+    default: // points and lines
+      return 0;
+  }
+}
+
+export function nodeName(json: GltfJson, index: number): string {
+  return json.nodes?.[index]?.name ?? `node_${index}`;
+}
+
+/**
+ * Animation clips with durations read from the sampler input accessors'
+ * max values (required by the spec, so no binary data is needed)
+ */
+export function listAnimationClips(json: GltfJson): AnimationClipInfo[] {
+  return (json.animations ?? []).map((animation, i) => {
+    let duration = 0;
+    for (const sampler of animation.samplers ?? []) {
+      const max = json.accessors?.[sampler.input]?.max?.[0];
+      if (typeof max === "number" && max > duration) {
+        duration = max;
+      }
+    }
+    const targets = new Set<string>();
+    for (const channel of animation.channels ?? []) {
+      if (channel.target?.node !== undefined) {
+        targets.add(nodeName(json, channel.target.node));
+      }
+    }
+    return {
+      name: animation.name ?? `animation_${i}`,
+      duration: Math.round(duration * 1000) / 1000,
+      channels: animation.channels?.length ?? 0,
+      targets: [...targets],
+    };
+  });
+}
+
+/**
+ * Summarise a parsed glTF document
+ */
+export function inspectGltf(doc: GltfDocument): GltfInspection {
+  const { json } = doc;
+  let triangles = 0;
+  let vertices = 0;
+  let min: number[] | null = null;
+  let max: number[] | null = null;
+
+  // Walk the scene graph so instanced meshes and transforms are counted
+  const visit = (index: number, parent: Mat4, seen: Set<number>) => {
+    const node = json.nodes?.[index];
+    if (!node || seen.has(index)) {
+      return;
+    }
+    seen.add(index);
+    const world = multiply(parent, localMatrix(node));
+
+    const mesh = node.mesh !== undefined ? json.meshes?.[node.mesh] : null;
+    for (const primitive of mesh?.primitives ?? []) {
+      const position = json.accessors?.[primitive.attributes?.POSITION];
+      const indices =
+        primitive.indices !== undefined
+          ? json.accessors?.[primitive.indices]
+          : undefined;
+      if (!position) {
+        continue;
+      }
+      vertices += position.count;
+      triangles += primitiveTriangles(
+        indices?.count ?? position.count,
+        primitive.mode,
+      );
+
+      if (position.min?.length === 3 && position.max?.length === 3) {
+        const [x0, y0, z0] = position.min;
+        const [x1, y1, z1] = position.max;
+        for (const corner of [
+          [x0, y0, z0],
+          [x1, y0, z0],
+          [x0, y1, z0],
+          [x1, y1, z0],
+          [x0, y0, z1],
+          [x1, y0, z1],
+          [x0, y1, z1],
+          [x1, y1, z1],
+        ]) {
+          const p = transformPoint(world, corner);
+          min = min ? min.map((v, i) => Math.min(v, p[i])) : p;
+          max = max ? max.map((v, i) => Math.max(v, p[i])) : p;
+        }
+      }
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, world, seen);
+    }
+  };
+
+  const seen = new Set<number>();
+  for (const root of sceneRoots(json)) {
+    visit(root, IDENTITY, seen);
+  }
+
+  const bones = new Set<string>();
+  for (const skin of json.skins ?? []) {
+    for (const joint of skin.joints ?? []) {
+      bones.add(nodeName(json, joint));
+    }
+  }
+
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+  const bounds =
+    min && max
+      ? {
+          min: (min as number[]).map(round),
+          max: (max as number[]).map(round),
+          size: (max as number[]).map((v, i) => round(v - min![i])),
+        }
+      : null;
+
+  return {
+    container: doc.container,
+    generator: json.asset?.generator ?? null,
+    counts: {
+      nodes: json.nodes?.length ?? 0,
+      meshes: json.meshes?.length ?? 0,
+      primitives: (json.meshes ?? []).reduce(
+        (sum, mesh) => sum + (mesh.primitives?.length ?? 0),
+        0,
+      ),
+      materials: json.materials?.length ?? 0,
+      textures: json.textures?.length ?? 0,
+      images: json.images?.length ?? 0,
+      skins: json.skins?.length ?? 0,
+      animations: json.animations?.length ?? 0,
+    },
+    triangles,
+    vertices,
+    bounds,
+    skeleton: { bones: [...bones] },
+    animations: listAnimationClips(json),
+    extensionsUsed: json.extensionsUsed ?? [],
+  };
+}
+
+// Inspections keyed by storage key, valid while the ETag matches
+const MAX_CACHE_ENTRIES = 500;
+const inspectionCache = new Map<
+  string,
+  { etag: string; inspection: GltfInspection }
+>();
+
+/**
+ * Inspect a model in storage, reusing the cached result while the file's
+ * ETag is unchanged. Returns null if the file does not exist.
+ * Throws GltfParseError for files that are not valid glTF.
+ */
+export async function inspectStoredModel(
+  storage: StorageBackend,
+  key: string,
+): Promise<{ etag: string; inspection: GltfInspection } | null> {
+  const stat = await storage.stat(key);
+  if (!stat) {
+    return null;
+  }
+  const etag = generateETag(stat.size, stat.lastModified);
+
+  const cached = inspectionCache.get(key);
+  if (cached?.etag === etag) {
+    // Refresh the entry's position for LRU eviction
+    inspectionCache.delete(key);
+    inspectionCache.set(key, cached);
+    return cached;
+  }
+
+  const doc = await readGltf(storageSource(storage, key, stat.size));
+  const entry = { etag, inspection: inspectGltf(doc) };
+
+  inspectionCache.set(key, entry);
+  if (inspectionCache.size > MAX_CACHE_ENTRIES) {
+    inspectionCache.delete(inspectionCache.keys().next().value!);
+  }
+  return entry;
+}
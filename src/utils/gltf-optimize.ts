@@ -0,0 +1,643 @@
+/**
+ * GLB Optimisation Variants
+ * Opt-in processing of uploaded GLBs into derived variants (pruned,
+ * quantised, meshopt, Draco, downscaled textures) using glTF-Transform and
+ * WASM encoders on a worker thread, so it runs on CPU-only containers
+ * without blocking requests. Variants are stored under
+ * .cdn/variants/<path>/ rather than beside the original, so they never
+ * show up as assets of their own in listings, the index or upload
+ * policies. They move with renames, are dropped when the file is deleted
+ * and are only served while they were built from the file's current
+ * content.
+ */
+
+import {
+  Logger,
+  NodeIO,
+  PropertyType,
+  type Transform,
+} from "@gltf-transform/core";
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions";
+import {
+  PRUNE_DEFAULTS,
+  dedup,
+  draco,
+  meshopt,
+  prune,
+  quantize,
+} from "@gltf-transform/functions";
+import draco3d from "draco3dgltf";
+import {
+  MeshoptDecoder,
+  MeshoptEncoder,
+  MeshoptSimplifier,
+} from "meshoptimizer";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { hashContent } from "./content-store";
+import { bytesSource, readGltf } from "./gltf";
+import { inspectGltf } from "./gltf-inspect";
+import { decodeImage, encodeImage, fitWithin } from "./image";
+import {
+  LOD_RATIOS,
+  LOD_VARIANTS,
+  lodCandidates,
+  lodTransforms,
+  lodVariantsFor,
+  parseLodLevel,
+  type LodVariant,
+} from "./lod";
+import { generateETag } from "./range-handler";
+import { createWorkerClient, transferBytes } from "./worker-client";
+
+export const GLB_VARIANTS = [
+  "pruned",
+  "quantized",
+  "meshopt",
+  "draco",
+  "lowtex",
+] as const;
+
+// Optimisation variants plus the LOD chain (lod1..lodN)
+export type GlbVariant = (typeof GLB_VARIANTS)[number] | LodVariant;
+
+// Longest texture edge in the "lowtex" variant
+export const VARIANT_TEXTURE_SIZE = parseInt(
+  process.env.VARIANT_TEXTURE_SIZE || "1024",
+  10,
+);
+
+export interface VariantInfo {
+  status: "pending" | "ready" | "failed";
+  size?: number;
+  triangles?: number;
+  /**
+   * Target triangle ratio of a LOD variant
+   */
+  ratio?: number;
+  createdAt?: string;
+  error?: string;
+}
+
+export interface VariantManifest {
+  path: string;
+  /**
+   * Content hash of the original the variants were built from
+   */
+  hash: string;
+  /**
+   * ETag of the original when processed; variants are only served while
+   * the file still has this ETag
+   */
+  etag?: string;
+  variants: Partial<Record<GlbVariant, VariantInfo>>;
+}
+
+export function isGlbVariant(name: string): name is GlbVariant {
+  return (
+    (GLB_VARIANTS as readonly string[]).includes(name) ||
+    parseLodLevel(name) !== null
+  );
+}
+
+/**
+ * Parse the opt-in value sent with an upload ("true"/"all" or a
+ * comma-separated list of variants, where "lod" stands for the whole LOD
+ * chain). Unknown names are ignored.
+ */
+export function parseVariantList(value: string | undefined): GlbVariant[] {
+  const raw = value?.trim().toLowerCase();
+  if (!raw || raw === "false" || raw === "0") {
+    return [];
+  }
+  if (raw === "true" || raw === "1" || raw === "all") {
+    return [...GLB_VARIANTS];
+  }
+  const names = raw.split(",").map((name) => name.trim());
+  return [
+    ...GLB_VARIANTS.filter((variant) => names.includes(variant)),
+    ...LOD_VARIANTS.filter(
+      (variant) => names.includes(variant) || names.includes("lod"),
+    ),
+  ];
+}
+
+/**
+ * Variants to build for a committed upload: the opted-in ones plus the
+ * automatic LOD chain of model directories
+ */
+export function uploadVariants(
+  path: string,
+  optIn: GlbVariant[],
+): GlbVariant[] {
+  if (!/\.glb$/i.test(path)) {
+    return [];
+  }
+  return [...new Set([...optIn, ...lodVariantsFor(path)])];
+}
+
+function variantsDir(path: string): string {
+  return systemKey("variants", path);
+}
+
+function manifestKey(path: string): string {
+  return systemKey("variants", path, "manifest.json");
+}
+
+export function variantKey(path: string, variant: GlbVariant): string {
+  return systemKey("variants", path, `${variant}.glb`);
+}
+
+export async function getVariantManifest(
+  storage: StorageBackend,
+  path: string,
+): Promise<VariantManifest | null> {
+  const data = await storage.read(manifestKey(path));
+  return data
+    ? (JSON.parse(new TextDecoder().decode(data)) as VariantManifest)
+    : null;
+}
+
+async function writeVariantManifest(
+  storage: StorageBackend,
+  manifest: VariantManifest,
+): Promise<void> {
+  await storage.write(
+    manifestKey(manifest.path),
+    JSON.stringify(manifest, null, 2),
+  );
+}
+
+/**
+ * Drop every variant of a file (when it is deleted)
+ */
+export async function deleteVariants(
+  storage: StorageBackend,
+  path: string,
+): Promise<void> {
+  for (const entry of await storage.list(variantsDir(path))) {
+    await storage.delete(entry.key);
+  }
+}
+
+/**
+ * Move the variants of a renamed file along with it
+ * The manifest's ETag is re-pointed at the renamed file only if the
+ * variants were built from `hash` (its content), so stale variants stay
+ * unserved.
+ */
+export async function renameVariants(
+  storage: StorageBackend,
+  fromPath: string,
+  toPath: string,
+  hash: string | undefined,
+): Promise<void> {
+  await deleteVariants(storage, toPath);
+
+  const manifest = await getVariantManifest(storage, fromPath);
+  const fromDir = variantsDir(fromPath);
+  for (const entry of await storage.list(fromDir)) {
+    await storage.rename(
+      entry.key,
+      variantsDir(toPath) + entry.key.slice(fromDir.length),
+    );
+  }
+  if (!manifest) {
+    return;
+  }
+
+  const stat = manifest.hash === hash ? await storage.stat(toPath) : null;
+  await writeVariantManifest(storage, {
+    ...manifest,
+    path: toPath,
+    ...(stat && { etag: generateETag(stat.size, stat.lastModified) }),
+  });
+}
+
+/**
+ * Variant entries already recorded for the same content, so jobs for
+ * different variants of one upload add to each other
+ */
+async function sameContentVariants(
+  storage: StorageBackend,
+  path: string,
+  hash: string,
+): Promise<VariantManifest["variants"]> {
+  const manifest = await getVariantManifest(storage, path);
+  return manifest?.hash === hash ? manifest.variants : {};
+}
+
+// Encoders are WASM modules, created once on first use
+let ioPromise: Promise<NodeIO> | null = null;
+
+function getIO(): Promise<NodeIO> {
+  ioPromise ??= (async () => {
+    await Promise.all([
+      MeshoptEncoder.ready,
+      MeshoptDecoder.ready,
+      MeshoptSimplifier.ready,
+    ]);
+    return new NodeIO()
+      .setLogger(new Logger(Logger.Verbosity.WARN))
+      .registerExtensions(ALL_EXTENSIONS)
+      .registerDependencies({
+        "meshopt.encoder": MeshoptEncoder,
+        "meshopt.decoder": MeshoptDecoder,
+        "draco3d.encoder": await draco3d.createEncoderModule(),
+        "draco3d.decoder": await draco3d.createDecoderModule(),
+      });
+  })();
+  return ioPromise;
+}
+
+/**
+ * Resize PNG and JPEG textures so their longest edge is at most maxSize
+ * Other formats (e.g. WebP, KTX2) are left untouched
+ */
+export function downscaleTextures(maxSize: number): Transform {
+  return (doc) => {
+    for (const texture of doc.getRoot().listTextures()) {
+      const image = texture.getImage();
+      const mimeType = texture.getMimeType();
+      if (!image || (mimeType !== "image/png" && mimeType !== "image/jpeg")) {
+        continue;
+      }
+
+      const resized = fitWithin(decodeImage(image, mimeType), maxSize);
+      if (resized) {
+        texture.setImage(encodeImage(resized, mimeType));
+      }
+    }
+  };
+}
+
+/**
+ * Transforms for each variant. Skins and leaf nodes are kept when pruning
+ * because emotes carry a skeleton without any mesh using it, so the
+ * built-in cleanup of quantize/meshopt is replaced by the same prune.
+ */
+function variantTransforms(variant: GlbVariant): Transform[] {
+  const cleanup = [
+    dedup(),
+    prune({
+      propertyTypes: PRUNE_DEFAULTS.propertyTypes.filter(
+        (type) => type !== PropertyType.SKIN,
+      ),
+      keepLeaves: true,
+    }),
+  ];
+
+  switch (variant) {
+    case "pruned":
+      return cleanup;
+    case "quantized":
+      return [...cleanup, quantize({ cleanup: false }), ...cleanup];
+    case "meshopt":
+      return [
+        ...cleanup,
+        meshopt({ encoder: MeshoptEncoder, level: "medium", cleanup: false }),
+        ...cleanup,
+      ];
+    case "draco":
+      return [...cleanup, draco()];
+    case "lowtex":
+      return [...cleanup, downscaleTextures(VARIANT_TEXTURE_SIZE)];
+  }
+
+  const level = parseLodLevel(variant);
+  if (level === null) {
+    throw new Error(`Unknown variant ${variant}`);
+  }
+  return [...lodTransforms(level), ...cleanup];
+}
+
+/**
+ * Build one variant from the original GLB bytes
+ */
+export async function buildVariant(
+  data: Uint8Array,
+  variant: GlbVariant,
+): Promise<Uint8Array> {
+  const io = await getIO();
+  const doc = await io.readBinary(data);
+  await doc.transform(...variantTransforms(variant));
+  return io.writeBinary(doc);
+}
+
+/**
+ * Result of building one variant: the GLB and how long it took, or why it
+ * failed
+ */
+export type VariantBuild =
+  | { variant: GlbVariant; output: Uint8Array; ms: number }
+  | { variant: GlbVariant; error: string };
+
+/**
+ * Build each variant of a GLB, or return null if its content no longer
+ * matches `hash`. A failed variant does not stop the others.
+ */
+export async function buildVariants(
+  data: Uint8Array,
+  hash: string,
+  variants: GlbVariant[],
+): Promise<VariantBuild[] | null> {
+  if (hashContent(data) !== hash) {
+    return null;
+  }
+
+  const builds: VariantBuild[] = [];
+  for (const variant of variants) {
+    const started = Date.now();
+    try {
+      const output = await buildVariant(data, variant);
+      builds.push({ variant, output, ms: Date.now() - started });
+    } catch (error) {
+      builds.push({
+        variant,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return builds;
+}
+
+// Hashing and builds run on a worker thread so large GLBs and the WASM
+// encoders never stall requests
+const buildVariantsInWorker = createWorkerClient<
+  { data: Uint8Array; hash: string; variants: GlbVariant[] },
+  VariantBuild[] | null
+>(new URL("../workers/variant-builder.ts", import.meta.url));
+
+/**
+ * Build and store the requested variants of a GLB
+ * Skipped if the file changed since the job was queued
+ */
+export async function optimizeModel(
+  storage: StorageBackend,
+  path: string,
+  hash: string,
+  variants: GlbVariant[],
+): Promise<VariantManifest | null> {
+  const stat = await storage.stat(path);
+  const data = stat ? await storage.read(path) : null;
+
+  const built: VariantManifest["variants"] = {};
+  let builds: VariantBuild[] | null = null;
+  if (stat && data) {
+    try {
+      // The file is sent once for every variant; read() returns a buffer
+      // of its own, so it is handed over rather than copied
+      builds = await buildVariantsInWorker(
+        { data, hash, variants },
+        transferBytes(data),
+      );
+    } catch (error) {
+      // The worker crashed - every variant of this job failed
+      builds = variants.map((variant) => ({
+        variant,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+  if (!stat || !builds) {
+    console.log(`[Optimize] ${path} changed before processing, skipping`);
+    return null;
+  }
+
+  for (const build of builds) {
+    const { variant } = build;
+    try {
+      if ("error" in build) {
+        throw new Error(build.error);
+      }
+      const { output, ms } = build;
+      await storage.write(variantKey(path, variant), output);
+      const { triangles } = inspectGltf(await readGltf(bytesSource(output)));
+      const level = parseLodLevel(variant);
+      built[variant] = {
+        status: "ready",
+        size: output.byteLength,
+        triangles,
+        ...(level !== null && { ratio: LOD_RATIOS[level - 1] }),
+        createdAt: new Date().toISOString(),
+      };
+      console.log(
+        `[Optimize] ${path} ${variant}: ${stat.size} -> ${output.byteLength} bytes, ${triangles} triangles (${ms}ms)`,
+      );
+    } catch (error) {
+      built[variant] = {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+      console.error(`[Optimize] ${path} ${variant} failed:`, error);
+    }
+  }
+
+  // Re-read so entries queued while this job ran are kept
+  const manifest: VariantManifest = {
+    path,
+    hash,
+    etag: generateETag(stat.size, stat.lastModified),
+    variants: {
+      ...(await sameContentVariants(storage, path, hash)),
+      ...built,
+    },
+  };
+  await writeVariantManifest(storage, manifest);
+  return manifest;
+}
+
+// Jobs run one at a time so processing never competes with itself for CPU
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Queue variant generation for a freshly committed upload
+ * The manifest is marked pending before this resolves so clients can poll
+ * it; `done` settles when the variants have been built
+ */
+export async function queueOptimization(
+  storage: StorageBackend,
+  path: string,
+  hash: string,
+  variants: GlbVariant[],
+): Promise<{ done: Promise<VariantManifest | null> }> {
+  // Keep finished variants of the same content while others are pending
+  const existing = await getVariantManifest(storage, path);
+  const same = existing?.hash === hash ? existing : null;
+  await writeVariantManifest(storage, {
+    path,
+    hash,
+    ...(same?.etag && { etag: same.etag }),
+    variants: {
+      ...same?.variants,
+      ...Object.fromEntries(
+        variants.map((variant) => [variant, { status: "pending" }]),
+      ),
+    },
+  });
+
+  const job = queue.then(() =>
+    optimizeModel(storage, path, hash, variants).catch((error) => {
+      console.error(`[Optimize] Failed to process ${path}:`, error);
+      return null;
+    }),
+  );
+  queue = job;
+  return { done: job };
+}
+
+/**
+ * Queue the variants of a committed upload: the opted-in ones plus the
+ * automatic LOD chain of model directories. Variants already built (or
+ * queued) from the same content are kept and re-pointed at the new file,
+ * so re-uploading an unchanged GLB does not rebuild them.
+ * Resolves with every variant the upload will have; `done` settles when
+ * the missing ones have been built.
+ */
+export async function queueUploadVariants(
+  storage: StorageBackend,
+  path: string,
+  hash: string,
+  optIn: GlbVariant[],
+): Promise<{
+  variants: GlbVariant[];
+  done: Promise<VariantManifest | null>;
+}> {
+  const variants = uploadVariants(path, optIn);
+  if (variants.length === 0) {
+    return { variants, done: Promise.resolve(null) };
+  }
+
+  const existing = await getVariantManifest(storage, path);
+  const built = existing?.hash === hash ? existing.variants : {};
+  const missing = variants.filter(
+    (variant) => !built[variant] || built[variant].status === "failed",
+  );
+
+  let manifest = existing;
+  if (existing && missing.length < variants.length) {
+    const stat = await storage.stat(path);
+    if (stat) {
+      manifest = {
+        ...existing,
+        etag: generateETag(stat.size, stat.lastModified),
+      };
+      await writeVariantManifest(storage, manifest);
+    }
+  }
+  if (missing.length > 0) {
+    const { done } = await queueOptimization(storage, path, hash, missing);
+    return { variants, done };
+  }
+  return { variants, done: Promise.resolve(manifest) };
+}
+
+/**
+ * Variants requested by a client, in order of preference, from the
+ * ?variant= or ?lod= query parameters or a `variant` parameter on the
+ * model/gltf-binary entry of the Accept header
+ */
+export function requestedVariants(request: Request): string[] {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("variant");
+  if (query) {
+    return [query.trim().toLowerCase()];
+  }
+
+  // ?lod=0 (or anything unparseable) is the original
+  const lod = searchParams.get("lod");
+  if (lod !== null) {
+    const level = parseInt(lod, 10);
+    return level > 0 ? lodCandidates(level) : [];
+  }
+
+  const accept = request.headers.get("accept") ?? "";
+  const names: string[] = [];
+  for (const entry of accept.split(",")) {
+    const [type, ...params] = entry.split(";").map((part) => part.trim());
+    if (type.toLowerCase() !== "model/gltf-binary") {
+      continue;
+    }
+    for (const param of params) {
+      const [key, value] = param.split("=").map((part) => part.trim());
+      if (key.toLowerCase() === "variant" && value) {
+        names.push(value.replace(/^"|"$/g, "").toLowerCase());
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * The variant manifest, only if it was built from the file's current
+ * content
+ */
+export async function getCurrentVariantManifest(
+  storage: StorageBackend,
+  path: string,
+): Promise<VariantManifest | null> {
+  const [manifest, stat] = await Promise.all([
+    getVariantManifest(storage, path),
+    storage.stat(path),
+  ]);
+  if (
+    !manifest?.etag ||
+    !stat ||
+    generateETag(stat.size, stat.lastModified) !== manifest.etag
+  ) {
+    return null;
+  }
+  return manifest;
+}
+
+/**
+ * Pick the storage key to serve for a GLB request
+ * Falls back to the original when no requested variant is ready or the
+ * variants were built from an older upload
+ */
+export async function selectVariant(
+  storage: StorageBackend,
+  path: string,
+  requested: string[],
+): Promise<{ key: string; variant: GlbVariant } | null> {
+  const candidates = requested.filter(isGlbVariant);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const manifest = await getCurrentVariantManifest(storage, path);
+  if (!manifest) {
+    return null;
+  }
+
+  const variant = candidates.find(
+    (name) => manifest.variants[name]?.status === "ready",
+  );
+  return variant ? { key: variantKey(path, variant), variant } : null;
+}
+
+/**
+ * Storage key and response headers for serving an asset, swapping in a
+ * requested GLB variant when one is ready
+ */
+export async function negotiateVariant(
+  storage: StorageBackend,
+  path: string,
+  request: Request,
+): Promise<{ key: string; headers: Record<string, string> }> {
+  if (!/\.glb$/i.test(path)) {
+    return { key: path, headers: {} };
+  }
+  const selected = await selectVariant(
+    storage,
+    path,
+    requestedVariants(request),
+  );
+  return {
+    key: selected?.key ?? path,
+    headers: {
+      Vary: "Accept",
+      "X-Asset-Variant": selected?.variant ?? "original",
+    },
+  };
+}
@@ -0,0 +1,610 @@
+/**
+ * GLB/glTF Structural Validator
+ * Checks uploaded models against the glTF 2.0 rules that break loaders
+ * (chunk layout, buffer view and accessor bounds, dangling indices,
+ * required extensions) as errors, and flags content problems such as
+ * oversized textures and emotes without a skin as warnings. Reports are
+ * stored per content hash so they can be fetched again without
+ * re-parsing the file.
+ */
+
+import { extname } from "path";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import type { StagedContent } from "./content-store";
+import {
+  accessorElementSize,
+  COMPONENT_SIZES,
+  decodeDataUri,
+  GltfParseError,
+  readBufferView,
+  readGltf,
+  readImageSize,
+  storageSource,
+  TYPE_COMPONENTS,
+  type ByteSource,
+  type GltfDocument,
+  type GltfJson,
+} from "./gltf";
+import { getUploadPolicy, type UploadViolation } from "./upload-policy";
+
+/**
+ * Extensions this CDN's consumers (three.js GLTFLoader) can decode
+ * A file that requires anything else will not load for players
+ */
+export const SUPPORTED_EXTENSIONS = new Set([
+  "KHR_draco_mesh_compression",
+  "KHR_lights_punctual",
+  "KHR_materials_clearcoat",
+  "KHR_materials_emissive_strength",
+  "KHR_materials_ior",
+  "KHR_materials_sheen",
+  "KHR_materials_specular",
+  "KHR_materials_transmission",
+  "KHR_materials_unlit",
+  "KHR_materials_variants",
+  "KHR_materials_volume",
+  "KHR_mesh_quantization",
+  "KHR_texture_basisu",
+  "KHR_texture_transform",
+  "EXT_meshopt_compression",
+  "EXT_texture_webp",
+]);
+
+// Bytes read from each embedded image to find its dimensions
+const IMAGE_HEADER_BYTES = 64 * 1024;
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+  /**
+   * JSON pointer to the offending glTF object, e.g. "/accessors/3"
+   */
+  pointer?: string;
+}
+
+export interface GltfValidationOptions {
+  /**
+   * Largest allowed texture width/height in pixels
+   */
+  maxTextureSize: number;
+  /**
+   * Warn when the file has no skin (emotes are expected to be rigged)
+   */
+  expectSkin: boolean;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  /**
+   * Whether errors reject the upload or are only reported
+   */
+  mode: "reject" | "warn";
+  hash: string;
+  validatedAt: string;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * Validate a GLB or glTF file
+ */
+export async function validateGltf(
+  source: ByteSource,
+  options: GltfValidationOptions,
+): Promise<ValidationIssue[]> {
+  let doc: GltfDocument;
+  try {
+    doc = await readGltf(source);
+  } catch (error) {
+    if (error instanceof GltfParseError) {
+      return [
+        {
+          severity: "error",
+          code: "INVALID_CONTAINER",
+          message: error.message,
+        },
+      ];
+    }
+    throw error;
+  }
+
+  const issues: ValidationIssue[] = [];
+  const error = (code: string, message: string, pointer?: string) =>
+    issues.push({ severity: "error", code, message, pointer });
+  const warning = (code: string, message: string, pointer?: string) =>
+    issues.push({ severity: "warning", code, message, pointer });
+
+  const { json } = doc;
+
+  if (json.asset?.version !== "2.0") {
+    error(
+      "UNSUPPORTED_VERSION",
+      `asset.version must be "2.0" (got ${JSON.stringify(json.asset?.version)})`,
+      "/asset",
+    );
+  }
+
+  checkExtensions(json, error);
+  checkBuffers(doc, error, warning);
+  checkAccessors(json, error, warning);
+  checkMeshes(json, error);
+  checkNodes(json, error);
+  checkAnimations(json, error);
+  await checkImages(doc, options, error, warning);
+
+  if (options.expectSkin && !json.skins?.length) {
+    warning(
+      "MISSING_SKIN",
+      "File has no skin, so it cannot drive an avatar rig",
+    );
+  }
+
+  return issues;
+}
+
+type Report = (code: string, message: string, pointer?: string) => void;
+
+function isIndex(value: unknown, list: unknown[] | undefined): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value < (list?.length ?? 0)
+  );
+}
+
+function checkExtensions(json: GltfJson, error: Report): void {
+  const used = new Set(json.extensionsUsed ?? []);
+  for (const ext of json.extensionsRequired ?? []) {
+    if (!used.has(ext)) {
+      error(
+        "REQUIRED_EXTENSION_NOT_USED",
+        `${ext} is listed in extensionsRequired but not in extensionsUsed`,
+        "/extensionsRequired",
+      );
+    }
+    if (!SUPPORTED_EXTENSIONS.has(ext)) {
+      error(
+        "UNSUPPORTED_REQUIRED_EXTENSION",
+        `Required extension ${ext} is not supported by the CDN's clients`,
+        "/extensionsRequired",
+      );
+    }
+  }
+}
+
+function checkBuffers(doc: GltfDocument, error: Report, warning: Report): void {
+  const { json } = doc;
+
+  (json.buffers ?? []).forEach((buffer, i) => {
+    const pointer = `/buffers/${i}`;
+    if (!(buffer.byteLength >= 1)) {
+      error("INVALID_BUFFER", "Buffer byteLength must be at least 1", pointer);
+      return;
+    }
+
+    if (buffer.uri === undefined) {
+      if (doc.container !== "glb" || i !== 0) {
+        error("MISSING_BUFFER_URI", "Buffer has no uri", pointer);
+      } else if (!doc.binChunk) {
+        error("MISSING_BIN_CHUNK", "GLB buffer 0 has no BIN chunk", pointer);
+      } else if (doc.binChunk.length < buffer.byteLength) {
+        error(
+          "BIN_CHUNK_TOO_SHORT",
+          `BIN chunk has ${doc.binChunk.length} bytes but buffer declares ${buffer.byteLength}`,
+          pointer,
+        );
+      }
+    } else if (buffer.uri.startsWith("data:")) {
+      const data = decodeDataUri(buffer.uri);
+      if (!data || data.byteLength < buffer.byteLength) {
+        error(
+          "INVALID_DATA_URI",
+          "Buffer data URI is shorter than its byteLength",
+          pointer,
+        );
+      }
+    } else {
+      warning(
+        "EXTERNAL_BUFFER",
+        `Buffer references external file ${buffer.uri}, which must be uploaded alongside`,
+        pointer,
+      );
+    }
+  });
+
+  (json.bufferViews ?? []).forEach((view, i) => {
+    const pointer = `/bufferViews/${i}`;
+    const buffer = json.buffers?.[view.buffer];
+    if (!buffer || !isIndex(view.buffer, json.buffers)) {
+      error("INVALID_INDEX", `Buffer ${view.buffer} does not exist`, pointer);
+      return;
+    }
+    const end = (view.byteOffset ?? 0) + view.byteLength;
+    if (!(view.byteLength >= 1) || end > buffer.byteLength) {
+      error(
+        "BUFFER_VIEW_OUT_OF_BOUNDS",
+        `Buffer view ends at byte ${end} but buffer ${view.buffer} has ${buffer.byteLength}`,
+        pointer,
+      );
+    }
+    if (
+      view.byteStride !== undefined &&
+      (view.byteStride < 4 || view.byteStride > 252 || view.byteStride % 4)
+    ) {
+      error(
+        "INVALID_BYTE_STRIDE",
+        `byteStride ${view.byteStride} must be a multiple of 4 between 4 and 252`,
+        pointer,
+      );
+    }
+  });
+}
+
+function checkAccessors(json: GltfJson, error: Report, warning: Report): void {
+  (json.accessors ?? []).forEach((accessor, i) => {
+    const pointer = `/accessors/${i}`;
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    const components = TYPE_COMPONENTS[accessor.type];
+
+    if (!componentSize || !components) {
+      error(
+        "INVALID_ACCESSOR_TYPE",
+        `Unknown componentType ${accessor.componentType} or type ${accessor.type}`,
+        pointer,
+      );
+      return;
+    }
+    if (!Number.isInteger(accessor.count) || accessor.count < 1) {
+      error(
+        "INVALID_ACCESSOR_COUNT",
+        "Accessor count must be at least 1",
+        pointer,
+      );
+      return;
+    }
+    if (accessor.min && accessor.min.length !== components) {
+      warning(
+        "INVALID_ACCESSOR_BOUNDS",
+        "min has the wrong number of components",
+        pointer,
+      );
+    }
+    if (accessor.max && accessor.max.length !== components) {
+      warning(
+        "INVALID_ACCESSOR_BOUNDS",
+        "max has the wrong number of components",
+        pointer,
+      );
+    }
+
+    // Accessors without a buffer view are all zeros (or sparse-only)
+    if (accessor.bufferView === undefined) {
+      return;
+    }
+    const view = json.bufferViews?.[accessor.bufferView];
+    if (!view || !isIndex(accessor.bufferView, json.bufferViews)) {
+      error(
+        "INVALID_INDEX",
+        `Buffer view ${accessor.bufferView} does not exist`,
+        pointer,
+      );
+      return;
+    }
+
+    const offset = accessor.byteOffset ?? 0;
+    if (offset % componentSize) {
+      error(
+        "ACCESSOR_MISALIGNED",
+        `byteOffset ${offset} is not a multiple of the component size ${componentSize}`,
+        pointer,
+      );
+    }
+
+    const elementSize = accessorElementSize(accessor);
+    const stride = view.byteStride ?? elementSize;
+    const required = offset + stride * (accessor.count - 1) + elementSize;
+    if (required > view.byteLength) {
+      error(
+        "ACCESSOR_OUT_OF_BOUNDS",
+        `${accessor.count} elements need ${required} bytes but buffer view ${accessor.bufferView} has ${view.byteLength}`,
+        pointer,
+      );
+    }
+  });
+}
+
+function checkMeshes(json: GltfJson, error: Report): void {
+  (json.meshes ?? []).forEach((mesh, m) => {
+    (mesh.primitives ?? []).forEach((primitive, p) => {
+      const pointer = `/meshes/${m}/primitives/${p}`;
+      let vertexCount: number | null = null;
+
+      if (primitive.attributes?.POSITION === undefined) {
+        error(
+          "MISSING_POSITION",
+          "Primitive has no POSITION attribute",
+          pointer,
+        );
+      }
+
+      for (const [name, index] of Object.entries(primitive.attributes ?? {})) {
+        const accessor = json.accessors?.[index];
+        if (!accessor || !isIndex(index, json.accessors)) {
+          error(
+            "INVALID_INDEX",
+            `Attribute ${name} uses missing accessor ${index}`,
+            pointer,
+          );
+          continue;
+        }
+        if (vertexCount === null) {
+          vertexCount = accessor.count;
+        } else if (accessor.count !== vertexCount) {
+          error(
+            "ATTRIBUTE_COUNT_MISMATCH",
+            `Attribute ${name} has ${accessor.count} elements, expected ${vertexCount}`,
+            pointer,
+          );
+        }
+      }
+
+      if (
+        primitive.indices !== undefined &&
+        !isIndex(primitive.indices, json.accessors)
+      ) {
+        error(
+          "INVALID_INDEX",
+          `Indices accessor ${primitive.indices} does not exist`,
+          pointer,
+        );
+      }
+      if (
+        primitive.material !== undefined &&
+        !isIndex(primitive.material, json.materials)
+      ) {
+        error(
+          "INVALID_INDEX",
+          `Material ${primitive.material} does not exist`,
+          pointer,
+        );
+      }
+    });
+  });
+}
+
+function checkNodes(json: GltfJson, error: Report): void {
+  (json.nodes ?? []).forEach((node, i) => {
+    const pointer = `/nodes/${i}`;
+    if (node.mesh !== undefined && !isIndex(node.mesh, json.meshes)) {
+      error("INVALID_INDEX", `Mesh ${node.mesh} does not exist`, pointer);
+    }
+    if (node.skin !== undefined && !isIndex(node.skin, json.skins)) {
+      error("INVALID_INDEX", `Skin ${node.skin} does not exist`, pointer);
+    }
+    for (const child of node.children ?? []) {
+      if (!isIndex(child, json.nodes) || child === i) {
+        error("INVALID_INDEX", `Child node ${child} is invalid`, pointer);
+      }
+    }
+  });
+
+  (json.scenes ?? []).forEach((scene, i) => {
+    for (const node of scene.nodes ?? []) {
+      if (!isIndex(node, json.nodes)) {
+        error("INVALID_INDEX", `Node ${node} does not exist`, `/scenes/${i}`);
+      }
+    }
+  });
+
+  (json.skins ?? []).forEach((skin, i) => {
+    for (const joint of skin.joints ?? []) {
+      if (!isIndex(joint, json.nodes)) {
+        error(
+          "INVALID_INDEX",
+          `Joint node ${joint} does not exist`,
+          `/skins/${i}`,
+        );
+      }
+    }
+  });
+}
+
+function checkAnimations(json: GltfJson, error: Report): void {
+  (json.animations ?? []).forEach((animation, a) => {
+    const pointer = `/animations/${a}`;
+    animation.samplers?.forEach((sampler, s) => {
+      if (
+        !isIndex(sampler.input, json.accessors) ||
+        !isIndex(sampler.output, json.accessors)
+      ) {
+        error(
+          "INVALID_INDEX",
+          "Sampler references a missing accessor",
+          `${pointer}/samplers/${s}`,
+        );
+      }
+    });
+    animation.channels?.forEach((channel, c) => {
+      if (!isIndex(channel.sampler, animation.samplers)) {
+        error(
+          "INVALID_INDEX",
+          `Sampler ${channel.sampler} does not exist`,
+          `${pointer}/channels/${c}`,
+        );
+      }
+      if (
+        channel.target?.node !== undefined &&
+        !isIndex(channel.target.node, json.nodes)
+      ) {
+        error(
+          "INVALID_INDEX",
+          `Target node ${channel.target.node} does not exist`,
+          `${pointer}/channels/${c}`,
+        );
+      }
+    });
+  });
+}
+
+async function checkImages(
+  doc: GltfDocument,
+  options: GltfValidationOptions,
+  error: Report,
+  warning: Report,
+): Promise<void> {
+  const { json } = doc;
+
+  (json.textures ?? []).forEach((texture, i) => {
+    if (texture.source !== undefined && !isIndex(texture.source, json.images)) {
+      error(
+        "INVALID_INDEX",
+        `Image ${texture.source} does not exist`,
+        `/textures/${i}`,
+      );
+    }
+  });
+
+  for (const [i, image] of (json.images ?? []).entries()) {
+    const pointer = `/images/${i}`;
+    let header: Uint8Array | null = null;
+
+    if (image.bufferView !== undefined) {
+      if (!isIndex(image.bufferView, json.bufferViews)) {
+        error(
+          "INVALID_INDEX",
+          `Buffer view ${image.bufferView} does not exist`,
+          pointer,
+        );
+        continue;
+      }
+      header = await readBufferView(doc, image.bufferView, IMAGE_HEADER_BYTES);
+    } else if (image.uri) {
+      header = decodeDataUri(image.uri);
+    }
+
+    // External images cannot be measured here
+    const size = header ? readImageSize(header) : null;
+    if (!size) {
+      if (header) {
+        warning(
+          "UNKNOWN_IMAGE_FORMAT",
+          "Could not read image dimensions",
+          pointer,
+        );
+      }
+      continue;
+    }
+
+    if (
+      size.width > options.maxTextureSize ||
+      size.height > options.maxTextureSize
+    ) {
+      warning(
+        "TEXTURE_TOO_LARGE",
+        `Texture is ${size.width}x${size.height}, larger than the ${options.maxTextureSize}px limit`,
+        pointer,
+      );
+    }
+  }
+}
+
+function reportKey(directory: string, hash: string): string {
+  return systemKey("validation", directory.split("/")[0], `${hash}.json`);
+}
+
+/**
+ * Load the stored validation report for a file's content
+ */
+export async function getValidationReport(
+  storage: StorageBackend,
+  path: string,
+  hash: string,
+): Promise<ValidationReport | null> {
+  const data = await storage.read(reportKey(path, hash));
+  return data
+    ? (JSON.parse(new TextDecoder().decode(data)) as ValidationReport)
+    : null;
+}
+
+/**
+ * Validate a model file in storage with its directory's policy and store
+ * the report. Returns null for files that are not validated (non-glTF
+ * files or directories without a validation policy).
+ */
+export async function validateStoredModel(
+  storage: StorageBackend,
+  key: string,
+  directory: string,
+  name: string,
+  content: { hash: string; size: number },
+): Promise<ValidationReport | null> {
+  const validation = getUploadPolicy(directory)?.validation;
+  const ext = extname(name).toLowerCase();
+  if (!validation || (ext !== ".glb" && ext !== ".gltf")) {
+    return null;
+  }
+
+  const issues = await validateGltf(
+    storageSource(storage, key, content.size),
+    validation,
+  );
+  const errors = issues.filter((i) => i.severity === "error");
+  const report: ValidationReport = {
+    valid: errors.length === 0,
+    mode: validation.mode,
+    hash: content.hash,
+    validatedAt: new Date().toISOString(),
+    errors,
+    warnings: issues.filter((i) => i.severity === "warning"),
+  };
+
+  await storage.write(
+    reportKey(directory, content.hash),
+    JSON.stringify(report, null, 2),
+  );
+  return report;
+}
+
+/**
+ * Validate a staged upload before it is committed
+ * In reject mode, errors turn into an upload violation
+ */
+export async function validateStagedUpload(
+  storage: StorageBackend,
+  directory: string,
+  name: string,
+  staged: StagedContent,
+): Promise<{
+  report: ValidationReport | null;
+  violation: UploadViolation | null;
+}> {
+  const report = await validateStoredModel(
+    storage,
+    staged.tempKey,
+    directory,
+    name,
+    staged,
+  );
+
+  if (report && !report.valid && report.mode === "reject") {
+    return {
+      report,
+      violation: {
+        name,
+        code: "VALIDATION_FAILED",
+        message: `glTF validation failed: ${report.errors
+          .slice(0, 3)
+          .map((e) => e.message)
+          .join("; ")}`,
+        validation: report,
+      },
+    };
+  }
+
+  return { report, violation: null };
+}
@@ -0,0 +1,433 @@
+/**
+ * glTF 2.0 / GLB Reader
+ * Parses the GLB container and JSON document through ranged reads, so large
+ * models can be validated and inspected without loading the binary chunk
+ * into memory. Only the small pieces that are needed (image headers,
+ * individual accessors) are ever read.
+ */
+
+import type { StorageBackend } from "../storage/types";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+export class GltfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GltfParseError";
+  }
+}
+
+/**
+ * Random-access view of a file (end is exclusive)
+ */
+export interface ByteSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export function bytesSource(data: Uint8Array): ByteSource {
+  return {
+    size: data.byteLength,
+    read: async (start, end) => data.subarray(start, end),
+  };
+}
+
+export function storageSource(
+  storage: StorageBackend,
+  key: string,
+  size: number,
+): ByteSource {
+  return {
+    size,
+    read: async (start, end) => {
+      if (end <= start) {
+        return new Uint8Array(0);
+      }
+      const blob = await storage.streamRange(key, { start, end: end - 1 });
+      if (!blob) {
+        throw new GltfParseError(`${key} disappeared while reading`);
+      }
+      return new Uint8Array(await blob.arrayBuffer());
+    },
+  };
+}
+
+// Minimal typings for the parts of the glTF schema this CDN looks at
+export interface GltfBuffer {
+  uri?: string;
+  byteLength: number;
+}
+
+export interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+export interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+  min?: number[];
+  max?: number[];
+  sparse?: unknown;
+}
+
+export interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+export interface GltfNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  skin?: number;
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  matrix?: number[];
+}
+
+export interface GltfSkin {
+  name?: string;
+  joints: number[];
+  skeleton?: number;
+  inverseBindMatrices?: number;
+}
+
+export interface GltfAnimation {
+  name?: string;
+  channels: Array<{ sampler: number; target: { node?: number; path: string } }>;
+  samplers: Array<{ input: number; output: number; interpolation?: string }>;
+}
+
+export interface GltfImage {
+  uri?: string;
+  mimeType?: string;
+  bufferView?: number;
+  name?: string;
+}
+
+export interface GltfJson {
+  asset?: { version?: string; generator?: string; minVersion?: string };
+  scene?: number;
+  scenes?: Array<{ name?: string; nodes?: number[] }>;
+  nodes?: GltfNode[];
+  meshes?: Array<{ name?: string; primitives: GltfPrimitive[] }>;
+  materials?: Array<{
+    name?: string;
+    pbrMetallicRoughness?: { baseColorTexture?: { index: number } };
+  }>;
+  textures?: Array<{ source?: number; sampler?: number }>;
+  images?: GltfImage[];
+  samplers?: unknown[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: GltfBuffer[];
+  skins?: GltfSkin[];
+  animations?: GltfAnimation[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+}
+
+export interface GltfDocument {
+  container: "glb" | "gltf";
+  json: GltfJson;
+  /**
+   * Location of the GLB binary chunk within the file
+   */
+  binChunk: { offset: number; length: number } | null;
+  source: ByteSource;
+}
+
+export const COMPONENT_SIZES: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4, // FLOAT
+};
+
+export const TYPE_COMPONENTS: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+/**
+ * Size in bytes of one accessor element (0 for unknown types)
+ */
+export function accessorElementSize(accessor: GltfAccessor): number {
+  return (
+    (COMPONENT_SIZES[accessor.componentType] ?? 0) *
+    (TYPE_COMPONENTS[accessor.type] ?? 0)
+  );
+}
+
+function parseJsonChunk(data: Uint8Array): GltfJson {
+  try {
+    const json = JSON.parse(new TextDecoder().decode(data));
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new GltfParseError("glTF JSON must be an object");
+    }
+    return json as GltfJson;
+  } catch (error) {
+    if (error instanceof GltfParseError) {
+      throw error;
+    }
+    throw new GltfParseError(
+      `Invalid glTF JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Read a GLB or glTF JSON document
+ * GLB files are detected by their magic number; anything else is parsed
+ * as a .gltf JSON document
+ */
+export async function readGltf(source: ByteSource): Promise<GltfDocument> {
+  const header = await source.read(0, Math.min(12, source.size));
+  const view = new DataView(
+    header.buffer,
+    header.byteOffset,
+    header.byteLength,
+  );
+
+  if (header.byteLength < 4 || view.getUint32(0, true) !== GLB_MAGIC) {
+    return {
+      container: "gltf",
+      json: parseJsonChunk(await source.read(0, source.size)),
+      binChunk: null,
+      source,
+    };
+  }
+
+  if (header.byteLength < 12) {
+    throw new GltfParseError("GLB header is truncated");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new GltfParseError(`Unsupported GLB version ${version}`);
+  }
+  const length = view.getUint32(8, true);
+  if (length > source.size) {
+    throw new GltfParseError(
+      `GLB header declares ${length} bytes but the file has ${source.size}`,
+    );
+  }
+
+  let json: GltfJson | null = null;
+  let binChunk: GltfDocument["binChunk"] = null;
+  let offset = 12;
+
+  while (offset < length) {
+    if (offset + 8 > length) {
+      throw new GltfParseError(`Chunk header at byte ${offset} is truncated`);
+    }
+    const chunkHeader = await source.read(offset, offset + 8);
+    const chunkView = new DataView(
+      chunkHeader.buffer,
+      chunkHeader.byteOffset,
+      8,
+    );
+    const chunkLength = chunkView.getUint32(0, true);
+    const chunkType = chunkView.getUint32(4, true);
+    const dataStart = offset + 8;
+
+    if (dataStart + chunkLength > length) {
+      throw new GltfParseError(
+        `Chunk at byte ${offset} extends past the end of the file`,
+      );
+    }
+
+    if (offset === 12) {
+      if (chunkType !== CHUNK_JSON) {
+        throw new GltfParseError("First GLB chunk must be JSON");
+      }
+      json = parseJsonChunk(
+        await source.read(dataStart, dataStart + chunkLength),
+      );
+    } else if (chunkType === CHUNK_BIN) {
+      if (binChunk) {
+        throw new GltfParseError("GLB contains more than one BIN chunk");
+      }
+      binChunk = { offset: dataStart, length: chunkLength };
+    }
+    // Unknown chunk types must be ignored per the spec
+
+    // Chunks are padded to 4-byte boundaries
+    offset = dataStart + chunkLength + ((4 - (chunkLength % 4)) % 4);
+  }
+
+  if (!json) {
+    throw new GltfParseError("GLB has no JSON chunk");
+  }
+
+  return { container: "glb", json, binChunk, source };
+}
+
+/**
+ * Read the raw bytes of a buffer view (GLB binary chunk or data: URI only),
+ * optionally starting at an offset within the view
+ * Returns null for external buffers that are not part of the file
+ */
+export async function readBufferView(
+  doc: GltfDocument,
+  index: number,
+  maxBytes = Infinity,
+  offset = 0,
+): Promise<Uint8Array | null> {
+  const view = doc.json.bufferViews?.[index];
+  const buffer = view ? doc.json.buffers?.[view.buffer] : undefined;
+  if (!view || !buffer) {
+    return null;
+  }
+  const start = (view.byteOffset ?? 0) + offset;
+  const length = Math.max(0, Math.min(view.byteLength - offset, maxBytes));
+
+  if (buffer.uri === undefined && doc.binChunk && view.buffer === 0) {
+    const from = doc.binChunk.offset + start;
+    return doc.source.read(from, from + length);
+  }
+
+  const data = buffer.uri ? decodeDataUri(buffer.uri) : null;
+  return data ? data.subarray(start, start + length) : null;
+}
+
+/**
+ * Read one element of a FLOAT accessor (e.g. a single keyframe value)
+ * Returns null for other component types, sparse or external data
+ */
+export async function readAccessorElement(
+  doc: GltfDocument,
+  index: number,
+  element: number,
+): Promise<number[] | null> {
+  const accessor = doc.json.accessors?.[index];
+  const view =
+    accessor?.bufferView !== undefined
+      ? doc.json.bufferViews?.[accessor.bufferView]
+      : undefined;
+  const components = accessor ? TYPE_COMPONENTS[accessor.type] : undefined;
+  if (
+    !accessor ||
+    !view ||
+    !components ||
+    accessor.componentType !== 5126 ||
+    accessor.sparse ||
+    element < 0 ||
+    element >= accessor.count
+  ) {
+    return null;
+  }
+
+  const size = components * 4;
+  const start =
+    (accessor.byteOffset ?? 0) + element * (view.byteStride ?? size);
+  if (start + size > view.byteLength) {
+    return null;
+  }
+  const data = await readBufferView(doc, accessor.bufferView!, size, start);
+  if (!data || data.byteLength < size) {
+    return null;
+  }
+
+  const values = new DataView(data.buffer, data.byteOffset, size);
+  return Array.from({ length: components }, (_, i) =>
+    values.getFloat32(i * 4, true),
+  );
+}
+
+/**
+ * Decode a base64 data: URI (null for external URIs)
+ */
+export function decodeDataUri(uri: string): Uint8Array | null {
+  const match = uri.match(/^data:[^;,]*;base64,(.*)$/);
+  if (!match) {
+    return null;
+  }
+  return new Uint8Array(Buffer.from(match[1], "base64"));
+}
+
+/**
+ * Read the pixel size of a PNG, JPEG or WebP image from its header
+ */
+export function readImageSize(
+  data: Uint8Array,
+): { width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // PNG: IHDR is always the first chunk
+  if (data.byteLength >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk markers until a start-of-frame
+  if (data.byteLength >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.byteLength) {
+      if (data[offset] !== 0xff) {
+        return null;
+      }
+      const marker = data[offset + 1];
+      const length = view.getUint16(offset + 2);
+      const isFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isFrame) {
+        return {
+          height: view.getUint16(offset + 5),
+          width: view.getUint16(offset + 7),
+        };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X)
+  if (
+    data.byteLength >= 30 &&
+    view.getUint32(0) === 0x52494646 &&
+    view.getUint32(8) === 0x57454250
+  ) {
+    const format = String.fromCharCode(...data.subarray(12, 16));
+    if (format === "VP8 ") {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    }
+    if (format === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    if (format === "VP8X") {
+      const width = data[24] | (data[25] << 8) | (data[26] << 16);
+      const height = data[27] | (data[28] << 8) | (data[29] << 16);
+      return { width: width + 1, height: height + 1 };
+    }
+  }
+
+  return null;
+}
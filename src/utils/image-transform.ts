@@ -0,0 +1,444 @@
+/**
+ * Image Transformation
+ * Resizes, crops and converts PNG/JPEG/WebP images for /img/<path> on a
+ * worker thread, with WASM encoders for WebP and AVIF. Outputs are cached
+ * under .cdn/img/, keyed by the source ETag and the parameters, and the
+ * cache is kept under IMAGE_CACHE_MAX_MB by evicting the oldest entries.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import encodeAvif from "@jsquash/avif/encode.js";
+import decodeWebp from "@jsquash/webp/decode.js";
+import encodeWebp from "@jsquash/webp/encode.js";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { readImageSize } from "./gltf";
+import {
+  cropRgba,
+  decodeImage,
+  encodeImage,
+  MAX_SOURCE_PIXELS,
+  padRgba,
+  resizeRgba,
+  sniffRasterType,
+  type RgbaImage,
+} from "./image";
+import { generateETag } from "./range-handler";
+import { createWorkerClient, transferBytes } from "./worker-client";
+
+export const IMAGE_FORMATS = ["webp", "avif", "png", "jpeg"] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/**
+ * cover: fill the box, cropping the overflow (default)
+ * contain: fit inside the box, padded with transparency
+ * fill: stretch to the box
+ * inside: fit inside the box without padding or enlarging
+ */
+export const IMAGE_FITS = ["cover", "contain", "fill", "inside"] as const;
+export type ImageFit = (typeof IMAGE_FITS)[number];
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  webp: "image/webp",
+  avif: "image/avif",
+  png: "image/png",
+  jpeg: "image/jpeg",
+};
+
+const DEFAULT_QUALITY: Record<ImageFormat, number> = {
+  webp: 80,
+  avif: 50,
+  png: 100,
+  jpeg: 85,
+};
+
+export const SOURCE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp"];
+
+// Largest requested width or height
+const MAX_DIMENSION = parseInt(process.env.IMAGE_MAX_DIMENSION || "4096", 10);
+
+// Size budget of the transformed-image cache
+const CACHE_MAX_BYTES =
+  parseInt(process.env.IMAGE_CACHE_MAX_MB || "512", 10) * 1024 * 1024;
+
+// When set, transformed URLs must carry a valid &s= signature
+const SIGNING_KEY = process.env.IMAGE_SIGNING_KEY || "";
+
+const CACHE_DIR = systemKey("img");
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  format: ImageFormat;
+  quality: number;
+}
+
+/**
+ * Invalid transformation parameters (400)
+ */
+export class ImageParamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageParamError";
+  }
+}
+
+/**
+ * The source cannot be decoded or is too large (422)
+ */
+export class ImageSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageSourceError";
+  }
+}
+
+function parseInteger(
+  params: URLSearchParams,
+  name: string,
+  max: number,
+): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new ImageParamError(`${name} must be an integer from 1 to ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Read w, h, fit, format and q from the query string
+ * The format defaults to the source's own (WebP sources stay WebP)
+ */
+export function parseImageTransform(
+  params: URLSearchParams,
+  sourceFormat: ImageFormat,
+): ImageTransform {
+  const fit = (params.get("fit") || "cover").toLowerCase();
+  if (!(IMAGE_FITS as readonly string[]).includes(fit)) {
+    throw new ImageParamError(`fit must be one of: ${IMAGE_FITS.join(", ")}`);
+  }
+
+  let format = (params.get("format") || sourceFormat).toLowerCase();
+  if (format === "jpg") {
+    format = "jpeg";
+  }
+  if (!(IMAGE_FORMATS as readonly string[]).includes(format)) {
+    throw new ImageParamError(
+      `format must be one of: ${IMAGE_FORMATS.join(", ")}`,
+    );
+  }
+
+  return {
+    width: parseInteger(params, "w", MAX_DIMENSION),
+    height: parseInteger(params, "h", MAX_DIMENSION),
+    fit: fit as ImageFit,
+    format: format as ImageFormat,
+    quality:
+      parseInteger(params, "q", 100) ?? DEFAULT_QUALITY[format as ImageFormat],
+  };
+}
+
+/**
+ * Canonical query string the signature covers (sorted, without s)
+ */
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .filter(([name]) => name !== "s")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+}
+
+export function isSigningRequired(): boolean {
+  return SIGNING_KEY.length > 0;
+}
+
+/**
+ * Signature of a transformation URL: HMAC-SHA256 of "<path>?<sorted query>"
+ * (e.g. "media/hero.png?format=webp&w=256"), base64url
+ */
+export function signImageRequest(
+  path: string,
+  params: URLSearchParams,
+  key = SIGNING_KEY,
+): string {
+  return createHmac("sha256", key)
+    .update(`${path}?${canonicalQuery(params)}`)
+    .digest("base64url");
+}
+
+export function verifyImageSignature(
+  path: string,
+  params: URLSearchParams,
+  key = SIGNING_KEY,
+): boolean {
+  const given = Buffer.from(params.get("s") ?? "");
+  const expected = Buffer.from(signImageRequest(path, params, key));
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function isWebp(data: Uint8Array): boolean {
+  return (
+    data.byteLength >= 12 &&
+    String.fromCharCode(...data.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...data.subarray(8, 12)) === "WEBP"
+  );
+}
+
+export function sourceFormatOf(path: string): ImageFormat {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return ext === "jpg" ? "jpeg" : (ext as ImageFormat);
+}
+
+async function decodeSource(data: Uint8Array): Promise<RgbaImage> {
+  const size = readImageSize(data);
+  if (size && size.width * size.height > MAX_SOURCE_PIXELS) {
+    throw new ImageSourceError(
+      `Source is too large (${size.width}x${size.height})`,
+    );
+  }
+
+  try {
+    if (isWebp(data)) {
+      const decoded = await decodeWebp(data.slice().buffer);
+      return {
+        width: decoded.width,
+        height: decoded.height,
+        data: new Uint8Array(
+          decoded.data.buffer,
+          decoded.data.byteOffset,
+          decoded.data.byteLength,
+        ),
+      };
+    }
+    const mimeType = sniffRasterType(data);
+    if (mimeType) {
+      return decodeImage(data, mimeType);
+    }
+  } catch (error) {
+    throw new ImageSourceError(
+      `Failed to decode image: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  throw new ImageSourceError("Not a PNG, JPEG or WebP image");
+}
+
+/**
+ * Apply the size and fit of a transformation to a decoded image
+ */
+export function resizeImage(
+  image: RgbaImage,
+  transform: Pick<ImageTransform, "width" | "height" | "fit">,
+): RgbaImage {
+  const { width, height, fit } = transform;
+  if (!width && !height) {
+    return image;
+  }
+
+  // One dimension keeps the aspect ratio and never enlarges
+  if (!width || !height) {
+    const scale = Math.min(
+      1,
+      width ? width / image.width : height! / image.height,
+    );
+    return scale === 1
+      ? image
+      : resizeRgba(
+          image,
+          Math.max(1, Math.round(image.width * scale)),
+          Math.max(1, Math.round(image.height * scale)),
+        );
+  }
+
+  switch (fit) {
+    case "fill":
+      return resizeRgba(image, width, height);
+    case "cover": {
+      const scale = Math.max(width / image.width, height / image.height);
+      const cropWidth = Math.min(image.width, Math.round(width / scale));
+      const cropHeight = Math.min(image.height, Math.round(height / scale));
+      const cropped = cropRgba(
+        image,
+        Math.floor((image.width - cropWidth) / 2),
+        Math.floor((image.height - cropHeight) / 2),
+        cropWidth,
+        cropHeight,
+      );
+      return resizeRgba(cropped, width, height);
+    }
+    case "contain":
+    case "inside": {
+      let scale = Math.min(width / image.width, height / image.height);
+      if (fit === "inside") {
+        scale = Math.min(1, scale);
+      }
+      const resized = resizeRgba(
+        image,
+        Math.max(1, Math.round(image.width * scale)),
+        Math.max(1, Math.round(image.height * scale)),
+      );
+      return fit === "contain" ? padRgba(resized, width, height) : resized;
+    }
+  }
+}
+
+async function encodeOutput(
+  image: RgbaImage,
+  format: ImageFormat,
+  quality: number,
+): Promise<Uint8Array> {
+  // The WASM encoders only read data, width and height of the ImageData
+  const imageData = {
+    data: new Uint8ClampedArray(
+      image.data.buffer,
+      image.data.byteOffset,
+      image.data.byteLength,
+    ),
+    width: image.width,
+    height: image.height,
+    colorSpace: "srgb",
+  } as Parameters<typeof encodeWebp>[0];
+
+  switch (format) {
+    case "webp":
+      return new Uint8Array(await encodeWebp(imageData, { quality }));
+    case "avif":
+      return new Uint8Array(await encodeAvif(imageData, { quality }));
+    case "png":
+      return encodeImage(image, "image/png");
+    case "jpeg":
+      return encodeImage(image, "image/jpeg", quality);
+  }
+}
+
+/**
+ * Decode, resize and re-encode an image
+ */
+export async function transformImage(
+  data: Uint8Array,
+  transform: ImageTransform,
+): Promise<Uint8Array> {
+  const image = resizeImage(await decodeSource(data), transform);
+  return encodeOutput(image, transform.format, transform.quality);
+}
+
+// Decoding, resizing and encoding run on a worker thread so large images
+// and the WASM encoders never stall requests
+const transformImageInWorker = createWorkerClient<
+  { data: Uint8Array; transform: ImageTransform },
+  Uint8Array
+>(new URL("../workers/image-transformer.ts", import.meta.url), {
+  ImageSourceError,
+});
+
+// Bytes currently in the cache, counted from a listing on first write
+let cacheBytes: number | null = null;
+
+/**
+ * Evict the oldest cached outputs until the cache fits its budget, keeping
+ * the one just written so it can still be served
+ */
+async function enforceCacheLimit(
+  storage: StorageBackend,
+  written: string,
+  added: number,
+): Promise<void> {
+  if (cacheBytes === null) {
+    const entries = await storage.list(CACHE_DIR);
+    cacheBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  } else {
+    cacheBytes += added;
+  }
+  if (cacheBytes <= CACHE_MAX_BYTES) {
+    return;
+  }
+
+  const entries = (await storage.list(CACHE_DIR)).sort(
+    (a, b) => a.lastModified - b.lastModified,
+  );
+  cacheBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let evicted = 0;
+  for (const entry of entries) {
+    if (cacheBytes <= CACHE_MAX_BYTES) {
+      break;
+    }
+    if (entry.key !== written && (await storage.delete(entry.key))) {
+      cacheBytes -= entry.size;
+      evicted++;
+    }
+  }
+  if (evicted > 0) {
+    console.log(`[Images] Evicted ${evicted} cached image(s)`);
+  }
+}
+
+// Outputs being generated, so concurrent requests share the work
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Get (generating if needed) a transformed image
+ * Returns null if the source file does not exist
+ */
+export async function getTransformedImage(
+  storage: StorageBackend,
+  path: string,
+  transform: ImageTransform,
+): Promise<{ key: string; etag: string; contentType: string } | null> {
+  const stat = await storage.stat(path);
+  if (!stat) {
+    return null;
+  }
+
+  const { width, height, fit, format, quality } = transform;
+  const digest = createHash("sha256")
+    .update(
+      [
+        path,
+        generateETag(stat.size, stat.lastModified),
+        width ?? "",
+        height ?? "",
+        fit,
+        format,
+        quality,
+      ].join("\0"),
+    )
+    .digest("hex");
+  const key = `${CACHE_DIR}/${digest.slice(0, 2)}/${digest}.${format}`;
+  const result = {
+    key,
+    etag: `W/"${digest.slice(0, 32)}"`,
+    contentType: IMAGE_CONTENT_TYPES[format],
+  };
+
+  if (await storage.stat(key)) {
+    return result;
+  }
+
+  let job = inFlight.get(key);
+  if (!job) {
+    job = (async () => {
+      const started = Date.now();
+      const source = await storage.read(path);
+      if (!source) {
+        throw new ImageSourceError(`${path} disappeared while processing`);
+      }
+      const output = await transformImageInWorker(
+        { data: source, transform },
+        transferBytes(source),
+      );
+      await storage.write(key, output);
+      console.log(
+        `[Images] ${path} -> ${width ?? "auto"}x${height ?? "auto"} ${fit} ${format}: ${output.byteLength} bytes (${Date.now() - started}ms)`,
+      );
+      await enforceCacheLimit(storage, key, output.byteLength);
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, job);
+  }
+  await job;
+  return result;
+}
@@ -0,0 +1,163 @@
+/**
+ * Raster Image Helpers
+ * Pure-JS decoding, resizing and encoding of PNG and JPEG images, shared by
+ * texture downscaling and thumbnails (no native image libraries)
+ */
+
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type RasterMimeType = "image/png" | "image/jpeg";
+
+// Sources above this are refused rather than decoded into memory
+export const MAX_SOURCE_PIXELS = 50_000_000;
+
+/**
+ * Identify PNG and JPEG data by magic bytes
+ */
+export function sniffRasterType(data: Uint8Array): RasterMimeType | null {
+  if (
+    data.byteLength >= 8 &&
+    data[0] === 0x89 &&
+    data[1] === 0x50 &&
+    data[2] === 0x4e &&
+    data[3] === 0x47
+  ) {
+    return "image/png";
+  }
+  if (data.byteLength >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+    return "image/jpeg";
+  }
+  return null;
+}
+
+export function decodeImage(
+  data: Uint8Array,
+  mimeType: RasterMimeType,
+): RgbaImage {
+  const decoded =
+    mimeType === "image/png"
+      ? PNG.sync.read(Buffer.from(data))
+      : jpeg.decode(data, { useTArray: true, formatAsRGBA: true });
+  return {
+    width: decoded.width,
+    height: decoded.height,
+    data: new Uint8Array(decoded.data),
+  };
+}
+
+/**
+ * Encode as PNG or JPEG (quality 1-100, JPEG only)
+ */
+export function encodeImage(
+  image: RgbaImage,
+  mimeType: RasterMimeType,
+  quality = 85,
+): Uint8Array {
+  if (mimeType === "image/png") {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data);
+    return new Uint8Array(PNG.sync.write(png));
+  }
+  return new Uint8Array(jpeg.encode(image, quality).data);
+}
+
+/**
+ * Area-average resize of an RGBA image (nearest neighbour when enlarging)
+ */
+export function resizeRgba(
+  image: RgbaImage,
+  targetWidth: number,
+  targetHeight: number,
+): RgbaImage {
+  const { data, width, height } = image;
+  const out = new Uint8Array(targetWidth * targetHeight * 4);
+  const scaleX = width / targetWidth;
+  const scaleY = height / targetHeight;
+
+  for (let y = 0; y < targetHeight; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < targetWidth; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * width + sx) * 4;
+          sum[0] += data[i];
+          sum[1] += data[i + 1];
+          sum[2] += data[i + 2];
+          sum[3] += data[i + 3];
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (y * targetWidth + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        out[o + c] = Math.round(sum[c] / count);
+      }
+    }
+  }
+  return { width: targetWidth, height: targetHeight, data: out };
+}
+
+/**
+ * Shrink an image so its longest edge is at most maxSize, keeping the
+ * aspect ratio. Returns null if it already fits.
+ */
+export function fitWithin(image: RgbaImage, maxSize: number): RgbaImage | null {
+  const { width, height } = image;
+  if (Math.max(width, height) <= maxSize) {
+    return null;
+  }
+  const scale = maxSize / Math.max(width, height);
+  return resizeRgba(
+    image,
+    Math.max(1, Math.round(width * scale)),
+    Math.max(1, Math.round(height * scale)),
+  );
+}
+
+/**
+ * Copy a rectangle out of an RGBA image
+ */
+export function cropRgba(
+  image: RgbaImage,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): RgbaImage {
+  const out = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const from = ((top + y) * image.width + left) * 4;
+    out.set(image.data.subarray(from, from + width * 4), y * width * 4);
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Centre an RGBA image on a transparent canvas
+ */
+export function padRgba(
+  image: RgbaImage,
+  width: number,
+  height: number,
+): RgbaImage {
+  const out = new Uint8Array(width * height * 4);
+  const left = Math.floor((width - image.width) / 2);
+  const top = Math.floor((height - image.height) / 2);
+  for (let y = 0; y < image.height; y++) {
+    out.set(
+      image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4),
+      ((top + y) * width + left) * 4,
+    );
+  }
+  return { width, height, data: out };
+}
@@ -0,0 +1,132 @@
+/**
+ * Level-of-Detail Chains
+ * LOD1..LODn of uploaded models are built by mesh simplification at
+ * configurable triangle ratios (LOD0 is the original upload) and stored as
+ * GLB variants, so distant props can be streamed with fewer triangles
+ */
+
+import type { Transform } from "@gltf-transform/core";
+import { simplify, weld } from "@gltf-transform/functions";
+import { MeshoptSimplifier } from "meshoptimizer";
+import type { VariantInfo } from "./gltf-optimize";
+
+export type LodVariant = `lod${number}`;
+
+export interface LodLevel {
+  level: number;
+  ratio: number;
+  status: VariantInfo["status"];
+  triangles?: number;
+  size?: number;
+  url: string;
+}
+
+// Directories whose .glb uploads get a LOD chain automatically
+export const LOD_DIRECTORIES = ["models"];
+
+// Largest simplification error, relative to the mesh size; loose enough
+// that the triangle ratio is normally reached
+const LOD_MAX_ERROR = 0.05;
+
+/**
+ * Parse a comma-separated list of triangle ratios (LOD1 first)
+ * Values outside (0, 1) are ignored; the chain is ordered from most to
+ * least detailed
+ */
+export function parseLodRatios(value: string): number[] {
+  return value
+    .split(",")
+    .map((ratio) => parseFloat(ratio))
+    .filter((ratio) => ratio > 0 && ratio < 1)
+    .sort((a, b) => b - a);
+}
+
+/**
+ * Triangle ratio of each LOD level (index 0 is LOD1); empty disables LODs
+ */
+export const LOD_RATIOS = parseLodRatios(
+  process.env.LOD_RATIOS ?? "0.5,0.25,0.1",
+);
+
+export function lodVariant(level: number): LodVariant {
+  return `lod${level}`;
+}
+
+// Every configured LOD variant, most detailed first
+export const LOD_VARIANTS = LOD_RATIOS.map((_, i) => lodVariant(i + 1));
+
+/**
+ * LOD level of a variant name ("lod2" -> 2), or null for other names
+ */
+export function parseLodLevel(name: string): number | null {
+  const match = name.match(/^lod([1-9]\d*)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * LOD variants to build for a freshly uploaded file
+ */
+export function lodVariantsFor(path: string): LodVariant[] {
+  if (!LOD_DIRECTORIES.includes(path.split("/")[0]) || !/\.glb$/i.test(path)) {
+    return [];
+  }
+  return [...LOD_VARIANTS];
+}
+
+/**
+ * Variants to try for a ?lod=N request: the requested level, then each
+ * more detailed level, so a missing LOD never serves less detail than asked
+ * (the original is the final fallback)
+ */
+export function lodCandidates(level: number): LodVariant[] {
+  const candidates: LodVariant[] = [];
+  for (let i = level; i >= 1; i--) {
+    candidates.push(lodVariant(i));
+  }
+  return candidates;
+}
+
+/**
+ * Mesh simplification for one LOD level
+ */
+export function lodTransforms(level: number): Transform[] {
+  const ratio = LOD_RATIOS[level - 1];
+  if (ratio === undefined) {
+    throw new Error(`LOD${level} is not configured (LOD_RATIOS)`);
+  }
+  return [
+    weld(),
+    simplify({ simplifier: MeshoptSimplifier, ratio, error: LOD_MAX_ERROR }),
+  ];
+}
+
+/**
+ * The LOD set of a model: LOD0 (the original) followed by each LOD variant
+ * recorded in its manifest
+ */
+export function describeLods(
+  path: string,
+  original: { triangles: number; size: number },
+  variants: Partial<Record<string, VariantInfo>>,
+): LodLevel[] {
+  const levels: LodLevel[] = [
+    { level: 0, ratio: 1, status: "ready", ...original, url: `/${path}` },
+  ];
+  const recorded = Object.keys(variants)
+    .map((name) => parseLodLevel(name))
+    .filter((level): level is number => level !== null)
+    .sort((a, b) => a - b);
+
+  for (const level of recorded) {
+    const info = variants[lodVariant(level)]!;
+    levels.push({
+      level,
+      ratio: info.ratio ?? LOD_RATIOS[level - 1] ?? 0,
+      status: info.status,
+      ...(info.triangles !== undefined && { triangles: info.triangles }),
+      ...(info.size !== undefined && { size: info.size }),
+      url: `/${path}?lod=${level}`,
+    });
+  }
+  return levels;
+}
@@ -0,0 +1,945 @@
+/**
+ * MP3 Decoder
+ * MPEG-1/2/2.5 Layer III decoding in TypeScript, used for waveforms without
+ * native codecs. Channels are mixed before the polyphase synthesis (which
+ * is linear), so the output is mono and stereo costs one synthesis pass.
+ */
+
+import {
+  AudioParseError,
+  id3v2Size,
+  parseMpegFrameHeader,
+} from "./audio-metadata";
+import {
+  HUFFMAN_TABLES,
+  HUFFMAN_TREES,
+  LSF_PARTITIONS,
+  PRETAB,
+  SFB_LONG,
+  SFB_SHORT,
+  SLEN,
+  SYNTH_WINDOW,
+} from "./mp3-tables";
+
+const JOINT_STEREO = 1;
+
+// Samples of decoder delay added by the hybrid and synthesis filterbanks,
+// removed together with the encoder delay recorded in LAME tags
+const DECODER_DELAY = 529;
+
+// Bytes of earlier frames kept for main_data_begin (at most 511 back)
+const RESERVOIR_BYTES = 1024;
+
+class BitReader {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bit(): number {
+    const byte = this.data[this.position >> 3] ?? 0;
+    const value = (byte >> (7 - (this.position & 7))) & 1;
+    this.position++;
+    return value;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.bit();
+    }
+    return value;
+  }
+}
+
+interface Granule {
+  part23Length: number;
+  bigValues: number;
+  globalGain: number;
+  scalefacCompress: number;
+  /**
+   * 0 normal, 1 start, 2 short, 3 stop
+   */
+  blockType: number;
+  mixed: boolean;
+  tableSelect: number[];
+  subblockGain: number[];
+  region0Count: number;
+  region1Count: number;
+  preflag: boolean;
+  scalefacScale: boolean;
+  count1Table: number;
+}
+
+interface SideInfo {
+  mainDataBegin: number;
+  scfsi: number[][];
+  /**
+   * [granule][channel]; MPEG-2/2.5 frames have one granule
+   */
+  granules: Granule[][];
+}
+
+function readSideInfo(
+  reader: BitReader,
+  mpeg1: boolean,
+  channels: number,
+): SideInfo {
+  const mainDataBegin = reader.bits(mpeg1 ? 9 : 8);
+  reader.bits(mpeg1 ? (channels === 1 ? 5 : 3) : channels === 1 ? 1 : 2);
+  const scfsi = Array.from({ length: channels }, () =>
+    mpeg1 ? [reader.bit(), reader.bit(), reader.bit(), reader.bit()] : [],
+  );
+
+  const granules: Granule[][] = [];
+  for (let gr = 0; gr < (mpeg1 ? 2 : 1); gr++) {
+    granules.push([]);
+    for (let ch = 0; ch < channels; ch++) {
+      const part23Length = reader.bits(12);
+      const bigValues = reader.bits(9);
+      const globalGain = reader.bits(8);
+      const scalefacCompress = reader.bits(mpeg1 ? 4 : 9);
+      let blockType = 0;
+      let mixed = false;
+      let tableSelect: number[];
+      let subblockGain = [0, 0, 0];
+      let region0Count: number;
+      let region1Count: number;
+      if (reader.bit()) {
+        // Window switching: the region boundaries are implicit
+        blockType = reader.bits(2);
+        mixed = reader.bit() === 1;
+        tableSelect = [reader.bits(5), reader.bits(5), 0];
+        subblockGain = [reader.bits(3), reader.bits(3), reader.bits(3)];
+        region0Count = blockType === 2 && !mixed ? 8 : 7;
+        region1Count = 20 - region0Count;
+      } else {
+        tableSelect = [reader.bits(5), reader.bits(5), reader.bits(5)];
+        region0Count = reader.bits(4);
+        region1Count = reader.bits(3);
+      }
+      granules[gr].push({
+        part23Length,
+        bigValues,
+        globalGain,
+        scalefacCompress,
+        blockType,
+        mixed,
+        tableSelect,
+        subblockGain,
+        region0Count,
+        region1Count,
+        preflag: mpeg1 ? reader.bit() === 1 : false,
+        scalefacScale: reader.bit() === 1,
+        count1Table: reader.bit(),
+      });
+    }
+  }
+  return { mainDataBegin, scfsi, granules };
+}
+
+/**
+ * Per-channel decoder state. Scalefactors persist between granules for
+ * scfsi; illegal intensity positions are recorded for MPEG-2 (MPEG-1 uses 7)
+ */
+class ChannelState {
+  scalefacL = new Int32Array(22);
+  scalefacS = new Int32Array(39);
+  maxL = new Int32Array(22).fill(7);
+  maxS = new Int32Array(39).fill(7);
+  intensityScale = 0;
+  values = new Int32Array(576);
+  xr = new Float32Array(576);
+  /**
+   * Lines past this are zero
+   */
+  nonzero = 0;
+  overlap = new Float32Array(576);
+}
+
+function readScalefactorsMpeg1(
+  reader: BitReader,
+  state: ChannelState,
+  granule: Granule,
+  scfsi: number[],
+  gr: number,
+): void {
+  const [slen1, slen2] = SLEN[granule.scalefacCompress];
+  if (granule.blockType === 2) {
+    if (granule.mixed) {
+      for (let sfb = 0; sfb < 8; sfb++) {
+        state.scalefacL[sfb] = reader.bits(slen1);
+      }
+    }
+    for (let sfb = granule.mixed ? 3 : 0; sfb < 12; sfb++) {
+      for (let win = 0; win < 3; win++) {
+        state.scalefacS[sfb * 3 + win] = reader.bits(sfb < 6 ? slen1 : slen2);
+      }
+    }
+    state.scalefacS.fill(0, 36);
+    return;
+  }
+
+  const groups = [0, 6, 11, 16, 21];
+  for (let group = 0; group < 4; group++) {
+    if (gr === 1 && scfsi[group]) {
+      continue; // Shared with the first granule
+    }
+    for (let sfb = groups[group]; sfb < groups[group + 1]; sfb++) {
+      state.scalefacL[sfb] = reader.bits(group < 2 ? slen1 : slen2);
+    }
+  }
+  state.scalefacL[21] = 0;
+}
+
+function readScalefactorsMpeg2(
+  reader: BitReader,
+  state: ChannelState,
+  granule: Granule,
+  intensityRight: boolean,
+): void {
+  let sfc = granule.scalefacCompress;
+  let table: number;
+  let slen: number[];
+  if (!intensityRight) {
+    if (sfc < 400) {
+      slen = [
+        Math.floor((sfc >> 4) / 5),
+        (sfc >> 4) % 5,
+        (sfc & 15) >> 2,
+        sfc & 3,
+      ];
+      table = 0;
+    } else if (sfc < 500) {
+      sfc -= 400;
+      slen = [Math.floor((sfc >> 2) / 5), (sfc >> 2) % 5, sfc & 3, 0];
+      table = 1;
+    } else {
+      sfc -= 500;
+      slen = [Math.floor(sfc / 3), sfc % 3, 0, 0];
+      table = 2;
+      granule.preflag = true;
+    }
+  } else {
+    state.intensityScale = sfc & 1;
+    sfc >>= 1;
+    if (sfc < 180) {
+      slen = [
+        Math.floor(sfc / 36),
+        Math.floor((sfc % 36) / 6),
+        (sfc % 36) % 6,
+        0,
+      ];
+      table = 3;
+    } else if (sfc < 244) {
+      sfc -= 180;
+      slen = [(sfc & 63) >> 4, (sfc & 15) >> 2, sfc & 3, 0];
+      table = 4;
+    } else {
+      sfc -= 244;
+      slen = [Math.floor(sfc / 3), sfc % 3, 0, 0];
+      table = 5;
+    }
+  }
+
+  const kind = granule.blockType === 2 ? (granule.mixed ? 2 : 1) : 0;
+  const values: number[] = [];
+  const maxima: number[] = [];
+  LSF_PARTITIONS[table][kind].forEach((count, partition) => {
+    for (let i = 0; i < count; i++) {
+      values.push(reader.bits(slen[partition]));
+      maxima.push((1 << slen[partition]) - 1);
+    }
+  });
+
+  // Long bands first (all of them, or the six of a mixed block), then the
+  // short bands window by window
+  const longBands = kind === 0 ? 21 : kind === 2 ? 6 : 0;
+  state.scalefacL.fill(0);
+  state.scalefacS.fill(0);
+  for (let i = 0; i < longBands; i++) {
+    state.scalefacL[i] = values[i];
+    state.maxL[i] = maxima[i];
+  }
+  const shortStart = kind === 2 ? 9 : 0;
+  for (let i = longBands; i < values.length; i++) {
+    const index = shortStart + i - longBands;
+    state.scalefacS[index] = values[i];
+    state.maxS[index] = maxima[i];
+  }
+}
+
+/**
+ * Walk a Huffman tree, returning the leaf value (0 for corrupt codes)
+ */
+function readHuffman(reader: BitReader, offset: number, length: number) {
+  let point = 0;
+  for (let depth = 0; depth < 32; depth++) {
+    let node = HUFFMAN_TREES[offset + point];
+    if ((node & 0xff00) === 0) {
+      return node & 0xff;
+    }
+    if (reader.bit()) {
+      while ((node & 0xff) >= 250) {
+        point += node & 0xff;
+        node = HUFFMAN_TREES[offset + point];
+      }
+      point += node & 0xff;
+    } else {
+      while (node >> 8 >= 250) {
+        point += node >> 8;
+        node = HUFFMAN_TREES[offset + point];
+      }
+      point += node >> 8;
+    }
+    if (point >= length) {
+      break;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Decode the Huffman-coded frequency lines of a granule (part 3), returning
+ * the number of lines that may be nonzero
+ */
+function readHuffmanValues(
+  reader: BitReader,
+  granule: Granule,
+  end: number,
+  sfbLong: number[],
+  sfbShort: number[],
+  values: Int32Array,
+): number {
+  const bigValues = Math.min(granule.bigValues * 2, 576);
+  let region1: number;
+  let region2: number;
+  if (granule.blockType === 2) {
+    region1 = granule.mixed ? 36 : sfbShort[3] * 3;
+    region2 = 576;
+  } else if (granule.blockType !== 0) {
+    region1 = sfbLong[8];
+    region2 = 576;
+  } else {
+    region1 = sfbLong[Math.min(granule.region0Count + 1, 22)];
+    region2 =
+      sfbLong[Math.min(granule.region0Count + granule.region1Count + 2, 22)];
+  }
+
+  let i = 0;
+  for (; i < bigValues; i += 2) {
+    const table =
+      HUFFMAN_TABLES[
+        granule.tableSelect[i < region1 ? 0 : i < region2 ? 1 : 2]
+      ];
+    if (!table) {
+      values[i] = values[i + 1] = 0;
+      continue;
+    }
+    const [offset, length, linbits] = table;
+    const pair = readHuffman(reader, offset, length);
+    let x = pair >> 4;
+    let y = pair & 15;
+    if (linbits && x === 15) {
+      x += reader.bits(linbits);
+    }
+    if (x && reader.bit()) {
+      x = -x;
+    }
+    if (linbits && y === 15) {
+      y += reader.bits(linbits);
+    }
+    if (y && reader.bit()) {
+      y = -y;
+    }
+    values[i] = x;
+    values[i + 1] = y;
+  }
+
+  // count1 region: quadruples of -1/0/1 until the granule's bits run out
+  const [offset, length] = HUFFMAN_TABLES[32 + granule.count1Table]!;
+  while (i + 4 <= 576 && reader.position < end) {
+    const quad = readHuffman(reader, offset, length);
+    const lines = [(quad >> 3) & 1, (quad >> 2) & 1, (quad >> 1) & 1, quad & 1];
+    for (let j = 0; j < 4; j++) {
+      if (lines[j] && reader.bit()) {
+        lines[j] = -1;
+      }
+    }
+    if (reader.position > end) {
+      break; // Overran into the next granule: discard
+    }
+    values.set(lines, i);
+    i += 4;
+  }
+
+  values.fill(0, i);
+  reader.position = end;
+  return i;
+}
+
+// |v|^(4/3) for every value Huffman decoding can produce (15 + 2^13 - 1)
+const POW43 = Float32Array.from({ length: 8207 }, (_, i) => i ** (4 / 3));
+
+function requantizeBand(
+  state: ChannelState,
+  start: number,
+  end: number,
+  exponent: number,
+): void {
+  const scale = 2 ** exponent;
+  const limit = Math.min(end, state.nonzero);
+  for (let i = start; i < limit; i++) {
+    const value = state.values[i];
+    state.xr[i] =
+      value === 0
+        ? 0
+        : value > 0
+          ? POW43[value] * scale
+          : -POW43[-value] * scale;
+  }
+}
+
+function requantize(
+  state: ChannelState,
+  granule: Granule,
+  sfbLong: number[],
+  sfbShort: number[],
+): void {
+  state.xr.fill(0);
+  const gain = 0.25 * (granule.globalGain - 210);
+  const multiplier = granule.scalefacScale ? 1 : 0.5;
+
+  let shortFrom = 0;
+  if (granule.blockType !== 2 || granule.mixed) {
+    const longEnd = granule.blockType === 2 ? 36 : 576;
+    for (let sfb = 0; sfb < 22 && sfbLong[sfb] < longEnd; sfb++) {
+      const pretab = granule.preflag ? PRETAB[sfb] : 0;
+      requantizeBand(
+        state,
+        sfbLong[sfb],
+        Math.min(sfbLong[sfb + 1], longEnd),
+        gain - multiplier * (state.scalefacL[sfb] + pretab),
+      );
+    }
+    if (granule.blockType !== 2) {
+      return;
+    }
+    shortFrom = 3;
+  }
+
+  for (let sfb = shortFrom; sfb < 13; sfb++) {
+    const width = sfbShort[sfb + 1] - sfbShort[sfb];
+    for (let win = 0; win < 3; win++) {
+      const start = sfbShort[sfb] * 3 + win * width;
+      requantizeBand(
+        state,
+        start,
+        start + width,
+        gain -
+          2 * granule.subblockGain[win] -
+          multiplier * state.scalefacS[sfb * 3 + win],
+      );
+    }
+  }
+}
+
+// MPEG-1 intensity positions 0-6 as [left, right] factors
+const INTENSITY_MPEG1 = Array.from({ length: 7 }, (_, pos) => {
+  if (pos === 6) {
+    return [1, 0];
+  }
+  const ratio = Math.tan((pos * Math.PI) / 12);
+  return [ratio / (1 + ratio), 1 / (1 + ratio)];
+});
+
+function intensityFactors(pos: number, mpeg1: boolean, scale: number) {
+  if (mpeg1) {
+    return INTENSITY_MPEG1[pos];
+  }
+  const base = scale ? Math.SQRT1_2 : 2 ** -0.25;
+  if (pos === 0) {
+    return [1, 1];
+  }
+  return pos & 1 ? [base ** ((pos + 1) / 2), 1] : [1, base ** (pos / 2)];
+}
+
+function midSide(
+  left: Float32Array,
+  right: Float32Array,
+  start: number,
+  end: number,
+) {
+  for (let i = start; i < end; i++) {
+    const mid = left[i];
+    const side = right[i];
+    left[i] = (mid + side) * Math.SQRT1_2;
+    right[i] = (mid - side) * Math.SQRT1_2;
+  }
+}
+
+/**
+ * Joint stereo: mid/side and intensity stereo. Intensity bands are those
+ * above the last nonzero line of the right channel; the position comes
+ * from the right channel's scalefactor (the last band reuses the previous)
+ */
+function jointStereo(
+  left: ChannelState,
+  right: ChannelState,
+  granule: Granule,
+  modeExtension: number,
+  mpeg1: boolean,
+  sfbLong: number[],
+  sfbShort: number[],
+): void {
+  const ms = (modeExtension & 2) !== 0;
+  const intensity = (modeExtension & 1) !== 0;
+  const nonzero = Math.max(left.nonzero, right.nonzero);
+
+  if (!intensity) {
+    if (ms) {
+      midSide(left.xr, right.xr, 0, nonzero);
+    }
+    left.nonzero = right.nonzero = nonzero;
+    return;
+  }
+
+  let rightEnd = 0;
+  for (let i = right.nonzero - 1; i >= 0; i--) {
+    if (right.xr[i] !== 0) {
+      rightEnd = i + 1;
+      break;
+    }
+  }
+
+  const band = (
+    start: number,
+    end: number,
+    pos: number,
+    max: number,
+    isIntensity: boolean,
+  ) => {
+    if (isIntensity && (mpeg1 ? pos < 7 : pos !== max)) {
+      const [kl, kr] = intensityFactors(pos, mpeg1, right.intensityScale);
+      for (let i = start; i < end; i++) {
+        const value = left.xr[i];
+        left.xr[i] = value * kl;
+        right.xr[i] = value * kr;
+      }
+    } else if (ms) {
+      midSide(left.xr, right.xr, start, end);
+    }
+  };
+
+  let shortFrom = 0;
+  if (granule.blockType !== 2 || granule.mixed) {
+    const longEnd = granule.blockType === 2 ? 36 : 576;
+    for (let sfb = 0; sfb < 22 && sfbLong[sfb] < longEnd; sfb++) {
+      const source = sfb === 21 ? 20 : sfb;
+      band(
+        sfbLong[sfb],
+        Math.min(sfbLong[sfb + 1], longEnd),
+        right.scalefacL[source],
+        right.maxL[source],
+        sfbLong[sfb] >= rightEnd,
+      );
+    }
+    shortFrom = 3;
+  }
+
+  if (granule.blockType === 2) {
+    for (let win = 0; win < 3; win++) {
+      // First short band of this window above the right channel's content
+      let firstIntensity = shortFrom;
+      for (let sfb = 12; sfb >= shortFrom; sfb--) {
+        const width = sfbShort[sfb + 1] - sfbShort[sfb];
+        const start = sfbShort[sfb] * 3 + win * width;
+        if (right.xr.subarray(start, start + width).some((v) => v !== 0)) {
+          firstIntensity = sfb + 1;
+          break;
+        }
+      }
+      for (let sfb = shortFrom; sfb < 13; sfb++) {
+        const width = sfbShort[sfb + 1] - sfbShort[sfb];
+        const start = sfbShort[sfb] * 3 + win * width;
+        const source = (sfb === 12 ? 11 : sfb) * 3 + win;
+        band(
+          start,
+          start + width,
+          right.scalefacS[source],
+          right.maxS[source],
+          sfb >= firstIntensity,
+        );
+      }
+    }
+  }
+
+  left.nonzero = right.nonzero = nonzero;
+}
+
+/**
+ * Short block lines are stored band by band, window by window; the IMDCT
+ * wants each subband's 18 lines interleaved as 6 triples of windows
+ */
+function reorder(state: ChannelState, granule: Granule, sfbShort: number[]) {
+  const scratch = new Float32Array(576);
+  const first = granule.mixed ? 3 : 0;
+  for (let sfb = first; sfb < 13; sfb++) {
+    const width = sfbShort[sfb + 1] - sfbShort[sfb];
+    const base = sfbShort[sfb] * 3;
+    for (let win = 0; win < 3; win++) {
+      for (let j = 0; j < width; j++) {
+        scratch[base + 3 * j + win] = state.xr[base + win * width + j];
+      }
+    }
+  }
+  const start = sfbShort[first] * 3;
+  state.xr.set(scratch.subarray(start), start);
+  state.nonzero = 576;
+}
+
+const ALIAS_C = [-0.6, -0.535, -0.33, -0.185, -0.095, -0.041, -0.0142, -0.0037];
+const ALIAS_CS = ALIAS_C.map((c) => 1 / Math.sqrt(1 + c * c));
+const ALIAS_CA = ALIAS_C.map((c) => c / Math.sqrt(1 + c * c));
+
+function aliasReduce(state: ChannelState, granule: Granule) {
+  const subbands =
+    granule.blockType === 2
+      ? granule.mixed
+        ? 2
+        : 0
+      : Math.min(32, Math.ceil(state.nonzero / 18) + 1);
+  const xr = state.xr;
+  for (let sb = 1; sb < subbands; sb++) {
+    for (let i = 0; i < 8; i++) {
+      const lower = 18 * sb - 1 - i;
+      const upper = 18 * sb + i;
+      const a = xr[lower];
+      const b = xr[upper];
+      xr[lower] = a * ALIAS_CS[i] - b * ALIAS_CA[i];
+      xr[upper] = b * ALIAS_CS[i] + a * ALIAS_CA[i];
+    }
+  }
+  state.nonzero = Math.min(576, Math.max(state.nonzero, subbands * 18));
+}
+
+const COS36 = Float32Array.from({ length: 36 * 18 }, (_, n) => {
+  const i = Math.floor(n / 18);
+  const k = n % 18;
+  return Math.cos((Math.PI / 72) * (2 * i + 1 + 18) * (2 * k + 1));
+});
+
+const COS12 = Float32Array.from({ length: 12 * 6 }, (_, n) => {
+  const i = Math.floor(n / 6);
+  const k = n % 6;
+  return Math.cos((Math.PI / 24) * (2 * i + 1 + 6) * (2 * k + 1));
+});
+
+const sine = (period: number, i: number) =>
+  Math.sin((Math.PI / period) * (i + 0.5));
+
+// Long block windows by block type (2 is unused: short blocks use SHORT_WINDOW)
+const LONG_WINDOWS = [0, 1, 2, 3].map((type) =>
+  Float32Array.from({ length: 36 }, (_, i) => {
+    if (type === 1) {
+      return i < 18 ? sine(36, i) : i < 24 ? 1 : i < 30 ? sine(12, i - 18) : 0;
+    }
+    if (type === 3) {
+      return i < 6 ? 0 : i < 12 ? sine(12, i - 6) : i < 18 ? 1 : sine(36, i);
+    }
+    return sine(36, i);
+  }),
+);
+
+const SHORT_WINDOW = Float32Array.from({ length: 12 }, (_, i) => sine(12, i));
+
+/**
+ * IMDCT, windowing and overlap-add of each subband, then frequency
+ * inversion; the result is added (times weight) to the subband samples
+ * laid out [time slot][subband]
+ */
+function hybridSynthesis(
+  state: ChannelState,
+  granule: Granule,
+  weight: number,
+  output: Float32Array,
+): void {
+  const raw = new Float32Array(36);
+  const active = Math.ceil(state.nonzero / 18);
+  for (let sb = 0; sb < 32; sb++) {
+    raw.fill(0);
+    const base = sb * 18;
+    const short = granule.blockType === 2 && (!granule.mixed || sb >= 2);
+    if (sb < active) {
+      if (short) {
+        for (let win = 0; win < 3; win++) {
+          for (let i = 0; i < 12; i++) {
+            let sum = 0;
+            for (let k = 0; k < 6; k++) {
+              sum += state.xr[base + 3 * k + win] * COS12[i * 6 + k];
+            }
+            raw[6 + 6 * win + i] += sum * SHORT_WINDOW[i];
+          }
+        }
+      } else {
+        const window =
+          LONG_WINDOWS[granule.blockType === 2 ? 0 : granule.blockType];
+        for (let i = 0; i < 36; i++) {
+          let sum = 0;
+          for (let k = 0; k < 18; k++) {
+            sum += state.xr[base + k] * COS36[i * 18 + k];
+          }
+          raw[i] = sum * window[i];
+        }
+      }
+    }
+
+    for (let i = 0; i < 18; i++) {
+      let sample = raw[i] + state.overlap[base + i];
+      state.overlap[base + i] = raw[i + 18];
+      if (sb & i & 1) {
+        sample = -sample;
+      }
+      output[i * 32 + sb] += sample * weight;
+    }
+  }
+}
+
+// Matrixing rows computed directly; the others follow from symmetry
+// (V[32 - i] = -V[i], V[96 - i] = V[i])
+const MATRIX_ROWS = [
+  ...Array.from({ length: 16 }, (_, i) => i),
+  ...Array.from({ length: 16 }, (_, i) => 33 + i),
+];
+const MATRIX = Float32Array.from({ length: 32 * 32 }, (_, n) => {
+  const i = MATRIX_ROWS[Math.floor(n / 32)];
+  const k = n % 32;
+  return Math.cos(((16 + i) * (2 * k + 1) * Math.PI) / 64);
+});
+
+/**
+ * Polyphase synthesis of 18 time slots of 32 subband samples into PCM
+ */
+function polyphaseSynthesis(
+  v: Float32Array,
+  subbands: Float32Array,
+  pcm: Float32Array,
+): void {
+  for (let slot = 0; slot < 18; slot++) {
+    v.copyWithin(64, 0, 960);
+    const s = slot * 32;
+    for (let row = 0; row < 32; row++) {
+      let sum = 0;
+      for (let k = 0; k < 32; k++) {
+        sum += MATRIX[row * 32 + k] * subbands[s + k];
+      }
+      const i = MATRIX_ROWS[row];
+      v[i] = sum;
+      if (i < 16) {
+        v[32 - i] = -sum;
+      } else if (i < 48) {
+        v[96 - i] = sum;
+      }
+    }
+    v[16] = 0;
+
+    for (let j = 0; j < 32; j++) {
+      let sum = 0;
+      for (let i = 0; i < 8; i++) {
+        sum +=
+          v[i * 128 + j] * SYNTH_WINDOW[i * 64 + j] +
+          v[i * 128 + 96 + j] * SYNTH_WINDOW[i * 64 + 32 + j];
+      }
+      pcm[s + j] = sum;
+    }
+  }
+}
+
+function ascii(data: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...data.subarray(start, start + length));
+}
+
+/**
+ * Decode an MP3 file, passing mono PCM (channels averaged, -1..1) to
+ * onSamples 576 samples at a time. The array is reused between calls.
+ * Encoder and decoder delay recorded in a LAME tag is trimmed. Throws
+ * AudioParseError if the data holds no Layer III frames.
+ */
+export function decodeMp3(
+  data: Uint8Array,
+  onSamples: (samples: Float32Array) => void,
+): void {
+  const states = [new ChannelState(), new ChannelState()];
+  const synthesis = new Float32Array(1024);
+  const subbands = new Float32Array(576);
+  const pcm = new Float32Array(576);
+  let reservoir = new Uint8Array(0);
+  let sampleRate = 0;
+  let frames = 0;
+  let skip = 0;
+  let remaining = Infinity;
+
+  const emit = () => {
+    let samples = pcm.subarray(0);
+    if (skip > 0) {
+      const dropped = Math.min(skip, samples.length);
+      samples = samples.subarray(dropped);
+      skip -= dropped;
+    }
+    if (samples.length > remaining) {
+      samples = samples.subarray(0, remaining);
+    }
+    remaining -= samples.length;
+    if (samples.length > 0) {
+      onSamples(samples);
+    }
+  };
+
+  let offset = id3v2Size(data);
+  while (offset + 4 <= data.byteLength && remaining > 0) {
+    const frame = parseMpegFrameHeader(data, offset);
+    const end = frame ? offset + frame.length : 0;
+    if (
+      !frame ||
+      frame.layer !== 3 ||
+      end > data.byteLength ||
+      (sampleRate !== 0 && frame.sampleRate !== sampleRate) ||
+      // Until synced, only trust a header followed by another
+      (sampleRate === 0 &&
+        end + 4 <= data.byteLength &&
+        !parseMpegFrameHeader(data, end))
+    ) {
+      offset++;
+      continue;
+    }
+
+    const { mpeg1, channels } = frame;
+    const start = offset;
+    const mode = data[start + 3] >> 6;
+    const modeExtension = (data[start + 3] >> 4) & 3;
+    const sideStart = start + 4 + (data[start + 1] & 1 ? 0 : 2);
+    const sideSize = mpeg1
+      ? channels === 1
+        ? 17
+        : 32
+      : channels === 1
+        ? 9
+        : 17;
+    const mainStart = sideStart + sideSize;
+    offset = end;
+
+    if (sampleRate === 0) {
+      sampleRate = frame.sampleRate;
+      // A Xing/Info or VBRI frame holds no audio, only metadata; LAME
+      // and FFmpeg add the encoder delay and padding for gapless playback
+      const tag = ascii(data, mainStart, 4);
+      if (tag === "Xing" || tag === "Info") {
+        const dv = new DataView(data.buffer, data.byteOffset);
+        const flags = dv.getUint32(mainStart + 4);
+        const frameCount = flags & 1 ? dv.getUint32(mainStart + 8) : null;
+        const lame =
+          mainStart +
+          8 +
+          (flags & 1 ? 4 : 0) +
+          (flags & 2 ? 4 : 0) +
+          (flags & 4 ? 100 : 0) +
+          (flags & 8 ? 4 : 0);
+        if (
+          lame + 24 <= end &&
+          ["LAME", "Lavf", "Lavc"].includes(ascii(data, lame, 4))
+        ) {
+          const delay = (data[lame + 21] << 4) | (data[lame + 22] >> 4);
+          const padding = ((data[lame + 22] & 15) << 8) | data[lame + 23];
+          skip = delay + DECODER_DELAY;
+          if (frameCount !== null) {
+            remaining = frameCount * frame.samplesPerFrame - delay - padding;
+          }
+        }
+        continue;
+      }
+      if (ascii(data, start + 36, 4) === "VBRI") {
+        continue;
+      }
+    }
+
+    const side = readSideInfo(
+      new BitReader(data.subarray(sideStart, mainStart)),
+      mpeg1,
+      channels,
+    );
+    const main = data.subarray(mainStart, end);
+    const combined = new Uint8Array(reservoir.byteLength + main.byteLength);
+    combined.set(reservoir);
+    combined.set(main, reservoir.byteLength);
+    const available = side.mainDataBegin <= reservoir.byteLength;
+    const reader = new BitReader(
+      combined.subarray(
+        reservoir.byteLength - (available ? side.mainDataBegin : 0),
+      ),
+    );
+    reservoir = combined.slice(
+      Math.max(0, combined.byteLength - RESERVOIR_BYTES),
+    );
+
+    const sfbLong = SFB_LONG[frame.sampleRate];
+    const sfbShort = SFB_SHORT[frame.sampleRate];
+    const intensity = mode === JOINT_STEREO && (modeExtension & 1) !== 0;
+
+    side.granules.forEach((granules, gr) => {
+      for (let ch = 0; ch < channels; ch++) {
+        const state = states[ch];
+        const granule = granules[ch];
+        if (!available) {
+          // Main data starts in frames we never saw (e.g. after a seek)
+          state.xr.fill(0);
+          state.nonzero = 0;
+          continue;
+        }
+        const part2Start = reader.position;
+        if (mpeg1) {
+          readScalefactorsMpeg1(reader, state, granule, side.scfsi[ch], gr);
+        } else {
+          readScalefactorsMpeg2(reader, state, granule, intensity && ch === 1);
+        }
+        state.nonzero = readHuffmanValues(
+          reader,
+          granule,
+          part2Start + granule.part23Length,
+          sfbLong,
+          sfbShort,
+          state.values,
+        );
+        requantize(state, granule, sfbLong, sfbShort);
+      }
+
+      if (channels === 2 && mode === JOINT_STEREO && available) {
+        jointStereo(
+          states[0],
+          states[1],
+          granules[1],
+          modeExtension,
+          mpeg1,
+          sfbLong,
+          sfbShort,
+        );
+      }
+
+      subbands.fill(0);
+      for (let ch = 0; ch < channels; ch++) {
+        const state = states[ch];
+        const granule = granules[ch];
+        if (granule.blockType === 2) {
+          reorder(state, granule, sfbShort);
+        }
+        aliasReduce(state, granule);
+        hybridSynthesis(state, granule, 1 / channels, subbands);
+      }
+      polyphaseSynthesis(synthesis, subbands, pcm);
+      emit();
+    });
+    frames++;
+  }
+
+  if (frames === 0) {
+    throw new AudioParseError("No MPEG Layer III frames found");
+  }
+}
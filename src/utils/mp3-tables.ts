@@ -0,0 +1,582 @@
+/**
+ * MP3 Decoder Tables
+ * Constant data from ISO/IEC 11172-3 and 13818-3 used by mp3-decoder.ts
+ */
+
+/**
+ * Huffman code trees for the big_values tables (1-31) and the count1
+ * quadruple tables A and B (32, 33). Each node is two bytes: a node with a
+ * zero high byte is a leaf holding x << 4 | y, otherwise the high/low byte
+ * is the forward offset to follow on a 0/1 bit (offsets of 250 and above
+ * chain to further jumps).
+ */
+export const HUFFMAN_TREES = new Uint16Array([
+  0x0201, 0x0000, 0x0201, 0x0010, 0x0201, 0x0001, 0x0011, 0x0201, 0x0000,
+  0x0401, 0x0201, 0x0010, 0x0001, 0x0201, 0x0011, 0x0401, 0x0201, 0x0020,
+  0x0021, 0x0201, 0x0012, 0x0201, 0x0002, 0x0022, 0x0401, 0x0201, 0x0000,
+  0x0001, 0x0201, 0x0011, 0x0201, 0x0010, 0x0401, 0x0201, 0x0020, 0x0021,
+  0x0201, 0x0012, 0x0201, 0x0002, 0x0022, 0x0201, 0x0000, 0x0401, 0x0201,
+  0x0010, 0x0001, 0x0201, 0x0011, 0x0801, 0x0401, 0x0201, 0x0020, 0x0002,
+  0x0201, 0x0021, 0x0012, 0x0801, 0x0401, 0x0201, 0x0022, 0x0030, 0x0201,
+  0x0003, 0x0013, 0x0201, 0x0031, 0x0201, 0x0032, 0x0201, 0x0023, 0x0033,
+  0x0601, 0x0401, 0x0201, 0x0000, 0x0010, 0x0011, 0x0601, 0x0201, 0x0001,
+  0x0201, 0x0020, 0x0021, 0x0601, 0x0201, 0x0012, 0x0201, 0x0002, 0x0022,
+  0x0401, 0x0201, 0x0031, 0x0013, 0x0401, 0x0201, 0x0030, 0x0032, 0x0201,
+  0x0023, 0x0201, 0x0003, 0x0033, 0x0201, 0x0000, 0x0401, 0x0201, 0x0010,
+  0x0001, 0x0801, 0x0201, 0x0011, 0x0401, 0x0201, 0x0020, 0x0002, 0x0021,
+  0x1201, 0x0601, 0x0201, 0x0012, 0x0201, 0x0022, 0x0030, 0x0401, 0x0201,
+  0x0031, 0x0013, 0x0401, 0x0201, 0x0003, 0x0032, 0x0201, 0x0023, 0x0004,
+  0x0a01, 0x0401, 0x0201, 0x0040, 0x0041, 0x0201, 0x0014, 0x0201, 0x0042,
+  0x0024, 0x0c01, 0x0601, 0x0401, 0x0201, 0x0033, 0x0043, 0x0050, 0x0401,
+  0x0201, 0x0034, 0x0005, 0x0051, 0x0601, 0x0201, 0x0015, 0x0201, 0x0052,
+  0x0025, 0x0401, 0x0201, 0x0044, 0x0035, 0x0401, 0x0201, 0x0053, 0x0054,
+  0x0201, 0x0045, 0x0055, 0x0601, 0x0201, 0x0000, 0x0201, 0x0010, 0x0001,
+  0x0201, 0x0011, 0x0401, 0x0201, 0x0021, 0x0012, 0x0e01, 0x0401, 0x0201,
+  0x0020, 0x0002, 0x0201, 0x0022, 0x0401, 0x0201, 0x0030, 0x0003, 0x0201,
+  0x0031, 0x0013, 0x0e01, 0x0801, 0x0401, 0x0201, 0x0032, 0x0023, 0x0201,
+  0x0040, 0x0004, 0x0201, 0x0041, 0x0201, 0x0014, 0x0042, 0x0c01, 0x0601,
+  0x0201, 0x0024, 0x0201, 0x0033, 0x0050, 0x0401, 0x0201, 0x0043, 0x0034,
+  0x0051, 0x0601, 0x0201, 0x0015, 0x0201, 0x0005, 0x0052, 0x0601, 0x0201,
+  0x0025, 0x0201, 0x0044, 0x0035, 0x0201, 0x0053, 0x0201, 0x0045, 0x0201,
+  0x0054, 0x0055, 0x0801, 0x0401, 0x0201, 0x0000, 0x0010, 0x0201, 0x0001,
+  0x0011, 0x0a01, 0x0401, 0x0201, 0x0020, 0x0021, 0x0201, 0x0012, 0x0201,
+  0x0002, 0x0022, 0x0c01, 0x0601, 0x0401, 0x0201, 0x0030, 0x0003, 0x0031,
+  0x0201, 0x0013, 0x0201, 0x0032, 0x0023, 0x0c01, 0x0401, 0x0201, 0x0041,
+  0x0014, 0x0401, 0x0201, 0x0040, 0x0033, 0x0201, 0x0042, 0x0024, 0x0a01,
+  0x0601, 0x0401, 0x0201, 0x0004, 0x0050, 0x0043, 0x0201, 0x0034, 0x0051,
+  0x0801, 0x0401, 0x0201, 0x0015, 0x0052, 0x0201, 0x0025, 0x0044, 0x0601,
+  0x0401, 0x0201, 0x0005, 0x0054, 0x0053, 0x0201, 0x0035, 0x0201, 0x0045,
+  0x0055, 0x0201, 0x0000, 0x0401, 0x0201, 0x0010, 0x0001, 0x0a01, 0x0201,
+  0x0011, 0x0401, 0x0201, 0x0020, 0x0002, 0x0201, 0x0021, 0x0012, 0x1c01,
+  0x0801, 0x0401, 0x0201, 0x0022, 0x0030, 0x0201, 0x0031, 0x0013, 0x0801,
+  0x0401, 0x0201, 0x0003, 0x0032, 0x0201, 0x0023, 0x0040, 0x0401, 0x0201,
+  0x0041, 0x0014, 0x0401, 0x0201, 0x0004, 0x0033, 0x0201, 0x0042, 0x0024,
+  0x1c01, 0x0a01, 0x0601, 0x0401, 0x0201, 0x0050, 0x0005, 0x0060, 0x0201,
+  0x0061, 0x0016, 0x0c01, 0x0601, 0x0401, 0x0201, 0x0043, 0x0034, 0x0051,
+  0x0201, 0x0015, 0x0201, 0x0052, 0x0025, 0x0401, 0x0201, 0x0026, 0x0036,
+  0x0071, 0x1401, 0x0801, 0x0201, 0x0017, 0x0401, 0x0201, 0x0044, 0x0053,
+  0x0006, 0x0601, 0x0401, 0x0201, 0x0035, 0x0045, 0x0062, 0x0201, 0x0070,
+  0x0201, 0x0007, 0x0064, 0x0e01, 0x0401, 0x0201, 0x0072, 0x0027, 0x0601,
+  0x0201, 0x0063, 0x0201, 0x0054, 0x0055, 0x0201, 0x0046, 0x0073, 0x0801,
+  0x0401, 0x0201, 0x0037, 0x0065, 0x0201, 0x0056, 0x0074, 0x0601, 0x0201,
+  0x0047, 0x0201, 0x0066, 0x0075, 0x0401, 0x0201, 0x0057, 0x0076, 0x0201,
+  0x0067, 0x0077, 0x0601, 0x0201, 0x0000, 0x0201, 0x0010, 0x0001, 0x0801,
+  0x0201, 0x0011, 0x0401, 0x0201, 0x0020, 0x0002, 0x0012, 0x1801, 0x0801,
+  0x0201, 0x0021, 0x0201, 0x0022, 0x0201, 0x0030, 0x0003, 0x0401, 0x0201,
+  0x0031, 0x0013, 0x0401, 0x0201, 0x0032, 0x0023, 0x0401, 0x0201, 0x0040,
+  0x0004, 0x0201, 0x0041, 0x0014, 0x1e01, 0x1001, 0x0a01, 0x0401, 0x0201,
+  0x0042, 0x0024, 0x0401, 0x0201, 0x0033, 0x0043, 0x0050, 0x0401, 0x0201,
+  0x0034, 0x0051, 0x0061, 0x0601, 0x0201, 0x0016, 0x0201, 0x0006, 0x0026,
+  0x0201, 0x0062, 0x0201, 0x0015, 0x0201, 0x0005, 0x0052, 0x1001, 0x0a01,
+  0x0601, 0x0401, 0x0201, 0x0025, 0x0044, 0x0060, 0x0201, 0x0063, 0x0036,
+  0x0401, 0x0201, 0x0070, 0x0017, 0x0071, 0x1001, 0x0601, 0x0401, 0x0201,
+  0x0007, 0x0064, 0x0072, 0x0201, 0x0027, 0x0401, 0x0201, 0x0053, 0x0035,
+  0x0201, 0x0054, 0x0045, 0x0a01, 0x0401, 0x0201, 0x0046, 0x0073, 0x0201,
+  0x0037, 0x0201, 0x0065, 0x0056, 0x0a01, 0x0601, 0x0401, 0x0201, 0x0055,
+  0x0057, 0x0074, 0x0201, 0x0047, 0x0066, 0x0401, 0x0201, 0x0075, 0x0076,
+  0x0201, 0x0067, 0x0077, 0x0c01, 0x0401, 0x0201, 0x0010, 0x0001, 0x0201,
+  0x0011, 0x0201, 0x0000, 0x0201, 0x0020, 0x0002, 0x1001, 0x0401, 0x0201,
+  0x0021, 0x0012, 0x0401, 0x0201, 0x0022, 0x0031, 0x0201, 0x0013, 0x0201,
+  0x0030, 0x0201, 0x0003, 0x0040, 0x1a01, 0x0801, 0x0401, 0x0201, 0x0032,
+  0x0023, 0x0201, 0x0041, 0x0033, 0x0a01, 0x0401, 0x0201, 0x0014, 0x0042,
+  0x0201, 0x0024, 0x0201, 0x0004, 0x0050, 0x0401, 0x0201, 0x0043, 0x0034,
+  0x0201, 0x0051, 0x0015, 0x1c01, 0x0e01, 0x0801, 0x0401, 0x0201, 0x0052,
+  0x0025, 0x0201, 0x0053, 0x0035, 0x0401, 0x0201, 0x0060, 0x0016, 0x0061,
+  0x0401, 0x0201, 0x0062, 0x0026, 0x0601, 0x0401, 0x0201, 0x0005, 0x0006,
+  0x0044, 0x0201, 0x0054, 0x0045, 0x1201, 0x0a01, 0x0401, 0x0201, 0x0063,
+  0x0036, 0x0401, 0x0201, 0x0070, 0x0007, 0x0071, 0x0401, 0x0201, 0x0017,
+  0x0064, 0x0201, 0x0046, 0x0072, 0x0a01, 0x0601, 0x0201, 0x0027, 0x0201,
+  0x0055, 0x0073, 0x0201, 0x0037, 0x0056, 0x0801, 0x0401, 0x0201, 0x0065,
+  0x0074, 0x0201, 0x0047, 0x0066, 0x0401, 0x0201, 0x0075, 0x0057, 0x0201,
+  0x0076, 0x0201, 0x0067, 0x0077, 0x0201, 0x0000, 0x0601, 0x0201, 0x0010,
+  0x0201, 0x0001, 0x0011, 0x1c01, 0x0801, 0x0401, 0x0201, 0x0020, 0x0002,
+  0x0201, 0x0021, 0x0012, 0x0801, 0x0401, 0x0201, 0x0022, 0x0030, 0x0201,
+  0x0003, 0x0031, 0x0601, 0x0201, 0x0013, 0x0201, 0x0032, 0x0023, 0x0401,
+  0x0201, 0x0040, 0x0004, 0x0041, 0x4601, 0x1c01, 0x0e01, 0x0601, 0x0201,
+  0x0014, 0x0201, 0x0033, 0x0042, 0x0401, 0x0201, 0x0024, 0x0050, 0x0201,
+  0x0043, 0x0034, 0x0401, 0x0201, 0x0051, 0x0015, 0x0401, 0x0201, 0x0005,
+  0x0052, 0x0201, 0x0025, 0x0201, 0x0044, 0x0053, 0x0e01, 0x0801, 0x0401,
+  0x0201, 0x0060, 0x0006, 0x0201, 0x0061, 0x0016, 0x0401, 0x0201, 0x0080,
+  0x0008, 0x0081, 0x1001, 0x0801, 0x0401, 0x0201, 0x0035, 0x0062, 0x0201,
+  0x0026, 0x0054, 0x0401, 0x0201, 0x0045, 0x0063, 0x0201, 0x0036, 0x0070,
+  0x0601, 0x0401, 0x0201, 0x0007, 0x0055, 0x0071, 0x0201, 0x0017, 0x0201,
+  0x0027, 0x0037, 0x4801, 0x1801, 0x0c01, 0x0401, 0x0201, 0x0018, 0x0082,
+  0x0201, 0x0028, 0x0401, 0x0201, 0x0064, 0x0046, 0x0072, 0x0801, 0x0401,
+  0x0201, 0x0084, 0x0048, 0x0201, 0x0090, 0x0009, 0x0201, 0x0091, 0x0019,
+  0x1801, 0x0e01, 0x0801, 0x0401, 0x0201, 0x0073, 0x0065, 0x0201, 0x0056,
+  0x0074, 0x0401, 0x0201, 0x0047, 0x0066, 0x0083, 0x0601, 0x0201, 0x0038,
+  0x0201, 0x0075, 0x0057, 0x0201, 0x0092, 0x0029, 0x0e01, 0x0801, 0x0401,
+  0x0201, 0x0067, 0x0085, 0x0201, 0x0058, 0x0039, 0x0201, 0x0093, 0x0201,
+  0x0049, 0x0086, 0x0601, 0x0201, 0x00a0, 0x0201, 0x0068, 0x000a, 0x0201,
+  0x00a1, 0x001a, 0x4401, 0x1801, 0x0c01, 0x0401, 0x0201, 0x00a2, 0x002a,
+  0x0401, 0x0201, 0x0095, 0x0059, 0x0201, 0x00a3, 0x003a, 0x0801, 0x0401,
+  0x0201, 0x004a, 0x0096, 0x0201, 0x00b0, 0x000b, 0x0201, 0x00b1, 0x001b,
+  0x1401, 0x0801, 0x0201, 0x00b2, 0x0401, 0x0201, 0x0076, 0x0077, 0x0094,
+  0x0601, 0x0401, 0x0201, 0x0087, 0x0078, 0x00a4, 0x0401, 0x0201, 0x0069,
+  0x00a5, 0x002b, 0x0c01, 0x0601, 0x0401, 0x0201, 0x005a, 0x0088, 0x00b3,
+  0x0201, 0x003b, 0x0201, 0x0079, 0x00a6, 0x0601, 0x0401, 0x0201, 0x006a,
+  0x00b4, 0x00c0, 0x0401, 0x0201, 0x000c, 0x0098, 0x00c1, 0x3c01, 0x1601,
+  0x0a01, 0x0601, 0x0201, 0x001c, 0x0201, 0x0089, 0x00b5, 0x0201, 0x005b,
+  0x00c2, 0x0401, 0x0201, 0x002c, 0x003c, 0x0401, 0x0201, 0x00b6, 0x006b,
+  0x0201, 0x00c4, 0x004c, 0x1001, 0x0801, 0x0401, 0x0201, 0x00a8, 0x008a,
+  0x0201, 0x00d0, 0x000d, 0x0201, 0x00d1, 0x0201, 0x004b, 0x0201, 0x0097,
+  0x00a7, 0x0c01, 0x0601, 0x0201, 0x00c3, 0x0201, 0x007a, 0x0099, 0x0401,
+  0x0201, 0x00c5, 0x005c, 0x00b7, 0x0401, 0x0201, 0x001d, 0x00d2, 0x0201,
+  0x002d, 0x0201, 0x007b, 0x00d3, 0x3401, 0x1c01, 0x0c01, 0x0401, 0x0201,
+  0x003d, 0x00c6, 0x0401, 0x0201, 0x006c, 0x00a9, 0x0201, 0x009a, 0x00d4,
+  0x0801, 0x0401, 0x0201, 0x00b8, 0x008b, 0x0201, 0x004d, 0x00c7, 0x0401,
+  0x0201, 0x007c, 0x00d5, 0x0201, 0x005d, 0x00e0, 0x0a01, 0x0401, 0x0201,
+  0x00e1, 0x001e, 0x0401, 0x0201, 0x000e, 0x002e, 0x00e2, 0x0801, 0x0401,
+  0x0201, 0x00e3, 0x006d, 0x0201, 0x008c, 0x00e4, 0x0401, 0x0201, 0x00e5,
+  0x00ba, 0x00f0, 0x2601, 0x1001, 0x0401, 0x0201, 0x00f1, 0x001f, 0x0601,
+  0x0401, 0x0201, 0x00aa, 0x009b, 0x00b9, 0x0201, 0x003e, 0x0201, 0x00d6,
+  0x00c8, 0x0c01, 0x0601, 0x0201, 0x004e, 0x0201, 0x00d7, 0x007d, 0x0201,
+  0x00ab, 0x0201, 0x005e, 0x00c9, 0x0601, 0x0201, 0x000f, 0x0201, 0x009c,
+  0x006e, 0x0201, 0x00f2, 0x002f, 0x2001, 0x1001, 0x0601, 0x0401, 0x0201,
+  0x00d8, 0x008d, 0x003f, 0x0601, 0x0201, 0x00f3, 0x0201, 0x00e6, 0x00ca,
+  0x0201, 0x00f4, 0x004f, 0x0801, 0x0401, 0x0201, 0x00bb, 0x00ac, 0x0201,
+  0x00e7, 0x00f5, 0x0401, 0x0201, 0x00d9, 0x009d, 0x0201, 0x005f, 0x00e8,
+  0x1e01, 0x0c01, 0x0601, 0x0201, 0x006f, 0x0201, 0x00f6, 0x00cb, 0x0401,
+  0x0201, 0x00bc, 0x00ad, 0x00da, 0x0801, 0x0201, 0x00f7, 0x0401, 0x0201,
+  0x007e, 0x007f, 0x008e, 0x0601, 0x0401, 0x0201, 0x009e, 0x00ae, 0x00cc,
+  0x0201, 0x00f8, 0x008f, 0x1201, 0x0801, 0x0401, 0x0201, 0x00db, 0x00bd,
+  0x0201, 0x00ea, 0x00f9, 0x0401, 0x0201, 0x009f, 0x00eb, 0x0201, 0x00be,
+  0x0201, 0x00cd, 0x00fa, 0x0e01, 0x0401, 0x0201, 0x00dd, 0x00ec, 0x0601,
+  0x0401, 0x0201, 0x00e9, 0x00af, 0x00dc, 0x0201, 0x00ce, 0x00fb, 0x0801,
+  0x0401, 0x0201, 0x00bf, 0x00de, 0x0201, 0x00cf, 0x00ee, 0x0401, 0x0201,
+  0x00df, 0x00ef, 0x0201, 0x00ff, 0x0201, 0x00ed, 0x0201, 0x00fd, 0x0201,
+  0x00fc, 0x00fe, 0x1001, 0x0601, 0x0201, 0x0000, 0x0201, 0x0010, 0x0001,
+  0x0201, 0x0011, 0x0401, 0x0201, 0x0020, 0x0002, 0x0201, 0x0021, 0x0012,
+  0x3201, 0x1001, 0x0601, 0x0201, 0x0022, 0x0201, 0x0030, 0x0031, 0x0601,
+  0x0201, 0x0013, 0x0201, 0x0003, 0x0040, 0x0201, 0x0032, 0x0023, 0x0e01,
+  0x0601, 0x0401, 0x0201, 0x0004, 0x0014, 0x0041, 0x0401, 0x0201, 0x0033,
+  0x0042, 0x0201, 0x0024, 0x0043, 0x0a01, 0x0601, 0x0201, 0x0034, 0x0201,
+  0x0050, 0x0005, 0x0201, 0x0051, 0x0015, 0x0401, 0x0201, 0x0052, 0x0025,
+  0x0401, 0x0201, 0x0044, 0x0053, 0x0061, 0x5a01, 0x2401, 0x1201, 0x0a01,
+  0x0601, 0x0201, 0x0035, 0x0201, 0x0060, 0x0006, 0x0201, 0x0016, 0x0062,
+  0x0401, 0x0201, 0x0026, 0x0054, 0x0201, 0x0045, 0x0063, 0x0a01, 0x0601,
+  0x0201, 0x0036, 0x0201, 0x0070, 0x0007, 0x0201, 0x0071, 0x0055, 0x0401,
+  0x0201, 0x0017, 0x0064, 0x0201, 0x0072, 0x0027, 0x1801, 0x1001, 0x0801,
+  0x0401, 0x0201, 0x0046, 0x0073, 0x0201, 0x0037, 0x0065, 0x0401, 0x0201,
+  0x0056, 0x0080, 0x0201, 0x0008, 0x0074, 0x0401, 0x0201, 0x0081, 0x0018,
+  0x0201, 0x0082, 0x0028, 0x1001, 0x0801, 0x0401, 0x0201, 0x0047, 0x0066,
+  0x0201, 0x0083, 0x0038, 0x0401, 0x0201, 0x0075, 0x0057, 0x0201, 0x0084,
+  0x0048, 0x0601, 0x0401, 0x0201, 0x0090, 0x0019, 0x0091, 0x0401, 0x0201,
+  0x0092, 0x0076, 0x0201, 0x0067, 0x0029, 0x5c01, 0x2401, 0x1201, 0x0a01,
+  0x0401, 0x0201, 0x0085, 0x0058, 0x0401, 0x0201, 0x0009, 0x0077, 0x0093,
+  0x0401, 0x0201, 0x0039, 0x0094, 0x0201, 0x0049, 0x0086, 0x0a01, 0x0601,
+  0x0201, 0x0068, 0x0201, 0x00a0, 0x000a, 0x0201, 0x00a1, 0x001a, 0x0401,
+  0x0201, 0x00a2, 0x002a, 0x0201, 0x0095, 0x0059, 0x1a01, 0x0e01, 0x0601,
+  0x0201, 0x00a3, 0x0201, 0x003a, 0x0087, 0x0401, 0x0201, 0x0078, 0x00a4,
+  0x0201, 0x004a, 0x0096, 0x0601, 0x0401, 0x0201, 0x0069, 0x00b0, 0x00b1,
+  0x0401, 0x0201, 0x001b, 0x00a5, 0x00b2, 0x0e01, 0x0801, 0x0401, 0x0201,
+  0x005a, 0x002b, 0x0201, 0x0088, 0x0097, 0x0201, 0x00b3, 0x0201, 0x0079,
+  0x003b, 0x0801, 0x0401, 0x0201, 0x006a, 0x00b4, 0x0201, 0x004b, 0x00c1,
+  0x0401, 0x0201, 0x0098, 0x0089, 0x0201, 0x001c, 0x00b5, 0x5001, 0x2201,
+  0x1001, 0x0601, 0x0401, 0x0201, 0x005b, 0x002c, 0x00c2, 0x0601, 0x0401,
+  0x0201, 0x000b, 0x00c0, 0x00a6, 0x0201, 0x00a7, 0x007a, 0x0a01, 0x0401,
+  0x0201, 0x00c3, 0x003c, 0x0401, 0x0201, 0x000c, 0x0099, 0x00b6, 0x0401,
+  0x0201, 0x006b, 0x00c4, 0x0201, 0x004c, 0x00a8, 0x1401, 0x0a01, 0x0401,
+  0x0201, 0x008a, 0x00c5, 0x0401, 0x0201, 0x00d0, 0x005c, 0x00d1, 0x0401,
+  0x0201, 0x00b7, 0x007b, 0x0201, 0x001d, 0x0201, 0x000d, 0x002d, 0x0c01,
+  0x0401, 0x0201, 0x00d2, 0x00d3, 0x0401, 0x0201, 0x003d, 0x00c6, 0x0201,
+  0x006c, 0x00a9, 0x0601, 0x0401, 0x0201, 0x009a, 0x00b8, 0x00d4, 0x0401,
+  0x0201, 0x008b, 0x004d, 0x0201, 0x00c7, 0x007c, 0x4401, 0x2201, 0x1201,
+  0x0a01, 0x0401, 0x0201, 0x00d5, 0x005d, 0x0401, 0x0201, 0x00e0, 0x000e,
+  0x00e1, 0x0401, 0x0201, 0x001e, 0x00e2, 0x0201, 0x00aa, 0x002e, 0x0801,
+  0x0401, 0x0201, 0x00b9, 0x009b, 0x0201, 0x00e3, 0x00d6, 0x0401, 0x0201,
+  0x006d, 0x003e, 0x0201, 0x00c8, 0x008c, 0x1001, 0x0801, 0x0401, 0x0201,
+  0x00e4, 0x004e, 0x0201, 0x00d7, 0x007d, 0x0401, 0x0201, 0x00e5, 0x00ba,
+  0x0201, 0x00ab, 0x005e, 0x0801, 0x0401, 0x0201, 0x00c9, 0x009c, 0x0201,
+  0x00f1, 0x001f, 0x0601, 0x0401, 0x0201, 0x00f0, 0x006e, 0x00f2, 0x0201,
+  0x002f, 0x00e6, 0x2601, 0x1201, 0x0801, 0x0401, 0x0201, 0x00d8, 0x00f3,
+  0x0201, 0x003f, 0x00f4, 0x0601, 0x0201, 0x004f, 0x0201, 0x008d, 0x00d9,
+  0x0201, 0x00bb, 0x00ca, 0x0801, 0x0401, 0x0201, 0x00ac, 0x00e7, 0x0201,
+  0x007e, 0x00f5, 0x0801, 0x0401, 0x0201, 0x009d, 0x005f, 0x0201, 0x00e8,
+  0x008e, 0x0201, 0x00f6, 0x00cb, 0x2201, 0x1201, 0x0a01, 0x0601, 0x0401,
+  0x0201, 0x000f, 0x00ae, 0x006f, 0x0201, 0x00bc, 0x00da, 0x0401, 0x0201,
+  0x00ad, 0x00f7, 0x0201, 0x007f, 0x00e9, 0x0801, 0x0401, 0x0201, 0x009e,
+  0x00cc, 0x0201, 0x00f8, 0x008f, 0x0401, 0x0201, 0x00db, 0x00bd, 0x0201,
+  0x00ea, 0x00f9, 0x1001, 0x0801, 0x0401, 0x0201, 0x009f, 0x00dc, 0x0201,
+  0x00cd, 0x00eb, 0x0401, 0x0201, 0x00be, 0x00fa, 0x0201, 0x00af, 0x00dd,
+  0x0e01, 0x0601, 0x0401, 0x0201, 0x00ec, 0x00ce, 0x00fb, 0x0401, 0x0201,
+  0x00bf, 0x00ed, 0x0201, 0x00de, 0x00fc, 0x0601, 0x0401, 0x0201, 0x00cf,
+  0x00fd, 0x00ee, 0x0401, 0x0201, 0x00df, 0x00fe, 0x0201, 0x00ef, 0x00ff,
+  0x0201, 0x0000, 0x0601, 0x0201, 0x0010, 0x0201, 0x0001, 0x0011, 0x2a01,
+  0x0801, 0x0401, 0x0201, 0x0020, 0x0002, 0x0201, 0x0021, 0x0012, 0x0a01,
+  0x0601, 0x0201, 0x0022, 0x0201, 0x0030, 0x0003, 0x0201, 0x0031, 0x0013,
+  0x0a01, 0x0401, 0x0201, 0x0032, 0x0023, 0x0401, 0x0201, 0x0040, 0x0004,
+  0x0041, 0x0601, 0x0201, 0x0014, 0x0201, 0x0033, 0x0042, 0x0401, 0x0201,
+  0x0024, 0x0050, 0x0201, 0x0043, 0x0034, 0x8a01, 0x2801, 0x1001, 0x0601,
+  0x0401, 0x0201, 0x0005, 0x0015, 0x0051, 0x0401, 0x0201, 0x0052, 0x0025,
+  0x0401, 0x0201, 0x0044, 0x0035, 0x0053, 0x0a01, 0x0601, 0x0401, 0x0201,
+  0x0060, 0x0006, 0x0061, 0x0201, 0x0016, 0x0062, 0x0801, 0x0401, 0x0201,
+  0x0026, 0x0054, 0x0201, 0x0045, 0x0063, 0x0401, 0x0201, 0x0036, 0x0070,
+  0x0071, 0x2801, 0x1201, 0x0801, 0x0201, 0x0017, 0x0201, 0x0007, 0x0201,
+  0x0055, 0x0064, 0x0401, 0x0201, 0x0072, 0x0027, 0x0401, 0x0201, 0x0046,
+  0x0065, 0x0073, 0x0a01, 0x0601, 0x0201, 0x0037, 0x0201, 0x0056, 0x0008,
+  0x0201, 0x0080, 0x0081, 0x0601, 0x0201, 0x0018, 0x0201, 0x0074, 0x0047,
+  0x0201, 0x0082, 0x0201, 0x0028, 0x0066, 0x1801, 0x0e01, 0x0801, 0x0401,
+  0x0201, 0x0083, 0x0038, 0x0201, 0x0075, 0x0084, 0x0401, 0x0201, 0x0048,
+  0x0090, 0x0091, 0x0601, 0x0201, 0x0019, 0x0201, 0x0009, 0x0076, 0x0201,
+  0x0092, 0x0029, 0x0e01, 0x0801, 0x0401, 0x0201, 0x0085, 0x0058, 0x0201,
+  0x0093, 0x0039, 0x0401, 0x0201, 0x00a0, 0x000a, 0x001a, 0x0801, 0x0201,
+  0x00a2, 0x0201, 0x0067, 0x0201, 0x0057, 0x0049, 0x0601, 0x0201, 0x0094,
+  0x0201, 0x0077, 0x0086, 0x0201, 0x00a1, 0x0201, 0x0068, 0x0095, 0xdc01,
+  0x7e01, 0x3201, 0x1a01, 0x0c01, 0x0601, 0x0201, 0x002a, 0x0201, 0x0059,
+  0x003a, 0x0201, 0x00a3, 0x0201, 0x0087, 0x0078, 0x0801, 0x0401, 0x0201,
+  0x00a4, 0x004a, 0x0201, 0x0096, 0x0069, 0x0401, 0x0201, 0x00b0, 0x000b,
+  0x00b1, 0x0a01, 0x0401, 0x0201, 0x001b, 0x00b2, 0x0201, 0x002b, 0x0201,
+  0x00a5, 0x005a, 0x0601, 0x0201, 0x00b3, 0x0201, 0x00a6, 0x006a, 0x0401,
+  0x0201, 0x00b4, 0x004b, 0x0201, 0x000c, 0x00c1, 0x1e01, 0x0e01, 0x0601,
+  0x0401, 0x0201, 0x00b5, 0x00c2, 0x002c, 0x0401, 0x0201, 0x00a7, 0x00c3,
+  0x0201, 0x006b, 0x00c4, 0x0801, 0x0201, 0x001d, 0x0401, 0x0201, 0x0088,
+  0x0097, 0x003b, 0x0401, 0x0201, 0x00d1, 0x00d2, 0x0201, 0x002d, 0x00d3,
+  0x1201, 0x0601, 0x0401, 0x0201, 0x001e, 0x002e, 0x00e2, 0x0601, 0x0401,
+  0x0201, 0x0079, 0x0098, 0x00c0, 0x0201, 0x001c, 0x0201, 0x0089, 0x005b,
+  0x0e01, 0x0601, 0x0201, 0x003c, 0x0201, 0x007a, 0x00b6, 0x0401, 0x0201,
+  0x004c, 0x0099, 0x0201, 0x00a8, 0x008a, 0x0601, 0x0201, 0x000d, 0x0201,
+  0x00c5, 0x005c, 0x0401, 0x0201, 0x003d, 0x00c6, 0x0201, 0x006c, 0x009a,
+  0x5801, 0x5601, 0x2401, 0x1001, 0x0801, 0x0401, 0x0201, 0x008b, 0x004d,
+  0x0201, 0x00c7, 0x007c, 0x0401, 0x0201, 0x00d5, 0x005d, 0x0201, 0x00e0,
+  0x000e, 0x0801, 0x0201, 0x00e3, 0x0401, 0x0201, 0x00d0, 0x00b7, 0x007b,
+  0x0601, 0x0401, 0x0201, 0x00a9, 0x00b8, 0x00d4, 0x0201, 0x00e1, 0x0201,
+  0x00aa, 0x00b9, 0x1801, 0x0a01, 0x0601, 0x0401, 0x0201, 0x009b, 0x00d6,
+  0x006d, 0x0201, 0x003e, 0x00c8, 0x0601, 0x0401, 0x0201, 0x008c, 0x00e4,
+  0x004e, 0x0401, 0x0201, 0x00d7, 0x00e5, 0x0201, 0x00ba, 0x00ab, 0x0c01,
+  0x0401, 0x0201, 0x009c, 0x00e6, 0x0401, 0x0201, 0x006e, 0x00d8, 0x0201,
+  0x008d, 0x00bb, 0x0801, 0x0401, 0x0201, 0x00e7, 0x009d, 0x0201, 0x00e8,
+  0x008e, 0x0401, 0x0201, 0x00cb, 0x00bc, 0x009e, 0x00f1, 0x0201, 0x001f,
+  0x0201, 0x000f, 0x002f, 0x4201, 0x3801, 0x0201, 0x00f2, 0x3401, 0x3201,
+  0x1401, 0x0801, 0x0201, 0x00bd, 0x0201, 0x005e, 0x0201, 0x007d, 0x00c9,
+  0x0601, 0x0201, 0x00ca, 0x0201, 0x00ac, 0x007e, 0x0401, 0x0201, 0x00da,
+  0x00ad, 0x00cc, 0x0a01, 0x0601, 0x0201, 0x00ae, 0x0201, 0x00db, 0x00dc,
+  0x0201, 0x00cd, 0x00be, 0x0601, 0x0401, 0x0201, 0x00eb, 0x00ed, 0x00ee,
+  0x0601, 0x0401, 0x0201, 0x00d9, 0x00ea, 0x00e9, 0x0201, 0x00de, 0x0401,
+  0x0201, 0x00dd, 0x00ec, 0x00ce, 0x003f, 0x00f0, 0x0401, 0x0201, 0x00f3,
+  0x00f4, 0x0201, 0x004f, 0x0201, 0x00f5, 0x005f, 0x0a01, 0x0201, 0x00ff,
+  0x0401, 0x0201, 0x00f6, 0x006f, 0x0201, 0x00f7, 0x007f, 0x0c01, 0x0601,
+  0x0201, 0x008f, 0x0201, 0x00f8, 0x00f9, 0x0401, 0x0201, 0x009f, 0x00fa,
+  0x00af, 0x0801, 0x0401, 0x0201, 0x00fb, 0x00bf, 0x0201, 0x00fc, 0x00cf,
+  0x0401, 0x0201, 0x00fd, 0x00df, 0x0201, 0x00fe, 0x00ef, 0x3c01, 0x0801,
+  0x0401, 0x0201, 0x0000, 0x0010, 0x0201, 0x0001, 0x0011, 0x0e01, 0x0601,
+  0x0401, 0x0201, 0x0020, 0x0002, 0x0021, 0x0201, 0x0012, 0x0201, 0x0022,
+  0x0201, 0x0030, 0x0003, 0x0e01, 0x0401, 0x0201, 0x0031, 0x0013, 0x0401,
+  0x0201, 0x0032, 0x0023, 0x0401, 0x0201, 0x0040, 0x0004, 0x0041, 0x0801,
+  0x0401, 0x0201, 0x0014, 0x0033, 0x0201, 0x0042, 0x0024, 0x0601, 0x0401,
+  0x0201, 0x0043, 0x0034, 0x0051, 0x0601, 0x0401, 0x0201, 0x0050, 0x0005,
+  0x0015, 0x0201, 0x0052, 0x0025, 0xfa01, 0x6201, 0x2201, 0x1201, 0x0a01,
+  0x0401, 0x0201, 0x0044, 0x0053, 0x0201, 0x0035, 0x0201, 0x0060, 0x0006,
+  0x0401, 0x0201, 0x0061, 0x0016, 0x0201, 0x0062, 0x0026, 0x0801, 0x0401,
+  0x0201, 0x0054, 0x0045, 0x0201, 0x0063, 0x0036, 0x0401, 0x0201, 0x0071,
+  0x0055, 0x0201, 0x0064, 0x0046, 0x2001, 0x0e01, 0x0601, 0x0201, 0x0072,
+  0x0201, 0x0027, 0x0037, 0x0201, 0x0073, 0x0401, 0x0201, 0x0070, 0x0007,
+  0x0017, 0x0a01, 0x0401, 0x0201, 0x0065, 0x0056, 0x0401, 0x0201, 0x0080,
+  0x0008, 0x0081, 0x0401, 0x0201, 0x0074, 0x0047, 0x0201, 0x0018, 0x0082,
+  0x1001, 0x0801, 0x0401, 0x0201, 0x0028, 0x0066, 0x0201, 0x0083, 0x0038,
+  0x0401, 0x0201, 0x0075, 0x0057, 0x0201, 0x0084, 0x0048, 0x0801, 0x0401,
+  0x0201, 0x0091, 0x0019, 0x0201, 0x0092, 0x0076, 0x0401, 0x0201, 0x0067,
+  0x0029, 0x0201, 0x0085, 0x0058, 0x5c01, 0x2201, 0x1001, 0x0801, 0x0401,
+  0x0201, 0x0093, 0x0039, 0x0201, 0x0094, 0x0049, 0x0401, 0x0201, 0x0077,
+  0x0086, 0x0201, 0x0068, 0x00a1, 0x0801, 0x0401, 0x0201, 0x00a2, 0x002a,
+  0x0201, 0x0095, 0x0059, 0x0401, 0x0201, 0x00a3, 0x003a, 0x0201, 0x0087,
+  0x0201, 0x0078, 0x004a, 0x1601, 0x0c01, 0x0401, 0x0201, 0x00a4, 0x0096,
+  0x0401, 0x0201, 0x0069, 0x00b1, 0x0201, 0x001b, 0x00a5, 0x0601, 0x0201,
+  0x00b2, 0x0201, 0x005a, 0x002b, 0x0201, 0x0088, 0x00b3, 0x1001, 0x0a01,
+  0x0601, 0x0201, 0x0090, 0x0201, 0x0009, 0x00a0, 0x0201, 0x0097, 0x0079,
+  0x0401, 0x0201, 0x00a6, 0x006a, 0x00b4, 0x0c01, 0x0601, 0x0201, 0x001a,
+  0x0201, 0x000a, 0x00b0, 0x0201, 0x003b, 0x0201, 0x000b, 0x00c0, 0x0401,
+  0x0201, 0x004b, 0x00c1, 0x0201, 0x0098, 0x0089, 0x4301, 0x2201, 0x1001,
+  0x0801, 0x0401, 0x0201, 0x001c, 0x00b5, 0x0201, 0x005b, 0x00c2, 0x0401,
+  0x0201, 0x002c, 0x00a7, 0x0201, 0x007a, 0x00c3, 0x0a01, 0x0601, 0x0201,
+  0x003c, 0x0201, 0x000c, 0x00d0, 0x0201, 0x00b6, 0x006b, 0x0401, 0x0201,
+  0x00c4, 0x004c, 0x0201, 0x0099, 0x00a8, 0x1001, 0x0801, 0x0401, 0x0201,
+  0x008a, 0x00c5, 0x0201, 0x005c, 0x00d1, 0x0401, 0x0201, 0x00b7, 0x007b,
+  0x0201, 0x001d, 0x00d2, 0x0901, 0x0401, 0x0201, 0x002d, 0x00d3, 0x0201,
+  0x003d, 0x00c6, 0x55fa, 0x0401, 0x0201, 0x006c, 0x00a9, 0x0201, 0x009a,
+  0x00d4, 0x2001, 0x1001, 0x0801, 0x0401, 0x0201, 0x00b8, 0x008b, 0x0201,
+  0x004d, 0x00c7, 0x0401, 0x0201, 0x007c, 0x00d5, 0x0201, 0x005d, 0x00e1,
+  0x0801, 0x0401, 0x0201, 0x001e, 0x00e2, 0x0201, 0x00aa, 0x00b9, 0x0401,
+  0x0201, 0x009b, 0x00e3, 0x0201, 0x00d6, 0x006d, 0x1401, 0x0a01, 0x0601,
+  0x0201, 0x003e, 0x0201, 0x002e, 0x004e, 0x0201, 0x00c8, 0x008c, 0x0401,
+  0x0201, 0x00e4, 0x00d7, 0x0401, 0x0201, 0x007d, 0x00ab, 0x00e5, 0x0a01,
+  0x0401, 0x0201, 0x00ba, 0x005e, 0x0201, 0x00c9, 0x0201, 0x009c, 0x006e,
+  0x0801, 0x0201, 0x00e6, 0x0201, 0x000d, 0x0201, 0x00e0, 0x000e, 0x0401,
+  0x0201, 0x00d8, 0x008d, 0x0201, 0x00bb, 0x00ca, 0x4a01, 0x0201, 0x00ff,
+  0x4001, 0x3a01, 0x2001, 0x1001, 0x0801, 0x0401, 0x0201, 0x00ac, 0x00e7,
+  0x0201, 0x007e, 0x00d9, 0x0401, 0x0201, 0x009d, 0x00e8, 0x0201, 0x008e,
+  0x00cb, 0x0801, 0x0401, 0x0201, 0x00bc, 0x00da, 0x0201, 0x00ad, 0x00e9,
+  0x0401, 0x0201, 0x009e, 0x00cc, 0x0201, 0x00db, 0x00bd, 0x1001, 0x0801,
+  0x0401, 0x0201, 0x00ea, 0x00ae, 0x0201, 0x00dc, 0x00cd, 0x0401, 0x0201,
+  0x00eb, 0x00be, 0x0201, 0x00dd, 0x00ec, 0x0801, 0x0401, 0x0201, 0x00ce,
+  0x00ed, 0x0201, 0x00de, 0x00ee, 0x000f, 0x0401, 0x0201, 0x00f0, 0x001f,
+  0x00f1, 0x0401, 0x0201, 0x00f2, 0x002f, 0x0201, 0x00f3, 0x003f, 0x1201,
+  0x0801, 0x0401, 0x0201, 0x00f4, 0x004f, 0x0201, 0x00f5, 0x005f, 0x0401,
+  0x0201, 0x00f6, 0x006f, 0x0201, 0x00f7, 0x0201, 0x007f, 0x008f, 0x0a01,
+  0x0401, 0x0201, 0x00f8, 0x00f9, 0x0401, 0x0201, 0x009f, 0x00af, 0x00fa,
+  0x0801, 0x0401, 0x0201, 0x00fb, 0x00bf, 0x0201, 0x00fc, 0x00cf, 0x0401,
+  0x0201, 0x00fd, 0x00df, 0x0201, 0x00fe, 0x00ef, 0x0201, 0x0000, 0x0801,
+  0x0401, 0x0201, 0x0008, 0x0004, 0x0201, 0x0001, 0x0002, 0x0801, 0x0401,
+  0x0201, 0x000c, 0x000a, 0x0201, 0x0003, 0x0006, 0x0601, 0x0201, 0x0009,
+  0x0201, 0x0005, 0x0007, 0x0401, 0x0201, 0x000e, 0x000d, 0x0201, 0x000f,
+  0x000b, 0x1001, 0x0801, 0x0401, 0x0201, 0x0000, 0x0001, 0x0201, 0x0002,
+  0x0003, 0x0401, 0x0201, 0x0004, 0x0005, 0x0201, 0x0006, 0x0007, 0x0801,
+  0x0401, 0x0201, 0x0008, 0x0009, 0x0201, 0x000a, 0x000b, 0x0401, 0x0201,
+  0x000c, 0x000d, 0x0201, 0x000e, 0x000f,
+]);
+
+/**
+ * [offset into HUFFMAN_TREES, node count, linbits] by table_select; tables
+ * 0, 4 and 14 are unused (0 codes all-zero pairs without reading bits)
+ */
+export const HUFFMAN_TABLES: ([number, number, number] | null)[] = [
+  null,
+  [0, 7, 0],
+  [7, 17, 0],
+  [24, 17, 0],
+  null,
+  [41, 31, 0],
+  [72, 31, 0],
+  [103, 71, 0],
+  [174, 71, 0],
+  [245, 71, 0],
+  [316, 127, 0],
+  [443, 127, 0],
+  [570, 127, 0],
+  [697, 511, 0],
+  null,
+  [1208, 511, 0],
+  ...[1, 2, 3, 4, 6, 8, 10, 13].map((linbits): [number, number, number] => [
+    1719,
+    511,
+    linbits,
+  ]),
+  ...[4, 5, 6, 7, 8, 9, 11, 13].map((linbits): [number, number, number] => [
+    2230,
+    512,
+    linbits,
+  ]),
+  [2742, 31, 0],
+  [2773, 31, 0],
+];
+
+/**
+ * Polyphase synthesis window D[i]
+ */
+export const SYNTH_WINDOW = new Float32Array([
+  0.0, -0.000015259, -0.000015259, -0.000015259, -0.000015259, -0.000015259,
+  -0.000015259, -0.000030518, -0.000030518, -0.000030518, -0.000030518,
+  -0.000045776, -0.000045776, -0.000061035, -0.000061035, -0.000076294,
+  -0.000076294, -0.000091553, -0.000106812, -0.000106812, -0.00012207,
+  -0.000137329, -0.000152588, -0.000167847, -0.000198364, -0.000213623,
+  -0.000244141, -0.000259399, -0.000289917, -0.000320435, -0.000366211,
+  -0.000396729, -0.000442505, -0.000473022, -0.000534058, -0.000579834,
+  -0.00062561, -0.000686646, -0.000747681, -0.000808716, -0.00088501,
+  -0.000961304, -0.001037598, -0.001113892, -0.001205444, -0.001296997,
+  -0.00138855, -0.001480103, -0.001586914, -0.001693726, -0.001785278,
+  -0.001907349, -0.00201416, -0.002120972, -0.002243042, -0.002349854,
+  -0.002456665, -0.002578735, -0.002685547, -0.002792358, -0.00289917,
+  -0.002990723, -0.003082275, -0.003173828, 0.003250122, 0.003326416,
+  0.003387451, 0.003433228, 0.003463745, 0.003479004, 0.003479004, 0.003463745,
+  0.003417969, 0.003372192, 0.00328064, 0.003173828, 0.003051758, 0.002883911,
+  0.002700806, 0.002487183, 0.002227783, 0.001937866, 0.001617432, 0.001266479,
+  0.000869751, 0.000442505, -0.000030518, -0.000549316, -0.001098633,
+  -0.001693726, -0.002334595, -0.003005981, -0.003723145, -0.004486084,
+  -0.0052948, -0.006118774, -0.007003784, -0.007919312, -0.008865356,
+  -0.009841919, -0.010848999, -0.011886597, -0.012939453, -0.014022827,
+  -0.01512146, -0.016235352, -0.017349243, -0.018463135, -0.019577026,
+  -0.020690918, -0.021789551, -0.022857666, -0.023910522, -0.024932861,
+  -0.025909424, -0.02684021, -0.02772522, -0.028533936, -0.029281616,
+  -0.029937744, -0.030532837, -0.031005859, -0.031387329, -0.031661987,
+  -0.031814575, -0.031845093, -0.031738281, -0.031478882, 0.031082153,
+  0.030517578, 0.029785156, 0.028884888, 0.027801514, 0.026535034, 0.025085449,
+  0.023422241, 0.021575928, 0.01953125, 0.01725769, 0.014801025, 0.012115479,
+  0.009231567, 0.006134033, 0.002822876, -0.000686646, -0.004394531,
+  -0.00831604, -0.012420654, -0.016708374, -0.021179199, -0.025817871,
+  -0.030609131, -0.035552979, -0.040634155, -0.045837402, -0.051132202,
+  -0.056533813, -0.06199646, -0.067520142, -0.073059082, -0.07862854,
+  -0.084182739, -0.089706421, -0.095169067, -0.100540161, -0.105819702,
+  -0.110946655, -0.115921021, -0.120697021, -0.125259399, -0.129562378,
+  -0.133590698, -0.137298584, -0.140670776, -0.143676758, -0.146255493,
+  -0.148422241, -0.150115967, -0.151306152, -0.15196228, -0.152069092,
+  -0.151596069, -0.150497437, -0.148773193, -0.146362305, -0.143264771,
+  -0.139450073, -0.134887695, -0.129577637, -0.123474121, -0.116577148,
+  -0.108856201, 0.100311279, 0.090927124, 0.080688477, 0.069595337, 0.057617188,
+  0.044784546, 0.031082153, 0.01651001, 0.001068115, -0.015228271, -0.03237915,
+  -0.050354004, -0.069168091, -0.088775635, -0.109161377, -0.130310059,
+  -0.152206421, -0.174789429, -0.198059082, -0.221984863, -0.246505737,
+  -0.271591187, -0.297210693, -0.323318481, -0.349868774, -0.376800537,
+  -0.404083252, -0.431655884, -0.459472656, -0.487472534, -0.515609741,
+  -0.543823242, -0.572036743, -0.600219727, -0.628295898, -0.656219482,
+  -0.683914185, -0.71131897, -0.738372803, -0.765029907, -0.791213989,
+  -0.816864014, -0.841949463, -0.866363525, -0.890090942, -0.91305542,
+  -0.935195923, -0.956481934, -0.976852417, -0.996246338, -1.01461792,
+  -1.031936646, -1.048156738, -1.063217163, -1.07711792, -1.089782715,
+  -1.101211548, -1.111373901, -1.120223999, -1.127746582, -1.133926392,
+  -1.138763428, -1.142211914, -1.144287109, 1.144989014, 1.144287109,
+  1.142211914, 1.138763428, 1.133926392, 1.127746582, 1.120223999, 1.111373901,
+  1.101211548, 1.089782715, 1.07711792, 1.063217163, 1.048156738, 1.031936646,
+  1.01461792, 0.996246338, 0.976852417, 0.956481934, 0.935195923, 0.91305542,
+  0.890090942, 0.866363525, 0.841949463, 0.816864014, 0.791213989, 0.765029907,
+  0.738372803, 0.71131897, 0.683914185, 0.656219482, 0.628295898, 0.600219727,
+  0.572036743, 0.543823242, 0.515609741, 0.487472534, 0.459472656, 0.431655884,
+  0.404083252, 0.376800537, 0.349868774, 0.323318481, 0.297210693, 0.271591187,
+  0.246505737, 0.221984863, 0.198059082, 0.174789429, 0.152206421, 0.130310059,
+  0.109161377, 0.088775635, 0.069168091, 0.050354004, 0.03237915, 0.015228271,
+  -0.001068115, -0.01651001, -0.031082153, -0.044784546, -0.057617188,
+  -0.069595337, -0.080688477, -0.090927124, 0.100311279, 0.108856201,
+  0.116577148, 0.123474121, 0.129577637, 0.134887695, 0.139450073, 0.143264771,
+  0.146362305, 0.148773193, 0.150497437, 0.151596069, 0.152069092, 0.15196228,
+  0.151306152, 0.150115967, 0.148422241, 0.146255493, 0.143676758, 0.140670776,
+  0.137298584, 0.133590698, 0.129562378, 0.125259399, 0.120697021, 0.115921021,
+  0.110946655, 0.105819702, 0.100540161, 0.095169067, 0.089706421, 0.084182739,
+  0.07862854, 0.073059082, 0.067520142, 0.06199646, 0.056533813, 0.051132202,
+  0.045837402, 0.040634155, 0.035552979, 0.030609131, 0.025817871, 0.021179199,
+  0.016708374, 0.012420654, 0.00831604, 0.004394531, 0.000686646, -0.002822876,
+  -0.006134033, -0.009231567, -0.012115479, -0.014801025, -0.01725769,
+  -0.01953125, -0.021575928, -0.023422241, -0.025085449, -0.026535034,
+  -0.027801514, -0.028884888, -0.029785156, -0.030517578, 0.031082153,
+  0.031478882, 0.031738281, 0.031845093, 0.031814575, 0.031661987, 0.031387329,
+  0.031005859, 0.030532837, 0.029937744, 0.029281616, 0.028533936, 0.02772522,
+  0.02684021, 0.025909424, 0.024932861, 0.023910522, 0.022857666, 0.021789551,
+  0.020690918, 0.019577026, 0.018463135, 0.017349243, 0.016235352, 0.01512146,
+  0.014022827, 0.012939453, 0.011886597, 0.010848999, 0.009841919, 0.008865356,
+  0.007919312, 0.007003784, 0.006118774, 0.0052948, 0.004486084, 0.003723145,
+  0.003005981, 0.002334595, 0.001693726, 0.001098633, 0.000549316, 0.000030518,
+  -0.000442505, -0.000869751, -0.001266479, -0.001617432, -0.001937866,
+  -0.002227783, -0.002487183, -0.002700806, -0.002883911, -0.003051758,
+  -0.003173828, -0.00328064, -0.003372192, -0.003417969, -0.003463745,
+  -0.003479004, -0.003479004, -0.003463745, -0.003433228, -0.003387451,
+  -0.003326416, 0.003250122, 0.003173828, 0.003082275, 0.002990723, 0.00289917,
+  0.002792358, 0.002685547, 0.002578735, 0.002456665, 0.002349854, 0.002243042,
+  0.002120972, 0.00201416, 0.001907349, 0.001785278, 0.001693726, 0.001586914,
+  0.001480103, 0.00138855, 0.001296997, 0.001205444, 0.001113892, 0.001037598,
+  0.000961304, 0.00088501, 0.000808716, 0.000747681, 0.000686646, 0.00062561,
+  0.000579834, 0.000534058, 0.000473022, 0.000442505, 0.000396729, 0.000366211,
+  0.000320435, 0.000289917, 0.000259399, 0.000244141, 0.000213623, 0.000198364,
+  0.000167847, 0.000152588, 0.000137329, 0.00012207, 0.000106812, 0.000106812,
+  0.000091553, 0.000076294, 0.000076294, 0.000061035, 0.000061035, 0.000045776,
+  0.000045776, 0.000030518, 0.000030518, 0.000030518, 0.000030518, 0.000015259,
+  0.000015259, 0.000015259, 0.000015259, 0.000015259, 0.000015259,
+]);
+
+/**
+ * Scalefactor band boundaries (frequency lines) of long and short blocks
+ * by sample rate
+ */
+export const SFB_LONG: Record<number, number[]> = {
+  44100: [
+    0, 4, 8, 12, 16, 20, 24, 30, 36, 44, 52, 62, 74, 90, 110, 134, 162, 196,
+    238, 288, 342, 418, 576,
+  ],
+  48000: [
+    0, 4, 8, 12, 16, 20, 24, 30, 36, 42, 50, 60, 72, 88, 106, 128, 156, 190,
+    230, 276, 330, 384, 576,
+  ],
+  32000: [
+    0, 4, 8, 12, 16, 20, 24, 30, 36, 44, 54, 66, 82, 102, 126, 156, 194, 240,
+    296, 364, 448, 550, 576,
+  ],
+  22050: [
+    0, 6, 12, 18, 24, 30, 36, 44, 54, 66, 80, 96, 116, 140, 168, 200, 238, 284,
+    336, 396, 464, 522, 576,
+  ],
+  24000: [
+    0, 6, 12, 18, 24, 30, 36, 44, 54, 66, 80, 96, 114, 136, 162, 194, 232, 278,
+    332, 394, 464, 540, 576,
+  ],
+  16000: [
+    0, 6, 12, 18, 24, 30, 36, 44, 54, 66, 80, 96, 116, 140, 168, 200, 238, 284,
+    336, 396, 464, 522, 576,
+  ],
+  11025: [
+    0, 6, 12, 18, 24, 30, 36, 44, 54, 66, 80, 96, 116, 140, 168, 200, 238, 284,
+    336, 396, 464, 522, 576,
+  ],
+  12000: [
+    0, 6, 12, 18, 24, 30, 36, 44, 54, 66, 80, 96, 116, 140, 168, 200, 238, 284,
+    336, 396, 464, 522, 576,
+  ],
+  8000: [
+    0, 12, 24, 36, 48, 60, 72, 88, 108, 132, 160, 192, 232, 280, 336, 400, 476,
+    566, 568, 570, 572, 574, 576,
+  ],
+};
+
+export const SFB_SHORT: Record<number, number[]> = {
+  44100: [0, 4, 8, 12, 16, 22, 30, 40, 52, 66, 84, 106, 136, 192],
+  48000: [0, 4, 8, 12, 16, 22, 28, 38, 50, 64, 80, 100, 126, 192],
+  32000: [0, 4, 8, 12, 16, 22, 30, 42, 58, 78, 104, 138, 180, 192],
+  22050: [0, 4, 8, 12, 18, 24, 32, 42, 56, 74, 100, 132, 174, 192],
+  24000: [0, 4, 8, 12, 18, 26, 36, 48, 62, 80, 104, 136, 180, 192],
+  16000: [0, 4, 8, 12, 18, 26, 36, 48, 62, 80, 104, 134, 174, 192],
+  11025: [0, 4, 8, 12, 18, 26, 36, 48, 62, 80, 104, 134, 174, 192],
+  12000: [0, 4, 8, 12, 18, 26, 36, 48, 62, 80, 104, 134, 174, 192],
+  8000: [0, 8, 16, 24, 36, 52, 72, 96, 124, 160, 162, 164, 166, 192],
+};
+
+/**
+ * Slen bit widths for MPEG-1 scalefac_compress
+ */
+export const SLEN: [number, number][] = [
+  [0, 0],
+  [0, 1],
+  [0, 2],
+  [0, 3],
+  [3, 0],
+  [1, 1],
+  [1, 2],
+  [1, 3],
+  [2, 1],
+  [2, 2],
+  [2, 3],
+  [3, 1],
+  [3, 2],
+  [3, 3],
+  [4, 2],
+  [4, 3],
+];
+
+/**
+ * MPEG-2 scalefactor partitions: band counts by scalefac_compress table,
+ * block kind (long, short, mixed) and partition
+ */
+export const LSF_PARTITIONS = [
+  [
+    [6, 5, 5, 5],
+    [9, 9, 9, 9],
+    [6, 9, 9, 9],
+  ],
+  [
+    [6, 5, 7, 3],
+    [9, 9, 12, 6],
+    [6, 9, 12, 6],
+  ],
+  [
+    [11, 10, 0, 0],
+    [18, 18, 0, 0],
+    [15, 18, 0, 0],
+  ],
+  [
+    [7, 7, 7, 0],
+    [12, 12, 12, 0],
+    [6, 15, 12, 0],
+  ],
+  [
+    [6, 6, 6, 3],
+    [12, 9, 9, 6],
+    [6, 12, 9, 6],
+  ],
+  [
+    [8, 8, 5, 0],
+    [15, 12, 9, 0],
+    [6, 18, 9, 0],
+  ],
+];
+
+/**
+ * Scalefactor boost of the upper long bands when preflag is set
+ */
+export const PRETAB = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 3, 3, 3, 2, 0,
+];
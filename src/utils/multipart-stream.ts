@@ -0,0 +1,217 @@
+/**
+ * Streaming multipart/form-data Parser
+ * Yields form parts one at a time with their body as a stream, so file
+ * uploads can be written to storage without buffering whole files
+ */
+
+export interface MultipartPart {
+  /**
+   * Form field name
+   */
+  name: string;
+  /**
+   * Original filename for file fields (null for plain fields)
+   */
+  filename: string | null;
+  contentType: string | null;
+  /**
+   * Part body; unread data is drained automatically before the next part
+   */
+  body: ReadableStream<Uint8Array>;
+}
+
+export class MultipartParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MultipartParseError";
+  }
+}
+
+// Part headers larger than this are rejected
+const MAX_HEADER_SIZE = 16 * 1024;
+
+// Plain form field values larger than this are rejected
+export const MAX_FIELD_SIZE = 64 * 1024;
+
+/**
+ * Extract the boundary from a multipart/form-data Content-Type header
+ */
+export function getMultipartBoundary(
+  contentType: string | null,
+): string | null {
+  if (!contentType?.toLowerCase().startsWith("multipart/form-data")) {
+    return null;
+  }
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] ?? match[2]).trim() : null;
+}
+
+function parsePartHeaders(raw: string): {
+  name: string;
+  filename: string | null;
+  contentType: string | null;
+} {
+  let name = "";
+  let filename: string | null = null;
+  let contentType: string | null = null;
+
+  for (const line of raw.split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const header = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (header === "content-disposition") {
+      name = value.match(/\bname="([^"]*)"/i)?.[1] ?? "";
+      const star = value.match(/\bfilename\*=UTF-8''([^;]+)/i)?.[1];
+      const plain = value.match(/\bfilename="([^"]*)"/i)?.[1];
+      filename = star ? decodeURIComponent(star) : (plain ?? null);
+    } else if (header === "content-type") {
+      contentType = value;
+    }
+  }
+
+  return { name, filename, contentType };
+}
+
+/**
+ * Read a plain form field as text
+ * Throws MultipartParseError as soon as the value exceeds maxBytes, so an
+ * oversized field is never buffered whole
+ */
+export async function readFieldText(
+  body: ReadableStream<Uint8Array>,
+  maxBytes = MAX_FIELD_SIZE,
+): Promise<string> {
+  let received = 0;
+  const capped = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(
+            new MultipartParseError(`Form field exceeds ${maxBytes} bytes`),
+          );
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+  return new Response(capped).text();
+}
+
+/**
+ * Parse a multipart/form-data body stream part by part
+ */
+export async function* parseMultipartStream(
+  stream: ReadableStream<Uint8Array>,
+  boundary: string,
+): AsyncGenerator<MultipartPart> {
+  const reader = stream.getReader();
+  const dashBoundary = Buffer.from(`--${boundary}`);
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  let buffer = Buffer.alloc(0);
+  let ended = false;
+
+  // Pull the next network chunk into the buffer (false at end of stream)
+  async function fill(): Promise<boolean> {
+    if (ended) return false;
+    const { done, value } = await reader.read();
+    if (done) {
+      ended = true;
+      return false;
+    }
+    buffer = buffer.length
+      ? Buffer.concat([buffer, value])
+      : Buffer.from(value);
+    return true;
+  }
+
+  async function fillOrFail(): Promise<void> {
+    if (!(await fill())) {
+      throw new MultipartParseError("Unexpected end of multipart body");
+    }
+  }
+
+  // Skip the preamble up to the first boundary
+  let index: number;
+  while ((index = buffer.indexOf(dashBoundary)) === -1) {
+    await fillOrFail();
+  }
+  buffer = buffer.subarray(index + dashBoundary.length);
+
+  while (true) {
+    while (buffer.length < 2) {
+      await fillOrFail();
+    }
+
+    // "--" after a boundary closes the body
+    if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+      return;
+    }
+
+    // Skip optional transport padding and the CRLF after the boundary
+    while ((index = buffer.indexOf("\r\n")) === -1) {
+      await fillOrFail();
+    }
+    buffer = buffer.subarray(index + 2);
+
+    while ((index = buffer.indexOf("\r\n\r\n")) === -1) {
+      if (buffer.length > MAX_HEADER_SIZE) {
+        throw new MultipartParseError("Multipart part headers too large");
+      }
+      await fillOrFail();
+    }
+    const headers = parsePartHeaders(buffer.subarray(0, index).toString());
+    buffer = buffer.subarray(index + 4);
+
+    let partDone = false;
+
+    // Return the next body chunk, holding back enough bytes to detect a
+    // delimiter split across network chunks (null once the part ends)
+    async function readBodyChunk(): Promise<Uint8Array | null> {
+      while (!partDone) {
+        const end = buffer.indexOf(delimiter);
+        if (end !== -1) {
+          const chunk = buffer.subarray(0, end);
+          buffer = buffer.subarray(end + delimiter.length);
+          partDone = true;
+          return chunk.length ? chunk : null;
+        }
+
+        const safe = buffer.length - (delimiter.length - 1);
+        if (safe > 0) {
+          const chunk = buffer.subarray(0, safe);
+          buffer = buffer.subarray(safe);
+          return chunk;
+        }
+
+        await fillOrFail();
+      }
+      return null;
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const chunk = await readBodyChunk();
+          if (chunk) {
+            controller.enqueue(chunk);
+          } else {
+            controller.close();
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    yield { ...headers, body };
+
+    // Discard whatever the consumer did not read
+    while (!partDone) {
+      await readBodyChunk();
+    }
+  }
+}
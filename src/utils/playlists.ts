@@ -0,0 +1,289 @@
+/**
+ * Music Playlists
+ * Each folder under music/ (combat, intro, normal, ...) is a mood whose
+ * audio files form a playlist in natural order (2.mp3 before 10.mp3).
+ * Per-track weights are stored under .cdn/playlists/<mood>.json and used
+ * by seeded shuffles, so every game server derives the same order.
+ */
+
+import { createHash } from "crypto";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend, StorageEntry } from "../storage/types";
+import { getCdnBaseUrl, type EventPublisher } from "./asset-events";
+import {
+  AudioParseError,
+  getAudioMetadata,
+  isAudioFile,
+} from "./audio-metadata";
+import { generateETag } from "./range-handler";
+
+export const MUSIC_DIR = "music";
+
+// Work-in-progress music, only listed for authenticated callers
+export const DRAFT_MOOD = "draft";
+
+const MOOD_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export interface PlaylistTrack {
+  /**
+   * 1-based position in this (possibly shuffled) order
+   */
+  position: number;
+  path: string;
+  name: string;
+  url: string;
+  /**
+   * Seconds (null if the file could not be parsed)
+   */
+  duration: number | null;
+  codec: string | null;
+  weight: number;
+}
+
+export interface Playlist {
+  mood: string;
+  /**
+   * Changes whenever a track, its content or its weight changes
+   */
+  version: string;
+  seed: string | null;
+  trackCount: number;
+  /**
+   * Total seconds of the tracks with a known duration
+   */
+  duration: number;
+  tracks: PlaylistTrack[];
+}
+
+export interface PlaylistSettings {
+  /**
+   * Weight by track path relative to the mood folder (default 1; 0 leaves
+   * the track out of the playlist)
+   */
+  weights: Record<string, number>;
+  updatedAt?: string;
+  updatedBy?: string | null;
+}
+
+export function isValidMood(mood: string): boolean {
+  return MOOD_PATTERN.test(mood);
+}
+
+/**
+ * Mood of a storage key under music/ (null for other keys)
+ */
+export function moodOf(key: string): string | null {
+  const parts = key.split("/");
+  return parts.length >= 3 && parts[0] === MUSIC_DIR ? parts[1] : null;
+}
+
+function settingsKey(mood: string): string {
+  return systemKey("playlists", `${mood}.json`);
+}
+
+export async function readPlaylistSettings(
+  storage: StorageBackend,
+  mood: string,
+): Promise<PlaylistSettings> {
+  const data = await storage.read(settingsKey(mood));
+  if (!data) {
+    return { weights: {} };
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(data)) as PlaylistSettings;
+  } catch (error) {
+    console.error(`[Playlists] Ignoring corrupt settings for ${mood}:`, error);
+    return { weights: {} };
+  }
+}
+
+/**
+ * Merge weights into a mood's settings (a null weight resets it to 1)
+ */
+export async function updatePlaylistWeights(
+  storage: StorageBackend,
+  mood: string,
+  weights: Record<string, number | null>,
+  updatedBy: string | null,
+): Promise<PlaylistSettings> {
+  const settings = await readPlaylistSettings(storage, mood);
+  for (const [track, weight] of Object.entries(weights)) {
+    if (weight === null || weight === 1) {
+      delete settings.weights[track];
+    } else {
+      settings.weights[track] = weight;
+    }
+  }
+  settings.updatedAt = new Date().toISOString();
+  settings.updatedBy = updatedBy;
+  await storage.write(settingsKey(mood), JSON.stringify(settings, null, 2));
+  return settings;
+}
+
+/**
+ * Moods with at least one audio file, sorted by name
+ */
+export async function listMoods(storage: StorageBackend): Promise<string[]> {
+  const moods = new Set<string>();
+  for (const entry of await storage.list(MUSIC_DIR)) {
+    const mood = moodOf(entry.key);
+    if (mood && isAudioFile(entry.key)) {
+      moods.add(mood);
+    }
+  }
+  return [...moods].sort();
+}
+
+/**
+ * Deterministic 32-bit generator seeded from a string (mulberry32)
+ */
+function seededRandom(seed: string): () => number {
+  let state = createHash("sha256").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Weighted shuffle: heavier tracks tend to come first (each track draws
+ * -ln(u)/weight and the smallest draw leads)
+ */
+function weightedShuffle<T extends { weight: number }>(
+  items: T[],
+  seed: string,
+): T[] {
+  const random = seededRandom(seed);
+  return items
+    .map((item) => ({ item, key: -Math.log(1 - random()) / item.weight }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+}
+
+/**
+ * Build a mood's playlist, shuffled if a seed is given
+ * Returns null if the mood has no audio files
+ */
+export async function getPlaylist(
+  storage: StorageBackend,
+  mood: string,
+  seed?: string,
+): Promise<Playlist | null> {
+  const prefix = `${MUSIC_DIR}/${mood}/`;
+  const entries = (await storage.list(`${MUSIC_DIR}/${mood}`))
+    .filter((entry) => entry.key.startsWith(prefix) && isAudioFile(entry.key))
+    .sort((a, b) =>
+      a.key.localeCompare(b.key, "en", { numeric: true, sensitivity: "base" }),
+    );
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const { weights } = await readPlaylistSettings(storage, mood);
+  const cdnBaseUrl = getCdnBaseUrl();
+  const version = createHash("sha256");
+  const tracks: Omit<PlaylistTrack, "position">[] = [];
+
+  for (const entry of entries) {
+    const relative = entry.key.slice(prefix.length);
+    const weight = weights[relative] ?? 1;
+    version.update(
+      `${entry.key}\0${generateETag(entry.size, entry.lastModified)}\0${weight}\n`,
+    );
+    if (weight <= 0) {
+      continue;
+    }
+    tracks.push({
+      path: entry.key,
+      name: relative.split("/").pop()!,
+      url: `${cdnBaseUrl}/${entry.key}`,
+      weight,
+      ...(await readTrackInfo(storage, entry)),
+    });
+  }
+
+  const ordered = seed ? weightedShuffle(tracks, seed) : tracks;
+  return {
+    mood,
+    version: version.digest("hex").slice(0, 16),
+    seed: seed ?? null,
+    trackCount: ordered.length,
+    duration:
+      Math.round(
+        ordered.reduce((sum, track) => sum + (track.duration ?? 0), 0) * 1000,
+      ) / 1000,
+    tracks: ordered.map((track, i) => ({ position: i + 1, ...track })),
+  };
+}
+
+async function readTrackInfo(
+  storage: StorageBackend,
+  entry: StorageEntry,
+): Promise<{ duration: number | null; codec: string | null }> {
+  try {
+    const audio = await getAudioMetadata(storage, entry.key);
+    return {
+      duration: audio?.metadata.duration ?? null,
+      codec: audio?.metadata.codec ?? null,
+    };
+  } catch (error) {
+    if (error instanceof AudioParseError) {
+      return { duration: null, codec: null };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Broadcast a "playlist-updated" event with a mood's current version
+ * Failures are logged, never thrown, so callers can fire and forget.
+ */
+export async function publishPlaylistUpdate(
+  server: EventPublisher,
+  storage: StorageBackend,
+  mood: string,
+): Promise<void> {
+  try {
+    const playlist = await getPlaylist(storage, mood);
+    const event = {
+      type: "playlist-updated",
+      mood,
+      version: playlist?.version ?? null,
+      trackCount: playlist?.trackCount ?? 0,
+      duration: playlist?.duration ?? 0,
+      updatedAt: new Date().toISOString(),
+    };
+    console.log(
+      `[WebSocket] Broadcasting playlist update for ${mood} (${event.trackCount} tracks)`,
+    );
+    server.publish("cdn-uploads", JSON.stringify(event));
+  } catch (error) {
+    console.error(
+      `[WebSocket] Error broadcasting playlist update for ${mood}:`,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Broadcast playlist updates for the moods of any music files among keys
+ * (called after uploads, deletes, renames, restores and rollbacks)
+ */
+export async function publishPlaylistEvents(
+  server: EventPublisher,
+  storage: StorageBackend,
+  keys: string[],
+): Promise<void> {
+  const moods = new Set<string>();
+  for (const key of keys) {
+    const mood = moodOf(key);
+    if (mood && isAudioFile(key)) {
+      moods.add(mood);
+    }
+  }
+  for (const mood of moods) {
+    await publishPlaylistUpdate(server, storage, mood);
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Resumable Upload Sessions (tus 1.0)
+ * Each PATCH chunk is streamed into its own part object and the session
+ * state is persisted in storage, so uploads survive server restarts.
+ * When the last byte arrives the parts are concatenated (hashing on the
+ * fly) and committed as a new revision of the target path.
+ */
+
+import { join } from "path";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { stageContent } from "./content-store";
+import { commitVersioned, type FileRevision } from "./version-history";
+import { parseVariantList, queueUploadVariants } from "./gltf-optimize";
+import { checkStagedUpload, UploadPolicyError } from "./upload-policy";
+import { validateStagedUpload } from "./gltf-validator";
+
+export const TUS_CONFIG = {
+  maxSize:
+    parseInt(process.env.TUS_MAX_SIZE_MB || "2048", 10) * 1024 * 1024,
+  sessionTtlHours: parseFloat(process.env.TUS_SESSION_TTL_HOURS || "24"),
+};
+
+const SESSION_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+// Last queued request per session; chunks and terminations of one upload
+// run one at a time so two PATCHes can never both append at one offset
+const sessionQueues = new Map<string, Promise<void>>();
+
+export interface UploadPart {
+  offset: number;
+  size: number;
+}
+
+export interface UploadSession {
+  id: string;
+  length: number;
+  offset: number;
+  /**
+   * Target path relative to the CDN root, e.g. "models/sword/sword.glb"
+   */
+  targetPath: string;
+  directory: string;
+  filename: string;
+  metadata: Record<string, string>;
+  parts: UploadPart[];
+  createdAt: string;
+  expiresAt: string;
+  uploadedBy: string | null;
+  completedAt?: string;
+  hash?: string;
+}
+
+function sessionKey(id: string): string {
+  return systemKey("uploads", `${id}.json`);
+}
+
+function partKey(id: string, offset: number): string {
+  // Zero-padded so parts sort in byte order
+  return systemKey("uploads", id, `${String(offset).padStart(15, "0")}.part`);
+}
+
+/**
+ * Parse the tus Upload-Metadata header ("key base64value,key2 base64value2")
+ */
+export function parseUploadMetadata(
+  header: string | null,
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ");
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+    }
+  }
+
+  return metadata;
+}
+
+async function saveSession(
+  storage: StorageBackend,
+  session: UploadSession,
+): Promise<void> {
+  await storage.write(sessionKey(session.id), JSON.stringify(session, null, 2));
+}
+
+/**
+ * Run a request against a session after the requests already queued for
+ * it. Load the session inside the callback so it sees their changes.
+ */
+export function withUploadSessionLock<T>(
+  id: string,
+  handler: () => Promise<T>,
+): Promise<T> {
+  const result = (sessionQueues.get(id) ?? Promise.resolve()).then(handler);
+  const done = result.then(
+    () => undefined,
+    () => undefined,
+  );
+  sessionQueues.set(id, done);
+  done.then(() => {
+    if (sessionQueues.get(id) === done) {
+      sessionQueues.delete(id);
+    }
+  });
+  return result;
+}
+
+/**
+ * Load a session (null if unknown or malformed ID)
+ */
+export async function getUploadSession(
+  storage: StorageBackend,
+  id: string,
+): Promise<UploadSession | null> {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    return null;
+  }
+  const data = await storage.read(sessionKey(id));
+  return data
+    ? (JSON.parse(new TextDecoder().decode(data)) as UploadSession)
+    : null;
+}
+
+export function isSessionExpired(session: UploadSession): boolean {
+  return !session.completedAt && Date.parse(session.expiresAt) <= Date.now();
+}
+
+/**
+ * Create a new upload session for a file of known length
+ */
+export async function createUploadSession(
+  storage: StorageBackend,
+  options: {
+    length: number;
+    directory: string;
+    filename: string;
+    metadata: Record<string, string>;
+    uploadedBy: string | null;
+  },
+): Promise<UploadSession> {
+  const now = Date.now();
+  const session: UploadSession = {
+    id: crypto.randomUUID(),
+    length: options.length,
+    offset: 0,
+    targetPath: join(options.directory, options.filename),
+    directory: options.directory,
+    filename: options.filename,
+    metadata: options.metadata,
+    parts: [],
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(
+      now + TUS_CONFIG.sessionTtlHours * 60 * 60 * 1000,
+    ).toISOString(),
+    uploadedBy: options.uploadedBy,
+  };
+
+  await saveSession(storage, session);
+  return session;
+}
+
+/**
+ * Record whatever a chunk left in its part file and persist the new offset
+ */
+async function recordPart(
+  storage: StorageBackend,
+  session: UploadSession,
+  key: string,
+): Promise<void> {
+  const stat = await storage.stat(key);
+  const size = stat?.size ?? 0;
+
+  if (size === 0) {
+    await storage.delete(key);
+    return;
+  }
+
+  session.parts.push({ offset: session.offset, size });
+  session.offset += size;
+  await saveSession(storage, session);
+}
+
+/**
+ * Stream one chunk into storage at the session's current offset
+ * Returns the updated session. Throws RangeError without storing anything
+ * if the chunk would overflow the declared Upload-Length: up front when
+ * the request declares its Content-Length, otherwise as soon as the
+ * excess byte arrives. If the body is interrupted, the bytes the backend
+ * already saved are kept and the offset advanced before rethrowing, so
+ * the client resumes after them.
+ */
+export async function appendUploadChunk(
+  storage: StorageBackend,
+  session: UploadSession,
+  body: ReadableStream<Uint8Array>,
+  contentLength: number | null = null,
+): Promise<UploadSession> {
+  const remaining = session.length - session.offset;
+  if (contentLength !== null && contentLength > remaining) {
+    throw new RangeError("Chunk exceeds declared Upload-Length");
+  }
+
+  const key = partKey(session.id, session.offset);
+  let received = 0;
+  const capped = body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > remaining) {
+          controller.error(
+            new RangeError("Chunk exceeds declared Upload-Length"),
+          );
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  try {
+    await storage.write(key, capped);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      // Oversized chunk - drop it so nothing past Upload-Length is kept
+      await storage.delete(key);
+    } else {
+      // Interrupted chunk - keep what arrived (backends that buffer the
+      // whole body will have saved nothing)
+      await recordPart(storage, session, key);
+    }
+    throw error;
+  }
+
+  await recordPart(storage, session, key);
+  return session;
+}
+
+/**
+ * Concatenate all parts into the target path once every byte has arrived
+ * Throws UploadPolicyError (and discards the upload) if the assembled file
+ * breaks the target directory's upload policy or fails glTF validation in
+ * a reject-mode directory
+ */
+export async function finalizeUploadSession(
+  storage: StorageBackend,
+  session: UploadSession,
+): Promise<FileRevision> {
+  const parts = [...session.parts].sort((a, b) => a.offset - b.offset);
+
+  // Stream the parts back-to-back without loading them into memory
+  const combined = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const part of parts) {
+        const blob = await storage.streamRange(partKey(session.id, part.offset));
+        if (!blob) {
+          controller.error(new Error(`Missing upload part at ${part.offset}`));
+          return;
+        }
+        const reader = blob.stream().getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          controller.enqueue(value);
+        }
+      }
+      controller.close();
+    },
+  });
+
+  const staged = await stageContent(storage, combined);
+  const violation =
+    (await checkStagedUpload(
+      storage,
+      session.directory,
+      session.filename,
+      staged,
+    )) ??
+    (
+      await validateStagedUpload(
+        storage,
+        session.directory,
+        session.filename,
+        staged,
+      )
+    ).violation;
+  if (violation) {
+    await storage.delete(staged.tempKey);
+    await terminateUploadSession(storage, session);
+    throw new UploadPolicyError(violation);
+  }
+
+  const revision = await commitVersioned(
+    storage,
+    session.targetPath,
+    staged,
+    session.uploadedBy,
+  );
+
+  await deleteUploadParts(storage, session);
+  session.completedAt = new Date().toISOString();
+  session.hash = revision.hash;
+  await saveSession(storage, session);
+
+  // Opt-in derived variants ("optimize" metadata) and model LODs, built in
+  // the background unless this content already has them
+  await queueUploadVariants(
+    storage,
+    session.targetPath,
+    revision.hash,
+    parseVariantList(session.metadata.optimize),
+  );
+
+  return revision;
+}
+
+async function deleteUploadParts(
+  storage: StorageBackend,
+  session: UploadSession,
+): Promise<void> {
+  for (const part of session.parts) {
+    await storage.delete(partKey(session.id, part.offset));
+  }
+}
+
+/**
+ * Abort a session and discard its parts (tus termination extension)
+ */
+export async function terminateUploadSession(
+  storage: StorageBackend,
+  session: UploadSession,
+): Promise<void> {
+  await deleteUploadParts(storage, session);
+  await storage.delete(sessionKey(session.id));
+}
+
+/**
+ * Remove expired incomplete sessions and completed sessions past their TTL
+ */
+export async function cleanupUploadSessions(
+  storage: StorageBackend,
+): Promise<number> {
+  let removed = 0;
+
+  for (const entry of await storage.list(systemKey("uploads"))) {
+    const match = entry.key.match(/\/([a-f0-9-]{36})\.json$/);
+    if (!match) {
+      continue;
+    }
+    const session = await getUploadSession(storage, match[1]);
+    if (session && Date.parse(session.expiresAt) <= Date.now()) {
+      await terminateUploadSession(storage, session);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Clean up stale upload sessions every hour
+ */
+export function scheduleUploadSessionCleanup(storage: StorageBackend): Timer {
+  const timer = setInterval(async () => {
+    try {
+      const removed = await cleanupUploadSessions(storage);
+      if (removed > 0) {
+        console.log(`[Tus] Removed ${removed} expired upload session(s)`);
+      }
+    } catch (error) {
+      console.error("[Tus] Session cleanup failed:", error);
+    }
+  }, 60 * 60 * 1000); // Every hour
+
+  // Don't keep the process alive just for cleanup
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,149 @@
+/**
+ * Safe Path Resolver
+ * Single place where client-supplied paths are turned into storage keys.
+ * Normalises paths, rejects traversal and absolute paths, confines keys
+ * to the allowed asset directories and (for the local backend) makes sure
+ * symlinks cannot point outside the storage root.
+ */
+
+import { dirname, posix, relative, sep } from "path";
+import { realpath } from "fs/promises";
+
+/**
+ * Thrown when a path is malformed or escapes the allowed directories
+ * Mapped to a 400 response by the global error handler
+ */
+export class UnsafePathError extends Error {
+  constructor(
+    message: string,
+    readonly path: string,
+  ) {
+    super(message);
+    this.name = "UnsafePathError";
+  }
+}
+
+/**
+ * Normalise a relative path and reject anything that could escape it
+ * Returns a forward-slash key without leading or trailing slashes
+ */
+export function normalizeRelativePath(input: string): string {
+  if (typeof input !== "string" || input.trim() === "") {
+    throw new UnsafePathError("Path is empty", String(input));
+  }
+  if (input.includes("\0") || input.includes("\\")) {
+    throw new UnsafePathError("Path contains invalid characters", input);
+  }
+  if (input.startsWith("/") || /^[a-zA-Z]:/.test(input)) {
+    throw new UnsafePathError("Absolute paths are not allowed", input);
+  }
+  if (input.split("/").includes("..")) {
+    throw new UnsafePathError("Path traversal is not allowed", input);
+  }
+
+  const key = posix.normalize(input).replace(/\/+$/, "");
+  if (key === "" || key === ".") {
+    throw new UnsafePathError("Path is empty", input);
+  }
+  return key;
+}
+
+/**
+ * Resolve a client-supplied path to a storage key inside one of the
+ * allowed asset directories. With allowDirectoryRoot the asset directory
+ * itself (e.g. "models") is accepted, as needed for upload targets.
+ */
+export function resolveAssetPath(
+  input: string,
+  allowedDirs: readonly string[],
+  options: { allowDirectoryRoot?: boolean } = {},
+): string {
+  const key = normalizeRelativePath(input);
+  const [root, ...rest] = key.split("/");
+
+  if (!allowedDirs.includes(root)) {
+    throw new UnsafePathError(
+      `Path must be inside one of: ${allowedDirs.join(", ")}`,
+      input,
+    );
+  }
+  if (rest.length === 0 && !options.allowDirectoryRoot) {
+    throw new UnsafePathError("Path must point to a file", input);
+  }
+  return key;
+}
+
+/**
+ * Validate a bare file name (no directory components)
+ */
+export function resolveFileName(input: string): string {
+  const name = normalizeRelativePath(input);
+  if (name.includes("/")) {
+    throw new UnsafePathError(
+      "Invalid filename - cannot contain path separators",
+      input,
+    );
+  }
+  return name;
+}
+
+/**
+ * Join a base directory and a relative path supplied by a client
+ * (e.g. an upload filename) and resolve the result
+ */
+export function resolveAssetChild(
+  directory: string,
+  child: string,
+  allowedDirs: readonly string[],
+): string {
+  const dir = resolveAssetPath(directory, allowedDirs, {
+    allowDirectoryRoot: true,
+  });
+  return resolveAssetPath(
+    `${dir}/${normalizeRelativePath(child)}`,
+    allowedDirs,
+  );
+}
+
+/**
+ * realpath() of a path, or of its nearest existing ancestor when the path
+ * itself does not exist yet
+ */
+async function realpathOfExisting(filePath: string): Promise<string> {
+  let existing = filePath;
+  while (true) {
+    try {
+      return await realpath(existing);
+    } catch (err) {
+      const parent = dirname(existing);
+      if (
+        (err as NodeJS.ErrnoException).code !== "ENOENT" ||
+        parent === existing
+      ) {
+        throw err;
+      }
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve symlinks for a filesystem path and ensure the real location is
+ * still inside rootDir
+ */
+export async function assertWithinRoot(
+  rootDir: string,
+  filePath: string,
+): Promise<void> {
+  const [realRoot, real] = await Promise.all([
+    realpathOfExisting(rootDir),
+    realpathOfExisting(filePath),
+  ]);
+
+  if (real !== realRoot && !real.startsWith(realRoot + sep)) {
+    throw new UnsafePathError(
+      "Path resolves outside the storage root",
+      relative(rootDir, filePath),
+    );
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Thumbnails
+ * Small PNG previews of images and models, generated on first request and
+ * cached under .cdn/thumbnails/<path>/. Each thumbnail's key carries a
+ * fingerprint of its source, so uploads invalidate it without bookkeeping.
+ */
+
+import { createHash } from "crypto";
+import { extname } from "path";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import {
+  decodeDataUri,
+  readBufferView,
+  readGltf,
+  readImageSize,
+  storageSource,
+  type GltfDocument,
+} from "./gltf";
+import {
+  decodeImage,
+  encodeImage,
+  fitWithin,
+  MAX_SOURCE_PIXELS,
+  sniffRasterType,
+} from "./image";
+import { generateETag } from "./range-handler";
+import { createWorkerClient, transferBytes } from "./worker-client";
+
+export const THUMBNAIL_SIZES = [64, 128, 256, 512];
+export const DEFAULT_THUMBNAIL_SIZE = 128;
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg"];
+const MODEL_EXTENSIONS = [".glb"];
+
+// Sidecar images next to a model, e.g. sword.preview.png for sword.glb
+export const PREVIEW_SUFFIXES = [".preview.png", ".preview.jpg", ".preview.jpeg"];
+
+/**
+ * The source has no usable image (undecodable, too large, or a model
+ * without a preview image or PNG/JPEG texture)
+ */
+export class ThumbnailSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThumbnailSourceError";
+  }
+}
+
+export function isThumbnailable(path: string): boolean {
+  const ext = extname(path).toLowerCase();
+  return IMAGE_EXTENSIONS.includes(ext) || MODEL_EXTENSIONS.includes(ext);
+}
+
+interface ThumbnailSource {
+  /**
+   * Changes whenever the image the thumbnail is made from changes
+   */
+  fingerprint: string;
+  load: () => Promise<Uint8Array>;
+}
+
+/**
+ * Pick the base colour texture of the first textured material, else the
+ * largest embedded PNG/JPEG image
+ */
+async function readEmbeddedImage(
+  doc: GltfDocument,
+): Promise<Uint8Array | null> {
+  const images = doc.json.images ?? [];
+  const baseColor = doc.json.materials
+    ?.map((material) => material.pbrMetallicRoughness?.baseColorTexture)
+    .find((texture) => texture !== undefined);
+  const preferred =
+    baseColor !== undefined
+      ? doc.json.textures?.[baseColor.index]?.source
+      : undefined;
+
+  const byteLength = (index: number) => {
+    const view = images[index].bufferView;
+    return view !== undefined
+      ? (doc.json.bufferViews?.[view]?.byteLength ?? 0)
+      : (images[index].uri?.length ?? 0);
+  };
+  const order = images
+    .map((_, i) => i)
+    .sort((a, b) => byteLength(b) - byteLength(a));
+  if (preferred !== undefined) {
+    order.unshift(preferred);
+  }
+
+  for (const index of order) {
+    const image = images[index];
+    const data =
+      image?.bufferView !== undefined
+        ? await readBufferView(doc, image.bufferView)
+        : image?.uri
+          ? decodeDataUri(image.uri)
+          : null;
+    if (data && sniffRasterType(data)) {
+      return data;
+    }
+  }
+  return null;
+}
+
+async function resolveSource(
+  storage: StorageBackend,
+  path: string,
+): Promise<ThumbnailSource | null> {
+  const stat = await storage.stat(path);
+  if (!stat) {
+    return null;
+  }
+  const etag = generateETag(stat.size, stat.lastModified);
+
+  if (!MODEL_EXTENSIONS.includes(extname(path).toLowerCase())) {
+    return {
+      fingerprint: `${path}\0${etag}`,
+      load: async () => (await storage.read(path)) ?? new Uint8Array(),
+    };
+  }
+
+  // A sidecar preview wins over the model's own textures
+  const base = path.slice(0, -extname(path).length);
+  for (const suffix of PREVIEW_SUFFIXES) {
+    const previewKey = base + suffix;
+    const preview = await storage.stat(previewKey);
+    if (preview) {
+      return {
+        fingerprint: `${previewKey}\0${generateETag(preview.size, preview.lastModified)}`,
+        load: async () => (await storage.read(previewKey)) ?? new Uint8Array(),
+      };
+    }
+  }
+
+  return {
+    fingerprint: `${path}\0${etag}`,
+    load: async () => {
+      const doc = await readGltf(storageSource(storage, path, stat.size));
+      const image = await readEmbeddedImage(doc);
+      if (!image) {
+        throw new ThumbnailSourceError(
+          `${path} has no preview image or embedded PNG/JPEG texture`,
+        );
+      }
+      return image;
+    },
+  };
+}
+
+/**
+ * Render a thumbnail whose longest edge is at most size (never upscaled)
+ */
+export function renderThumbnail(data: Uint8Array, size: number): Uint8Array {
+  const mimeType = sniffRasterType(data);
+  if (!mimeType) {
+    throw new ThumbnailSourceError("Not a PNG or JPEG image");
+  }
+  const dimensions = readImageSize(data);
+  if (dimensions && dimensions.width * dimensions.height > MAX_SOURCE_PIXELS) {
+    throw new ThumbnailSourceError(
+      `Source is too large (${dimensions.width}x${dimensions.height})`,
+    );
+  }
+  let image;
+  try {
+    image = decodeImage(data, mimeType);
+  } catch (error) {
+    throw new ThumbnailSourceError(
+      `Failed to decode image: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  return encodeImage(fitWithin(image, size) ?? image, "image/png");
+}
+
+// Decoding and encoding run on a worker thread so large images never
+// stall requests
+const renderThumbnailInWorker = createWorkerClient<
+  { data: Uint8Array; size: number },
+  Uint8Array
+>(new URL("../workers/thumbnail-renderer.ts", import.meta.url), {
+  ThumbnailSourceError,
+});
+
+// Thumbnails being generated, so concurrent requests share the work
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Get (generating if needed) the thumbnail of an image or model
+ * Returns null if the source file does not exist
+ */
+export async function getThumbnail(
+  storage: StorageBackend,
+  path: string,
+  size: number,
+): Promise<{ key: string; etag: string } | null> {
+  const source = await resolveSource(storage, path);
+  if (!source) {
+    return null;
+  }
+
+  const fingerprint = createHash("sha256")
+    .update(source.fingerprint)
+    .digest("hex")
+    .slice(0, 16);
+  const dir = systemKey("thumbnails", path);
+  const key = `${dir}/${size}-${fingerprint}.png`;
+  const result = { key, etag: `W/"${fingerprint}-${size}"` };
+
+  if (await storage.stat(key)) {
+    return result;
+  }
+
+  let job = inFlight.get(key);
+  if (!job) {
+    job = (async () => {
+      const started = Date.now();
+      const data = await source.load();
+      const thumbnail = await renderThumbnailInWorker(
+        { data, size },
+        transferBytes(data),
+      );
+      await storage.write(key, thumbnail);
+
+      // Drop thumbnails of this size made from older content
+      for (const entry of await storage.list(dir)) {
+        if (entry.key.startsWith(`${dir}/${size}-`) && entry.key !== key) {
+          await storage.delete(entry.key);
+        }
+      }
+      console.log(
+        `[Thumbnails] ${path} @${size}px: ${thumbnail.byteLength} bytes (${Date.now() - started}ms)`,
+      );
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, job);
+  }
+  await job;
+  return result;
+}
@@ -0,0 +1,187 @@
+/**
+ * Trash Bin Utilities
+ * Deletes move files into a trash area with deletion metadata so they can
+ * be restored until the retention period expires
+ */
+
+import { systemKey, SYSTEM_PREFIX } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { deleteVariants } from "./gltf-optimize";
+
+/**
+ * How long trashed files are kept before automatic purge (default: 30 days)
+ */
+export const TRASH_RETENTION_DAYS = parseFloat(
+  process.env.TRASH_RETENTION_DAYS || "30",
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashEntry {
+  id: string;
+  originalPath: string;
+  size: number;
+  deletedAt: string;
+  deletedBy: string | null;
+  expiresAt: string;
+}
+
+const TRASH_PREFIX = systemKey("trash");
+
+function dataKey(id: string): string {
+  return `${TRASH_PREFIX}/${id}.bin`;
+}
+
+function entryKey(id: string): string {
+  return `${TRASH_PREFIX}/${id}.json`;
+}
+
+/**
+ * Move a file into the trash (returns null if the file does not exist)
+ */
+export async function moveToTrash(
+  storage: StorageBackend,
+  path: string,
+  deletedBy: string | null,
+): Promise<TrashEntry | null> {
+  if (path.startsWith(`${SYSTEM_PREFIX}/`)) {
+    return null;
+  }
+
+  const stat = await storage.stat(path);
+  if (!stat) {
+    return null;
+  }
+
+  const now = Date.now();
+  const entry: TrashEntry = {
+    id: crypto.randomUUID(),
+    originalPath: path,
+    size: stat.size,
+    deletedAt: new Date(now).toISOString(),
+    deletedBy,
+    expiresAt: new Date(now + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+  };
+
+  // Write metadata first so a crash never leaves untracked bytes in trash
+  await storage.write(entryKey(entry.id), JSON.stringify(entry, null, 2));
+  await storage.rename(path, dataKey(entry.id));
+  // Variants are derived data and are rebuilt on the next upload
+  await deleteVariants(storage, path);
+
+  return entry;
+}
+
+/**
+ * List everything in the trash, most recently deleted first
+ */
+export async function listTrash(storage: StorageBackend): Promise<TrashEntry[]> {
+  const keys = (await storage.list(TRASH_PREFIX))
+    .map((entry) => entry.key)
+    .filter((key) => key.endsWith(".json"));
+
+  const entries: TrashEntry[] = [];
+  for (const key of keys) {
+    const data = await storage.read(key);
+    if (data) {
+      entries.push(JSON.parse(new TextDecoder().decode(data)) as TrashEntry);
+    }
+  }
+
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+async function getTrashEntry(
+  storage: StorageBackend,
+  id: string,
+): Promise<TrashEntry | null> {
+  // IDs are UUIDs - reject anything that could escape the trash prefix
+  if (!/^[a-f0-9-]{36}$/.test(id)) {
+    return null;
+  }
+  const data = await storage.read(entryKey(id));
+  return data ? (JSON.parse(new TextDecoder().decode(data)) as TrashEntry) : null;
+}
+
+export type RestoreResult =
+  | { status: "restored"; entry: TrashEntry }
+  | { status: "not-found" }
+  | { status: "conflict"; entry: TrashEntry };
+
+/**
+ * Restore a trashed file to its original path
+ * Refuses to overwrite a file that has since been created at that path
+ */
+export async function restoreFromTrash(
+  storage: StorageBackend,
+  id: string,
+): Promise<RestoreResult> {
+  const entry = await getTrashEntry(storage, id);
+  if (!entry) {
+    return { status: "not-found" };
+  }
+
+  if (await storage.stat(entry.originalPath)) {
+    return { status: "conflict", entry };
+  }
+
+  await storage.rename(dataKey(id), entry.originalPath);
+  await storage.delete(entryKey(id));
+
+  return { status: "restored", entry };
+}
+
+/**
+ * Permanently delete one trashed file
+ */
+export async function purgeTrashEntry(
+  storage: StorageBackend,
+  id: string,
+): Promise<boolean> {
+  const entry = await getTrashEntry(storage, id);
+  if (!entry) {
+    return false;
+  }
+  await storage.delete(dataKey(id));
+  await storage.delete(entryKey(id));
+  return true;
+}
+
+/**
+ * Permanently delete trashed files whose retention period has passed
+ * Returns the number of purged entries
+ */
+export async function purgeExpiredTrash(
+  storage: StorageBackend,
+  now: number = Date.now(),
+): Promise<number> {
+  let purged = 0;
+  for (const entry of await listTrash(storage)) {
+    if (Date.parse(entry.expiresAt) <= now) {
+      if (await purgeTrashEntry(storage, entry.id)) {
+        purged++;
+      }
+    }
+  }
+  return purged;
+}
+
+/**
+ * Purge expired trash every hour
+ */
+export function scheduleTrashPurge(storage: StorageBackend): Timer {
+  const timer = setInterval(async () => {
+    try {
+      const purged = await purgeExpiredTrash(storage);
+      if (purged > 0) {
+        console.log(`[Trash] Purged ${purged} expired file(s)`);
+      }
+    } catch (error) {
+      console.error("[Trash] Scheduled purge failed:", error);
+    }
+  }, 60 * 60 * 1000); // Every hour
+
+  // Don't keep the process alive just for trash cleanup
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,262 @@
+/**
+ * Per-Directory Upload Policies
+ * Declares which file types and sizes each asset directory accepts.
+ * File types are detected from magic bytes; the extension must match the
+ * detected content so a renamed file cannot sneak in with a wrong type.
+ */
+
+import { extname } from "path";
+import type { StorageBackend } from "../storage/types";
+import type { StagedContent } from "./content-store";
+import type { GltfValidationOptions, ValidationReport } from "./gltf-validator";
+
+export type FileKind =
+  | "glb"
+  | "gltf"
+  | "json"
+  | "png"
+  | "jpeg"
+  | "webp"
+  | "mp3"
+  | "wav"
+  | "ogg"
+  | "webm";
+
+/**
+ * File extensions accepted for each detected content type
+ */
+export const FILE_KIND_EXTENSIONS: Record<FileKind, string[]> = {
+  glb: [".glb"],
+  gltf: [".gltf"],
+  json: [".json"],
+  png: [".png"],
+  jpeg: [".jpg", ".jpeg"],
+  webp: [".webp"],
+  mp3: [".mp3"],
+  wav: [".wav"],
+  ogg: [".ogg"],
+  webm: [".webm"],
+};
+
+export interface UploadPolicy {
+  allowedKinds: FileKind[];
+  maxFileSizeMB: number;
+  /**
+   * Structural validation for .glb/.gltf files; "reject" refuses files
+   * with errors, "warn" stores and returns the report but keeps the file
+   */
+  validation?: GltfValidationOptions & { mode: "reject" | "warn" };
+}
+
+const IMAGE_KINDS: FileKind[] = ["png", "jpeg", "webp"];
+const AUDIO_KINDS: FileKind[] = ["mp3", "wav", "ogg", "webm"];
+
+/**
+ * Active policy per top-level asset directory
+ */
+export const UPLOAD_POLICIES: Record<string, UploadPolicy> = {
+  models: {
+    allowedKinds: ["glb", "gltf", ...IMAGE_KINDS, "json"],
+    maxFileSizeMB: 200,
+    validation: { mode: "warn", maxTextureSize: 4096, expectSkin: false },
+  },
+  emotes: {
+    allowedKinds: ["glb"],
+    maxFileSizeMB: 100,
+    validation: { mode: "reject", maxTextureSize: 2048, expectSkin: true },
+  },
+  music: {
+    allowedKinds: [...AUDIO_KINDS, ...IMAGE_KINDS],
+    maxFileSizeMB: 100,
+  },
+  media: {
+    allowedKinds: [...AUDIO_KINDS, ...IMAGE_KINDS],
+    maxFileSizeMB: 100,
+  },
+};
+
+// Number of leading bytes needed to recognise every supported type
+export const SNIFF_BYTES = 64;
+
+export type UploadViolationCode =
+  | "FILE_TOO_LARGE"
+  | "UNKNOWN_FILE_TYPE"
+  | "EXTENSION_MISMATCH"
+  | "FILE_TYPE_NOT_ALLOWED"
+  | "VALIDATION_FAILED";
+
+export interface UploadViolation {
+  name: string;
+  code: UploadViolationCode;
+  message: string;
+  /**
+   * Full glTF validation report for VALIDATION_FAILED
+   */
+  validation?: ValidationReport;
+}
+
+/**
+ * Thrown when an upload breaks the policy of its target directory
+ */
+export class UploadPolicyError extends Error {
+  constructor(readonly violation: UploadViolation) {
+    super(violation.message);
+    this.name = "UploadPolicyError";
+  }
+}
+
+/**
+ * Policy for a storage key or directory (looked up by its first segment)
+ */
+export function getUploadPolicy(path: string): UploadPolicy | null {
+  return UPLOAD_POLICIES[path.split("/")[0]] ?? null;
+}
+
+/**
+ * Largest file any directory accepts, in bytes (upper bound while
+ * streaming, before the target directory is known)
+ */
+export function maxPolicyFileSize(): number {
+  const maxMB = Math.max(
+    ...Object.values(UPLOAD_POLICIES).map((p) => p.maxFileSizeMB),
+  );
+  return maxMB * 1024 * 1024;
+}
+
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((b, i) => data[offset + i] === b);
+}
+
+function ascii(value: string): number[] {
+  return [...value].map((c) => c.charCodeAt(0));
+}
+
+/**
+ * Detect a file type from its leading bytes
+ * JSON documents are reported as "gltf" when the name ends in .gltf
+ */
+export function sniffFileKind(head: Uint8Array, name: string): FileKind | null {
+  if (startsWith(head, ascii("glTF"))) return "glb";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "png";
+  }
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(head, ascii("RIFF"))) {
+    if (startsWith(head, ascii("WEBP"), 8)) return "webp";
+    if (startsWith(head, ascii("WAVE"), 8)) return "wav";
+    return null;
+  }
+  if (startsWith(head, ascii("OggS"))) return "ogg";
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return "webm";
+  // MP3: ID3v2 tag or a bare MPEG audio frame sync
+  if (startsWith(head, ascii("ID3"))) return "mp3";
+  if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) return "mp3";
+
+  // JSON: first non-whitespace character (TextDecoder drops any BOM)
+  const first = new TextDecoder().decode(head).trimStart()[0];
+  if (first === "{" || first === "[") {
+    return extname(name).toLowerCase() === ".gltf" ? "gltf" : "json";
+  }
+
+  return null;
+}
+
+/**
+ * Check a file against the policy of the directory it is uploaded to
+ * Returns null when the file is allowed
+ */
+export function checkUploadPolicy(
+  directory: string,
+  name: string,
+  size: number,
+  head: Uint8Array,
+): UploadViolation | null {
+  const policy = getUploadPolicy(directory);
+  if (!policy) {
+    return null;
+  }
+  const root = directory.split("/")[0];
+
+  if (size > policy.maxFileSizeMB * 1024 * 1024) {
+    return {
+      name,
+      code: "FILE_TOO_LARGE",
+      message: `File exceeds the ${policy.maxFileSizeMB}MB limit for ${root}`,
+    };
+  }
+
+  const kind = sniffFileKind(head, name);
+  if (!kind) {
+    return {
+      name,
+      code: "UNKNOWN_FILE_TYPE",
+      message: "File contents do not match any supported file type",
+    };
+  }
+
+  const ext = extname(name).toLowerCase();
+  if (!FILE_KIND_EXTENSIONS[kind].includes(ext)) {
+    return {
+      name,
+      code: "EXTENSION_MISMATCH",
+      message: `File contents are ${kind} but the extension is ${ext || "missing"}`,
+    };
+  }
+
+  if (!policy.allowedKinds.includes(kind)) {
+    return {
+      name,
+      code: "FILE_TYPE_NOT_ALLOWED",
+      message: `${kind} files are not allowed in ${root}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check a staged upload by reading only its first bytes from storage
+ */
+export async function checkStagedUpload(
+  storage: StorageBackend,
+  directory: string,
+  name: string,
+  staged: StagedContent,
+): Promise<UploadViolation | null> {
+  const head =
+    staged.size > 0
+      ? await storage.streamRange(staged.tempKey, {
+          start: 0,
+          end: Math.min(staged.size, SNIFF_BYTES) - 1,
+        })
+      : null;
+  const bytes = head
+    ? new Uint8Array(await head.arrayBuffer())
+    : new Uint8Array(0);
+  return checkUploadPolicy(directory, name, staged.size, bytes);
+}
+
+/**
+ * Public summary of the active policies for /api/config
+ */
+export function describeUploadPolicies(): Record<
+  string,
+  {
+    allowedFileTypes: string[];
+    maxFileSize: number;
+    validation: "reject" | "warn" | "off";
+  }
+> {
+  return Object.fromEntries(
+    Object.entries(UPLOAD_POLICIES).map(([dir, policy]) => [
+      dir,
+      {
+        allowedFileTypes: policy.allowedKinds.flatMap(
+          (kind) => FILE_KIND_EXTENSIONS[kind],
+        ),
+        maxFileSize: policy.maxFileSizeMB,
+        validation: policy.validation?.mode ?? "off",
+      },
+    ]),
+  );
+}
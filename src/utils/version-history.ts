@@ -0,0 +1,288 @@
+/**
+ * Per-Path Version History
+ * Every write to an asset path is recorded as a revision pointing at a
+ * content-addressed blob, so previous bytes can be listed, downloaded and
+ * rolled back to at any time
+ */
+
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import {
+  blobKey,
+  hashBlob,
+  stageContent,
+  storeBlob,
+  type StagedContent,
+} from "./content-store";
+import { renameVariants } from "./gltf-optimize";
+
+export type RevisionAction = "initial" | "upload" | "rename" | "rollback";
+
+export interface FileRevision {
+  /**
+   * 1-based revision number, unique per path
+   */
+  version: number;
+  hash: string;
+  size: number;
+  createdAt: string;
+  uploadedBy: string | null;
+  action: RevisionAction;
+  /**
+   * Previous path for renames, or rolled-back version for rollbacks
+   */
+  source?: string;
+}
+
+interface HistoryManifest {
+  path: string;
+  revisions: FileRevision[];
+}
+
+// Last queued manifest update per path; updates to one path run one at a
+// time so concurrent writes never drop each other's revisions
+const manifestQueues = new Map<string, Promise<void>>();
+
+function historyKey(path: string): string {
+  return systemKey("versions", `${path}.json`);
+}
+
+/**
+ * Run an update of a path's file and manifest after the updates already
+ * queued for it
+ */
+function withManifestLock<T>(
+  path: string,
+  update: () => Promise<T>,
+): Promise<T> {
+  const result = (manifestQueues.get(path) ?? Promise.resolve()).then(update);
+  const done = result.then(
+    () => undefined,
+    () => undefined,
+  );
+  manifestQueues.set(path, done);
+  done.then(() => {
+    if (manifestQueues.get(path) === done) {
+      manifestQueues.delete(path);
+    }
+  });
+  return result;
+}
+
+async function readManifest(
+  storage: StorageBackend,
+  path: string,
+): Promise<HistoryManifest> {
+  const data = await storage.read(historyKey(path));
+  if (!data) {
+    return { path, revisions: [] };
+  }
+  return JSON.parse(new TextDecoder().decode(data)) as HistoryManifest;
+}
+
+async function writeManifest(
+  storage: StorageBackend,
+  manifest: HistoryManifest,
+): Promise<void> {
+  await storage.write(
+    historyKey(manifest.path),
+    JSON.stringify(manifest, null, 2),
+  );
+}
+
+function appendRevision(
+  manifest: HistoryManifest,
+  revision: Omit<FileRevision, "version" | "createdAt">,
+): FileRevision {
+  const last = manifest.revisions[manifest.revisions.length - 1];
+  const entry: FileRevision = {
+    version: last ? last.version + 1 : 1,
+    createdAt: new Date().toISOString(),
+    ...revision,
+  };
+  manifest.revisions.push(entry);
+  return entry;
+}
+
+/**
+ * Make sure a file that predates version history has its current bytes
+ * recorded as an "initial" revision before it is overwritten
+ */
+async function ensureTracked(
+  storage: StorageBackend,
+  manifest: HistoryManifest,
+): Promise<void> {
+  if (manifest.revisions.length > 0) {
+    return;
+  }
+
+  const [stat, blob] = await Promise.all([
+    storage.stat(manifest.path),
+    storage.streamRange(manifest.path),
+  ]);
+  if (!stat || !blob) {
+    return;
+  }
+
+  const hash = await hashBlob(blob);
+  await storeBlob(storage, hash, blob);
+  manifest.revisions.push({
+    version: 1,
+    hash,
+    size: stat.size,
+    createdAt: new Date(stat.lastModified).toISOString(),
+    uploadedBy: null,
+    action: "initial",
+  });
+}
+
+/**
+ * List all revisions of a path, oldest first (empty if untracked)
+ */
+export async function getRevisions(
+  storage: StorageBackend,
+  path: string,
+): Promise<FileRevision[]> {
+  return (await readManifest(storage, path)).revisions;
+}
+
+/**
+ * Find a single revision of a path
+ */
+export async function getRevision(
+  storage: StorageBackend,
+  path: string,
+  version: number,
+): Promise<FileRevision | null> {
+  const revisions = await getRevisions(storage, path);
+  return revisions.find((r) => r.version === version) ?? null;
+}
+
+/**
+ * Write a file and record it as a new revision
+ * The previous bytes stay available through their content hash
+ */
+export async function writeVersioned(
+  storage: StorageBackend,
+  path: string,
+  data: Uint8Array | ArrayBuffer,
+  uploadedBy: string | null,
+): Promise<FileRevision> {
+  const staged = await stageContent(storage, new Blob([data]).stream());
+  return commitVersioned(storage, path, staged, uploadedBy);
+}
+
+/**
+ * Move a staged temp file into place and record it as a new revision.
+ * Used for streamed uploads whose hash was computed on the fly.
+ * The rename makes the new content visible atomically.
+ */
+export async function commitVersioned(
+  storage: StorageBackend,
+  path: string,
+  content: StagedContent,
+  uploadedBy: string | null,
+): Promise<FileRevision> {
+  const { tempKey } = content;
+  return withManifestLock(path, async () => {
+    const manifest = await readManifest(storage, path);
+    await ensureTracked(storage, manifest);
+
+    const staged = await storage.streamRange(tempKey);
+    if (!staged) {
+      throw new Error(`Staged upload ${tempKey} is missing`);
+    }
+    await storeBlob(storage, content.hash, staged);
+    await storage.rename(tempKey, path, content.hash);
+
+    const revision = appendRevision(manifest, {
+      hash: content.hash,
+      size: content.size,
+      uploadedBy,
+      action: "upload",
+    });
+    await writeManifest(storage, manifest);
+    return revision;
+  });
+}
+
+/**
+ * Move a file and its history to a new path, recording the rename
+ */
+export async function renameVersioned(
+  storage: StorageBackend,
+  fromPath: string,
+  toPath: string,
+  uploadedBy: string | null,
+): Promise<FileRevision | null> {
+  const move = async (): Promise<FileRevision | null> => {
+    const manifest = await readManifest(storage, fromPath);
+    await ensureTracked(storage, manifest);
+
+    await storage.rename(fromPath, toPath);
+    await storage.delete(historyKey(fromPath));
+
+    const current = manifest.revisions[manifest.revisions.length - 1];
+    await renameVariants(storage, fromPath, toPath, current?.hash);
+    if (!current) {
+      return null;
+    }
+
+    manifest.path = toPath;
+    const revision = appendRevision(manifest, {
+      hash: current.hash,
+      size: current.size,
+      uploadedBy,
+      action: "rename",
+      source: fromPath,
+    });
+    await writeManifest(storage, manifest);
+    return revision;
+  };
+
+  // Both paths are locked, always in the same order so two opposite
+  // renames cannot wait on each other
+  const [first, second] = [fromPath, toPath].sort();
+  return withManifestLock(first, () =>
+    first === second ? move() : withManifestLock(second, move),
+  );
+}
+
+/**
+ * Restore a previous revision as the current content of a path
+ * The blob is streamed to a temp key and renamed into place so readers
+ * never observe a partially written file
+ */
+export async function rollbackToRevision(
+  storage: StorageBackend,
+  path: string,
+  version: number,
+  uploadedBy: string | null,
+): Promise<FileRevision | null> {
+  return withManifestLock(path, async () => {
+    const manifest = await readManifest(storage, path);
+    const target = manifest.revisions.find((r) => r.version === version);
+    if (!target) {
+      return null;
+    }
+
+    const blob = await storage.streamRange(blobKey(target.hash));
+    if (!blob) {
+      throw new Error(`Blob for ${path} v${version} is missing`);
+    }
+
+    const tempKey = systemKey("tmp", crypto.randomUUID());
+    await storage.write(tempKey, blob.stream());
+    await storage.rename(tempKey, path, target.hash);
+
+    const revision = appendRevision(manifest, {
+      hash: target.hash,
+      size: target.size,
+      uploadedBy,
+      action: "rollback",
+      source: String(version),
+    });
+    await writeManifest(storage, manifest);
+    return revision;
+  });
+}
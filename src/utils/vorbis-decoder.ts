@@ -0,0 +1,988 @@
+/**
+ * Vorbis Decoder
+ * Ogg Vorbis I decoding in TypeScript, used for waveforms without native
+ * codecs. Channel spectra are mixed before the inverse MDCT (it is linear
+ * and all channels share the block size), so the output is mono.
+ */
+
+import { AudioParseError, lastOggGranule, oggPackets } from "./audio-metadata";
+
+/**
+ * LSB-first bit reader over one packet; reads past the end return zeros
+ * and set eof (the "end of packet" condition of the spec)
+ */
+class BitReader {
+  position = 0;
+  eof = false;
+  private readonly length: number;
+
+  constructor(private readonly data: Uint8Array) {
+    this.length = data.byteLength * 8;
+  }
+
+  peek(count: number): number {
+    const byte = this.position >> 3;
+    const data = this.data;
+    const word =
+      ((data[byte] ?? 0) |
+        ((data[byte + 1] ?? 0) << 8) |
+        ((data[byte + 2] ?? 0) << 16) |
+        ((data[byte + 3] ?? 0) << 24)) >>>
+      (this.position & 7);
+    return count === 32 ? word : word & ((1 << count) - 1);
+  }
+
+  skip(count: number): void {
+    this.position += count;
+    if (this.position > this.length) {
+      this.eof = true;
+    }
+  }
+
+  /**
+   * Up to 24 bits
+   */
+  read(count: number): number {
+    const value = this.peek(count);
+    this.skip(count);
+    return this.eof ? 0 : value;
+  }
+
+  read32(): number {
+    const low = this.read(16);
+    return low + this.read(16) * 0x10000;
+  }
+
+  flag(): boolean {
+    return this.read(1) === 1;
+  }
+}
+
+function ilog(value: number): number {
+  let bits = 0;
+  while (value > 0) {
+    bits++;
+    value = Math.floor(value / 2);
+  }
+  return bits;
+}
+
+function float32Unpack(value: number): number {
+  const mantissa = value & 0x1fffff;
+  const exponent = (value >>> 21) & 0x3ff;
+  const result = mantissa * 2 ** (exponent - 788);
+  return value & 0x80000000 ? -result : result;
+}
+
+// ============================================
+// Codebooks
+// ============================================
+
+// Codewords up to this long are decoded with one table lookup
+const FAST_BITS = 10;
+
+interface Codebook {
+  dimensions: number;
+  entries: number;
+  /**
+   * (entry << 5) | length by the next FAST_BITS bits, -1 for longer codes
+   */
+  fast: Int32Array;
+  /**
+   * Binary tree of all codes: [left, right] per node, leaves are -(entry + 1)
+   */
+  tree: Int32Array;
+  /**
+   * VQ vectors, dimensions values per entry (null without a lookup table)
+   */
+  vectors: Float32Array | null;
+}
+
+function readCodebook(reader: BitReader): Codebook {
+  if (reader.read(24) !== 0x564342) {
+    throw new AudioParseError("Invalid Vorbis codebook");
+  }
+  const dimensions = reader.read(16);
+  const entries = reader.read(24);
+  const lengths = new Uint8Array(entries);
+  if (reader.flag()) {
+    // Ordered: runs of entries with increasing lengths
+    let length = reader.read(5) + 1;
+    for (let entry = 0; entry < entries; length++) {
+      const count = reader.read(ilog(entries - entry));
+      lengths.fill(length, entry, entry + count);
+      entry += count;
+    }
+  } else {
+    const sparse = reader.flag();
+    for (let entry = 0; entry < entries; entry++) {
+      if (!sparse || reader.flag()) {
+        lengths[entry] = reader.read(5) + 1;
+      }
+    }
+  }
+
+  let vectors: Float32Array | null = null;
+  const lookupType = reader.read(4);
+  if (lookupType === 1 || lookupType === 2) {
+    const minimum = float32Unpack(reader.read32());
+    const delta = float32Unpack(reader.read32());
+    const valueBits = reader.read(4) + 1;
+    const sequence = reader.flag();
+    let lookupValues = entries * dimensions;
+    if (lookupType === 1) {
+      // Largest r with r^dimensions <= entries
+      lookupValues = Math.floor(entries ** (1 / dimensions));
+      while ((lookupValues + 1) ** dimensions <= entries) {
+        lookupValues++;
+      }
+      while (lookupValues > 0 && lookupValues ** dimensions > entries) {
+        lookupValues--;
+      }
+    }
+    const multiplicands = Array.from({ length: lookupValues }, () =>
+      reader.read(valueBits),
+    );
+
+    vectors = new Float32Array(entries * dimensions);
+    for (let entry = 0; entry < entries; entry++) {
+      let last = 0;
+      let divisor = 1;
+      for (let i = 0; i < dimensions; i++) {
+        const offset =
+          lookupType === 1
+            ? Math.floor(entry / divisor) % lookupValues
+            : entry * dimensions + i;
+        const value = multiplicands[offset] * delta + minimum + last;
+        vectors[entry * dimensions + i] = value;
+        if (sequence) {
+          last = value;
+        }
+        divisor *= lookupValues;
+      }
+    }
+  } else if (lookupType !== 0) {
+    throw new AudioParseError("Invalid Vorbis codebook lookup type");
+  }
+
+  return { dimensions, entries, vectors, ...buildHuffman(lengths) };
+}
+
+/**
+ * Assign codewords in entry order, each taking the lowest free code of its
+ * length (the Vorbis I scheme), and index them for decoding
+ */
+function buildHuffman(lengths: Uint8Array) {
+  const fast = new Int32Array(1 << FAST_BITS).fill(-1);
+  const nodes: number[] = [0, 0];
+  const used = [...lengths.keys()].filter((entry) => lengths[entry] > 0);
+
+  const insert = (entry: number, code: number, length: number) => {
+    let node = 0;
+    for (let bit = length - 1; bit >= 0; bit--) {
+      const side = node * 2 + (Math.floor(code / 2 ** bit) & 1);
+      if (bit === 0) {
+        nodes[side] = -(entry + 1);
+      } else {
+        if (nodes[side] <= 0) {
+          nodes[side] = nodes.length / 2;
+          nodes.push(0, 0);
+        }
+        node = nodes[side];
+      }
+    }
+    if (length <= FAST_BITS) {
+      // Bits are read LSB first, so the lookup index is the reversed code
+      let reversed = 0;
+      for (let bit = 0; bit < length; bit++) {
+        reversed |= ((code >> bit) & 1) << (length - 1 - bit);
+      }
+      for (let fill = reversed; fill < fast.length; fill += 1 << length) {
+        fast[fill] = (entry << 5) | length;
+      }
+    }
+  };
+
+  if (used.length === 1) {
+    // A single entry decodes whatever the bit
+    const entry = used[0];
+    fast.fill((entry << 5) | lengths[entry]);
+    nodes[0] = nodes[1] = -(entry + 1);
+  } else {
+    // Free codes by length, left-aligned in 32 bits
+    const available = new Array<number>(33).fill(0);
+    used.forEach((entry, index) => {
+      const length = lengths[entry];
+      if (index === 0) {
+        for (let i = 1; i <= length; i++) {
+          available[i] = 2 ** (32 - i);
+        }
+        insert(entry, 0, length);
+        return;
+      }
+      let z = length;
+      while (z > 0 && !available[z]) {
+        z--;
+      }
+      if (z === 0) {
+        throw new AudioParseError("Overspecified Vorbis codebook");
+      }
+      const code = available[z];
+      available[z] = 0;
+      insert(entry, code / 2 ** (32 - length), length);
+      for (let y = length; y > z; y--) {
+        available[y] = code + 2 ** (32 - y);
+      }
+    });
+  }
+
+  return { fast, tree: Int32Array.from(nodes) };
+}
+
+/**
+ * Decode one entry number (-1 at the end of the packet or on a bad code)
+ */
+function decodeEntry(reader: BitReader, book: Codebook): number {
+  const fast = book.fast[reader.peek(FAST_BITS)];
+  if (fast >= 0) {
+    reader.skip(fast & 31);
+    return reader.eof ? -1 : fast >> 5;
+  }
+  let node = 0;
+  for (let depth = 0; depth < 32; depth++) {
+    const next = book.tree[node * 2 + reader.read(1)];
+    if (reader.eof || next === 0) {
+      return -1;
+    }
+    if (next < 0) {
+      return -next - 1;
+    }
+    node = next;
+  }
+  return -1;
+}
+
+// ============================================
+// Setup header
+// ============================================
+
+interface Floor {
+  partitionClasses: number[];
+  classDimensions: number[];
+  classSubclasses: number[];
+  classMasterbooks: number[];
+  subclassBooks: number[][];
+  multiplier: number;
+  xList: number[];
+  /**
+   * Indices into xList by ascending x
+   */
+  sorted: number[];
+  lowNeighbor: number[];
+  highNeighbor: number[];
+}
+
+interface Residue {
+  type: number;
+  begin: number;
+  end: number;
+  partitionSize: number;
+  classifications: number;
+  classbook: number;
+  /**
+   * Codebook per classification and pass (-1 for none)
+   */
+  books: number[][];
+}
+
+interface Mapping {
+  magnitude: number[];
+  angle: number[];
+  /**
+   * Submap by channel
+   */
+  mux: number[];
+  submapFloor: number[];
+  submapResidue: number[];
+}
+
+interface Mode {
+  long: boolean;
+  mapping: number;
+}
+
+interface Setup {
+  codebooks: Codebook[];
+  floors: Floor[];
+  residues: Residue[];
+  mappings: Mapping[];
+  modes: Mode[];
+}
+
+function readFloor(reader: BitReader): Floor {
+  if (reader.read(16) !== 1) {
+    throw new AudioParseError("Only Vorbis floor type 1 is supported");
+  }
+  const partitionClasses = Array.from({ length: reader.read(5) }, () =>
+    reader.read(4),
+  );
+  const classCount = Math.max(-1, ...partitionClasses) + 1;
+  const classDimensions: number[] = [];
+  const classSubclasses: number[] = [];
+  const classMasterbooks: number[] = [];
+  const subclassBooks: number[][] = [];
+  for (let c = 0; c < classCount; c++) {
+    classDimensions.push(reader.read(3) + 1);
+    const subclasses = reader.read(2);
+    classSubclasses.push(subclasses);
+    classMasterbooks.push(subclasses ? reader.read(8) : -1);
+    subclassBooks.push(
+      Array.from({ length: 1 << subclasses }, () => reader.read(8) - 1),
+    );
+  }
+  const multiplier = reader.read(2) + 1;
+  const rangeBits = reader.read(4);
+  const xList = [0, 1 << rangeBits];
+  for (const c of partitionClasses) {
+    for (let j = 0; j < classDimensions[c]; j++) {
+      xList.push(reader.read(rangeBits));
+    }
+  }
+
+  const sorted = [...xList.keys()].sort((a, b) => xList[a] - xList[b]);
+  const lowNeighbor: number[] = [];
+  const highNeighbor: number[] = [];
+  for (let i = 2; i < xList.length; i++) {
+    let low = 0;
+    let high = 1;
+    for (let j = 0; j < i; j++) {
+      if (xList[j] < xList[i] && xList[j] > xList[low]) {
+        low = j;
+      }
+      if (xList[j] > xList[i] && xList[j] < xList[high]) {
+        high = j;
+      }
+    }
+    lowNeighbor[i] = low;
+    highNeighbor[i] = high;
+  }
+
+  return {
+    partitionClasses,
+    classDimensions,
+    classSubclasses,
+    classMasterbooks,
+    subclassBooks,
+    multiplier,
+    xList,
+    sorted,
+    lowNeighbor,
+    highNeighbor,
+  };
+}
+
+function readResidue(reader: BitReader): Residue {
+  const type = reader.read(16);
+  if (type > 2) {
+    throw new AudioParseError("Invalid Vorbis residue type");
+  }
+  const begin = reader.read(24);
+  const end = reader.read(24);
+  const partitionSize = reader.read(24) + 1;
+  const classifications = reader.read(6) + 1;
+  const classbook = reader.read(8);
+  const cascades = Array.from({ length: classifications }, () => {
+    const low = reader.read(3);
+    return reader.flag() ? reader.read(5) * 8 + low : low;
+  });
+  const books = cascades.map((cascade) =>
+    Array.from({ length: 8 }, (_, pass) =>
+      cascade & (1 << pass) ? reader.read(8) : -1,
+    ),
+  );
+  return {
+    type,
+    begin,
+    end,
+    partitionSize,
+    classifications,
+    classbook,
+    books,
+  };
+}
+
+function readMapping(reader: BitReader, channels: number): Mapping {
+  if (reader.read(16) !== 0) {
+    throw new AudioParseError("Invalid Vorbis mapping type");
+  }
+  const submaps = reader.flag() ? reader.read(4) + 1 : 1;
+  const magnitude: number[] = [];
+  const angle: number[] = [];
+  if (reader.flag()) {
+    const steps = reader.read(8) + 1;
+    const bits = ilog(channels - 1);
+    for (let i = 0; i < steps; i++) {
+      magnitude.push(reader.read(bits));
+      angle.push(reader.read(bits));
+    }
+  }
+  if (reader.read(2) !== 0) {
+    throw new AudioParseError("Invalid Vorbis mapping");
+  }
+  const mux = Array.from({ length: channels }, () =>
+    submaps > 1 ? reader.read(4) : 0,
+  );
+  const submapFloor: number[] = [];
+  const submapResidue: number[] = [];
+  for (let i = 0; i < submaps; i++) {
+    reader.read(8); // Unused time configuration
+    submapFloor.push(reader.read(8));
+    submapResidue.push(reader.read(8));
+  }
+  return { magnitude, angle, mux, submapFloor, submapResidue };
+}
+
+function readSetup(packet: Uint8Array, channels: number): Setup {
+  const reader = new BitReader(packet);
+  reader.skip(7 * 8); // Packet type and "vorbis"
+
+  const codebooks = Array.from({ length: reader.read(8) + 1 }, () =>
+    readCodebook(reader),
+  );
+  const timeCount = reader.read(6) + 1;
+  for (let i = 0; i < timeCount; i++) {
+    reader.read(16);
+  }
+  const floors = Array.from({ length: reader.read(6) + 1 }, () =>
+    readFloor(reader),
+  );
+  const residues = Array.from({ length: reader.read(6) + 1 }, () =>
+    readResidue(reader),
+  );
+  const mappings = Array.from({ length: reader.read(6) + 1 }, () =>
+    readMapping(reader, channels),
+  );
+  const modes = Array.from({ length: reader.read(6) + 1 }, () => {
+    const long = reader.flag();
+    reader.read(16); // Window type
+    reader.read(16); // Transform type
+    return { long, mapping: reader.read(8) };
+  });
+  if (reader.eof || !reader.flag()) {
+    throw new AudioParseError("Truncated Vorbis setup header");
+  }
+  return { codebooks, floors, residues, mappings, modes };
+}
+
+// ============================================
+// Audio packets
+// ============================================
+
+// Floor 1 amplitudes: 256 steps from about -140 dB to 0 dB
+const INVERSE_DB = Float32Array.from(
+  { length: 256 },
+  (_, i) => 1.0649863e-7 * (1 / 1.0649863e-7) ** (i / 255),
+);
+
+const FLOOR_RANGES = [256, 128, 86, 64];
+
+function renderPoint(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  x: number,
+) {
+  const dy = y1 - y0;
+  const offset = Math.floor((Math.abs(dy) * (x - x0)) / (x1 - x0));
+  return dy < 0 ? y0 - offset : y0 + offset;
+}
+
+function renderLine(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  curve: Float32Array,
+) {
+  const dy = y1 - y0;
+  const adx = x1 - x0;
+  const base = Math.trunc(dy / adx);
+  const step = dy < 0 ? base - 1 : base + 1;
+  const ady = Math.abs(dy) - Math.abs(base) * adx;
+  let y = y0;
+  let error = 0;
+  const end = Math.min(x1, curve.length);
+  if (x0 < end) {
+    curve[x0] = INVERSE_DB[y & 255];
+  }
+  for (let x = x0 + 1; x < end; x++) {
+    error += ady;
+    if (error >= adx) {
+      error -= adx;
+      y += step;
+    } else {
+      y += base;
+    }
+    curve[x] = INVERSE_DB[y & 255];
+  }
+}
+
+/**
+ * Decode a channel's floor 1 curve (null if the channel is unused here)
+ */
+function decodeFloor(
+  reader: BitReader,
+  floor: Floor,
+  codebooks: Codebook[],
+  size: number,
+): Float32Array | null {
+  if (!reader.flag()) {
+    return null;
+  }
+  const range = FLOOR_RANGES[floor.multiplier - 1];
+  const bits = ilog(range - 1);
+  const y = [reader.read(bits), reader.read(bits)];
+  for (const c of floor.partitionClasses) {
+    const subclassBits = floor.classSubclasses[c];
+    const mask = (1 << subclassBits) - 1;
+    let value = subclassBits
+      ? decodeEntry(reader, codebooks[floor.classMasterbooks[c]])
+      : 0;
+    for (let j = 0; j < floor.classDimensions[c]; j++) {
+      const book = floor.subclassBooks[c][value & mask];
+      value >>= subclassBits;
+      y.push(book >= 0 ? decodeEntry(reader, codebooks[book]) : 0);
+    }
+  }
+  if (reader.eof) {
+    return null;
+  }
+
+  // Amplitude values are deltas from the line between the neighbours
+  const { xList } = floor;
+  const finalY = [y[0], y[1]];
+  const used = [true, true];
+  for (let i = 2; i < xList.length; i++) {
+    const low = floor.lowNeighbor[i];
+    const high = floor.highNeighbor[i];
+    const predicted = renderPoint(
+      xList[low],
+      finalY[low],
+      xList[high],
+      finalY[high],
+      xList[i],
+    );
+    const value = y[i];
+    const highRoom = range - predicted;
+    const lowRoom = predicted;
+    const room = Math.min(highRoom, lowRoom) * 2;
+    if (value === 0) {
+      used[i] = false;
+      finalY[i] = predicted;
+      continue;
+    }
+    used[low] = used[high] = used[i] = true;
+    if (value >= room) {
+      finalY[i] =
+        highRoom > lowRoom
+          ? value - lowRoom + predicted
+          : predicted - value + highRoom - 1;
+    } else {
+      finalY[i] =
+        value & 1 ? predicted - (value + 1) / 2 : predicted + value / 2;
+    }
+  }
+
+  const curve = new Float32Array(size);
+  let lx = 0;
+  let ly = finalY[0] * floor.multiplier;
+  for (const i of floor.sorted.slice(1)) {
+    if (used[i]) {
+      const hy = finalY[i] * floor.multiplier;
+      renderLine(lx, ly, xList[i], hy, curve);
+      lx = xList[i];
+      ly = hy;
+    }
+  }
+  if (lx < size) {
+    renderLine(lx, ly, size, ly, curve);
+  }
+  return curve;
+}
+
+/**
+ * Decode a residue into the channels' vectors (format 2 interleaves all
+ * channels into one vector)
+ */
+function decodeResidue(
+  reader: BitReader,
+  residue: Residue,
+  codebooks: Codebook[],
+  vectors: Float32Array[],
+  skip: boolean[],
+): void {
+  const size = vectors[0].length;
+  let targets = vectors;
+  let decode = skip.map((value) => !value);
+  if (residue.type === 2) {
+    if (!decode.some(Boolean)) {
+      return;
+    }
+    targets = [new Float32Array(size * vectors.length)];
+    decode = [true];
+  }
+
+  const actualSize = targets[0].length;
+  const begin = Math.min(residue.begin, actualSize);
+  const end = Math.min(residue.end, actualSize);
+  const partitions = Math.floor((end - begin) / residue.partitionSize);
+  const classbook = codebooks[residue.classbook];
+  const perCodeword = classbook.dimensions;
+  const classes = targets.map(() => new Int32Array(partitions + perCodeword));
+
+  decoding: for (let pass = 0; pass < 8; pass++) {
+    let partition = 0;
+    while (partition < partitions) {
+      if (pass === 0) {
+        for (let ch = 0; ch < targets.length; ch++) {
+          if (!decode[ch]) {
+            continue;
+          }
+          let value = decodeEntry(reader, classbook);
+          if (value < 0) {
+            break decoding;
+          }
+          for (let i = perCodeword - 1; i >= 0; i--) {
+            classes[ch][partition + i] = value % residue.classifications;
+            value = Math.floor(value / residue.classifications);
+          }
+        }
+      }
+      for (let i = 0; i < perCodeword && partition < partitions; i++) {
+        for (let ch = 0; ch < targets.length; ch++) {
+          if (!decode[ch]) {
+            continue;
+          }
+          const bookIndex = residue.books[classes[ch][partition]][pass];
+          if (bookIndex < 0) {
+            continue;
+          }
+          const book = codebooks[bookIndex];
+          const vectorsOf = book.vectors;
+          if (!vectorsOf) {
+            break decoding;
+          }
+          const target = targets[ch];
+          const offset = begin + partition * residue.partitionSize;
+          const dims = book.dimensions;
+          if (residue.type === 0) {
+            const step = residue.partitionSize / dims;
+            for (let j = 0; j < step; j++) {
+              const entry = decodeEntry(reader, book);
+              if (entry < 0) {
+                break decoding;
+              }
+              for (let k = 0; k < dims; k++) {
+                target[offset + j + k * step] += vectorsOf[entry * dims + k];
+              }
+            }
+          } else {
+            for (let j = 0; j < residue.partitionSize;) {
+              const entry = decodeEntry(reader, book);
+              if (entry < 0) {
+                break decoding;
+              }
+              for (let k = 0; k < dims; k++, j++) {
+                target[offset + j] += vectorsOf[entry * dims + k];
+              }
+            }
+          }
+        }
+        partition++;
+      }
+    }
+  }
+
+  if (residue.type === 2) {
+    const interleaved = targets[0];
+    for (let i = 0; i < size; i++) {
+      for (let ch = 0; ch < vectors.length; ch++) {
+        vectors[ch][i] = interleaved[i * vectors.length + ch];
+      }
+    }
+  }
+}
+
+// ============================================
+// Inverse MDCT
+// ============================================
+
+/**
+ * In-place radix-2 complex FFT
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let length = 2; length <= n; length <<= 1) {
+    const half = length >> 1;
+    const angle = (-2 * Math.PI) / length;
+    for (let k = 0; k < half; k++) {
+      const wr = Math.cos(angle * k);
+      const wi = Math.sin(angle * k);
+      for (let i = k; i < n; i += length) {
+        const j = i + half;
+        const tr = re[j] * wr - im[j] * wi;
+        const ti = re[j] * wi + im[j] * wr;
+        re[j] = re[i] - tr;
+        im[j] = im[i] - ti;
+        re[i] += tr;
+        im[i] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * DCT-IV of x via a complex FFT of a quarter of the block
+ */
+function dct4(x: Float32Array): Float64Array {
+  const m = x.length;
+  const half = m / 2;
+  const re = new Float64Array(half);
+  const im = new Float64Array(half);
+  for (let n = 0; n < half; n++) {
+    const a = x[2 * n];
+    const b = x[m - 1 - 2 * n];
+    const t = (-Math.PI * (4 * n + 1)) / (4 * m);
+    const c = Math.cos(t);
+    const s = Math.sin(t);
+    re[n] = a * c - b * s;
+    im[n] = a * s + b * c;
+  }
+  fft(re, im);
+  const u = new Float64Array(m);
+  for (let k = 0; k < half; k++) {
+    const t = (-Math.PI * k) / m;
+    const c = Math.cos(t);
+    const s = Math.sin(t);
+    u[2 * k] = re[k] * c - im[k] * s;
+    u[m - 1 - 2 * k] = -(re[k] * s + im[k] * c);
+  }
+  return u;
+}
+
+/**
+ * Inverse MDCT of n/2 coefficients into n samples
+ */
+function imdct(spectrum: Float32Array): Float32Array {
+  const m = spectrum.length;
+  const u = dct4(spectrum);
+  const out = new Float32Array(2 * m);
+  for (let n = 0; n < 2 * m; n++) {
+    const t = n + m / 2;
+    out[n] = t < m ? u[t] : t < 2 * m ? -u[2 * m - 1 - t] : -u[t - 2 * m];
+  }
+  return out;
+}
+
+const slopes = new Map<number, Float32Array>();
+
+/**
+ * Rising half of the Vorbis power-sine window over n samples
+ */
+function slope(n: number): Float32Array {
+  let curve = slopes.get(n);
+  if (!curve) {
+    curve = Float32Array.from({ length: n }, (_, i) => {
+      const s = Math.sin(((i + 0.5) / n) * (Math.PI / 2));
+      return Math.sin((Math.PI / 2) * s * s);
+    });
+    slopes.set(n, curve);
+  }
+  return curve;
+}
+
+function applyWindow(
+  block: Float32Array,
+  long: boolean,
+  previousLong: boolean,
+  nextLong: boolean,
+  shortSize: number,
+): void {
+  const n = block.length;
+  const leftShort = long && !previousLong;
+  const rightShort = long && !nextLong;
+  const leftStart = leftShort ? n / 4 - shortSize / 4 : 0;
+  const leftSize = leftShort ? shortSize / 2 : n / 2;
+  const rightStart = rightShort ? (3 * n) / 4 - shortSize / 4 : n / 2;
+  const rightSize = rightShort ? shortSize / 2 : n / 2;
+
+  block.fill(0, 0, leftStart);
+  const rise = slope(leftSize);
+  for (let i = 0; i < leftSize; i++) {
+    block[leftStart + i] *= rise[i];
+  }
+  const fall = slope(rightSize);
+  for (let i = 0; i < rightSize; i++) {
+    block[rightStart + i] *= fall[rightSize - 1 - i];
+  }
+  block.fill(0, rightStart + rightSize);
+}
+
+/**
+ * Decode an Ogg Vorbis file, passing mono PCM (channels averaged, -1..1) to
+ * onSamples one packet at a time, trimmed to the final granule position.
+ * Throws AudioParseError if the data is not Vorbis or uses features this
+ * decoder lacks (floor type 0).
+ */
+export function decodeVorbis(
+  data: Uint8Array,
+  onSamples: (samples: Float32Array) => void,
+): void {
+  // Read the headers without for...of, which would close the generator
+  const packets = oggPackets(data);
+  const headers: Uint8Array[] = [];
+  let serial = 0;
+  while (headers.length < 3) {
+    const next = packets.next();
+    if (next.done) {
+      break;
+    }
+    headers.push(next.value.packet);
+    serial = next.value.serial;
+  }
+  const [identification, , setupPacket] = headers;
+  if (
+    !setupPacket ||
+    identification.byteLength < 30 ||
+    identification[0] !== 1 ||
+    String.fromCharCode(...identification.subarray(1, 7)) !== "vorbis" ||
+    setupPacket[0] !== 5
+  ) {
+    throw new AudioParseError("Not an Ogg Vorbis stream");
+  }
+  const channels = identification[11];
+  const shortSize = 1 << (identification[28] & 15);
+  const longSize = 1 << (identification[28] >> 4);
+  const setup = readSetup(setupPacket, channels);
+  const modeBits = ilog(setup.modes.length - 1);
+
+  const lastGranule = lastOggGranule(data, serial);
+  let remaining = lastGranule === null ? Infinity : Number(lastGranule);
+  let previous: Float32Array | null = null;
+
+  for (const { packet } of packets) {
+    if (remaining <= 0) {
+      break;
+    }
+    const reader = new BitReader(packet);
+    if (reader.read(1) !== 0) {
+      continue; // Not an audio packet
+    }
+    const mode = setup.modes[reader.read(modeBits)];
+    if (!mode) {
+      continue;
+    }
+    const size = mode.long ? longSize : shortSize;
+    const previousLong = mode.long ? reader.flag() : false;
+    const nextLong = mode.long ? reader.flag() : false;
+    if (reader.eof) {
+      continue;
+    }
+
+    const mapping = setup.mappings[mode.mapping];
+    const half = size / 2;
+    const floors = mapping.mux.map((submap) =>
+      decodeFloor(
+        reader,
+        setup.floors[mapping.submapFloor[submap]],
+        setup.codebooks,
+        half,
+      ),
+    );
+
+    // Coupled channels are decoded if either has audio
+    const unused = floors.map((curve) => curve === null);
+    mapping.magnitude.forEach((magnitude, i) => {
+      const angle = mapping.angle[i];
+      if (!unused[magnitude] || !unused[angle]) {
+        unused[magnitude] = unused[angle] = false;
+      }
+    });
+
+    const vectors = floors.map(() => new Float32Array(half));
+    mapping.submapResidue.forEach((residue, submap) => {
+      const members = mapping.mux
+        .map((value, ch) => (value === submap ? ch : -1))
+        .filter((ch) => ch >= 0);
+      decodeResidue(
+        reader,
+        setup.residues[residue],
+        setup.codebooks,
+        members.map((ch) => vectors[ch]),
+        members.map((ch) => unused[ch]),
+      );
+    });
+
+    for (let i = mapping.magnitude.length - 1; i >= 0; i--) {
+      const magnitude = vectors[mapping.magnitude[i]];
+      const angle = vectors[mapping.angle[i]];
+      for (let j = 0; j < half; j++) {
+        const m = magnitude[j];
+        const a = angle[j];
+        if (m > 0) {
+          magnitude[j] = a > 0 ? m : m + a;
+          angle[j] = a > 0 ? m - a : m;
+        } else {
+          magnitude[j] = a > 0 ? m : m - a;
+          angle[j] = a > 0 ? m + a : m;
+        }
+      }
+    }
+
+    const spectrum = new Float32Array(half);
+    floors.forEach((curve, ch) => {
+      if (curve) {
+        for (let i = 0; i < half; i++) {
+          spectrum[i] += (vectors[ch][i] * curve[i]) / channels;
+        }
+      }
+    });
+
+    const block = imdct(spectrum);
+    applyWindow(block, mode.long, previousLong, nextLong, shortSize);
+
+    // Audio runs from the previous block's centre to this one's; the
+    // first packet only primes the overlap
+    if (previous) {
+      const previousSize = previous.length * 2;
+      const length = previousSize / 4 + size / 4;
+      const start = size / 4 - previousSize / 4;
+      const output = new Float32Array(length);
+      for (let j = 0; j < length; j++) {
+        const t = start + j;
+        output[j] =
+          (t >= 0 ? block[t] : 0) + (j < previous.length ? previous[j] : 0);
+      }
+      const samples = output.subarray(0, Math.min(length, remaining));
+      remaining -= samples.length;
+      onSamples(samples);
+    }
+    previous = block.slice(half);
+  }
+
+  if (!previous) {
+    throw new AudioParseError("No Vorbis audio packets found");
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Waveforms
+ * Min/max peaks of audio files for drawing waveforms without decoding in
+ * the client. Peaks are computed once at a fine resolution, cached under
+ * .cdn/waveforms/<path>/ in the audiowaveform binary format, and merged
+ * down to the requested number of points. MP3 and Vorbis are decoded on a
+ * worker thread.
+ */
+
+import { createHash } from "crypto";
+import { systemKey } from "../storage/keys";
+import type { StorageBackend } from "../storage/types";
+import { decodeAudio } from "./audio-decode";
+import {
+  AudioParseError,
+  getAudioMetadata,
+  type AudioMetadata,
+} from "./audio-metadata";
+import { decodeMp3 } from "./mp3-decoder";
+import { decodeVorbis } from "./vorbis-decoder";
+import { createWorkerClient } from "./worker-client";
+
+export const DEFAULT_WAVEFORM_POINTS = 1000;
+export const MAX_WAVEFORM_POINTS = 20000;
+
+// Resolution of the cached peaks (about 5.8ms per pixel at 44.1kHz)
+const BASE_SAMPLES_PER_PIXEL = 256;
+
+/**
+ * Peaks in audiowaveform's JSON format: data holds min, max pairs of 16-bit
+ * values, one pair per samples_per_pixel input samples
+ */
+export interface WaveformData {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 16;
+  length: number;
+  data: number[];
+}
+
+/**
+ * Collects min/max of fixed-size groups of samples as 16-bit values
+ */
+class PeakBuilder {
+  private peaks: number[] = [];
+  private count = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  push(samples: ArrayLike<number>): void {
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      if (value < this.min) {
+        this.min = value;
+      }
+      if (value > this.max) {
+        this.max = value;
+      }
+      if (++this.count === BASE_SAMPLES_PER_PIXEL) {
+        this.flush();
+      }
+    }
+  }
+
+  private flush(): void {
+    const scale = (value: number) =>
+      Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+    this.peaks.push(scale(this.min), scale(this.max));
+    this.count = 0;
+    this.min = Infinity;
+    this.max = -Infinity;
+  }
+
+  finish(): Int16Array {
+    if (this.count > 0) {
+      this.flush();
+    }
+    return Int16Array.from(this.peaks);
+  }
+}
+
+export type CompressedCodec = "mp3" | "vorbis";
+
+/**
+ * Decode a whole MP3 or Vorbis file to full-resolution peaks
+ */
+export function decodePeaks(
+  data: Uint8Array,
+  codec: CompressedCodec,
+): Int16Array {
+  const peaks = new PeakBuilder();
+  const decode = codec === "mp3" ? decodeMp3 : decodeVorbis;
+  decode(data, (samples) => peaks.push(samples));
+  return peaks.finish();
+}
+
+// Decoding takes over a second for a few minutes of audio, far too long to
+// block other requests
+const decodePeaksInWorker = createWorkerClient<
+  { data: Uint8Array; codec: CompressedCodec },
+  Int16Array
+>(new URL("../workers/waveform-peaks.ts", import.meta.url), {
+  AudioParseError,
+});
+
+/**
+ * Decode an audio file to full-resolution peaks
+ * WAV samples are streamed here; MP3 and Vorbis go to the worker.
+ */
+export async function computePeaks(
+  storage: StorageBackend,
+  path: string,
+  size: number,
+  metadata: AudioMetadata,
+): Promise<Int16Array> {
+  if (
+    metadata.container !== "wav" &&
+    (metadata.codec === "mp3" || metadata.codec === "vorbis")
+  ) {
+    const data = await storage.read(path);
+    if (!data) {
+      throw new AudioParseError("File disappeared while reading");
+    }
+    // Copied rather than transferred: a backend may hand out a view of a
+    // shared buffer
+    return decodePeaksInWorker({ data, codec: metadata.codec });
+  }
+
+  const peaks = new PeakBuilder();
+  await decodeAudio(storage, path, size, metadata, (samples) =>
+    peaks.push(samples),
+  );
+  return peaks.finish();
+}
+
+/**
+ * audiowaveform binary (.dat) version 1 with 16-bit min/max pairs
+ */
+export function encodeWaveformDat(
+  peaks: Int16Array,
+  sampleRate: number,
+): Uint8Array {
+  const out = new Uint8Array(20 + peaks.byteLength);
+  const dv = new DataView(out.buffer);
+  dv.setInt32(0, 1, true);
+  dv.setUint32(4, 0, true);
+  dv.setInt32(8, sampleRate, true);
+  dv.setInt32(12, BASE_SAMPLES_PER_PIXEL, true);
+  dv.setUint32(16, peaks.length / 2, true);
+  for (let i = 0; i < peaks.length; i++) {
+    dv.setInt16(20 + i * 2, peaks[i], true);
+  }
+  return out;
+}
+
+export function decodeWaveformDat(data: Uint8Array): {
+  sampleRate: number;
+  samplesPerPixel: number;
+  peaks: Int16Array;
+} {
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 20 || dv.getInt32(0, true) !== 1) {
+    throw new Error("Invalid waveform data");
+  }
+  const length = dv.getUint32(16, true);
+  const peaks = new Int16Array(length * 2);
+  for (let i = 0; i < peaks.length; i++) {
+    peaks[i] = dv.getInt16(20 + i * 2, true);
+  }
+  return {
+    sampleRate: dv.getInt32(8, true),
+    samplesPerPixel: dv.getInt32(12, true),
+    peaks,
+  };
+}
+
+/**
+ * Merge groups of pixels so there are at most points of them
+ */
+export function downsamplePeaks(
+  peaks: Int16Array,
+  samplesPerPixel: number,
+  points: number,
+): { samplesPerPixel: number; data: number[] } {
+  const pixels = peaks.length / 2;
+  const factor = Math.max(1, Math.ceil(pixels / points));
+  const data: number[] = [];
+  for (let start = 0; start < pixels; start += factor) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = start; i < Math.min(pixels, start + factor); i++) {
+      min = Math.min(min, peaks[i * 2]);
+      max = Math.max(max, peaks[i * 2 + 1]);
+    }
+    data.push(min, max);
+  }
+  return { samplesPerPixel: samplesPerPixel * factor, data };
+}
+
+// Peaks being computed, so concurrent requests share the work
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Get the waveform of an audio file at up to points pixels, computing and
+ * caching its peaks if needed. Returns null if the file does not exist;
+ * throws AudioParseError for unreadable or unsupported audio.
+ */
+export async function getWaveform(
+  storage: StorageBackend,
+  path: string,
+  points: number,
+): Promise<{ etag: string; waveform: WaveformData } | null> {
+  const [audio, stat] = await Promise.all([
+    getAudioMetadata(storage, path),
+    storage.stat(path),
+  ]);
+  if (!audio || !stat) {
+    return null;
+  }
+
+  const fingerprint = createHash("sha256")
+    .update(`${path}\0${audio.etag}`)
+    .digest("hex")
+    .slice(0, 16);
+  const dir = systemKey("waveforms", path);
+  const key = `${dir}/${fingerprint}.dat`;
+
+  if (!(await storage.stat(key))) {
+    let job = inFlight.get(key);
+    if (!job) {
+      job = (async () => {
+        const started = Date.now();
+        const peaks = await computePeaks(
+          storage,
+          path,
+          stat.size,
+          audio.metadata,
+        );
+        await storage.write(
+          key,
+          encodeWaveformDat(peaks, audio.metadata.sampleRate),
+        );
+
+        // Drop peaks computed from older content
+        for (const entry of await storage.list(dir)) {
+          if (entry.key !== key) {
+            await storage.delete(entry.key);
+          }
+        }
+        console.log(
+          `[Waveforms] ${path}: ${peaks.length / 2} pixels (${Date.now() - started}ms)`,
+        );
+      })().finally(() => inFlight.delete(key));
+      inFlight.set(key, job);
+    }
+    await job;
+  }
+
+  const stored = await storage.read(key);
+  if (!stored) {
+    return null;
+  }
+  const { sampleRate, samplesPerPixel, peaks } = decodeWaveformDat(stored);
+  const merged = downsamplePeaks(peaks, samplesPerPixel, points);
+  return {
+    etag: `W/"${fingerprint}-${points}"`,
+    waveform: {
+      version: 2,
+      channels: 1,
+      sample_rate: sampleRate,
+      samples_per_pixel: merged.samplesPerPixel,
+      bits: 16,
+      length: merged.data.length / 2,
+      data: merged.data,
+    },
+  };
+}
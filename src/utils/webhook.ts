@@ -174,3 +174,19 @@ export function extractAssetId(filePath: string): string | null {
 
   return null;
 }
+
+/**
+ * Extract the directory-scoped asset ID of a file in an asset folder, as
+ * used by the file index and the asset API (folders with the same name in
+ * different directories are different assets)
+ * Examples:
+ *   "models/sword-123/textures/base.png" → "models/sword-123"
+ *   "music/combat/battle.mp3" → "music/combat"
+ *   "media/voice_1763075769580.mp3" → null (not in an asset folder)
+ * @param filePath - Relative file path
+ * @returns Asset ID or null if the file is not inside an asset folder
+ */
+export function extractScopedAssetId(filePath: string): string | null {
+  const parts = filePath.replace(/^\/+/, "").split("/");
+  return parts.length >= 3 ? `${parts[0]}/${parts[1]}` : null;
+}
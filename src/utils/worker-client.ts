@@ -0,0 +1,112 @@
+/**
+ * Background Worker Jobs
+ * CPU-heavy work (WASM model encoders, audio decoding) runs on a Bun
+ * Worker so it never blocks request handling on the main thread. Each
+ * client starts its worker on first use and keeps it for later jobs.
+ */
+
+// The worker's global scope, inside worker scripts
+declare var self: Worker;
+
+interface WorkerJob<T> {
+  id: number;
+  payload: T;
+}
+
+type WorkerReply<R> =
+  { id: number; result: R } | { id: number; error: string; errorName: string };
+
+/**
+ * Create a function that runs a job on the worker script at `url`
+ * Errors thrown by the job are rethrown as the matching class of
+ * `errorTypes` (by name), or as plain Errors. A worker that crashes fails
+ * its pending jobs and is replaced on the next call.
+ */
+export function createWorkerClient<T, R>(
+  url: URL,
+  errorTypes: Record<string, new (message: string) => Error> = {},
+): (payload: T, transfer?: Bun.Transferable[]) => Promise<R> {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (result: R) => void; reject: (error: Error) => void }
+  >();
+
+  function start(): Worker {
+    const started = new Worker(url.href);
+    started.onmessage = (event: MessageEvent<WorkerReply<R>>) => {
+      const reply = event.data;
+      const job = pending.get(reply.id);
+      if (!job) {
+        return;
+      }
+      pending.delete(reply.id);
+      if ("error" in reply) {
+        const ErrorType = errorTypes[reply.errorName] ?? Error;
+        job.reject(new ErrorType(reply.error));
+      } else {
+        job.resolve(reply.result);
+      }
+    };
+    started.onerror = (event) => {
+      console.error(`[Worker] ${url.pathname} crashed:`, event.message);
+      for (const job of pending.values()) {
+        job.reject(new Error(`Worker crashed: ${event.message}`));
+      }
+      pending.clear();
+      started.terminate();
+      worker = null;
+    };
+    // Don't keep the process alive just for an idle worker
+    started.unref();
+    return started;
+  }
+
+  return (payload, transfer = []) =>
+    new Promise<R>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker ??= start();
+      worker.postMessage({ id, payload } satisfies WorkerJob<T>, transfer);
+    });
+}
+
+/**
+ * Transfer list that hands a byte array's buffer to the worker instead of
+ * copying it. Only arrays spanning their whole buffer are transferred; a
+ * view into a larger buffer is copied so the rest stays usable.
+ */
+export function transferBytes(data: Uint8Array): Bun.Transferable[] {
+  return data.byteLength === data.buffer.byteLength
+    ? [data.buffer as ArrayBuffer]
+    : [];
+}
+
+/**
+ * Answer jobs posted by createWorkerClient (call from the worker script)
+ */
+export function serveWorkerJobs<T, R>(
+  handler: (payload: T) => Promise<R> | R,
+  transferOf: (result: R) => Bun.Transferable[] = () => [],
+): void {
+  self.onmessage = async (event: MessageEvent<WorkerJob<T>>) => {
+    const { id, payload } = event.data;
+    try {
+      const result = await handler(payload);
+      self.postMessage(
+        { id, result } satisfies WorkerReply<R>,
+        transferOf(result),
+      );
+    } catch (error) {
+      self.postMessage(
+        {
+          id,
+          error: error instanceof Error ? error.message : String(error),
+          errorName: error instanceof Error ? error.name : "Error",
+        } satisfies WorkerReply<R>,
+        [],
+      );
+    }
+  };
+}
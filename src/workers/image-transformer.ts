@@ -0,0 +1,13 @@
+/**
+ * Image Transformer Worker
+ * Decodes, resizes and re-encodes images for /img off the main thread
+ * (see getTransformedImage)
+ */
+
+import { transformImage, type ImageTransform } from "../utils/image-transform";
+import { serveWorkerJobs, transferBytes } from "../utils/worker-client";
+
+serveWorkerJobs<{ data: Uint8Array; transform: ImageTransform }, Uint8Array>(
+  ({ data, transform }) => transformImage(data, transform),
+  transferBytes,
+);
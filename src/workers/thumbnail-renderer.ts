@@ -0,0 +1,13 @@
+/**
+ * Thumbnail Renderer Worker
+ * Decodes, resizes and encodes thumbnails off the main thread (see
+ * getThumbnail)
+ */
+
+import { renderThumbnail } from "../utils/thumbnails";
+import { serveWorkerJobs } from "../utils/worker-client";
+
+serveWorkerJobs<{ data: Uint8Array; size: number }, Uint8Array>(
+  ({ data, size }) => renderThumbnail(data, size),
+  (thumbnail) => [thumbnail.buffer as ArrayBuffer],
+);
@@ -0,0 +1,23 @@
+/**
+ * Variant Builder Worker
+ * Checks the hash of a GLB and builds its variants off the main thread
+ * (see optimizeModel)
+ */
+
+import {
+  buildVariants,
+  type GlbVariant,
+  type VariantBuild,
+} from "../utils/gltf-optimize";
+import { serveWorkerJobs } from "../utils/worker-client";
+
+serveWorkerJobs<
+  { data: Uint8Array; hash: string; variants: GlbVariant[] },
+  VariantBuild[] | null
+>(
+  ({ data, hash, variants }) => buildVariants(data, hash, variants),
+  (builds) =>
+    (builds ?? []).flatMap((build) =>
+      "output" in build ? [build.output.buffer as ArrayBuffer] : [],
+    ),
+);
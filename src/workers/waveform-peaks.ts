@@ -0,0 +1,13 @@
+/**
+ * Waveform Peaks Worker
+ * Decodes MP3 and Vorbis files to peaks off the main thread (see
+ * computePeaks)
+ */
+
+import { decodePeaks, type CompressedCodec } from "../utils/waveform";
+import { serveWorkerJobs } from "../utils/worker-client";
+
+serveWorkerJobs<{ data: Uint8Array; codec: CompressedCodec }, Int16Array>(
+  ({ data, codec }) => decodePeaks(data, codec),
+  (peaks) => [peaks.buffer as ArrayBuffer],
+);